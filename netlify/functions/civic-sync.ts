@@ -66,6 +66,22 @@ type CivicOfficial = {
   urls?: string[]
   phones?: string[]
   channels?: { type: string; id: string }[]
+  address?: { line1?: string; line2?: string; line3?: string; city?: string; state?: string; zip?: string }[]
+}
+
+// Civic's first address for a federal official is the Washington office; others list a local office.
+// The first phone belongs to the same office, so it travels with the address (call scripts read it).
+function mailingAddress(o: CivicOfficial) {
+  const a = o.address?.[0]
+  if (!a?.line1 || !a.city || !a.state || !a.zip) return null
+  return {
+    line1: a.line1,
+    line2: [a.line2, a.line3].filter(Boolean).join(', ') || null,
+    city: a.city,
+    state: a.state,
+    zip: a.zip,
+    phone: o.phones?.[0] || null,
+  }
 }
 
 export const handler: Handler = async (event) => {
@@ -99,6 +115,7 @@ export const handler: Handler = async (event) => {
       return { statusCode: res.status, body: JSON.stringify({ ok: false, message: 'Civic API error', detail: text }) }
     }
     const payload = (await res.json()) as {
+      divisions?: Record<string, { name?: string }>
       offices?: CivicOffice[]
       officials?: CivicOfficial[]
     }
@@ -107,6 +124,18 @@ export const handler: Handler = async (event) => {
     const officials = payload.officials ?? []
     const results: any[] = []
 
+    // Every division the ZIP resolved to (incl. county/city), for rep matching in src/lib/reps.ts
+    const divisionIds = Object.keys(payload.divisions ?? {})
+    if (!divisionIds.length) divisionIds.push(...new Set(offices.map((o) => o.divisionId)))
+    if (divisionIds.length) {
+      await supabase
+        .from('civic_zip_divisions_cache')
+        .upsert(
+          { zip5: zip, ocd_division_ids: divisionIds, updated_at: new Date().toISOString() },
+          { onConflict: 'zip5' }
+        )
+    }
+
     for (const office of offices) {
       const divisionId = office.divisionId
       const officeName = office.name
@@ -128,6 +157,7 @@ export const handler: Handler = async (event) => {
         const twitter = o.channels?.find((c) => c.type === 'Twitter')?.id || null
         const facebook = o.channels?.find((c) => c.type === 'Facebook')?.id || null
         const contact_form_url = !contact_email && website ? website : null
+        const address = mailingAddress(o)
 
         const repRow = {
           civic_person_id,
@@ -142,6 +172,7 @@ export const handler: Handler = async (event) => {
           district,
           contact_email,
           contact_form_url,
+          ...(address ? { [level === 'federal' ? 'dc_office_address' : 'district_office_address']: address } : {}),
           phone,
           website,
           twitter,
@@ -0,0 +1,95 @@
+// netlify/functions/create-checkout-session.ts
+// Starts a Stripe Checkout subscription for the signed-in user.
+// The webhook (stripe-webhooks.ts) writes the subscription row once Stripe confirms it.
+// Users who already pay are sent to the billing portal to change plans instead, so a second
+// checkout can't leave them with two subscriptions.
+import type { Handler } from '@netlify/functions'
+import { createClient } from '@supabase/supabase-js'
+import { authHeaderOf, verifyBearer } from '../lib/auth'
+import { findCustomerId, isEntitled, rememberCustomerId, siteOrigin, stripe, tierForPrice } from '../lib/stripe'
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+  auth: { persistSession: false },
+})
+
+/** Reuse the user's Stripe customer so every subscription and invoice lands in one place. */
+async function ensureCustomer(userId: string, email: string | null): Promise<string> {
+  const existing = await findCustomerId(supabase, userId)
+  if (existing) return existing
+
+  // Same key, same customer: concurrent checkouts don't each create one
+  const customer = await stripe.customers.create(
+    { email: email ?? undefined, metadata: { user_id: userId } },
+    { idempotencyKey: `customer-${userId}` }
+  )
+  await rememberCustomerId(supabase, userId, customer.id)
+  // Whichever customer reached the profile first is the one to use
+  return (await findCustomerId(supabase, userId)) ?? customer.id
+}
+
+async function hasEntitledSubscription(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('status, past_due_since')
+    .eq('user_id', userId)
+  if (error) throw new Error(`subscriptions read failed: ${error.message}`)
+  return (data ?? []).some(s => isEntitled(s.status, s.past_due_since))
+}
+
+export const handler: Handler = async (event) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  }
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' }
+  }
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) }
+  }
+
+  try {
+    const auth = await verifyBearer(authHeaderOf(event))
+    if (!auth.ok) {
+      return { statusCode: auth.statusCode, headers, body: JSON.stringify({ error: auth.error }) }
+    }
+
+    const payload = JSON.parse(event.body || '{}')
+    const priceId = typeof payload.priceId === 'string' ? payload.priceId.trim() : ''
+    // Only prices mapped to a tier are sellable; anything else would never unlock anything
+    if (!priceId || !tierForPrice(priceId)) {
+      return { statusCode: 400, headers, body: JSON.stringify({ error: 'Unknown price' }) }
+    }
+
+    const customerId = await ensureCustomer(auth.userId, auth.email)
+    const origin = siteOrigin()
+
+    if (await hasEntitledSubscription(auth.userId)) {
+      const portal = await stripe.billingPortal.sessions.create({
+        customer: customerId,
+        return_url: `${origin}/settings`,
+      })
+      return { statusCode: 200, headers, body: JSON.stringify({ url: portal.url, portal: true }) }
+    }
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: customerId,
+      client_reference_id: auth.userId,
+      line_items: [{ price: priceId, quantity: 1 }],
+      // Lets the webhook resolve the user without a customer lookup
+      subscription_data: { metadata: { user_id: auth.userId } },
+      allow_promotion_codes: true,
+      success_url: `${origin}/settings?checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${origin}/pricing?checkout=cancel`,
+    })
+
+    return { statusCode: 200, headers, body: JSON.stringify({ id: session.id, url: session.url }) }
+  } catch (e) {
+    console.error('create-checkout-session error:', e)
+    const message = e instanceof Error ? e.message : 'Server error'
+    return { statusCode: 500, headers, body: JSON.stringify({ error: message }) }
+  }
+}
@@ -0,0 +1,49 @@
+// netlify/functions/create-portal-session.ts
+// Opens the Stripe Billing Portal (change plan, update card, cancel) for the signed-in user.
+import type { Handler } from '@netlify/functions'
+import { createClient } from '@supabase/supabase-js'
+import { authHeaderOf, verifyBearer } from '../lib/auth'
+import { findCustomerId, siteOrigin, stripe } from '../lib/stripe'
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+  auth: { persistSession: false },
+})
+
+export const handler: Handler = async (event) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  }
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' }
+  }
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) }
+  }
+
+  try {
+    const auth = await verifyBearer(authHeaderOf(event))
+    if (!auth.ok) {
+      return { statusCode: auth.statusCode, headers, body: JSON.stringify({ error: auth.error }) }
+    }
+
+    // The customer always comes from our records, never from the client
+    const customerId = await findCustomerId(supabase, auth.userId)
+    if (!customerId) {
+      return { statusCode: 404, headers, body: JSON.stringify({ error: 'No billing account found' }) }
+    }
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: `${siteOrigin()}/settings`,
+    })
+
+    return { statusCode: 200, headers, body: JSON.stringify({ url: session.url }) }
+  } catch (e) {
+    console.error('create-portal-session error:', e)
+    const message = e instanceof Error ? e.message : 'Server error'
+    return { statusCode: 500, headers, body: JSON.stringify({ error: message }) }
+  }
+}
@@ -1,6 +1,7 @@
 // netlify/functions/districts-save.ts
 import type { Handler } from '@netlify/functions'
 import { createClient } from '@supabase/supabase-js'
+import { DISTRICT_SOURCES, type DistrictSource } from '../lib/districts'
 
 const SUPABASE_URL = process.env.SUPABASE_URL as string
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY as string
@@ -17,7 +18,11 @@ type SavePayload = {
   cd?: string | null // congressional district (e.g. '10' or 'At-Large')
   sd?: string | null // state senate district
   hd?: string | null // state house/assembly district
+  county?: string | null // county name (e.g. 'Travis')
+  muni?: string | null // city/place name (e.g. 'Austin')
   postal_code?: string | null // keep ZIP for convenience
+  // how the districts were determined (see netlify/lib/districts.ts)
+  district_source?: DistrictSource | null
   // optional: if user explicitly opts in to store street
   persist_address?: boolean
   line1?: string | null
@@ -52,6 +57,10 @@ export const handler: Handler = async (event) => {
     const sd = body.sd ? String(body.sd) : null
     const hd = body.hd ? String(body.hd) : null
     const zip = body.postal_code ? String(body.postal_code) : null
+    const source = body.district_source ?? null
+    if (source && !DISTRICT_SOURCES.includes(source)) {
+      return { statusCode: 400, headers, body: JSON.stringify({ error: 'Unknown district_source' }) }
+    }
 
     // Update user's primary address (no street unless persist_address)
     const update: any = {
@@ -60,6 +69,9 @@ export const handler: Handler = async (event) => {
       sd,
       hd,
       postal_code: zip,
+      county: body.county ? String(body.county) : null,
+      muni: body.muni ? String(body.muni) : null,
+      district_source: cd || sd || hd ? source : null,
     }
     if (body.persist_address) {
       update.line1 = body.line1 ?? null
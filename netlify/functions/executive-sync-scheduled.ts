@@ -0,0 +1,18 @@
+// netlify/functions/executive-sync-scheduled.ts
+import type { Handler } from '@netlify/functions';
+import { syncFromWikidata } from './executive-sync';
+
+/**
+ * Weekly Wikidata sync of the executive officials. Scheduled functions can't be called by
+ * URL, so manual syncs and corrections stay on executive-sync.
+ */
+export const handler: Handler = async () => {
+  try {
+    const result = await syncFromWikidata();
+    return { statusCode: 200, body: JSON.stringify({ ok: true, ...result }) };
+  } catch (e: unknown) {
+    return { statusCode: 500, body: JSON.stringify({ error: e instanceof Error ? e.message : 'Server error' }) };
+  }
+};
+
+export default handler;
@@ -0,0 +1,295 @@
+// netlify/functions/executive-sync.ts
+import type { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+
+/**
+ * Seeds executive-branch officials: the President and Vice President (reached through the
+ * White House contact form) and the 50 governors (their office's website/contact page).
+ * Officeholders come from Wikidata; an admin can POST corrections that win over it.
+ * A contact form URL is only stored when contact_form_mappings has an enabled mapping for
+ * it; without one the processor can't fill the form, so the channel isn't offered.
+ *
+ * Rows are keyed like civic-sync (sha1 of name|office|division), so a new officeholder
+ * gets a new row and the previous one is marked inactive — past outreach keeps pointing
+ * at the person it actually went to. Offices with an active manual correction are left
+ * alone by the Wikidata sync until that row is deactivated.
+ *
+ * Env:
+ *  - SUPABASE_URL
+ *  - SUPABASE_SERVICE_ROLE_KEY
+ *  - CKOC_ADMIN_SECRET (optional; required header x-ckoc-admin)
+ *
+ * The weekly sync runs from executive-sync-scheduled (scheduled functions can't be called by URL).
+ *
+ * Usage:
+ *  GET  /.netlify/functions/executive-sync             // sync from Wikidata now
+ *  POST /.netlify/functions/executive-sync             // { officials: [{ office: 'governor', state: 'TX', name: '...', contact_form_url?: '...' }] }
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL as string;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+const ADMIN_SECRET = process.env.CKOC_ADMIN_SECRET || '';
+
+const supabase =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    : null;
+
+const H = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+};
+const J = (o: unknown) => JSON.stringify(o);
+
+const sha1 = (text: string) => createHash('sha1').update(text).digest('hex');
+
+const WHITE_HOUSE_CONTACT_URL = 'https://www.whitehouse.gov/contact/';
+const NATIONAL_DIVISION = 'ocd-division/country:us';
+const stateDivisionId = (state: string) => `${NATIONAL_DIVISION}/state:${state.toLowerCase()}`;
+
+type ExecutiveOffice = 'president' | 'vice_president' | 'governor';
+
+type Official = {
+  office: ExecutiveOffice;
+  /** Two-letter code; governors only. */
+  state?: string | null;
+  name: string;
+  party?: string | null;
+  photo_url?: string | null;
+  website?: string | null;
+  contact_form_url?: string | null;
+  phone?: string | null;
+};
+
+// ── Wikidata ────────────────────────────────────────────────────────────────
+const WIKIDATA_SPARQL = 'https://query.wikidata.org/sparql';
+const WD_PRESIDENT = 'http://www.wikidata.org/entity/Q11696';
+const WD_VICE_PRESIDENT = 'http://www.wikidata.org/entity/Q11699';
+
+// Current holders (started, not ended) of the two national offices and of each
+// U.S. state's head-of-government office (P1313), with the office's website.
+const QUERY = `
+SELECT ?office ?iso ?personLabel ?site ?image WHERE {
+  { VALUES ?office { wd:Q11696 wd:Q11699 } }
+  UNION
+  { ?state wdt:P31 wd:Q35657; wdt:P300 ?iso; wdt:P1313 ?office. }
+  ?person p:P39 ?held.
+  ?held ps:P39 ?office; pq:P580 ?start.
+  FILTER(?start <= NOW())
+  FILTER NOT EXISTS { ?held pq:P582 ?end }
+  OPTIONAL { ?office wdt:P856 ?site }
+  OPTIONAL { ?person wdt:P18 ?image }
+  SERVICE wikibase:label { bd:serviceParam wikibase:language "en". }
+}`;
+
+type Binding = Record<string, { value: string } | undefined>;
+
+async function fetchWikidata(): Promise<Official[]> {
+  const url = `${WIKIDATA_SPARQL}?format=json&query=${encodeURIComponent(QUERY)}`;
+  const r = await fetch(url, {
+    headers: { Accept: 'application/sparql-results+json', 'User-Agent': 'ckoc-executive-sync/1.0' },
+  });
+  if (!r.ok) {
+    const t = await r.text().catch(() => '');
+    throw new Error(`Wikidata HTTP ${r.status} :: ${t.slice(0, 240)}`);
+  }
+  const js = (await r.json()) as { results?: { bindings?: Binding[] } };
+
+  const byKey = new Map<string, Official>();
+  for (const b of js.results?.bindings ?? []) {
+    const officeUri = b.office?.value;
+    const name = b.personLabel?.value;
+    if (!officeUri || !name || /^Q\d+$/.test(name)) continue; // unlabeled entity
+
+    let official: Official;
+    if (officeUri === WD_PRESIDENT) official = { office: 'president', name };
+    else if (officeUri === WD_VICE_PRESIDENT) official = { office: 'vice_president', name };
+    else {
+      const state = (b.iso?.value ?? '').replace(/^US-/, '');
+      if (!/^[A-Z]{2}$/.test(state)) continue;
+      official = { office: 'governor', state, name, website: b.site?.value ?? null };
+    }
+    official.photo_url = b.image?.value ?? null;
+
+    // one row per officeholder even when the office lists several websites
+    const key = `${official.office}|${official.state ?? ''}|${name}`;
+    if (!byKey.has(key)) byKey.set(key, official);
+  }
+  return [...byKey.values()];
+}
+
+// ── Mapping ─────────────────────────────────────────────────────────────────
+const STATE_NAMES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho',
+  IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+  ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada',
+  NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina',
+  ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania',
+  RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas',
+  UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia',
+  WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+function officeFields(o: Official) {
+  if (o.office === 'president' || o.office === 'vice_president') {
+    return {
+      office_name: o.office === 'president' ? 'President of the United States' : 'Vice President of the United States',
+      level: 'federal',
+      state: null as string | null,
+      division_id: NATIONAL_DIVISION,
+      // The White House takes public messages only through its web form
+      contact_form_url: o.contact_form_url || WHITE_HOUSE_CONTACT_URL,
+      website: o.website || 'https://www.whitehouse.gov/',
+    };
+  }
+  const state = (o.state || '').toUpperCase();
+  return {
+    office_name: `Governor of ${STATE_NAMES[state]}`,
+    level: 'state',
+    state,
+    division_id: stateDivisionId(state),
+    contact_form_url: o.contact_form_url || o.website || null,
+    website: o.website || null,
+  };
+}
+
+function validOfficial(o: Partial<Official> | null | undefined): o is Official {
+  if (!o || typeof o.name !== 'string' || !o.name.trim()) return false;
+  if (o.office === 'president' || o.office === 'vice_president') return true;
+  return o.office === 'governor' && !!STATE_NAMES[(o.state || '').toUpperCase()];
+}
+
+/** Form URLs the processor can fill: those with an enabled contact_form_mappings row. */
+async function mappedFormUrls(): Promise<Set<string>> {
+  const { data, error } = await supabase!
+    .from('contact_form_mappings')
+    .select('form_url')
+    .eq('enabled', true);
+  if (error) throw new Error(`contact_form_mappings read failed: ${error.message}`);
+  return new Set((data ?? []).map(m => m.form_url as string));
+}
+
+/** Upsert the officeholders, then retire whoever held the same offices before. */
+async function upsertOfficials(officials: Official[], source: string) {
+  const now = new Date().toISOString();
+  const results: { office: string; name: string; ok: boolean; error?: string }[] = [];
+  const mapped = await mappedFormUrls();
+
+  for (const o of officials) {
+    const f = officeFields(o);
+    const name = o.name.trim();
+    const civic_person_id = sha1(`${name}|${f.office_name}|${f.division_id}`);
+
+    const { data, error } = await supabase!
+      .from('representatives')
+      .upsert(
+        {
+          civic_person_id,
+          name,
+          party: o.party ?? null,
+          photo_url: o.photo_url ?? null,
+          office_name: f.office_name,
+          level: f.level,
+          chamber: 'executive',
+          state: f.state,
+          district: null,
+          division_id: f.division_id,
+          contact_email: null,
+          contact_form_url: f.contact_form_url && mapped.has(f.contact_form_url) ? f.contact_form_url : null,
+          website: f.website,
+          phone: o.phone ?? null,
+          source,
+          active: true,
+          last_synced: now,
+        },
+        { onConflict: 'civic_person_id' }
+      )
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      results.push({ office: f.office_name, name: o.name, ok: false, error: error?.message ?? 'no row' });
+      continue;
+    }
+
+    await supabase!
+      .from('representative_divisions')
+      .upsert({ rep_id: data.id, ocd_division_id: f.division_id }, { onConflict: 'rep_id,ocd_division_id' });
+
+    // Former holders stay (outreach history references them) but stop receiving new requests
+    await supabase!
+      .from('representatives')
+      .update({ active: false, last_synced: now })
+      .eq('chamber', 'executive')
+      .eq('office_name', f.office_name)
+      .eq('division_id', f.division_id)
+      .neq('id', data.id);
+
+    results.push({ office: f.office_name, name: o.name, ok: true });
+  }
+  return results;
+}
+
+/** Sync every office from Wikidata, leaving offices with an active manual correction alone. */
+export async function syncFromWikidata() {
+  if (!supabase) throw new Error('Missing Supabase env');
+  const officials = await fetchWikidata();
+  // Refuse a partial answer rather than retiring officials who are merely missing from it
+  if (!officials.some(o => o.office === 'president') || officials.filter(o => o.office === 'governor').length < 40) {
+    throw new Error(`Wikidata returned an incomplete roster (${officials.length} officials); nothing changed`);
+  }
+
+  // Manual corrections win: skip offices an admin has set since the last sync
+  const { data: manual } = await supabase
+    .from('representatives')
+    .select('office_name, division_id')
+    .eq('chamber', 'executive')
+    .eq('source', 'manual')
+    .eq('active', true);
+  const pinned = new Set((manual ?? []).map(m => `${m.office_name}|${m.division_id}`));
+  const fresh = officials.filter(o => {
+    const f = officeFields(o);
+    return !pinned.has(`${f.office_name}|${f.division_id}`);
+  });
+
+  const results = await upsertOfficials(fresh, 'wikidata');
+  return {
+    count: results.length,
+    pinned: officials.length - fresh.length,
+    failed: results.filter(r => !r.ok),
+  };
+}
+
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return { statusCode: 204, headers: H, body: '' };
+
+  try {
+    if (!supabase) return { statusCode: 500, headers: H, body: J({ error: 'Missing Supabase env' }) };
+
+    const adminHeader = event.headers['x-ckoc-admin'] || event.headers['X-Ckoc-Admin'];
+    const isAdminOK = ADMIN_SECRET ? adminHeader === ADMIN_SECRET : true;
+    if (!isAdminOK) return { statusCode: 403, headers: H, body: J({ error: 'Forbidden' }) };
+
+    if (event.httpMethod === 'POST') {
+      let payload: { officials?: unknown } = {};
+      try { payload = JSON.parse(event.body || '{}'); } catch { /* not JSON */ }
+      const officials = (Array.isArray(payload.officials) ? payload.officials as Partial<Official>[] : []).filter(validOfficial);
+      if (!officials.length) {
+        return { statusCode: 400, headers: H, body: J({ error: 'Provide officials: [{ office, state?, name }]' }) };
+      }
+      const results = await upsertOfficials(officials, 'manual');
+      return { statusCode: 200, headers: H, body: J({ ok: true, count: results.length, results }) };
+    }
+
+    const result = await syncFromWikidata();
+    return { statusCode: 200, headers: H, body: J({ ok: true, ...result }) };
+  } catch (e: unknown) {
+    return { statusCode: 500, headers: H, body: J({ error: e instanceof Error ? e.message : 'Server error' }) };
+  }
+};
+
+export default handler;
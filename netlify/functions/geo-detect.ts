@@ -1,9 +1,28 @@
 // netlify/functions/geo-detect.ts
 import type { Handler } from '@netlify/functions'
+import { createClient } from '@supabase/supabase-js'
+import {
+  districtCombos,
+  resolvePoint,
+  resolveZip,
+  settledDistricts,
+  type DistrictCombo,
+  type DistrictSource,
+  type ZipCandidates,
+} from '../lib/districts'
 
 // Census Geocoder (no key required)
 const BASE = 'https://geocoding.geo.census.gov/geocoder'
 
+// Offline Census tables (migration 2026-10-18r); without them every lookup goes to the geocoder
+const SUPABASE_URL = process.env.SUPABASE_URL as string
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY as string
+
+const supabase =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    : null
+
 // Layer-name matcher (handles year/vintage variations)
 function pickLayer<T = any>(geos: Record<string, T[] | undefined>, includes: string[]) {
   const keys = Object.keys(geos || {})
@@ -16,6 +35,9 @@ type Payload = {
   city?: string | null
   state?: string | null // 2-letter
   postal_code?: string | null
+  // Known coordinates (e.g. from the browser) skip geocoding entirely
+  lat?: number | null
+  lng?: number | null
 }
 
 type GeoResult = {
@@ -23,7 +45,43 @@ type GeoResult = {
   cd: string | null
   sd: string | null
   hd: string | null
+  county?: string | null
+  muni?: string | null
   note?: string | null
+  // Every district the ZIP touches, when only the ZIP could be used
+  candidates?: ZipCandidates | null
+  // Full district sets for a split ZIP, likeliest (ZIP-majority) first
+  combos?: DistrictCombo[]
+  district_source?: DistrictSource | null
+}
+
+// Missing or unreachable tables shouldn't break detection; the geocoder still answers
+function offlineMiss(e: unknown): null {
+  console.warn('[geo-detect] offline lookup failed:', e instanceof Error ? e.message : e)
+  return null
+}
+
+async function pointResult(lat: number, lng: number, fallbackState: string | null): Promise<GeoResult | null> {
+  if (!supabase) return null
+  const hit = await resolvePoint(supabase, lat, lng).catch(offlineMiss)
+  return hit ? { ...hit, state: hit.state ?? fallbackState, district_source: 'geocoded' } : null
+}
+
+async function zipResult(zip: string): Promise<GeoResult | null> {
+  if (!supabase) return null
+  const candidates = await resolveZip(supabase, zip).catch(offlineMiss)
+  if (!candidates) return null
+
+  const { ambiguous, ...settled } = settledDistricts(candidates)
+  return {
+    ...settled,
+    candidates,
+    combos: ambiguous ? districtCombos(candidates) : [],
+    district_source: 'zip_majority',
+    note: ambiguous
+      ? 'This ZIP spans more than one district. Pick yours below or add your street address.'
+      : null,
+  }
 }
 
 async function fetchJSON(url: URL) {
@@ -52,8 +110,18 @@ export const handler: Handler = async (event) => {
     const state = (body.state || '').trim()
     const zip = (body.postal_code || '').trim()
 
-    // Guard: ZIP-only is ambiguous
+    if (typeof body.lat === 'number' && typeof body.lng === 'number') {
+      const hit = await pointResult(body.lat, body.lng, state ? state.toUpperCase() : null)
+      if (hit) return { statusCode: 200, headers, body: JSON.stringify(hit) }
+    }
+
+    // ZIP-only: answer from the ZCTA relationship tables (all candidates when it's split)
     const zipOnly = !!zip && !street && !city && !state
+    if (zipOnly) {
+      const byZip = await zipResult(zip)
+      if (byZip) return { statusCode: 200, headers, body: JSON.stringify(byZip) }
+    }
+
     if (!zip || zipOnly) {
       const note = !zip
         ? 'Provide ZIP (and ideally state or city/street) to detect districts.'
@@ -101,6 +169,11 @@ export const handler: Handler = async (event) => {
     }
 
     if (!loc?.coordinates?.x || !loc?.coordinates?.y) {
+      const byZip = await zipResult(zip)
+      if (byZip) {
+        byZip.note = `Could not geocode that address; showing districts for ZIP ${zip}.` + (byZip.note ? ` ${byZip.note}` : '')
+        return { statusCode: 200, headers, body: JSON.stringify(byZip) }
+      }
       const soft: GeoResult = {
         state: null, cd: null, sd: null, hd: null,
         note: 'Could not geocode that address. Try adjusting city/street and ensure a 2-letter state.',
@@ -115,8 +188,12 @@ export const handler: Handler = async (event) => {
       (loc?.addressComponents?.state || state || null) ? String(loc?.addressComponents?.state || state).toUpperCase() : null
 
     // ──────────────────────────────────────────────────────────────────────────
-    // 2) Ask for geographies at those coordinates (district layers)
+    // 2) Point-in-polygon against the loaded TIGER districts; otherwise ask the
+    //    geocoder for geographies at those coordinates (district layers)
     // ──────────────────────────────────────────────────────────────────────────
+    const offline = await pointResult(Number(y), Number(x), matchedState)
+    if (offline) return { statusCode: 200, headers, body: JSON.stringify(offline) }
+
     const g = new URL(`${BASE}/geographies/coordinates`)
     g.searchParams.set('x', String(x)) // longitude
     g.searchParams.set('y', String(y)) // latitude
@@ -139,6 +216,8 @@ export const handler: Handler = async (event) => {
     const cdArr   = pickLayer(geos, ['congressional district'])
     const slduArr = pickLayer(geos, ['state legislative districts - upper', 'sldu'])
     const sldlArr = pickLayer(geos, ['state legislative districts - lower', 'sldl'])
+    const countyArr = pickLayer(geos, ['counties'])
+    const placeArr = pickLayer(geos, ['incorporated places'])
 
     // Extract numbers
     let cd: string | null = null
@@ -159,9 +238,14 @@ export const handler: Handler = async (event) => {
       hd = name.match(/\d+/)?.[0] || null
     }
 
+    // County and city names key local officials (src/lib/ocd.ts)
+    const county: string | null = countyArr?.[0]?.BASENAME ? String(countyArr[0].BASENAME) : null
+    const muni: string | null = placeArr?.[0]?.BASENAME ? String(placeArr[0].BASENAME) : null
+
     const result: GeoResult = {
       state: matchedState,
-      cd, sd, hd,
+      cd, sd, hd, county, muni,
+      district_source: cd || sd || hd ? 'geocoded' : null,
     }
 
     if (!cd && !sd && !hd) {
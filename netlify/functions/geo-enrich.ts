@@ -1,6 +1,7 @@
 // netlify/functions/geo-enrich.ts
 import type { Handler } from '@netlify/functions'
 import { createClient } from '@supabase/supabase-js'
+import { districtCombos, resolveZip, settledDistricts, type DistrictSource, type ZipCandidates } from '../lib/districts'
 
 const SUPABASE_URL = process.env.SUPABASE_URL as string
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY as string
@@ -71,11 +72,38 @@ export const handler: Handler = async (event) => {
       return { statusCode: 400, headers, body: JSON.stringify({ error: 'Require user_id and postal_code' }) }
     }
 
+    // Without a street there is no point to geocode: the ZCTA relationship tables know every
+    // district the ZIP touches, and a split ZIP gets its majority districts. Districts the
+    // user picked for this ZIP in the address panel are kept. Falls through to the geocoder
+    // when the tables aren't loaded.
+    let geo: GeoResult | null = null
+    let candidates: ZipCandidates | null = null
+    let district_source: DistrictSource = 'geocoded'
+    if (!line1) {
+      const { data: current } = await supabase
+        .from('user_addresses')
+        .select('postal_code, state, cd, sd, hd, district_source')
+        .eq('user_id', user_id)
+        .eq('is_primary', true)
+        .maybeSingle()
+      if (current?.district_source === 'user_chosen' && current.postal_code === String(postal_code)) {
+        const { state: st, cd, sd, hd } = current
+        return { statusCode: 200, headers, body: JSON.stringify({ ok: true, state: st, cd, sd, hd, district_source: 'user_chosen' }) }
+      }
+
+      candidates = await resolveZip(supabase, String(postal_code)).catch(() => null)
+      if (candidates) {
+        const { ambiguous, ...settled } = settledDistricts(candidates)
+        geo = ambiguous ? districtCombos(candidates)[0] ?? settled : settled
+        district_source = 'zip_majority'
+      }
+    }
+
     // Build one-line address; if only ZIP is provided, geocoder may be ambiguous; we’ll still try.
     const parts = [line1, city, state, postal_code].filter(Boolean)
     const oneLine = parts.length ? parts.join(', ') : String(postal_code)
 
-    const { state: st, cd, sd, hd } = await fetchGeosForAddress(oneLine)
+    const { state: st, cd, sd, hd } = geo ?? await fetchGeosForAddress(oneLine)
 
     // Persist to the user’s primary address row
     const { error: updErr } = await supabase
@@ -85,13 +113,18 @@ export const handler: Handler = async (event) => {
         cd: cd || null,
         sd: sd || null,
         hd: hd || null,
+        district_source: cd || sd || hd ? district_source : null,
       })
       .eq('user_id', user_id)
       .eq('is_primary', true)
 
     if (updErr) throw updErr
 
-    return { statusCode: 200, headers, body: JSON.stringify({ ok: true, state: st || state || null, cd, sd, hd }) }
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ ok: true, state: st || state || null, cd, sd, hd, district_source, candidates }),
+    }
   } catch (e: any) {
     return { statusCode: 500, headers, body: JSON.stringify({ error: e?.message || 'Server error' }) }
   }
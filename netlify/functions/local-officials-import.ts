@@ -0,0 +1,85 @@
+// netlify/functions/local-officials-import.ts
+// Admin runs of the local-officials sync: a CSV upload, or the configured source on demand.
+// local-officials-sync is the weekly scheduled run and can't be called by URL, so the
+// manual paths live here and reuse its sync.
+//
+// Env:
+//  - as local-officials-sync
+//  - CKOC_ADMIN_SECRET (optional; required header x-ckoc-admin)
+//
+// Usage:
+//  GET  /.netlify/functions/local-officials-import             // sync from the configured source now
+//  POST /.netlify/functions/local-officials-import             // CSV upload: text/csv body, or { csv: '...' }
+//  add ?dry_run=1 to either to see the parsed rows without writing
+import type { Handler } from '@netlify/functions'
+import { parseLocalOfficialsCsv, type LocalOfficialsBatch, type LocalOfficialsSourceName } from '../lib/local-officials'
+import { fetchConfigured, preview, syncOfficials } from './local-officials-sync'
+
+const ADMIN_SECRET = process.env.CKOC_ADMIN_SECRET || ''
+
+const H = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+}
+const J = (o: unknown) => JSON.stringify(o)
+
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return { statusCode: 204, headers: H, body: '' }
+
+  try {
+    const adminHeader = event.headers['x-ckoc-admin'] || event.headers['X-Ckoc-Admin']
+    const isAdminOK = ADMIN_SECRET ? adminHeader === ADMIN_SECRET : true
+    if (!isAdminOK) return { statusCode: 403, headers: H, body: J({ error: 'Forbidden' }) }
+
+    const dryRun = ['1', 'true'].includes(event.queryStringParameters?.dry_run ?? '')
+
+    let batch: LocalOfficialsBatch
+    let source: LocalOfficialsSourceName
+    if (event.httpMethod === 'POST') {
+      const contentType = event.headers['content-type'] || event.headers['Content-Type'] || ''
+      const body = event.isBase64Encoded ? Buffer.from(event.body || '', 'base64').toString('utf8') : event.body || ''
+      let csv: string | null = null
+      if (/text\/(csv|plain)/i.test(contentType)) csv = body
+      else {
+        try {
+          const parsed = JSON.parse(body) as { csv?: unknown }
+          if (typeof parsed.csv === 'string') csv = parsed.csv
+        } catch { /* not JSON */ }
+      }
+      if (csv == null) return { statusCode: 400, headers: H, body: J({ error: 'Provide a text/csv body or { csv }' }) }
+
+      batch = parseLocalOfficialsCsv(csv)
+      source = 'csv'
+    } else {
+      const configured = await fetchConfigured()
+      if ('missing' in configured) {
+        return {
+          statusCode: 200,
+          headers: H,
+          body: J({ ok: false, message: `local-officials-sync not configured: missing ${configured.missing.join(', ')}` }),
+        }
+      }
+      batch = configured.batch
+      source = configured.source
+    }
+
+    if (dryRun) {
+      return { statusCode: 200, headers: H, body: J({ ok: true, dry_run: true, officials: preview(batch), rejected: batch.rejected }) }
+    }
+    if (!batch.officials.length) {
+      return { statusCode: 400, headers: H, body: J({ error: 'No usable officials; nothing changed', rejected: batch.rejected }) }
+    }
+
+    const result = await syncOfficials(batch, source)
+    return {
+      statusCode: 200,
+      headers: H,
+      body: J({ ok: true, source, ...result, rejected: batch.rejected }),
+    }
+  } catch (e: unknown) {
+    return { statusCode: 500, headers: H, body: J({ error: e instanceof Error ? e.message : 'Server error' }) }
+  }
+}
+
+export default handler
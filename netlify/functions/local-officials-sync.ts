@@ -0,0 +1,215 @@
+// netlify/functions/local-officials-sync.ts
+// Seeds county and city officials (county commissioners, mayors, city council members,
+// school board trustees) as level 'local' representatives from the configured data source
+// (netlify/lib/local-officials; a CSV sheet for now).
+//
+// Each official is linked to the county or place OCD division named in the source
+// (src/lib/ocd.ts), which is how rep matching finds them for users in that county/city.
+// Rows are keyed like civic-sync (sha1 of name|office|division): a new officeholder gets a
+// new row, and whoever held a seat the source no longer lists is marked inactive, never
+// deleted, so past outreach keeps pointing at the person it went to.
+//
+// Env:
+//  - SUPABASE_URL
+//  - SUPABASE_SERVICE_ROLE_KEY
+//  - LOCAL_OFFICIALS_SOURCE / LOCAL_OFFICIALS_CSV_URL  (see netlify/lib/local-officials)
+//
+// This is the weekly scheduled run. Scheduled functions can't be called by URL, so manual
+// runs, CSV uploads and dry runs go through local-officials-import, which reuses the sync below.
+import type { Handler } from '@netlify/functions'
+import { createClient } from '@supabase/supabase-js'
+import { createHash } from 'crypto'
+import {
+  createLocalOfficialsSource,
+  type LocalOfficial,
+  type LocalOfficialsBatch,
+  type LocalOfficialsSourceName,
+} from '../lib/local-officials'
+import { countyDivision, placeDivision } from '../../src/lib/ocd'
+
+const SUPABASE_URL = process.env.SUPABASE_URL as string
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY as string
+
+const supabase =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    : null
+
+const J = (o: unknown) => JSON.stringify(o)
+
+const sha1 = (text: string) => createHash('sha1').update(text).digest('hex')
+
+// ── Mapping ─────────────────────────────────────────────────────────────────
+/** "Travis" → "Travis County"; Louisiana parishes and Alaska boroughs keep their own word. */
+function countyLabel(state: string, county: string): string {
+  if (/\s(county|parish|borough|census area|municipality)$/i.test(county)) return county
+  return `${county} ${state === 'LA' ? 'Parish' : state === 'AK' ? 'Borough' : 'County'}`
+}
+
+const placeLabel = (place: string) => place.replace(/\s+(city|town|village|CDP)$/i, '')
+
+/** Office title and divisions: `base` is the county/place users resolve to, `division_id` may be narrower. */
+function officeFields(o: LocalOfficial) {
+  const county = o.county ? countyLabel(o.state, o.county) : null
+  const place = o.place ? placeLabel(o.place) : null
+
+  let title: string
+  let base: string
+  switch (o.office) {
+    case 'county_commissioner':
+      title = `${o.body || county} Commissioner`
+      base = countyDivision(o.state, o.county!)
+      break
+    case 'mayor':
+      title = `Mayor of ${o.body || place}`
+      base = placeDivision(o.state, o.place!)
+      break
+    case 'city_council':
+      title = `${o.body || `${place} City Council`} Member`
+      base = placeDivision(o.state, o.place!)
+      break
+    case 'school_board':
+      title = `${o.body || `${place || county} School Board`} Trustee`
+      base = o.place ? placeDivision(o.state, o.place) : countyDivision(o.state, o.county!)
+      break
+  }
+
+  return {
+    // the seat goes in the title; representatives.district reads as a legislative district elsewhere
+    office_name: o.office_name || (o.seat ? `${title}, ${o.seat}` : title),
+    division_id: o.ocd_division_id || base,
+    base_division: base,
+  }
+}
+
+function repRow(o: LocalOfficial, source: LocalOfficialsSourceName, now: string) {
+  const f = officeFields(o)
+  return {
+    civic_person_id: sha1(`${o.name}|${f.office_name}|${f.division_id}`),
+    name: o.name,
+    party: o.party,
+    photo_url: o.photo_url,
+    office_name: f.office_name,
+    level: 'local',
+    chamber: o.office,
+    state: o.state,
+    district: null as string | null,
+    division_id: f.division_id,
+    contact_email: o.email,
+    contact_form_url: o.contact_form_url || (!o.email && o.website ? o.website : null),
+    district_office_address: o.address ? { ...o.address, phone: o.phone } : null,
+    phone: o.phone,
+    website: o.website,
+    twitter: o.twitter,
+    facebook: o.facebook,
+    term_end: o.term_end,
+    source,
+    active: true,
+    last_synced: now,
+  }
+}
+
+// ── Sync ────────────────────────────────────────────────────────────────────
+/**
+ * Upsert the batch, then retire earlier holders of the same office type in the same
+ * divisions. Retiring is skipped when any row was rejected: a seat whose row failed to
+ * parse would otherwise look vacated.
+ */
+export async function syncOfficials(batch: LocalOfficialsBatch, source: LocalOfficialsSourceName) {
+  if (!supabase) throw new Error('Missing Supabase env')
+  const now = new Date().toISOString()
+  const keptIds = new Set<string>()
+  const scope = new Set<string>()
+  const failed: { office: string; name: string; error: string }[] = []
+
+  for (const o of batch.officials) {
+    const row = repRow(o, source, now)
+    const { base_division } = officeFields(o)
+    scope.add(`${row.chamber}|${row.division_id}`)
+
+    const { data, error } = await supabase!
+      .from('representatives')
+      .upsert(row, { onConflict: 'civic_person_id' })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      failed.push({ office: row.office_name, name: o.name, error: error?.message ?? 'no row' })
+      continue
+    }
+    keptIds.add(data.id)
+
+    // division_id is linked by trigger; a narrower division also needs the county/place link
+    if (base_division !== row.division_id) {
+      await supabase!
+        .from('representative_divisions')
+        .upsert({ rep_id: data.id, ocd_division_id: base_division }, { onConflict: 'rep_id,ocd_division_id' })
+    }
+  }
+
+  let retired = 0
+  if (!batch.rejected.length && !failed.length && scope.size) {
+    const divisions = [...new Set([...scope].map(s => s.slice(s.indexOf('|') + 1)))]
+    const { data: current, error } = await supabase!
+      .from('representatives')
+      .select('id, chamber, division_id')
+      .eq('level', 'local')
+      .eq('source', source)
+      .eq('active', true)
+      .in('division_id', divisions)
+    if (error) throw new Error(`Could not load current local officials: ${error.message}`)
+
+    const stale = ((current ?? []) as { id: string; chamber: string | null; division_id: string }[])
+      .filter(r => !keptIds.has(r.id) && scope.has(`${r.chamber}|${r.division_id}`))
+      .map(r => r.id)
+    if (stale.length) {
+      const { error: upErr } = await supabase!
+        .from('representatives')
+        .update({ active: false, last_synced: now })
+        .in('id', stale)
+      if (upErr) throw new Error(`Could not retire former officials: ${upErr.message}`)
+      retired = stale.length
+    }
+  }
+
+  return { count: keptIds.size, retired, failed }
+}
+
+export function preview(batch: LocalOfficialsBatch) {
+  return batch.officials.map(o => {
+    const f = officeFields(o)
+    return { name: o.name, office_name: f.office_name, division_id: f.division_id, base_division: f.base_division }
+  })
+}
+
+/** The configured source's officials, or the env it is still missing. */
+export async function fetchConfigured(): Promise<
+  { batch: LocalOfficialsBatch; source: LocalOfficialsSourceName } | { missing: string[] }
+> {
+  const configured = createLocalOfficialsSource()
+  const missing = configured.missingEnv()
+  if (missing.length) return { missing }
+  return { batch: await configured.fetch(), source: configured.name }
+}
+
+export const handler: Handler = async () => {
+  try {
+    if (!supabase) return { statusCode: 500, body: J({ error: 'Missing Supabase env' }) }
+
+    const configured = await fetchConfigured()
+    if ('missing' in configured) {
+      return { statusCode: 200, body: J({ ok: false, message: `local-officials-sync not configured: missing ${configured.missing.join(', ')}` }) }
+    }
+    const { batch, source } = configured
+    if (!batch.officials.length) {
+      return { statusCode: 400, body: J({ error: 'No usable officials; nothing changed', rejected: batch.rejected }) }
+    }
+
+    const result = await syncOfficials(batch, source)
+    return { statusCode: 200, body: J({ ok: true, source, ...result, rejected: batch.rejected }) }
+  } catch (e: unknown) {
+    return { statusCode: 500, body: J({ error: e instanceof Error ? e.message : 'Server error' }) }
+  }
+}
+
+export default handler
@@ -2,13 +2,13 @@
 import type { Handler } from '@netlify/functions'
 import { createClient } from '@supabase/supabase-js'
 import { renderEmailHTML } from '../lib/email-template'
+import { createMailTransport, formatFrom } from '../lib/mail'
 
 // ────────────────────────────────────────────────────────────────────────────
 // ENV
 // ────────────────────────────────────────────────────────────────────────────
 const SUPABASE_URL = process.env.SUPABASE_URL!
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!
-const POSTMARK_SERVER_TOKEN = (process.env.POSTMARK_SERVER_TOKEN || '').trim()
 const EMAIL_FROM = (process.env.EMAIL_FROM || '').trim()
 const EMAIL_FROM_NAME = (process.env.EMAIL_FROM_NAME || 'Cyber Kingdom of Christ').trim()
 const POSTMARK_NOTIF_STREAM = (process.env.POSTMARK_NOTIF_STREAM || 'outbound').trim()
@@ -22,32 +22,17 @@ const BATCH_LIMIT = Number(process.env.NOTIF_BATCH_LIMIT || 50)
 
 // ────────────────────────────────────────────────────────────────────────────
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+const mail = createMailTransport()
 
 // ────────────────────────────────────────────────────────────────────────────
-// Postmark helpers
+// Mail helpers
 // ────────────────────────────────────────────────────────────────────────────
-type PostmarkSendResponse = {
-  To: string; SubmittedAt: string; MessageID: string; ErrorCode: number; Message: string
-}
-
-async function postmarkFetch(path: string, payload: Record<string, any>): Promise<PostmarkSendResponse> {
-  const res = await fetch(`https://api.postmarkapp.com${path}`, {
-    method: 'POST',
-    headers: { 'X-Postmark-Server-Token': POSTMARK_SERVER_TOKEN, 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
-  })
-  const json = (await res.json().catch(() => ({}))) as Partial<PostmarkSendResponse> & { Message?: string; ErrorCode?: number }
-  const ok = res.ok && (json?.ErrorCode ?? 0) === 0
-  if (!ok) throw new Error(json?.Message || `HTTP ${res.status}`)
-  return json as PostmarkSendResponse
-}
-
-async function sendWithPostmark(params: { to: string; subject: string; html?: string | null; text?: string | null }) {
-  const From = EMAIL_FROM_NAME ? `${EMAIL_FROM_NAME} <${EMAIL_FROM}>` : EMAIL_FROM
-  return postmarkFetch('/email', {
-    From, To: params.to, Subject: params.subject,
-    HtmlBody: params.html || undefined, TextBody: params.text || undefined,
-    MessageStream: POSTMARK_NOTIF_STREAM,
+async function sendNotification(params: { to: string; subject: string; html?: string | null; text?: string | null }) {
+  return mail.send({
+    from: formatFrom(EMAIL_FROM, EMAIL_FROM_NAME),
+    to: params.to, subject: params.subject,
+    html: params.html || null, text: params.text || null,
+    stream: POSTMARK_NOTIF_STREAM,
   })
 }
 
@@ -131,7 +116,7 @@ async function handleLike(row: OutboxRow) {
   })
 
   try {
-    await sendWithPostmark({ to: toEmail, subject, html: body })
+    await sendNotification({ to: toEmail, subject, html: body })
     await recordSend(row, `like:${row.actor_user_id}:${row.prayer_id}`)
     await markProcessed(row.id, 'sent')
   } catch (err: any) {
@@ -177,7 +162,7 @@ async function handleReply(row: OutboxRow) {
   })
 
   try {
-    await sendWithPostmark({ to: toEmail, subject, html: body })
+    await sendNotification({ to: toEmail, subject, html: body })
     await markProcessed(row.id, 'sent')
   } catch (err: any) {
     await markProcessed(row.id, 'failed', err?.message || 'Send failed')
@@ -0,0 +1,15 @@
+// netlify/functions/outreach-drain.ts
+// Scheduled outreach drain (netlify.toml, every 5 minutes): sends due queued requests with
+// the same deliverQueued() that outreach-processor's admin deliver_queued action runs.
+// Netlify doesn't expose scheduled functions by URL, so this has no HTTP actions of its own.
+import type { Handler } from '@netlify/functions'
+import { deliverQueued } from './outreach-processor'
+
+export const handler: Handler = async () => {
+  try {
+    const result = await deliverQueued()
+    return { statusCode: 200, body: JSON.stringify({ ok: true, ...result }) }
+  } catch (e) {
+    return { statusCode: 500, body: JSON.stringify({ error: e instanceof Error ? e.message : 'Server error' }) }
+  }
+}
@@ -1,7 +1,40 @@
 // netlify/functions/outreach-processor.ts
 import type { Handler } from '@netlify/functions'
+import { randomUUID } from 'crypto'
 import { createClient } from '@supabase/supabase-js'
 import { renderEmailHTML } from '../lib/email-template'
+import { createMailTransport, formatFrom } from '../lib/mail'
+import {
+  composeFacebookText,
+  composeXText,
+  createSocialClients,
+  normalizeFacebookPage,
+  normalizeXHandle,
+  type SocialPlatform,
+  type SocialPost,
+} from '../lib/social'
+import { createContactFormClient, type ContactFormMapping, type ContactFormValues } from '../lib/contact-form'
+import {
+  formatAddressBlock,
+  letterDate,
+  letterPath,
+  mergeLetterPdfs,
+  officeAddressFor,
+  renderLetterPdf,
+  type OfficeKind,
+} from '../lib/letters'
+import { verifyBearer } from '../lib/auth'
+import { MAX_ATTEMPTS, classifyDeliveryError, isTransient, nextAttemptAt, type FailureReason } from '../lib/delivery-errors'
+import { entitlementsFor, normalizePlan, type OutreachChannel, type Plan } from '../../src/lib/entitlements'
+import {
+  districtLabel,
+  lastNameFrom,
+  renderMessageTemplate,
+  repTemplateValues,
+  templateVariablesIn,
+  titleForRep,
+  type TemplateValues,
+} from '../../src/lib/messageTemplates'
 
 
 // ────────────────────────────────────────────────────────────────────────────
@@ -9,44 +42,33 @@ import { renderEmailHTML } from '../lib/email-template'
 // ────────────────────────────────────────────────────────────────────────────
 const SUPABASE_URL = process.env.SUPABASE_URL!
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!
-const SUPABASE_ANON_KEY =
-  process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY || ''
 
-const POSTMARK_SERVER_TOKEN = (process.env.POSTMARK_SERVER_TOKEN || '').trim() // Server API token
 const EMAIL_FROM = (process.env.EMAIL_FROM || '').trim()                       // Verified sender or domain
 const EMAIL_FROM_NAME = (process.env.EMAIL_FROM_NAME || 'Cyber Kingdom of Christ').trim()
 const POSTMARK_STREAM = (process.env.POSTMARK_STREAM || 'outreach').trim()     // must match your Stream ID
 const POSTMARK_TEMPLATE_ALIAS = (process.env.POSTMARK_TEMPLATE_ALIAS || 'ckoc-outreach-v1').trim()
 
 const SITE_URL = (process.env.SITE_URL || 'https://cyberkingdomofchrist.netlify.app').trim()
+const SHARE_URL = `${SITE_URL.replace(/\/+$/, '')}/feed`                      // link attached to X/Facebook posts
 const ADMIN_SECRET = process.env.CKOC_ADMIN_SECRET
 
+const LETTER_BUCKET = (process.env.LETTER_BUCKET || 'outreach-letters').trim()
+const LETTER_PREFER_OFFICE: OfficeKind = process.env.LETTER_PREFER_OFFICE === 'dc' ? 'dc' : 'district'
+
+// Drain knobs (the scheduled outreach-drain and admin deliver_queued runs)
+const DRAIN_BATCH_LIMIT = Number(process.env.OUTREACH_DRAIN_BATCH_LIMIT || 50)          // rows claimed per run
+const DRAIN_BUDGET_MS = Number(process.env.OUTREACH_DRAIN_BUDGET_SECONDS || 20) * 1000  // stop starting new rows after this
+const LEASE_SECONDS = Number(process.env.OUTREACH_LEASE_SECONDS || 120)                 // must outlast one row's sends
+
 // ────────────────────────────────────────────────────────────────────────────
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
-const supabasePublic = SUPABASE_ANON_KEY ? createClient(SUPABASE_URL, SUPABASE_ANON_KEY) : null
+const mail = createMailTransport()
+const social = createSocialClients()
+const contactForms = createContactFormClient()
 
 // ────────────────────────────────────────────────────────────────────────────
 // Types/Helpers
 // ────────────────────────────────────────────────────────────────────────────
-type Tier = 'free' | 'supporter' | 'patron' | 'admin'
-
-function normalizeOffice(office: string | null): string {
-  return (office || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().replace(/\s+/g, ' ')
-}
-function titleForRep(office: string | null): 'Sen.' | 'Rep.' | 'President' | 'Hon.' {
-  const o = normalizeOffice(office)
-  if (o.includes('president')) return 'President'
-  if (o.includes('senate') || o.includes('senator')) return 'Sen.'
-  if (o.includes('house') || o.includes('representative') || o.includes('congress')) return 'Rep.'
-  return 'Hon.'
-}
-function lastNameFrom(name: string): string {
-  const raw = (name || '').replace(/[.,]/g, ' ').trim()
-  const parts = raw.split(/\s+/)
-  const suffixes = new Set(['jr','jr.','sr','sr.','ii','iii','iv','phd','m.d.','md','esq','esq.'])
-  while (parts.length && suffixes.has(parts[parts.length - 1].toLowerCase())) parts.pop()
-  return parts.length ? parts[parts.length - 1] : (name || '').trim()
-}
 function greetingOnly(office: string | null, name: string): string {
   return `Dear ${titleForRep(office)} ${lastNameFrom(name)},`
 }
@@ -54,28 +76,34 @@ function withGreeting(office: string | null, name: string, body: string): string
   return `${greetingOnly(office, name)}\n\n${body || ''}`
 }
 
-/** Accept email as text[] or a Postgres array-literal string like "{a@b,c@d}". */
-function normalizeEmails(val: unknown): string[] {
+/**
+ * Accept email as text[] or a Postgres array-literal string like "{a@b,c@d}".
+ * Addresses in `bad` (lowercased; see email_address_health) are dropped.
+ */
+function normalizeEmails(val: unknown, bad: Set<string> = new Set()): string[] {
+  let emails: string[] = []
   if (Array.isArray(val)) {
-    return (val as unknown[]).filter((x): x is string => typeof x === 'string')
-  }
-  if (typeof val === 'string') {
-    return val.replace(/^\{|\}$/g, '').split(',').map(s => s.trim()).filter(Boolean)
+    emails = (val as unknown[]).filter((x): x is string => typeof x === 'string')
+  } else if (typeof val === 'string') {
+    emails = val.replace(/^\{|\}$/g, '').split(',').map(s => s.trim()).filter(Boolean)
   }
-  return []
+  return emails.filter((e) => !bad.has(e.toLowerCase()))
 }
-function allowedChannelsForTier(_tier: Tier | null): Set<string> {
-  // Today: email only
-  return new Set(['email'])
+const SUPPORTED_CHANNELS: OutreachChannel[] = ['email', 'x', 'facebook', 'contact_form', 'letter']
+// Placed by the user and logged through the log_outreach_call RPC; the processor only reports them
+const USER_LOGGED_CHANNELS = new Set<string>(['call'])
+
+function allowedChannelsForTier(tier: Plan): Set<string> {
+  return new Set<string>(entitlementsFor(tier).channels)
 }
 
 // Cache user tier lookups
-const tierCache = new Map<string, Tier>()
-async function getUserTier(userId: string): Promise<Tier> {
+const tierCache = new Map<string, Plan>()
+async function getUserTier(userId: string): Promise<Plan> {
   const cached = tierCache.get(userId)
   if (cached) return cached
   const { data } = await supabase.from('profiles').select('tier').eq('id', userId).maybeSingle()
-  const t = (data?.tier || 'free') as Tier
+  const t = normalizePlan(data?.tier)
   tierCache.set(userId, t)
   return t
 }
@@ -102,24 +130,90 @@ async function getAuthorMeta(userId: string): Promise<{ email: string | null; zi
   return { email, zip }
 }
 
+// Sender details web forms ask for (name, postal address, phone); blanks when not on file
+async function getSenderDetails(userId: string): Promise<ContactFormValues> {
+  const [{ email, zip }, profileRes, addressRes] = await Promise.all([
+    getAuthorMeta(userId),
+    supabase.from('profiles').select('first_name, last_name, display_name, phone').eq('id', userId).maybeSingle(),
+    supabase
+      .from('user_addresses')
+      .select('line1, line2, city, state, postal_code')
+      .eq('user_id', userId)
+      .order('is_primary', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
+  type ProfileBits = { first_name: string | null; last_name: string | null; display_name: string | null; phone: string | null }
+  type AddressBits = { line1: string | null; line2: string | null; city: string | null; state: string | null; postal_code: string | null }
+  const p: Partial<ProfileBits> = profileRes.data || {}
+  const a: Partial<AddressBits> = addressRes.data || {}
+  const fullName = [p.first_name, p.last_name].filter(Boolean).join(' ') || p.display_name || ''
+  return {
+    'user.first_name': p.first_name || fullName.split(' ')[0] || '',
+    'user.last_name': p.last_name || fullName.split(' ').slice(1).join(' ') || '',
+    'user.full_name': fullName,
+    'user.email': email || '',
+    'user.phone': p.phone || '',
+    'user.address1': a.line1 || '',
+    'user.address2': a.line2 || '',
+    'user.city': a.city || '',
+    'user.state': a.state || '',
+    'user.zip': a.postal_code || zip || '',
+  }
+}
+
 // ────────────────────────────────────────────────────────────────────────────
 // Data access
 // ────────────────────────────────────────────────────────────────────────────
-async function getQueued(limit = 50) {
+const QUEUE_SELECT = `
+  id, user_id, prayer_id, target_rep_id, channels, status, subject, body, subject_override, body_override, deliver_after,
+  representatives:target_rep_id (
+    id, name, office:office_name, email, contact_email, contact_form_url,
+    twitter, twitter_handle, facebook, facebook_page_url,
+    level, chamber, state, district, district_office_address, dc_office_address
+  ),
+
+  prayers:prayer_id ( content )
+`
+
+/**
+ * Lease up to `limit` due queued rows for this worker (optionally only `ids`) and load them.
+ * Rows leased by another run, or waiting out a retry backoff, are never returned.
+ */
+async function claimQueued(worker: string, limit: number, ids?: string[]) {
+  const { data: claimed, error: claimErr } = await supabase.rpc('claim_outreach_requests', {
+    p_worker: worker,
+    p_limit: limit,
+    p_lease_seconds: LEASE_SECONDS,
+    p_channels: SUPPORTED_CHANNELS,
+    p_ids: ids?.length ? ids : null,
+  })
+  if (claimErr) throw new Error(claimErr.message)
+  const claimedIds = (claimed || []) as string[]
+  if (!claimedIds.length) return []
+
   const { data, error } = await supabase
     .from('outreach_requests')
-    .select(`
-      id, user_id, prayer_id, target_rep_id, channels, status, subject, body,
-      representatives:target_rep_id ( id, name, office:office_name, email, contact_email, contact_form_url ),
+    .select(QUEUE_SELECT)
+    .in('id', claimedIds)
+    .order('created_at', { ascending: true })
 
-      prayers:prayer_id ( content )
-    `)
-    .eq('status', 'queued')
-    .contains('channels', ['email'])
-    .limit(limit)
+  if (error) {
+    await releaseLeases(worker, claimedIds)
+    throw new Error(error.message)
+  }
 
-  if (error) throw new Error(error.message)
-  return data || []
+  // The claim only takes queued rows, but never send one the owner cancelled since
+  const rows = data || []
+  const stale = rows.filter((r) => r.status !== 'queued').map((r) => r.id as string)
+  if (stale.length) await releaseLeases(worker, stale)
+  return rows.filter((r) => r.status === 'queued')
+}
+
+async function releaseLeases(worker: string, ids: string[]) {
+  if (!ids.length) return
+  const { error } = await supabase.rpc('release_outreach_requests', { p_worker: worker, p_ids: ids })
+  if (error) console.warn(`outreach: releasing ${ids.length} lease(s) failed: ${error.message}`)
 }
 
 async function getSingleForUser(
@@ -128,19 +222,19 @@ async function getSingleForUser(
 ) {
   let query = supabase
     .from('outreach_requests')
-    .select(`
-      id, user_id, prayer_id, target_rep_id, channels, status, subject, body,
-      representatives:target_rep_id ( id, name, office:office_name, email, contact_email, contact_form_url ),
-
-      prayers:prayer_id ( content )
-    `)
+    .select(QUEUE_SELECT)
     .eq('user_id', userId)
-    .contains('channels', ['email'])
+    .overlaps('channels', SUPPORTED_CHANNELS)
     .limit(1)
 
   if (opts.request_id) query = query.eq('id', opts.request_id)
   if (!opts.request_id && opts.prayer_id) {
-    query = query.eq('prayer_id', opts.prayer_id).eq('status', 'queued').order('created_at', { ascending: false })
+    // Scheduled rows wait for the drain
+    query = query
+      .eq('prayer_id', opts.prayer_id)
+      .eq('status', 'queued')
+      .or(`deliver_after.is.null,deliver_after.lte.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false })
   }
 
   const { data, error } = await query.maybeSingle()
@@ -148,99 +242,471 @@ async function getSingleForUser(
   return data
 }
 
-async function markSent(id: string) {
+async function markFailed(id: string, message: string) {
   await supabase
     .from('outreach_requests')
-    .update({ status: 'sent', sent_at: new Date().toISOString(), error: null })
+    .update({ status: 'failed', error: message, locked_by: null, locked_until: null })
     .eq('id', id)
-}
-async function markFailed(id: string, message: string) {
+  // Request-level failure (rep missing, channel not allowed): no channel was attempted
   await supabase
-    .from('outreach_requests')
+    .from('outreach_deliveries')
     .update({ status: 'failed', error: message })
-    .eq('id', id)
+    .eq('request_id', id)
+    .eq('status', 'pending')
 }
 
-// ────────────────────────────────────────────────────────────────────────────
-// Postmark senders
-// ────────────────────────────────────────────────────────────────────────────
-type PostmarkSendResponse = {
-  To?: string
-  SubmittedAt?: string
-  MessageID?: string
-  ErrorCode: number
-  Message: string
-}
-
-async function postmarkFetch(path: string, payload: Record<string, any>): Promise<PostmarkSendResponse> {
-  const res = await fetch(`https://api.postmarkapp.com${path}`, {
-    method: 'POST',
-    headers: {
-      'X-Postmark-Server-Token': POSTMARK_SERVER_TOKEN,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  })
+/** The enabled mapping for this rep: a rep-specific row wins over one keyed only by form URL. */
+async function getFormMapping(rep: RepForSend): Promise<ContactFormMapping | null> {
+  const select = () => supabase
+    .from('contact_form_mappings')
+    .select('form_url, form_match, action_url, method, fields, success_pattern, representative_id')
+    .eq('enabled', true)
 
-  const json = (await res.json().catch(() => ({}))) as Partial<PostmarkSendResponse> & { Message?: string; ErrorCode?: number }
-  const ok = res.ok && (json?.ErrorCode ?? 0) === 0
-  if (!ok) {
-    const msg = json?.Message || `HTTP ${res.status}`
-    throw new Error(msg)
-  }
-  return json as PostmarkSendResponse
+  const { data: own, error } = await select().eq('representative_id', rep.id).limit(1).maybeSingle()
+  if (error) throw new Error(`contact_form_mappings read failed: ${error.message}`)
+  if (own || !rep.contact_form_url) return (own as ContactFormMapping | null) ?? null
+
+  const { data: shared, error: urlErr } = await select()
+    .is('representative_id', null)
+    .eq('form_url', rep.contact_form_url)
+    .limit(1)
+    .maybeSingle()
+  if (urlErr) throw new Error(`contact_form_mappings read failed: ${urlErr.message}`)
+  return (shared as ContactFormMapping | null) ?? null
 }
 
-async function sendWithPostmark(params: {
-  to: string
-  subject: string
-  html?: string | null
-  text?: string | null
-  replyTo?: string | null
-  template?: {
-    alias: string
-    model: Record<string, any>
-  } | null
-}) {
-  const From = EMAIL_FROM_NAME ? `${EMAIL_FROM_NAME} <${EMAIL_FROM}>` : EMAIL_FROM
-
-  if (params.template?.alias) {
-    return postmarkFetch('/email/withTemplate', {
-      From,
-      To: params.to,
-      TemplateAlias: params.template.alias,
-      TemplateModel: params.template.model,
-      MessageStream: POSTMARK_STREAM,
-      ReplyTo: params.replyTo || undefined,
-    })
+/** Lowercased addresses among `emails` that postmark-webhook marked bad. */
+async function getBadEmails(emails: string[]): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('email_address_health')
+    .select('email')
+    .in('email', emails.map((e) => e.toLowerCase()))
+    .not('bad_since', 'is', null)
+  if (error) {
+    console.warn(`email_address_health read failed: ${error.message}`)
+    return new Set()
   }
+  return new Set((data || []).map((r) => r.email as string))
+}
 
-  return postmarkFetch('/email', {
-    From,
-    To: params.to,
-    Subject: params.subject,
-    HtmlBody: params.html || undefined,
-    TextBody: params.text || undefined,
-    MessageStream: POSTMARK_STREAM,
-    ReplyTo: params.replyTo || undefined,
-  })
+// outreach_deliveries: one row per (request, channel), seeded 'pending' by a DB trigger
+type DeliveryRow = {
+  channel: string
+  status: string
+  provider: string | null
+  provider_message_id: string | null
+  target: string | null
+  post_url: string | null
+  intent_url: string | null
+  error: string | null
+  attempt_count: number
+  last_attempt_at: string | null
+  sent_at: string | null
+}
+
+async function getDeliveries(requestId: string): Promise<Record<string, DeliveryRow>> {
+  const { data, error } = await supabase
+    .from('outreach_deliveries')
+    .select('channel, status, provider, provider_message_id, target, post_url, intent_url, error, attempt_count, last_attempt_at, sent_at')
+    .eq('request_id', requestId)
+  if (error) throw new Error(error.message)
+  const byChannel: Record<string, DeliveryRow> = {}
+  for (const d of (data || []) as DeliveryRow[]) byChannel[d.channel] = d
+  return byChannel
+}
+
+async function recordDelivery(requestId: string, channel: string, result: ChannelResult, attempts: number) {
+  const delivered = result.status === 'sent' || result.status === 'intent'
+  const { error } = await supabase
+    .from('outreach_deliveries')
+    .upsert(
+      {
+        request_id: requestId,
+        channel,
+        status: result.status,
+        provider: result.driver ?? null,
+        provider_message_id: result.message_id ?? null,
+        target: result.to ?? null,
+        post_url: result.post_url ?? null,
+        intent_url: result.intent_url ?? null,
+        error: result.error ?? null,
+        failure_reason: result.status === 'failed' ? result.reason ?? 'unknown' : null,
+        next_attempt_at: result.retry_at ?? null,
+        attempt_count: attempts,
+        last_attempt_at: result.at,
+        sent_at: delivered ? result.at : null,
+      },
+      { onConflict: 'request_id,channel' }
+    )
+  if (error) console.warn(`outreach_deliveries upsert failed for ${requestId}/${channel}: ${error.message}`)
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Mail transport guard
+// ────────────────────────────────────────────────────────────────────────────
+function assertMailConfigured() {
+  const miss = mail.missingEnv()
+  if (miss.length) throw new Error(`${miss.join(', ')} missing`)
+  if (!EMAIL_FROM) throw new Error('EMAIL_FROM missing')
 }
 
 // ────────────────────────────────────────────────────────────────────────────
 // Core send (shared by batch + single)
 // ────────────────────────────────────────────────────────────────────────────
+type ChannelStatus = 'sent' | 'intent' | 'failed' | 'skipped'
+
+/** Per-channel outcome, stored on outreach_requests.channel_status[channel]. */
+type ChannelResult = {
+  status: ChannelStatus
+  at: string
+  to?: string
+  driver?: string
+  message_id?: string
+  post_url?: string
+  intent_url?: string
+  error?: string
+  reason?: FailureReason
+  retry_at?: string        // transient failure: next attempt scheduled
+  dead_lettered?: boolean  // permanent failure (or retries exhausted)
+}
+
 type DispatchDetail = {
   request_id: string
   to: string
   message_id?: string
+  driver?: string
   used_stream: string
   used_template_alias?: string | null
-  status: 'sent' | 'failed'
+  status: 'sent' | 'pending_user' | 'failed' | 'retrying'
   error?: string
+  channels?: Record<string, ChannelResult>
+}
+
+type RepForSend = {
+  id: string
+  name: string
+  office: string | null
+  email: unknown
+  contact_email?: unknown
+  contact_form_url?: string | null
+  level?: string | null
+  chamber?: string | null
+  state?: string | null
+  district?: string | null
+  district_office_address?: unknown
+  dc_office_address?: unknown
+  twitter?: string | null
+  twitter_handle?: string | null
+  facebook?: string | null
+  facebook_page_url?: string | null
+}
+
+/** A channel that already went out on an earlier attempt keeps its original result. */
+function resultFromDelivery(d: DeliveryRow): ChannelResult {
+  return {
+    status: d.status as ChannelStatus,
+    at: d.sent_at || d.last_attempt_at || new Date().toISOString(),
+    to: d.target ?? undefined,
+    driver: d.provider ?? undefined,
+    message_id: d.provider_message_id ?? undefined,
+    post_url: d.post_url ?? undefined,
+    intent_url: d.intent_url ?? undefined,
+  }
+}
+
+function channelResult(status: ChannelStatus, extra: Omit<ChannelResult, 'status' | 'at'> = {}): ChannelResult {
+  return { status, at: new Date().toISOString(), ...extra }
+}
+
+async function sendEmailChannel(row: any, rep: RepForSend): Promise<ChannelResult> {
+  // Resolve recipient email, skipping addresses that kept hard-bouncing
+  const onFile = [...normalizeEmails(rep.email), ...normalizeEmails(rep.contact_email)]
+  if (!onFile.length) return channelResult('failed', { error: 'No email on file for representative', reason: 'no_contact' })
+  const bad = await getBadEmails(onFile)
+  const toEmail = [...normalizeEmails(rep.email, bad), ...normalizeEmails(rep.contact_email, bad)][0] ?? null
+  if (!toEmail) {
+    return channelResult('failed', { error: 'Every email on file for representative is bouncing', reason: 'invalid_address' })
+  }
+
+  // Compose (greeting + body/prayer)
+  const subject = row.subject || 'Message from a Cyber Kingdom of Christ user'
+  const greeting = greetingOnly(rep.office, rep.name)
+
+  const prayerText: string = row.body || row?.prayers?.content || ''
+
+  // Optional author metadata (for template fields + Reply-To)
+  const { email: authorEmail, zip: authorZip } = await getAuthorMeta(row.user_id)
+
+  // Send (Postmark renders the template when configured; other drivers use the HTML/text)
+  try {
+    const text = withGreeting(rep.office, rep.name, prayerText)
+    const html = renderEmailHTML({ subject, greeting, body: prayerText })
+    const resp = await mail.send({
+      from: formatFrom(EMAIL_FROM, EMAIL_FROM_NAME),
+      to: toEmail,
+      subject, // ignored by Postmark template (subject comes from template)
+      html,
+      text,
+      replyTo: authorEmail || null,
+      stream: POSTMARK_STREAM,
+      template: POSTMARK_TEMPLATE_ALIAS
+        ? {
+            alias: POSTMARK_TEMPLATE_ALIAS,
+            model: {
+              subject,
+              recipient_name: rep.name,
+              recipient_office: rep.office || '',
+              rep_title: titleForRep(rep.office),
+              rep_last_name: lastNameFrom(rep.name),
+              district: districtLabel(rep) || '',
+              greeting,
+              prayer_text: prayerText,
+              author_email: authorEmail || '',
+              author_zip: authorZip || '',
+              site_url: SITE_URL,
+            },
+          }
+        : null,
+    })
+    return channelResult('sent', { to: toEmail, driver: resp.driver, message_id: resp.messageId ?? undefined })
+  } catch (e: any) {
+    return channelResult('failed', { to: toEmail, error: String(e?.message || 'Send failed'), reason: classifyDeliveryError(e) })
+  }
+}
+
+async function sendSocialChannel(platform: SocialPlatform, row: any, rep: RepForSend): Promise<ChannelResult> {
+  // Social posts carry the prayer itself, not the letter-style body with its signature
+  const message: string = row?.prayers?.content || row.body || ''
+  const link = SHARE_URL
+
+  let post: SocialPost
+  if (platform === 'x') {
+    const handle = normalizeXHandle(rep.twitter_handle) ?? normalizeXHandle(rep.twitter)
+    if (!handle) return channelResult('skipped', { error: 'No X handle on file for representative' })
+    post = { platform, text: composeXText(handle, message, link), url: link, target: handle }
+  } else {
+    const page = normalizeFacebookPage(rep.facebook_page_url) ?? normalizeFacebookPage(rep.facebook)
+    if (!page) return channelResult('skipped', { error: 'No Facebook page on file for representative' })
+    post = { platform, text: composeFacebookText(page, `${titleForRep(rep.office)} ${rep.name}`, message), url: link, target: page }
+  }
+
+  const client = social[platform]
+  const missing = client.missingEnv()
+  if (missing.length) {
+    return channelResult('failed', { driver: client.name, error: `${missing.join(', ')} missing`, reason: 'not_configured' })
+  }
+
+  try {
+    const resp = await client.post(post)
+    return resp.intentUrl && !resp.postId
+      ? channelResult('intent', { to: post.target ?? undefined, driver: resp.driver, intent_url: resp.intentUrl })
+      : channelResult('sent', {
+          to: post.target ?? undefined,
+          driver: resp.driver,
+          message_id: resp.postId ?? undefined,
+          post_url: resp.postUrl ?? undefined,
+        })
+  } catch (e) {
+    const error = e instanceof Error ? e.message : 'Post failed'
+    return channelResult('failed', { to: post.target ?? undefined, driver: client.name, error, reason: classifyDeliveryError(e) })
+  }
+}
+
+type FormRow = { user_id: string; subject?: string | null; body?: string | null; prayers?: { content?: string | null } | null }
+
+async function sendContactFormChannel(row: FormRow, rep: RepForSend): Promise<ChannelResult> {
+  if (!rep.contact_form_url) return channelResult('skipped', { error: 'No contact form on file for representative' })
+
+  const mapping = await getFormMapping(rep)
+  if (!mapping) {
+    // Permanent until an admin adds a mapping; replaying the dead letter then sends it
+    return channelResult('failed', {
+      to: rep.contact_form_url,
+      error: `No contact-form mapping for ${rep.contact_form_url}`,
+      reason: 'not_configured',
+    })
+  }
+
+  const subject = row.subject || 'Message from a Cyber Kingdom of Christ user'
+  const prayerText: string = row.body || row?.prayers?.content || ''
+  const values: ContactFormValues = {
+    ...(await getSenderDetails(row.user_id)),
+    'message.subject': subject,
+    'message.body': withGreeting(rep.office, rep.name, prayerText),
+    'prayer.content': row?.prayers?.content || '',
+    'rep.name': rep.name,
+    'rep.office': rep.office || '',
+  }
+
+  try {
+    const resp = await contactForms.submit({ ...mapping, form_url: mapping.form_url || rep.contact_form_url }, values)
+    return channelResult('sent', { to: rep.contact_form_url, driver: resp.driver, post_url: resp.responseUrl })
+  } catch (e) {
+    return channelResult('failed', {
+      to: rep.contact_form_url,
+      error: e instanceof Error ? e.message : 'Contact form submission failed',
+      reason: classifyDeliveryError(e),
+    })
+  }
+}
+
+/** Render the letter PDF, store it for download / batch printing and track it in outreach_letters. */
+async function sendLetterChannel(row: FormRow & { id: string }, rep: RepForSend): Promise<ChannelResult> {
+  const office = officeAddressFor(rep, LETTER_PREFER_OFFICE)
+  if (!office) return channelResult('failed', { error: 'No mailing address on file for representative', reason: 'no_contact' })
+
+  const sender = await getSenderDetails(row.user_id)
+  const name = sender['user.full_name'] || 'A constituent'
+  const cityLine = [sender['user.city'], [sender['user.state'], sender['user.zip']].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+  const senderLines = [name, sender['user.address1'], sender['user.address2'], cityLine].filter((l): l is string => !!l)
+  if (senderLines.length === 1 && sender['user.zip']) senderLines.push(`ZIP ${sender['user.zip']}`)
+
+  const recipient = formatAddressBlock(rep.name, office.address)
+  const { bytes, pageCount } = await renderLetterPdf({
+    date: letterDate(),
+    sender: senderLines,
+    recipient,
+    greeting: greetingOnly(rep.office, rep.name),
+    body: row.body || row?.prayers?.content || '',
+    closing: 'Respectfully,',
+    signature: name,
+  })
+
+  const path = letterPath(row.user_id, row.id)
+  const { error: upErr } = await supabase.storage
+    .from(LETTER_BUCKET)
+    .upload(path, bytes, { contentType: 'application/pdf', upsert: true })
+  if (upErr) return channelResult('failed', { error: `Letter upload failed: ${upErr.message}`, reason: classifyDeliveryError(upErr) })
+
+  // A replayed request re-renders; the letter goes back to 'ready' for the next print batch
+  const { error: trackErr } = await supabase
+    .from('outreach_letters')
+    .upsert(
+      {
+        request_id: row.id,
+        user_id: row.user_id,
+        representative_id: rep.id,
+        storage_path: path,
+        page_count: pageCount,
+        office_kind: office.kind,
+        mailing_address: office.address,
+        status: 'ready',
+        batch_path: null,
+        printed_at: null,
+        mailed_at: null,
+      },
+      { onConflict: 'request_id' }
+    )
+  if (trackErr) return channelResult('failed', { error: `outreach_letters upsert failed: ${trackErr.message}`, reason: 'unknown' })
+
+  return channelResult('sent', { to: recipient.slice(1).join(', '), driver: 'pdf', post_url: path })
+}
+
+/**
+ * The message for this rep: the per-recipient override when the user edited one, with
+ * template {{variables}} (src/lib/messageTemplates) resolved. The app validates before
+ * enqueueing; anything still unresolved renders empty.
+ */
+async function renderRowMessage(
+  row: {
+    user_id: string
+    subject?: string | null
+    body?: string | null
+    subject_override?: string | null
+    body_override?: string | null
+    prayers?: { content?: string | null } | null
+  },
+  rep: RepForSend
+): Promise<{ subject: string | null; body: string | null }> {
+  const subject: string | null = row.subject_override ?? row.subject ?? null
+  const body: string | null = row.body_override ?? row.body ?? null
+  if (!templateVariablesIn(`${subject || ''}\n${body || ''}`).length) return { subject, body }
+
+  const sender = await getSenderDetails(row.user_id)
+  const values: TemplateValues = {
+    ...repTemplateValues(rep),
+    'prayer.content': row?.prayers?.content ?? '',
+    'user.name': sender['user.full_name'],
+    'user.zip': sender['user.zip'],
+  }
+  return {
+    subject: subject && renderMessageTemplate(subject, values).text,
+    body: body && renderMessageTemplate(body, values).text,
+  }
+}
+
+/** Email to an office with no usable address goes through its web form instead, when it has one. */
+function shouldFallBackToForm(result: ChannelResult, rep: RepForSend): boolean {
+  return result.status === 'failed'
+    && !!rep.contact_form_url
+    && (result.reason === 'no_contact' || result.reason === 'invalid_address')
+}
+
+async function deliverChannel(channel: string, row: any, rep: RepForSend): Promise<ChannelResult> {
+  if (channel === 'email') return sendEmailChannel(row, rep)
+  if (channel === 'x' || channel === 'facebook') return sendSocialChannel(channel, row, rep)
+  if (channel === 'contact_form') return sendContactFormChannel(row, rep)
+  if (channel === 'letter') return sendLetterChannel(row, rep)
+  return channelResult('failed', { error: `Unsupported channel '${channel}'`, reason: 'rejected' })
+}
+
+/** Retry transient failures with backoff; dead-letter permanent ones (and exhausted retries). */
+async function scheduleOrDeadLetter(requestId: string, channel: string, result: ChannelResult, attempts: number) {
+  if (result.status !== 'failed') return
+  const reason = result.reason ?? 'unknown'
+  if (isTransient(reason) && attempts < MAX_ATTEMPTS) {
+    result.retry_at = nextAttemptAt(attempts)
+    return
+  }
+
+  result.dead_lettered = true
+  const { error } = await supabase.from('outreach_dead_letters').insert({
+    request_id: requestId,
+    channel,
+    reason,
+    error: result.error ?? null,
+    attempt_count: attempts,
+  })
+  // 23505: an open dead letter already exists for this request/channel
+  if (error && error.code !== '23505') console.warn(`outreach_dead_letters insert failed for ${requestId}/${channel}: ${error.message}`)
+}
+
+/**
+ * Roll-up: while any channel has a retry scheduled the request stays 'queued' (with
+ * next_attempt_at); otherwise it is 'sent' when at least one channel delivered, and
+ * 'pending_user' when all we have is a share link the user still has to post (intent).
+ * Channels that failed or were skipped are summarized in `error`.
+ */
+async function finishRow(id: string, results: Record<string, ChannelResult>) {
+  const entries = Object.entries(results)
+  const delivered = entries.some(([, r]) => r.status === 'sent')
+  const intent = entries.some(([, r]) => r.status === 'intent')
+  const retryTimes = entries.map(([, r]) => r.retry_at).filter((t): t is string => !!t).sort()
+  const problems = entries
+    .filter(([, r]) => r.status === 'failed' || r.status === 'skipped')
+    .map(([ch, r]) => `${ch}: ${r.error || r.status}${r.retry_at ? ' (will retry)' : ''}`)
+
+  const status: DispatchDetail['status'] =
+    retryTimes.length ? 'retrying' : delivered ? 'sent' : intent ? 'pending_user' : 'failed'
+
+  await supabase
+    .from('outreach_requests')
+    .update({
+      status: status === 'retrying' ? 'queued' : status,
+      next_attempt_at: retryTimes[0] ?? null,
+      sent_at: delivered ? new Date().toISOString() : null,
+      error: problems.length ? problems.join('; ') : null,
+      channel_status: results,
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq('id', id)
+
+  return { status, error: problems.join('; ') || undefined }
 }
 
 async function sendOneRow(row: any): Promise<DispatchDetail> {
-  const rep = row.representatives as { id: string; name: string; office: string | null; email: unknown } | null
+  const rep = row.representatives as RepForSend | null
   if (!rep) {
     await markFailed(row.id, 'Representative not found')
     return {
@@ -253,7 +719,7 @@ async function sendOneRow(row: any): Promise<DispatchDetail> {
     }
   }
 
-  // 1) Tier enforcement (future proof)
+  // 1) Tier enforcement (channels per plan come from src/lib/entitlements)
   const tier = await getUserTier(row.user_id)
   const allowed = allowedChannelsForTier(tier)
   const requested: string[] = row.channels || []
@@ -271,119 +737,267 @@ async function sendOneRow(row: any): Promise<DispatchDetail> {
     }
   }
 
-  // 2) Resolve recipient email
-  const emails = normalizeEmails(rep.email ?? (rep as any).contact_email)
-
-  const toEmail = emails[0] ?? null
-  if (!toEmail) {
-    await markFailed(row.id, 'No email on file for representative')
-    return {
-      request_id: row.id,
-      to: '(none)',
-      used_stream: POSTMARK_STREAM,
-      used_template_alias: POSTMARK_TEMPLATE_ALIAS || null,
-      status: 'failed',
-      error: 'No email on file for representative',
+  // 2) Deliver each requested channel independently; on a requeue only the
+  //    channels that haven't gone out yet are attempted again
+  const message = { ...row, ...(await renderRowMessage(row, rep)) }
+  const previous = await getDeliveries(row.id)
+  const results: Record<string, ChannelResult> = {}
+  const channels = [...requested]
+  for (let i = 0; i < channels.length; i++) {
+    const channel = channels[i]
+    const prior = previous[channel]
+    if (USER_LOGGED_CHANNELS.has(channel)) {
+      if (prior && prior.status !== 'pending') results[channel] = resultFromDelivery(prior)
+      continue
     }
-  }
-
-  // 3) Compose (greeting + body/prayer)
-  const subject = row.subject || 'Message from a Cyber Kingdom of Christ user'
-  const greeting = greetingOnly(rep.office, (rep as any).name)
-
-  const prayerText: string = row.body || row?.prayers?.content || ''
-
-  // 4) Optional author metadata (for template fields + Reply-To)
-  const { email: authorEmail, zip: authorZip } = await getAuthorMeta(row.user_id)
-
-  // 5) Send (template if available, else HTML/text)
-  try {
-    let resp: PostmarkSendResponse | undefined
-
-    if (POSTMARK_TEMPLATE_ALIAS) {
-      resp = await sendWithPostmark({
-        to: toEmail,
-        subject, // ignored by Postmark template (subject comes from template)
-        replyTo: authorEmail || null,
-        template: {
-          alias: POSTMARK_TEMPLATE_ALIAS,
-          model: {
-            subject,
-            recipient_name: rep.name,
-            recipient_office: rep.office || '',
-            greeting,
-            prayer_text: prayerText,
-            author_email: authorEmail || '',
-            author_zip: authorZip || '',
-            site_url: SITE_URL,
-          },
-        },
-      })
-    } else {
-      const text = withGreeting(rep.office, (rep as any).name, prayerText)
-      const html = renderEmailHTML({ subject, greeting, body: prayerText })
-      resp = await sendWithPostmark({ to: toEmail, subject, html, text, replyTo: authorEmail || null })
+    if (prior && (prior.status === 'sent' || prior.status === 'intent')) {
+      results[channel] = resultFromDelivery(prior)
+      continue
     }
+    const attempts = (prior?.attempt_count ?? 0) + 1
+    let result = await deliverChannel(channel, message, rep)
 
-    await markSent(row.id)
-    return {
-      request_id: row.id,
-      to: toEmail,
-      message_id: resp?.MessageID,
-      used_stream: POSTMARK_STREAM,
-      used_template_alias: POSTMARK_TEMPLATE_ALIAS || null,
-      status: 'sent',
-    }
-  } catch (e: any) {
-    const err = String(e?.message || 'Send failed')
-    await markFailed(row.id, err)
-    return {
-      request_id: row.id,
-      to: toEmail,
-      used_stream: POSTMARK_STREAM,
-      used_template_alias: POSTMARK_TEMPLATE_ALIAS || null,
-      status: 'failed',
-      error: err,
+    // 2a) Fallback: email → contact form (the form attempt gets its own delivery record)
+    if (channel === 'email' && !channels.includes('contact_form') && shouldFallBackToForm(result, rep)) {
+      result = channelResult('skipped', { to: result.to, error: `${result.error}; sent via contact form`, reason: result.reason })
+      channels.push('contact_form')
     }
+
+    results[channel] = result
+    await scheduleOrDeadLetter(row.id, channel, result, attempts)
+    await recordDelivery(row.id, channel, result, attempts)
+  }
+
+  // 3) Roll up into the request row
+  const { status, error } = await finishRow(row.id, results)
+  const email = results.email
+  return {
+    request_id: row.id,
+    to: email?.to ?? '(none)',
+    message_id: email?.message_id,
+    driver: email?.driver,
+    used_stream: POSTMARK_STREAM,
+    used_template_alias: POSTMARK_TEMPLATE_ALIAS || null,
+    status,
+    error,
+    channels: results,
   }
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Batch deliver (admin-triggered)
+// Batch deliver (scheduled outreach-drain + admin-triggered)
 // ────────────────────────────────────────────────────────────────────────────
-async function deliverQueued(): Promise<{
+export async function deliverQueued(opts: { limit?: number; budgetMs?: number } = {}): Promise<{
   processed: number
   sent: number
+  pending_user: number
   failed: number
+  retrying: number
+  deferred: number
   used_stream: string
   used_template_alias: string | null
   details: DispatchDetail[]
 }> {
-  if (!POSTMARK_SERVER_TOKEN) throw new Error('POSTMARK_SERVER_TOKEN missing')
-  if (!EMAIL_FROM) throw new Error('EMAIL_FROM missing')
+  assertMailConfigured()
 
-  const batch = await getQueued(100)
-  let processed = 0, sent = 0, failed = 0
+  const worker = `drain-${randomUUID()}`
+  const deadline = Date.now() + (opts.budgetMs ?? DRAIN_BUDGET_MS)
+  const batch = await claimQueued(worker, Math.min(opts.limit ?? DRAIN_BATCH_LIMIT, 500))
+  let processed = 0, sent = 0, pendingUser = 0, failed = 0, retrying = 0
   const details: DispatchDetail[] = []
 
   for (const row of batch as any[]) {
+    // Out of budget: hand the rest back so the next run picks them up right away
+    if (Date.now() >= deadline) break
     processed += 1
     const result = await sendOneRow(row)
     details.push(result)
     if (result.status === 'sent') sent += 1
+    else if (result.status === 'pending_user') pendingUser += 1
+    else if (result.status === 'retrying') retrying += 1
     else failed += 1
   }
 
+  const leftover = batch.slice(processed).map((r) => r.id as string)
+  await releaseLeases(worker, leftover)
+
   return {
     processed,
     sent,
+    pending_user: pendingUser,
     failed,
+    retrying,
+    deferred: leftover.length,
     used_stream: POSTMARK_STREAM,
     used_template_alias: POSTMARK_TEMPLATE_ALIAS || null,
     details,
   }
 }
 
+// ────────────────────────────────────────────────────────────────────────────
+// Queue status (admin)
+// ────────────────────────────────────────────────────────────────────────────
+function queuedCountQuery() {
+  return supabase.from('outreach_requests').select('id', { count: 'exact', head: true }).eq('status', 'queued')
+}
+
+async function countRequests(build: (q: ReturnType<typeof queuedCountQuery>) => ReturnType<typeof queuedCountQuery>): Promise<number> {
+  const { count, error } = await build(queuedCountQuery())
+  if (error) throw new Error(error.message)
+  return count ?? 0
+}
+
+async function queueStatus() {
+  const now = new Date().toISOString()
+
+  const [depth, due, backingOff, scheduled, leased] = await Promise.all([
+    countRequests((q) => q),
+    countRequests((q) =>
+      q.or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`).or(`deliver_after.is.null,deliver_after.lte.${now}`)
+    ),
+    countRequests((q) => q.gt('next_attempt_at', now)),
+    countRequests((q) => q.gt('deliver_after', now)),
+    countRequests((q) => q.gt('locked_until', now)),
+  ])
+
+  const { data: oldest, error } = await supabase
+    .from('outreach_requests')
+    .select('id, created_at')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw new Error(error.message)
+
+  const { count: deadLetters } = await supabase
+    .from('outreach_dead_letters')
+    .select('id', { count: 'exact', head: true })
+    .is('replayed_at', null)
+
+  return {
+    queue_depth: depth,
+    due,
+    backing_off: backingOff,
+    scheduled,
+    leased,
+    oldest_queued_at: oldest?.created_at ?? null,
+    oldest_queued_age_seconds: oldest ? Math.round((Date.now() - new Date(oldest.created_at).getTime()) / 1000) : null,
+    open_dead_letters: deadLetters ?? 0,
+    drain: { batch_limit: DRAIN_BATCH_LIMIT, budget_seconds: DRAIN_BUDGET_MS / 1000, lease_seconds: LEASE_SECONDS },
+    at: now,
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Dead letters (admin)
+// ────────────────────────────────────────────────────────────────────────────
+async function listDeadLetters(opts: { reason?: string; limit?: number }) {
+  let query = supabase
+    .from('outreach_dead_letters')
+    .select('id, request_id, channel, reason, error, attempt_count, created_at')
+    .is('replayed_at', null)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(opts.limit ?? 100, 500))
+  if (opts.reason) query = query.eq('reason', opts.reason)
+
+  const { data, error } = await query
+  if (error) throw new Error(error.message)
+  return data || []
+}
+
+/**
+ * Re-queue dead-lettered channels: the delivery goes back to 'pending' with a fresh attempt
+ * budget and the request to 'queued', so the next run retries only those channels.
+ */
+async function replayDeadLetters(opts: { ids?: string[]; reason?: string; limit?: number }) {
+  let query = supabase
+    .from('outreach_dead_letters')
+    .select('id, request_id, channel')
+    .is('replayed_at', null)
+    .limit(Math.min(opts.limit ?? 100, 500))
+  if (opts.ids?.length) query = query.in('id', opts.ids)
+  if (opts.reason) query = query.eq('reason', opts.reason)
+
+  const { data: letters, error } = await query
+  if (error) throw new Error(error.message)
+  if (!letters?.length) return { replayed: 0, request_ids: [] as string[] }
+
+  const now = new Date().toISOString()
+  for (const l of letters) {
+    await supabase
+      .from('outreach_deliveries')
+      .update({ status: 'pending', attempt_count: 0, next_attempt_at: null, failure_reason: null, error: null })
+      .eq('request_id', l.request_id)
+      .eq('channel', l.channel)
+  }
+
+  const requestIds = [...new Set(letters.map((l) => l.request_id as string))]
+  const { error: reqErr } = await supabase
+    .from('outreach_requests')
+    .update({ status: 'queued', next_attempt_at: null, error: null })
+    .in('id', requestIds)
+  if (reqErr) throw new Error(reqErr.message)
+
+  const { error: markErr } = await supabase
+    .from('outreach_dead_letters')
+    .update({ replayed_at: now })
+    .in('id', letters.map((l) => l.id))
+  if (markErr) throw new Error(markErr.message)
+
+  return { replayed: letters.length, request_ids: requestIds }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Letters (admin): batch print jobs
+// ────────────────────────────────────────────────────────────────────────────
+/** Merge the oldest 'ready' letters into one PDF, store it under batches/ and mark them printed. */
+async function buildLetterBatch(opts: { limit?: number; duplex?: boolean }) {
+  const { data: letters, error } = await supabase
+    .from('outreach_letters')
+    .select('id, storage_path')
+    .eq('status', 'ready')
+    .order('created_at', { ascending: true })
+    .limit(Math.min(opts.limit ?? 100, 500))
+  if (error) throw new Error(error.message)
+  if (!letters?.length) return { letters: 0, pages: 0, batch_path: null, url: null }
+
+  const pdfs: Uint8Array[] = []
+  for (const l of letters) {
+    const { data: file, error: dlErr } = await supabase.storage.from(LETTER_BUCKET).download(l.storage_path)
+    if (dlErr || !file) throw new Error(`Download failed for ${l.storage_path}: ${dlErr?.message || 'empty'}`)
+    pdfs.push(new Uint8Array(await file.arrayBuffer()))
+  }
+  const { bytes, pageCount } = await mergeLetterPdfs(pdfs, { duplex: opts.duplex !== false })
+
+  const now = new Date().toISOString()
+  const batchPath = `batches/${now.replace(/[:.]/g, '-')}.pdf`
+  const { error: upErr } = await supabase.storage
+    .from(LETTER_BUCKET)
+    .upload(batchPath, bytes, { contentType: 'application/pdf' })
+  if (upErr) throw new Error(`Batch upload failed: ${upErr.message}`)
+
+  const { error: markErr } = await supabase
+    .from('outreach_letters')
+    .update({ status: 'printed', batch_path: batchPath, printed_at: now })
+    .in('id', letters.map((l) => l.id))
+  if (markErr) throw new Error(markErr.message)
+
+  const { data: signed } = await supabase.storage.from(LETTER_BUCKET).createSignedUrl(batchPath, 24 * 60 * 60)
+  return { letters: letters.length, pages: pageCount, batch_path: batchPath, url: signed?.signedUrl ?? null }
+}
+
+async function markLettersMailed(opts: { ids?: string[]; batch_path?: string }) {
+  let query = supabase
+    .from('outreach_letters')
+    .update({ status: 'mailed', mailed_at: new Date().toISOString() })
+    .eq('status', 'printed')
+  if (opts.ids?.length) query = query.in('id', opts.ids)
+  if (opts.batch_path) query = query.eq('batch_path', opts.batch_path)
+  const { data, error } = await query.select('id')
+  if (error) throw new Error(error.message)
+  return { updated: data?.length ?? 0 }
+}
+
 // ────────────────────────────────────────────────────────────────────────────
 // Single deliver (user-triggered, requires Authorization Bearer token)
 // ────────────────────────────────────────────────────────────────────────────
@@ -391,29 +1005,31 @@ async function deliverSingle(
   authHeader: string | undefined,
   opts: { request_id?: string; prayer_id?: string }
 ) {
-  if (!POSTMARK_SERVER_TOKEN) throw new Error('POSTMARK_SERVER_TOKEN missing')
-  if (!EMAIL_FROM) throw new Error('EMAIL_FROM missing')
-
-  if (!supabasePublic) throw new Error('SUPABASE_ANON_KEY missing for JWT verification')
+  assertMailConfigured()
 
   // Extract/verify JWT and get user id
-  const token = (authHeader || '').replace(/^Bearer\s+/i, '').trim()
-  if (!token) {
-    return { statusCode: 401, body: JSON.stringify({ error: 'Missing Authorization Bearer token' }) }
-  }
-  const { data: userResp, error: userErr } = await supabasePublic.auth.getUser(token)
-  if (userErr || !userResp?.user?.id) {
-    return { statusCode: 401, body: JSON.stringify({ error: 'Invalid token' }) }
+  const auth = await verifyBearer(authHeader)
+  if (!auth.ok) {
+    return { statusCode: auth.statusCode, body: JSON.stringify({ error: auth.error }) }
   }
-  const userId = userResp.user.id
+  const userId = auth.userId
 
   // Fetch the specific queued request that belongs to this user
-  const row = await getSingleForUser(userId, { request_id: opts.request_id, prayer_id: opts.prayer_id })
-  if (!row) {
+  const found = await getSingleForUser(userId, { request_id: opts.request_id, prayer_id: opts.prayer_id })
+  if (!found) {
     return { statusCode: 404, body: JSON.stringify({ error: 'No matching queued request found' }) }
   }
-  if (row.status !== 'queued') {
-    return { statusCode: 409, body: JSON.stringify({ error: `Request is not queued (status=${row.status})` }) }
+  if (found.status !== 'queued') {
+    return { statusCode: 409, body: JSON.stringify({ error: `Request is not queued (status=${found.status})` }) }
+  }
+  if (found.deliver_after && new Date(found.deliver_after) > new Date()) {
+    return { statusCode: 409, body: JSON.stringify({ error: `Request is scheduled for ${found.deliver_after}` }) }
+  }
+
+  // Take the same lease the drain uses so a concurrent scheduled run can't send it too
+  const [row] = await claimQueued(`single-${randomUUID()}`, 1, [found.id])
+  if (!row) {
+    return { statusCode: 409, body: JSON.stringify({ error: 'Request is already being delivered or waiting to retry' }) }
   }
 
   // Send it
@@ -437,28 +1053,55 @@ export const handler: Handler = async (event) => {
   const headers = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'Content-Type, x-ckoc-admin, Authorization',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
   }
 
   if (event.httpMethod === 'OPTIONS') {
     return { statusCode: 200, headers, body: '' }
   }
+
+  const adminHeader = event.headers['x-ckoc-admin'] || event.headers['X-Ckoc-Admin']
+  const isAdminOK = ADMIN_SECRET ? adminHeader === ADMIN_SECRET : true
+
+  if (event.httpMethod === 'GET') {
+    try {
+      // GET ?action=status → queue health (admin)
+      if (event.queryStringParameters?.action === 'status') {
+        if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
+        const status = await queueStatus()
+        return { statusCode: 200, headers, body: JSON.stringify({ ok: true, ...status }) }
+      }
+
+      // Plain GET → manual drain (admin); leases make overlapping runs with outreach-drain safe
+      if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
+      const result = await deliverQueued()
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true, ...result }) }
+    } catch (e) {
+      return { statusCode: 500, headers, body: JSON.stringify({ error: e instanceof Error ? e.message : 'Server error' }) }
+    }
+  }
   if (event.httpMethod !== 'POST') {
     return { statusCode: 405, headers, body: JSON.stringify({ error: 'Method not allowed' }) }
   }
 
   try {
     const payload = JSON.parse(event.body || '{}')
-    const adminHeader = event.headers['x-ckoc-admin'] || event.headers['X-Ckoc-Admin']
-    const isAdminOK = ADMIN_SECRET ? adminHeader === ADMIN_SECRET : true
 
     // Admin-only batch actions
     if (payload.action === 'deliver_queued') {
       if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
-      const result = await deliverQueued()
+      const result = await deliverQueued({
+        limit: typeof payload.limit === 'number' ? payload.limit : undefined,
+      })
       return { statusCode: 200, headers, body: JSON.stringify({ ok: true, ...result }) }
     }
 
+    if (payload.action === 'queue_status') {
+      if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
+      const status = await queueStatus()
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true, ...status }) }
+    }
+
     if (payload.action === 'mark_sent') {
       if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
       const ids: string[] = Array.isArray(payload.ids) ? payload.ids : []
@@ -475,6 +1118,51 @@ export const handler: Handler = async (event) => {
       return { statusCode: 200, headers, body: JSON.stringify({ ok: true, updated: ids.length }) }
     }
 
+    if (payload.action === 'list_dead_letters') {
+      if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
+      const letters = await listDeadLetters({
+        reason: typeof payload.reason === 'string' ? payload.reason : undefined,
+        limit: typeof payload.limit === 'number' ? payload.limit : undefined,
+      })
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true, dead_letters: letters }) }
+    }
+
+    if (payload.action === 'replay_dead_letters') {
+      if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
+      const ids: string[] = Array.isArray(payload.ids) ? payload.ids : []
+      const reason = typeof payload.reason === 'string' ? payload.reason : undefined
+      // Replaying everything needs an explicit filter so a stray call can't flood the queue
+      if (!ids.length && !reason && payload.all !== true) {
+        return { statusCode: 400, headers, body: JSON.stringify({ error: 'Provide ids, reason or all: true' }) }
+      }
+      const result = await replayDeadLetters({
+        ids,
+        reason,
+        limit: typeof payload.limit === 'number' ? payload.limit : undefined,
+      })
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true, ...result }) }
+    }
+
+    if (payload.action === 'letters_batch') {
+      if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
+      const result = await buildLetterBatch({
+        limit: typeof payload.limit === 'number' ? payload.limit : undefined,
+        duplex: typeof payload.duplex === 'boolean' ? payload.duplex : undefined,
+      })
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true, ...result }) }
+    }
+
+    if (payload.action === 'letters_mark_mailed') {
+      if (!isAdminOK) return { statusCode: 401, headers, body: JSON.stringify({ error: 'Unauthorized' }) }
+      const ids: string[] = Array.isArray(payload.ids) ? payload.ids : []
+      const batchPath = typeof payload.batch_path === 'string' ? payload.batch_path : undefined
+      if (!ids.length && !batchPath) {
+        return { statusCode: 400, headers, body: JSON.stringify({ error: 'Provide ids or batch_path' }) }
+      }
+      const result = await markLettersMailed({ ids, batch_path: batchPath })
+      return { statusCode: 200, headers, body: JSON.stringify({ ok: true, ...result }) }
+    }
+
     // User-triggered single send (requires Authorization Bearer token)
     if (payload.action === 'deliver_single') {
       const authHeader = event.headers['authorization'] || event.headers['Authorization']
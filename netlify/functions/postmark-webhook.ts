@@ -0,0 +1,315 @@
+// netlify/functions/postmark-webhook.ts
+// Postmark Delivery / Bounce / SpamComplaint webhooks for outreach email.
+//
+// Configure in Postmark (outreach stream → Webhooks) with basic auth, e.g.
+//   https://postmark:<POSTMARK_WEBHOOK_SECRET>@<site>/.netlify/functions/postmark-webhook
+// (or append ?token=<POSTMARK_WEBHOOK_SECRET>).
+//
+// Events are matched to outreach_deliveries by provider_message_id (the MessageID
+// returned when the processor sent the email). An outreach-stream event that arrives
+// before the processor has saved that id gets a 503, so Postmark retries it, for up to
+// POSTMARK_UNMATCHED_RETRY_MINUTES after it first came in. Bounces fail the email delivery and
+// count against the address; after EMAIL_HARD_BOUNCE_THRESHOLD hard bounces the
+// address is marked bad in email_address_health and the processor stops choosing it.
+// Each ledger event (postmark_events) is counted against its address at most once.
+import type { Handler } from '@netlify/functions'
+import { createClient } from '@supabase/supabase-js'
+import { timingSafeEqual } from 'crypto'
+import type { FailureReason } from '../lib/delivery-errors'
+
+// ────────────────────────────────────────────────────────────────────────────
+// ENV
+// ────────────────────────────────────────────────────────────────────────────
+const WEBHOOK_SECRET = (process.env.POSTMARK_WEBHOOK_SECRET || '').trim()
+const HARD_BOUNCE_THRESHOLD = Number(process.env.EMAIL_HARD_BOUNCE_THRESHOLD || 2)
+const OUTREACH_STREAM = (process.env.POSTMARK_STREAM || 'outreach').trim()
+const UNMATCHED_RETRY_MS = Number(process.env.POSTMARK_UNMATCHED_RETRY_MINUTES || 180) * 60 * 1000
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+  auth: { persistSession: false },
+})
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types/Helpers
+// ────────────────────────────────────────────────────────────────────────────
+/** The subset of Postmark's webhook payloads we read (field names are Postmark's). */
+type PostmarkEvent = {
+  RecordType: string                // 'Delivery' | 'Bounce' | 'SpamComplaint' | …
+  ID?: number                       // bounce / complaint id
+  MessageID?: string
+  MessageStream?: string
+  Type?: string                     // bounce type, e.g. 'HardBounce', 'SoftBounce', 'Transient'
+  Email?: string                    // Bounce / SpamComplaint recipient
+  Recipient?: string                // Delivery recipient
+  Description?: string
+  Details?: string
+  Inactive?: boolean                // Postmark deactivated the address
+  BouncedAt?: string
+  DeliveredAt?: string
+}
+
+// Bounce types that say the address itself is unusable
+const HARD_BOUNCE_TYPES = new Set(['HardBounce', 'BadEmailAddress', 'ManuallyDeactivated'])
+// Delivery is only delayed; Postmark keeps trying and reports again
+const NON_FINAL_BOUNCE_TYPES = new Set(['Transient', 'AutoResponder', 'OpenRelayTest', 'SMTPApiError'])
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a)
+  const bb = Buffer.from(b)
+  return ab.length === bb.length && timingSafeEqual(ab, bb)
+}
+
+function isAuthorized(event: { headers: Record<string, string | undefined>; queryStringParameters?: Record<string, string | undefined> | null }): boolean {
+  const auth = event.headers['authorization'] || event.headers['Authorization'] || ''
+  const basic = auth.match(/^Basic\s+(.+)$/i)
+  if (basic) {
+    const decoded = Buffer.from(basic[1], 'base64').toString('utf8')
+    const password = decoded.slice(decoded.indexOf(':') + 1)
+    if (safeEqual(password, WEBHOOK_SECRET)) return true
+  }
+  const token = event.queryStringParameters?.token
+  return !!token && safeEqual(token, WEBHOOK_SECRET)
+}
+
+function eventIdOf(evt: PostmarkEvent): string {
+  return `${evt.RecordType}:${evt.ID ?? evt.MessageID ?? ''}`
+}
+
+function bounceReason(evt: PostmarkEvent): FailureReason {
+  if (evt.Inactive) return 'inactive_recipient'
+  return HARD_BOUNCE_TYPES.has(evt.Type || '') ? 'invalid_address' : 'rejected'
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// postmark_events ledger
+// ────────────────────────────────────────────────────────────────────────────
+/** Insert the event if new; `processed` when a previous delivery already applied it. */
+async function recordEvent(id: string, evt: PostmarkEvent): Promise<{ processed: boolean; receivedAt: string }> {
+  const { error } = await supabase
+    .from('postmark_events')
+    .upsert(
+      { id, record_type: evt.RecordType, message_id: evt.MessageID ?? null, payload: evt },
+      { onConflict: 'id', ignoreDuplicates: true }
+    )
+  if (error) throw new Error(`postmark_events insert failed: ${error.message}`)
+
+  const { data, error: readErr } = await supabase
+    .from('postmark_events')
+    .select('processed_at, received_at')
+    .eq('id', id)
+    .maybeSingle()
+  if (readErr) throw new Error(`postmark_events read failed: ${readErr.message}`)
+  return { processed: !!data?.processed_at, receivedAt: (data?.received_at as string | undefined) ?? new Date().toISOString() }
+}
+
+async function markEventProcessed(id: string, requestId: string | null, errorMessage: string | null) {
+  await supabase
+    .from('postmark_events')
+    .update(
+      errorMessage
+        ? { error: errorMessage }
+        : { processed_at: new Date().toISOString(), request_id: requestId, error: null }
+    )
+    .eq('id', id)
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Delivery state
+// ────────────────────────────────────────────────────────────────────────────
+type EmailDelivery = { id: string; request_id: string; status: string; target: string | null }
+
+async function findDelivery(messageId: string | undefined): Promise<EmailDelivery | null> {
+  if (!messageId) return null
+  const { data, error } = await supabase
+    .from('outreach_deliveries')
+    .select('id, request_id, status, target')
+    .eq('channel', 'email')
+    .eq('provider_message_id', messageId)
+    .limit(1)
+    .maybeSingle()
+  if (error) throw new Error(`outreach_deliveries read failed: ${error.message}`)
+  return (data as EmailDelivery | null) ?? null
+}
+
+/**
+ * A bounced email no longer counts as delivered: patch channel_status.email and, when no
+ * other channel went out, fail the request itself (or leave it to the user when a share
+ * link is still waiting on them).
+ */
+async function rollUpBounce(requestId: string, message: string, reason: FailureReason) {
+  const { data: req, error } = await supabase
+    .from('outreach_requests')
+    .select('status, error, channel_status')
+    .eq('id', requestId)
+    .maybeSingle()
+  if (error || !req) return
+
+  const { data: others } = await supabase
+    .from('outreach_deliveries')
+    .select('channel, status')
+    .eq('request_id', requestId)
+    .neq('channel', 'email')
+  const delivered = (others || []).some((d) => d.status === 'sent')
+  const intent = (others || []).some((d) => d.status === 'intent')
+
+  const channelStatus = { ...((req.channel_status as Record<string, unknown>) || {}) }
+  channelStatus.email = {
+    ...((channelStatus.email as Record<string, unknown>) || {}),
+    status: 'failed',
+    error: message,
+    reason,
+    at: new Date().toISOString(),
+  }
+
+  const problems = [req.error, `email: ${message}`].filter(Boolean).join('; ')
+  await supabase
+    .from('outreach_requests')
+    .update({
+      channel_status: channelStatus,
+      error: problems,
+      ...(delivered ? {} : { status: intent ? 'pending_user' : 'failed' }),
+    })
+    .eq('id', requestId)
+}
+
+async function handleDelivery(evt: PostmarkEvent, delivery: EmailDelivery) {
+  await supabase
+    .from('outreach_deliveries')
+    .update({ delivered_at: evt.DeliveredAt || new Date().toISOString() })
+    .eq('id', delivery.id)
+}
+
+async function handleBounce(id: string, evt: PostmarkEvent, delivery: EmailDelivery) {
+  const address = evt.Email || delivery.target
+  const type = evt.Type || 'Bounce'
+  const hard = HARD_BOUNCE_TYPES.has(type)
+
+  // Counted once per ledger event, so a retried or redelivered bounce doesn't count twice
+  if (address) {
+    const { data: bad, error } = await supabase.rpc('note_email_event', {
+      p_event_id: id,
+      p_email: address,
+      p_kind: hard ? 'hard' : 'soft',
+      p_type: type,
+      p_description: evt.Description ?? null,
+      p_hard_bounce_threshold: HARD_BOUNCE_THRESHOLD,
+    })
+    if (error) throw new Error(`note_email_event failed: ${error.message}`)
+    if (bad && hard) console.warn(`postmark-webhook: ${address} marked bad after repeated hard bounces`)
+  }
+
+  if (NON_FINAL_BOUNCE_TYPES.has(type)) return
+
+  const reason = bounceReason(evt)
+  const message = `Bounced (${type})${evt.Description ? `: ${evt.Description}` : ''}`
+  const { error: updErr } = await supabase
+    .from('outreach_deliveries')
+    .update({
+      status: 'failed',
+      bounced_at: evt.BouncedAt || new Date().toISOString(),
+      bounce_type: type,
+      failure_reason: reason,
+      error: message,
+    })
+    .eq('id', delivery.id)
+  if (updErr) throw new Error(`outreach_deliveries update failed: ${updErr.message}`)
+
+  // Same path as a send-time permanent failure, so admins see it with the other dead letters
+  const { error: dlErr } = await supabase
+    .from('outreach_dead_letters')
+    .insert({ request_id: delivery.request_id, channel: 'email', reason, error: message, attempt_count: 1 })
+  if (dlErr && dlErr.code !== '23505') console.warn(`outreach_dead_letters insert failed: ${dlErr.message}`)
+
+  await rollUpBounce(delivery.request_id, message, reason)
+}
+
+async function handleSpamComplaint(id: string, evt: PostmarkEvent, delivery: EmailDelivery) {
+  await supabase
+    .from('outreach_deliveries')
+    .update({ complained_at: evt.BouncedAt || new Date().toISOString() })
+    .eq('id', delivery.id)
+
+  const address = evt.Email || delivery.target
+  if (!address) return
+  const { error } = await supabase.rpc('note_email_event', {
+    p_event_id: id,
+    p_email: address,
+    p_kind: 'complaint',
+    p_type: evt.Type || 'SpamComplaint',
+    p_description: evt.Description ?? null,
+    p_hard_bounce_threshold: HARD_BOUNCE_THRESHOLD,
+  })
+  if (error) throw new Error(`note_email_event failed: ${error.message}`)
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Handler
+// ────────────────────────────────────────────────────────────────────────────
+export const handler: Handler = async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return { statusCode: 405, body: 'Method Not Allowed' }
+  }
+  if (!WEBHOOK_SECRET) {
+    return { statusCode: 500, body: 'POSTMARK_WEBHOOK_SECRET missing' }
+  }
+  if (!isAuthorized(event)) {
+    return { statusCode: 401, body: 'Unauthorized' }
+  }
+
+  let evt: PostmarkEvent
+  try {
+    const rawBody = event.isBase64Encoded
+      ? Buffer.from(event.body || '', 'base64').toString('utf8')
+      : event.body || ''
+    evt = JSON.parse(rawBody)
+  } catch {
+    return { statusCode: 400, body: 'Invalid JSON' }
+  }
+  if (!evt?.RecordType) {
+    return { statusCode: 400, body: 'Missing RecordType' }
+  }
+
+  const id = eventIdOf(evt)
+  try {
+    // Postmark retries on non-2xx; skip events we already applied
+    const { processed, receivedAt } = await recordEvent(id, evt)
+    if (processed) {
+      return { statusCode: 200, body: 'Event already processed' }
+    }
+
+    const delivery = await findDelivery(evt.MessageID)
+
+    // A fast bounce can beat the processor saving provider_message_id: leave the event
+    // unprocessed and let Postmark retry it while it's recent
+    if (!delivery && evt.MessageStream === OUTREACH_STREAM && Date.now() - new Date(receivedAt).getTime() < UNMATCHED_RETRY_MS) {
+      await markEventProcessed(id, null, 'No matching outreach delivery yet')
+      return { statusCode: 503, body: 'No matching outreach delivery yet' }
+    }
+
+    // Not an outreach email (e.g. notifications stream) → keep the ledger row, nothing to update
+    if (delivery) {
+      switch (evt.RecordType) {
+        case 'Delivery':
+          await handleDelivery(evt, delivery)
+          break
+        case 'Bounce':
+          await handleBounce(id, evt, delivery)
+          break
+        case 'SpamComplaint':
+          await handleSpamComplaint(id, evt, delivery)
+          break
+        default:
+          console.log(`postmark-webhook: ignoring ${evt.RecordType}`)
+      }
+    }
+
+    await markEventProcessed(id, delivery?.request_id ?? null, null)
+    return { statusCode: 200, body: JSON.stringify({ ok: true, matched: !!delivery }) }
+  } catch (e) {
+    // 500 → Postmark retries; the ledger row stays unprocessed until a retry succeeds
+    const message = e instanceof Error ? e.message : String(e)
+    console.error('postmark-webhook error:', e)
+    await markEventProcessed(id, null, message).catch(() => {})
+    return { statusCode: 500, body: `Webhook Error: ${message}` }
+  }
+}
@@ -1,11 +1,17 @@
 // netlify/functions/reps-sync.ts
 import type { Handler } from '@netlify/functions';
 import { createClient } from '@supabase/supabase-js';
+import { applyRoster } from '../lib/roster';
+import { congressMember, houseDistrict, withDetails, type CongressMember } from '../lib/congress';
 
 /**
  * Seeds U.S. Senators (by state) and the U.S. Representative (by state+district)
  * from Congress.gov v3. Does NOT affect state-level code (OpenStates).
  *
+ * Members are upserted by Bioguide id (netlify/lib/roster.ts); whoever held the seat
+ * before is marked inactive, not deleted. roster-sync keeps the whole Congress current
+ * on a schedule; this fills in a user's seats right away.
+ *
  * Env (unchanged elsewhere):
  *  - SUPABASE_URL
  *  - SUPABASE_SERVICE_ROLE_KEY
@@ -129,28 +135,18 @@ const isRepresentative = (m: any): boolean => {
 const memberName = (m: any): string =>
   (pick(m.name, `${pick(m.firstName, m.first_name, '')} ${pick(m.lastName, m.last_name, '')}`) || '').toString().trim();
 
-const memberContactURL = (m: any): string | null =>
-  (pick(m.contactUrl, m.contactURL, m.url, m.website, m.officialWebsiteUrl) as string) || null;
-
-// ── OCD division ID (NOT NULL in your schema) ─────────────────────────────────
-const stateDivisionId = (state: string) => `ocd-division/country:us/state:${state.toLowerCase()}`;
-const normalizeCd = (district: string) => {
-  const s = String(district).trim().toLowerCase();
-  if (s === 'at-large' || s === 'at large' || s === 'atlarge' || s === '0') return '1';
-  const m = s.match(/\d+/);
-  return m ? m[0] : '1';
-};
-const houseDivisionId = (state: string, district: string) =>
-  `ocd-division/country:us/state:${state.toLowerCase()}/cd:${normalizeCd(district)}`;
-
-// ── DB helpers ────────────────────────────────────────────────────────────────
-async function clearSlot(state: string, chamber: 'senate' | 'house', district?: string | null) {
-  if (chamber === 'senate') {
-    await supabase!.from('representatives').delete().eq('level', 'federal').eq('chamber', 'senate').eq('state', state);
-  } else {
-    await supabase!.from('representatives').delete()
-      .eq('level', 'federal').eq('chamber', 'house').eq('state', state).eq('district', district ?? null);
-  }
+/** Roster entries for one seat, with contact details when Congress.gov has them for every member. */
+async function seatMembers(list: CongressMember[], chamber: 'senate' | 'house', state: string, district?: string) {
+  const members = list
+    .map(m => congressMember({
+      ...m,
+      name: memberName(m),
+      state: memberStateCode(m) ?? state,
+      district: chamber === 'house' ? (memberDistrictRaw(m) ?? district ?? null) : null,
+    }, chamber))
+    .filter((m): m is NonNullable<typeof m> => m !== null);
+  // all or nothing: rows in one roster write must fill the same fields
+  return Promise.all(members.map(m => withDetails(CONGRESS_API_KEY, m))).catch(() => members);
 }
 
 // ── Handler ──────────────────────────────────────────────────────────────────
@@ -211,25 +207,13 @@ export const handler: Handler = async (event) => {
       usedFallbackForSen = finalSenators.length > 0 && pathSenators.length === 0;
     }
 
-    // only clear if we have something to write (avoids wiping on transient 0-results)
+    // only write when we have something (avoids retiring on transient 0-results)
     let senateSeeded = 0;
-    if (finalSenators.length) {
-      await clearSlot(state, 'senate');
-      const rows = finalSenators.slice(0, 2).map(m => ({
-        level: 'federal',
-        chamber: 'senate',
-        state,
-        district: null,
-        division_id: stateDivisionId(state), // REQUIRED by your schema
-        name: memberName(m),
-        office_name: 'U.S. Senator',
-        email: null,
-        contact_email: null,
-        contact_form_url: memberContactURL(m),
-      }));
-      const { error } = await supabase!.from('representatives').insert(rows);
-      if (error) throw new Error(`Supabase insert (senate) failed: ${error.message}`);
-      senateSeeded = rows.length;
+    const senators = finalSenators.length ? await seatMembers(finalSenators.slice(0, 2), 'senate', state) : [];
+    if (senators.length) {
+      const r = await applyRoster(supabase!, 'congress', { level: 'federal', chambers: ['senate'], state }, senators);
+      if (r.failed.length) throw new Error(`Supabase upsert (senate) failed: ${r.failed[0].error}`);
+      senateSeeded = senators.length;
     }
 
     // ── 2) U.S. HOUSE (ONLY when district explicitly provided) ───────────────
@@ -267,26 +251,12 @@ export const handler: Handler = async (event) => {
         usedFallbackForHouse = houseCandidates.length > 0 && !houseList.length;
       }
 
-      if (houseCandidates.length) {
-        await clearSlot(state, 'house', districtPath);
-        const rows = houseCandidates.map(m => {
-          const d = String(memberDistrictRaw(m) ?? districtPath);
-          return {
-            level: 'federal',
-            chamber: 'house',
-            state,
-            district: d,
-            division_id: houseDivisionId(state, d), // REQUIRED by your schema
-            name: memberName(m),
-            office_name: 'U.S. Representative',
-            email: null,
-            contact_email: null,
-            contact_form_url: memberContactURL(m),
-          };
-        });
-        const { error } = await supabase!.from('representatives').insert(rows);
-        if (error) throw new Error(`Supabase insert (house) failed: ${error.message}`);
-        houseSeeded = rows.length;
+      const members = houseCandidates.length ? await seatMembers(houseCandidates, 'house', state, districtPath) : [];
+      if (members.length) {
+        const scope = { level: 'federal' as const, chambers: ['house' as const], state, district: houseDistrict(districtPath) };
+        const r = await applyRoster(supabase!, 'congress', scope, members);
+        if (r.failed.length) throw new Error(`Supabase upsert (house) failed: ${r.failed[0].error}`);
+        houseSeeded = members.length;
       }
     }
 
@@ -0,0 +1,18 @@
+// netlify/functions/roster-sync-scheduled.ts
+import type { Handler } from '@netlify/functions';
+import { syncRosters } from './roster-sync';
+
+/**
+ * Hourly roster rotation: the least recently synced scopes, within the run budget.
+ * Scheduled functions can't be called by URL, so admin runs (?scope=) stay on roster-sync.
+ */
+export const handler: Handler = async () => {
+  try {
+    const result = await syncRosters();
+    return { statusCode: 200, body: JSON.stringify(result) };
+  } catch (e: unknown) {
+    return { statusCode: 500, body: JSON.stringify({ error: e instanceof Error ? e.message : 'Server error' }) };
+  }
+};
+
+export default handler;
@@ -0,0 +1,261 @@
+// netlify/functions/roster-sync.ts
+import type { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { applyRoster, type OfficeAddress, type RosterMember, type RosterResult } from '../lib/roster';
+import { fetchCongressRoster, STATE_CODES, withDetails } from '../lib/congress';
+import { csvRecords } from '../lib/csv';
+import { sldlDivision, slduDivision } from '../../src/lib/ocd';
+
+/**
+ * Full-roster sync of every member of Congress (Congress.gov) and every state legislature
+ * (OpenStates bulk data), upserted by Bioguide / OpenStates person id with each change
+ * recorded in representative_changes (netlify/lib/roster.ts). Departed members are marked
+ * inactive, never deleted.
+ *
+ * Each run works through the scopes — 'us' (Congress) and one per state — least recently
+ * synced first, until ROSTER_SYNC_BUDGET_SECONDS is spent; the hourly schedule cycles through
+ * all of them in well under a day. The Congress.gov member list has no contact details, so
+ * each 'us' run also refreshes the ROSTER_SYNC_DETAIL_LIMIT members whose details are oldest.
+ *
+ * Env:
+ *  - SUPABASE_URL
+ *  - SUPABASE_SERVICE_ROLE_KEY
+ *  - CONGRESS_API_KEY
+ *  - OPENSTATES_BULK_URL (optional; default https://data.openstates.org/people/current)
+ *  - ROSTER_SYNC_BUDGET_SECONDS (optional; default 20)
+ *  - ROSTER_SYNC_DETAIL_LIMIT (optional; default 40)
+ *  - CKOC_ADMIN_SECRET (optional; required header x-ckoc-admin)
+ *
+ * The hourly rotation runs from roster-sync-scheduled (scheduled functions can't be called by URL).
+ *
+ * Usage:
+ *  GET /.netlify/functions/roster-sync                 // next scopes in rotation now
+ *  GET /.netlify/functions/roster-sync?scope=us        // Congress now
+ *  GET /.netlify/functions/roster-sync?scope=TX        // Texas Legislature now
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL as string;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+const CONGRESS_API_KEY = process.env.CONGRESS_API_KEY as string;
+const OPENSTATES_BULK_URL = (process.env.OPENSTATES_BULK_URL || 'https://data.openstates.org/people/current').replace(/\/+$/, '');
+const BUDGET_MS = Number(process.env.ROSTER_SYNC_BUDGET_SECONDS || 20) * 1000;
+const DETAIL_LIMIT = Number(process.env.ROSTER_SYNC_DETAIL_LIMIT || 40);
+const ADMIN_SECRET = process.env.CKOC_ADMIN_SECRET || '';
+
+const supabase =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    : null;
+
+const H = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+};
+const J = (o: unknown) => JSON.stringify(o);
+
+const LEGISLATURES = Object.values(STATE_CODES).filter(s => s !== 'DC' && s !== 'PR');
+const SCOPES = ['us', ...LEGISLATURES];
+
+// ── OpenStates bulk CSV ─────────────────────────────────────────────────────
+/** "1100 Congress Ave.; Room 2E.10; Austin, TX 78701" → mailing address, or null. */
+function openstatesAddress(text: string, phone: string | null): OfficeAddress | null {
+  const parts = text.split(';').map(s => s.trim()).filter(Boolean);
+  const m = parts.pop()?.match(/^(.+?),\s*([A-Z]{2})\s+(\d{5}(?:-\d{4})?)$/);
+  if (!m || !parts.length) return null;
+  return { line1: parts[0], line2: parts.slice(1).join(', ') || null, city: m[1], state: m[2], zip: m[3], phone };
+}
+
+async function fetchLegislature(state: string): Promise<RosterMember[]> {
+  const r = await fetch(`${OPENSTATES_BULK_URL}/${state.toLowerCase()}.csv`, { headers: { Accept: 'text/csv' } });
+  if (!r.ok) throw new Error(`OpenStates bulk HTTP ${r.status} for ${state}`);
+  const out: RosterMember[] = [];
+  for (const p of csvRecords(await r.text())) {
+    const district = p.current_district?.trim();
+    if (!p.id || !p.name || !district) continue;
+    // Nebraska's unicameral 'legislature' members are state senators
+    const chamber = p.current_chamber === 'lower' ? 'house' : p.current_chamber === 'upper' || p.current_chamber === 'legislature' ? 'senate' : null;
+    if (!chamber) continue;
+
+    const districtPhone = p.district_voice || null;
+    const capitolPhone = p.capitol_voice || null;
+    const website = (p.links || '').match(/https?:\/\/[^\s;,]+/)?.[0] ?? null;
+    out.push({
+      external_id: p.id,
+      level: 'state',
+      chamber,
+      state,
+      district,
+      division_id: chamber === 'senate' ? slduDivision(state, district) : sldlDivision(state, district),
+      name: p.name.trim(),
+      office_name: chamber === 'senate' ? 'State Senator' : 'State Representative',
+      party: p.current_party || null,
+      photo_url: p.image || null,
+      email: p.email || null,
+      website,
+      contact_form_url: !p.email && website ? website : null,
+      phone: districtPhone || capitolPhone,
+      twitter: p.twitter || null,
+      facebook: p.facebook || null,
+      district_office_address: p.district_address ? openstatesAddress(p.district_address, districtPhone) : null,
+    });
+  }
+  return out;
+}
+
+// ── Runs ────────────────────────────────────────────────────────────────────
+type ScopeResult = { scope: string; members: number; details?: number; error?: string } & Partial<RosterResult>;
+
+async function syncScope(scope: string, deadline: number): Promise<ScopeResult> {
+  const source = scope === 'us' ? 'congress' : 'openstates';
+  const { data: run, error: runErr } = await supabase!
+    .from('representative_sync_runs')
+    .insert({ scope, source })
+    .select('id')
+    .single();
+  if (runErr || !run) throw new Error(`Could not start sync run: ${runErr?.message ?? 'no row'}`);
+
+  const out: ScopeResult = { scope, members: 0 };
+  try {
+    if (scope === 'us') {
+      const members = await fetchCongressRoster(CONGRESS_API_KEY);
+      out.members = members.length;
+      // Refuse a partial answer rather than retiring members who are merely missing from it
+      const senators = members.filter(m => m.chamber === 'senate').length;
+      if (senators < 95 || members.length - senators < 400) {
+        throw new Error(`Congress.gov returned an incomplete roster (${senators} senators, ${members.length - senators} House); nothing changed`);
+      }
+      Object.assign(out, await applyRoster(supabase!, 'congress', { level: 'federal', chambers: ['senate', 'house'] }, members, { runId: run.id }));
+
+      // Contact details for the members checked longest ago (new members first)
+      const { data: stale } = await supabase!
+        .from('representatives')
+        .select('bioguide_id')
+        .not('bioguide_id', 'is', null)
+        .eq('active', true)
+        .order('details_synced_at', { ascending: true, nullsFirst: true })
+        .limit(DETAIL_LIMIT);
+      const byId = new Map(members.map(m => [m.external_id, m]));
+      const detailed: RosterMember[] = [];
+      for (const { bioguide_id } of (stale ?? []) as { bioguide_id: string }[]) {
+        if (Date.now() > deadline) break;
+        const m = byId.get(bioguide_id);
+        if (!m) continue;
+        try {
+          detailed.push(await withDetails(CONGRESS_API_KEY, m));
+        } catch {
+          // left stale; retried first next run
+        }
+      }
+      if (detailed.length) {
+        const d = await applyRoster(supabase!, 'congress', { level: 'federal', chambers: ['senate', 'house'] }, detailed, { runId: run.id, retire: false });
+        out.updated = (out.updated ?? 0) + d.updated;
+        out.failed = [...(out.failed ?? []), ...d.failed];
+      }
+      out.details = detailed.length;
+    } else {
+      const members = await fetchLegislature(scope);
+      out.members = members.length;
+      if (!members.length) throw new Error(`OpenStates returned no legislators for ${scope}; nothing changed`);
+
+      // A roster under half the seats on file is more likely a bad export than an election
+      const { count } = await supabase!
+        .from('representatives')
+        .select('id', { count: 'exact', head: true })
+        .eq('level', 'state')
+        .eq('state', scope)
+        .eq('active', true)
+        .in('chamber', ['senate', 'house', 'upper', 'lower']);
+      const retire = !count || members.length >= count / 2;
+      Object.assign(out, await applyRoster(supabase!, 'openstates', { level: 'state', chambers: ['senate', 'house'], state: scope }, members, { runId: run.id, retire }));
+      if (!retire) out.error = `roster has ${members.length} of ${count} seats on file; nobody retired`;
+    }
+  } catch (e: unknown) {
+    out.error = e instanceof Error ? e.message : 'Sync failed';
+  }
+
+  await supabase!
+    .from('representative_sync_runs')
+    .update({
+      finished_at: new Date().toISOString(),
+      members: out.members,
+      added: out.added ?? 0,
+      updated: out.updated ?? 0,
+      removed: out.removed ?? 0,
+      error: out.error ?? (out.failed?.length ? `${out.failed.length} members failed: ${out.failed[0].error}` : null),
+    })
+    .eq('id', run.id);
+  return out;
+}
+
+/** Every scope, least recently started first (never-synced scopes lead). */
+async function scopesByAge(): Promise<string[]> {
+  const { data, error } = await supabase!
+    .from('representative_sync_runs')
+    .select('scope, started_at')
+    .order('started_at', { ascending: false })
+    .limit(1000);
+  if (error) throw new Error(`Could not load sync runs: ${error.message}`);
+
+  const last = new Map<string, string>();
+  for (const r of (data ?? []) as { scope: string; started_at: string }[]) {
+    if (!last.has(r.scope)) last.set(r.scope, r.started_at);
+  }
+  return [...SCOPES].sort((a, b) => (last.get(a) ?? '').localeCompare(last.get(b) ?? ''));
+}
+
+/** Missing env names; empty when the sync can run. */
+function missingEnv(): string[] {
+  const miss: string[] = [];
+  if (!SUPABASE_URL) miss.push('SUPABASE_URL');
+  if (!SUPABASE_SERVICE_ROLE_KEY) miss.push('SUPABASE_SERVICE_ROLE_KEY');
+  if (!CONGRESS_API_KEY) miss.push('CONGRESS_API_KEY');
+  return miss;
+}
+
+/** Sync `scopes` in order (default: least recently synced first) within ROSTER_SYNC_BUDGET_SECONDS. */
+export async function syncRosters(scopes?: string[]) {
+  const miss = missingEnv();
+  if (miss.length || !supabase) throw new Error(`Missing env: ${miss.join(', ')}`);
+
+  const started = Date.now();
+  const deadline = started + BUDGET_MS;
+  const queue = scopes ?? await scopesByAge();
+
+  const results: ScopeResult[] = [];
+  for (const scope of queue) {
+    // start another scope only while half the budget is left for its fetch and writes
+    if (results.length && Date.now() > started + BUDGET_MS / 2) break;
+    results.push(await syncScope(scope, deadline));
+  }
+  return { ok: results.every(r => !r.error), results };
+}
+
+export const handler: Handler = async (event) => {
+  if (event.httpMethod === 'OPTIONS') return { statusCode: 204, headers: H, body: '' };
+
+  try {
+    const miss = missingEnv();
+    if (miss.length || !supabase) return { statusCode: 500, headers: H, body: J({ error: `Missing env: ${miss.join(', ')}` }) };
+
+    const adminHeader = event.headers['x-ckoc-admin'] || event.headers['X-Ckoc-Admin'];
+    const isAdminOK = ADMIN_SECRET ? adminHeader === ADMIN_SECRET : true;
+    if (!isAdminOK) return { statusCode: 403, headers: H, body: J({ error: 'Forbidden' }) };
+
+    const requested = String(event.queryStringParameters?.scope || '').trim();
+    let scopes: string[] | undefined;
+    if (requested) {
+      const scope = requested.toLowerCase() === 'us' ? 'us' : requested.toUpperCase();
+      if (!SCOPES.includes(scope)) {
+        return { statusCode: 400, headers: H, body: J({ error: 'Provide ?scope=us or a two-letter state code' }) };
+      }
+      scopes = [scope];
+    }
+
+    return { statusCode: 200, headers: H, body: J(await syncRosters(scopes)) };
+  } catch (e: unknown) {
+    return { statusCode: 500, headers: H, body: J({ error: e instanceof Error ? e.message : 'Server error' }) };
+  }
+};
+
+export default handler;
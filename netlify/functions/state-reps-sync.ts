@@ -1,11 +1,17 @@
 // netlify/functions/state-reps-sync.ts
 import type { Handler } from '@netlify/functions';
 import { createClient } from '@supabase/supabase-js';
+import { applyRoster, type RosterMember } from '../lib/roster';
+import { sldlDivision, slduDivision } from '../../src/lib/ocd';
 
 /**
  * Seeds state-level legislators (one State Senator by SD, one State Representative by HD)
  * via the OpenStates API.
  *
+ * Legislators are upserted by OpenStates person id (netlify/lib/roster.ts); whoever held the
+ * seat before is marked inactive, not deleted. roster-sync keeps every legislature current
+ * on a schedule; this fills in a user's seats right away.
+ *
  * Env:
  *  - SUPABASE_URL
  *  - SUPABASE_SERVICE_ROLE_KEY
@@ -46,9 +52,6 @@ const STATE_CODE_TO_NAME: Record<string, string> = {
 };
 
 const stateName = (code: string) => STATE_CODE_TO_NAME[code] || code;
-const stateDiv = (state: string) => `ocd-division/country:us/state:${state.toLowerCase()}`;
-const slduDiv = (state: string, sd: string) => `${stateDiv(state)}/sldu:${String(sd).trim()}`;
-const sldlDiv = (state: string, hd: string) => `${stateDiv(state)}/sldl:${String(hd).trim()}`;
 
 const apiURL = (params: Record<string,string|number|undefined>) => {
   const u = new URL('https://v3.openstates.org/people');
@@ -56,6 +59,7 @@ const apiURL = (params: Record<string,string|number|undefined>) => {
   u.searchParams.set('apikey', OPENSTATES_API_KEY);
   // We ask for small page sizes; there should be only 1 match for a single district
   u.searchParams.set('per_page', '5');
+  u.searchParams.set('include', 'links');
   return u.toString();
 };
 
@@ -71,18 +75,47 @@ const fetchJSON = async (url: string) => {
 const pick = (...vals: any[]) => { for (const v of vals) if (v !== undefined && v !== null && v !== '') return v; return null; };
 const fullName = (p: any) => String(p.name || `${pick(p.given_name, p.givenName, '')} ${pick(p.family_name, p.familyName, '')}` || '').trim();
 
-async function clearSlot(state: string, chamber: 'senate'|'house', district: string) {
-  await supabase!.from('representatives')
-    .delete()
-    .eq('level', 'state')
-    .eq('state', state)
-    .eq('chamber', chamber)
-    .eq('district', district);
+type OpenStatesPerson = {
+  id?: string;
+  name?: string;
+  party?: string;
+  image?: string;
+  email?: string;
+  primary_email?: string;
+  url?: string;
+  website?: string;
+  links?: { url?: string }[];
+};
+
+/** Roster entry for the seat's legislator, filled like roster-sync's bulk import. */
+function seatMember(p: OpenStatesPerson | undefined, chamber: 'senate' | 'house', state: string, district: string): RosterMember | null {
+  if (!p?.id) return null;
+  const email = pick(p.email, p.primary_email) || null;
+  const website = pick(p.links?.[0]?.url, p.url, p.website) || null;
+  return {
+    external_id: String(p.id),
+    level: 'state',
+    chamber,
+    state,
+    district,
+    division_id: chamber === 'senate' ? slduDivision(state, district) : sldlDivision(state, district),
+    name: fullName(p),
+    office_name: chamber === 'senate' ? 'State Senator' : 'State Representative',
+    party: p.party || null,
+    photo_url: p.image || null,
+    email,
+    website,
+    contact_form_url: !email && website ? website : null,
+  };
 }
 
-async function insertOne(row: any) {
-  const { error } = await supabase!.from('representatives').insert([row]);
-  if (error) throw new Error(`Supabase insert failed: ${error.message}`);
+/** Upsert the seat's legislator and retire the seat's previous holder; false when nobody was found. */
+async function syncSeat(person: OpenStatesPerson | undefined, chamber: 'senate' | 'house', state: string, district: string) {
+  const member = seatMember(person, chamber, state, district);
+  if (!member) return false;
+  const r = await applyRoster(supabase!, 'openstates', { level: 'state', chambers: [chamber], state, district }, [member]);
+  if (r.failed.length) throw new Error(`Supabase upsert failed: ${r.failed[0].error}`);
+  return true;
 }
 
 export const handler: Handler = async (event) => {
@@ -116,23 +149,7 @@ export const handler: Handler = async (event) => {
       const jsU = await fetchJSON(urlUpper);
       const peopleU: any[] = (jsU?.results ?? jsU?.data ?? jsU?.people ?? jsU?.items ?? []);
       const personU = peopleU[0]; // there should be exactly one
-      await clearSlot(state, 'senate', sd);
-      if (personU) {
-        const row = {
-          level: 'state',
-          chamber: 'senate',
-          state,
-          district: sd,
-          division_id: slduDiv(state, sd),
-          name: fullName(personU),
-          office_name: 'State Senator',
-          email: pick(personU.email, personU.primary_email) || null,
-          contact_email: null,
-          contact_form_url: pick(personU.url, personU.website, personU.links?.[0]?.url) || null,
-        };
-        await insertOne(row);
-        seededSD = 1;
-      }
+      if (await syncSeat(personU, 'senate', state, sd)) seededSD = 1;
     }
 
     // ── 2) State Representative (lower / HD) ────────────────────────────────
@@ -142,23 +159,7 @@ export const handler: Handler = async (event) => {
       const jsL = await fetchJSON(urlLower);
       const peopleL: any[] = (jsL?.results ?? jsL?.data ?? jsL?.people ?? jsL?.items ?? []);
       const personL = peopleL[0];
-      await clearSlot(state, 'house', hd);
-      if (personL) {
-        const row = {
-          level: 'state',
-          chamber: 'house',
-          state,
-          district: hd,
-          division_id: sldlDiv(state, hd),
-          name: fullName(personL),
-          office_name: 'State Representative',
-          email: pick(personL.email, personL.primary_email) || null,
-          contact_email: null,
-          contact_form_url: pick(personL.url, personL.website, personL.links?.[0]?.url) || null,
-        };
-        await insertOne(row);
-        seededHD = 1;
-      }
+      if (await syncSeat(personL, 'house', state, hd)) seededHD = 1;
     }
 
     return { statusCode: 200, headers: H, body: J({ ok: true, seeded: { senate: seededSD, house: seededHD } }) };
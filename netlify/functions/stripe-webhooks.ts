@@ -1,31 +1,50 @@
 import { Handler } from '@netlify/functions';
-import Stripe from 'stripe';
+import type Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+import { rememberCustomerId, stripe, syncProfileTier, tierForPrice } from '../lib/stripe';
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2024-06-20',
+const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET!;
+
+const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+  auth: { persistSession: false },
 });
 
-const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET!;
+// ── Tiers ────────────────────────────────────────────────────────────────────
+type SubscriptionStatus =
+  | 'active' | 'trialing' | 'past_due' | 'canceled' | 'incomplete'
+  | 'incomplete_expired' | 'unpaid' | 'paused';
 
-const handler: Handler = async (event, context) => {
+// ── Handler ──────────────────────────────────────────────────────────────────
+const handler: Handler = async (event) => {
   if (event.httpMethod !== 'POST') {
     return { statusCode: 405, body: 'Method Not Allowed' };
   }
 
   const sig = event.headers['stripe-signature'];
-  
+
   if (!sig) {
     return { statusCode: 400, body: 'Missing Stripe signature' };
   }
 
+  let stripeEvent: Stripe.Event;
   try {
-    const stripeEvent = stripe.webhooks.constructEvent(
-      event.body!,
-      sig,
-      endpointSecret
-    );
+    const rawBody = event.isBase64Encoded
+      ? Buffer.from(event.body || '', 'base64').toString('utf8')
+      : event.body || '';
+    stripeEvent = stripe.webhooks.constructEvent(rawBody, sig, endpointSecret);
+  } catch (error) {
+    console.error('Webhook signature error:', error);
+    return { statusCode: 400, body: `Webhook Error: ${error}` };
+  }
+
+  console.log('Webhook received:', stripeEvent.type);
 
-    console.log('Webhook received:', stripeEvent.type);
+  try {
+    // Stripe delivers at-least-once; skip events we already applied
+    const alreadyProcessed = await recordEvent(stripeEvent);
+    if (alreadyProcessed) {
+      return { statusCode: 200, body: 'Event already processed' };
+    }
 
     switch (stripeEvent.type) {
       case 'customer.subscription.created':
@@ -47,37 +66,153 @@ const handler: Handler = async (event, context) => {
         console.log(`Unhandled event type: ${stripeEvent.type}`);
     }
 
+    await markEventProcessed(stripeEvent.id, null);
     return { statusCode: 200, body: 'Webhook processed successfully' };
   } catch (error) {
-    console.error('Webhook error:', error);
-    return { statusCode: 400, body: `Webhook Error: ${error}` };
+    // 500 → Stripe retries; the event row stays unprocessed until a retry succeeds
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Webhook handler error:', error);
+    await markEventProcessed(stripeEvent.id, message).catch(() => {});
+    return { statusCode: 500, body: `Webhook Error: ${message}` };
   }
 };
 
+// ── stripe_events ledger ─────────────────────────────────────────────────────
+/** Insert the event if new; returns true when a previous delivery already processed it. */
+async function recordEvent(stripeEvent: Stripe.Event): Promise<boolean> {
+  const { error } = await supabase
+    .from('stripe_events')
+    .upsert(
+      { id: stripeEvent.id, type: stripeEvent.type, data: stripeEvent as unknown as Record<string, unknown> },
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+  if (error) throw new Error(`stripe_events insert failed: ${error.message}`);
+
+  const { data, error: readErr } = await supabase
+    .from('stripe_events')
+    .select('processed_at')
+    .eq('id', stripeEvent.id)
+    .maybeSingle();
+  if (readErr) throw new Error(`stripe_events read failed: ${readErr.message}`);
+  return !!data?.processed_at;
+}
+
+async function markEventProcessed(id: string, errorMessage: string | null) {
+  await supabase
+    .from('stripe_events')
+    .update(errorMessage ? { error: errorMessage } : { processed_at: new Date().toISOString(), error: null })
+    .eq('id', id);
+}
+
+// ── Subscription sync ────────────────────────────────────────────────────────
+async function resolveUserId(subscription: Stripe.Subscription): Promise<string | null> {
+  // 1) Set by create-checkout-session on subscription_data.metadata
+  if (subscription.metadata?.user_id) return subscription.metadata.user_id;
+
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+
+  // 2) A row we already wrote for this customer
+  const { data } = await supabase
+    .from('subscriptions')
+    .select('user_id')
+    .eq('stripe_customer_id', customerId)
+    .limit(1)
+    .maybeSingle();
+  if (data?.user_id) return data.user_id as string;
+
+  // 3) Customer metadata (set when the customer was created from the app)
+  const customer = await stripe.customers.retrieve(customerId);
+  if (!customer.deleted && customer.metadata?.user_id) return customer.metadata.user_id;
+
+  return null;
+}
+
+/**
+ * Stripe doesn't deliver events in order (a late `updated` can follow `deleted`), so the
+ * event's snapshot only names the subscription: what we store is its current state.
+ */
+async function syncSubscription(subscriptionId: string) {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const userId = await resolveUserId(subscription);
+  if (!userId) {
+    console.warn(`No user found for subscription ${subscription.id}; skipping`);
+    return;
+  }
+
+  const item = subscription.items.data[0];
+  const priceId = item?.price?.id ?? null;
+  // An unmapped price grants nothing, but the row is still stored: throwing would only make
+  // Stripe retry the event until it gives up. Map the price and the next event fixes the tier.
+  const tier = tierForPrice(priceId) ?? 'free';
+  if (tier === 'free') console.warn(`No tier mapped for Stripe price ${priceId} (subscription ${subscription.id}); stored as free`);
+
+  const status = subscription.status as SubscriptionStatus;
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+
+  // Keep the first time we saw past_due so the grace window doesn't restart on every retry
+  const { data: existing } = await supabase
+    .from('subscriptions')
+    .select('past_due_since')
+    .eq('stripe_subscription_id', subscription.id)
+    .maybeSingle();
+  const pastDueSince = status === 'past_due'
+    ? (existing?.past_due_since as string | null) ?? new Date().toISOString()
+    : null;
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .upsert(
+      {
+        user_id: userId,
+        tier,
+        status,
+        stripe_customer_id: customerId,
+        stripe_subscription_id: subscription.id,
+        stripe_price_id: priceId,
+        renewal_at: item?.current_period_end ? new Date(item.current_period_end * 1000).toISOString() : null,
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        past_due_since: pastDueSince,
+      },
+      { onConflict: 'stripe_subscription_id' }
+    );
+  if (error) throw new Error(`subscriptions upsert failed: ${error.message}`);
+
+  await rememberCustomerId(supabase, userId, customerId);
+  await syncProfileTier(supabase, userId);
+}
+
+async function syncInvoiceSubscription(invoice: Stripe.Invoice) {
+  const ref = invoice.parent?.subscription_details?.subscription;
+  if (!ref) return; // one-off invoice
+  await syncSubscription(typeof ref === 'string' ? ref : ref.id);
+}
+
 async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
-  // Update user tier in Supabase
   console.log('Subscription created:', subscription.id);
-  // Implementation: Update user's tier based on subscription
+  await syncSubscription(subscription.id);
 }
 
 async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
   console.log('Subscription updated:', subscription.id);
-  // Implementation: Handle subscription changes (plan upgrades/downgrades)
+  await syncSubscription(subscription.id);
 }
 
 async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
   console.log('Subscription deleted:', subscription.id);
-  // Implementation: Downgrade user to basic tier
+  // status is 'canceled' here, so the profile falls back to any other entitled sub or free
+  await syncSubscription(subscription.id);
 }
 
 async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
   console.log('Payment succeeded:', invoice.id);
-  // Implementation: Update payment status, send confirmation email
+  // Clears past_due (and its grace clock) once a retry goes through
+  await syncInvoiceSubscription(invoice);
 }
 
 async function handlePaymentFailed(invoice: Stripe.Invoice) {
   console.log('Payment failed:', invoice.id);
-  // Implementation: Handle failed payment, send notification
+  // Starts the grace window; subscriptions-sweep downgrades once it lapses
+  await syncInvoiceSubscription(invoice);
 }
 
-export { handler };
\ No newline at end of file
+export { handler };
@@ -0,0 +1,64 @@
+// netlify/functions/subscriptions-sweep.ts
+import type { Handler } from '@netlify/functions';
+import { createClient } from '@supabase/supabase-js';
+import { graceEndsAt, syncProfileTier } from '../lib/stripe';
+
+/**
+ * Downgrades users whose past_due grace window (STRIPE_PAST_DUE_GRACE_DAYS) has run out.
+ * stripe-webhooks only re-evaluates a tier when Stripe sends another event, and a card
+ * that is never retried sends none, so the hourly schedule closes the window instead.
+ *
+ * Env:
+ *  - SUPABASE_URL
+ *  - SUPABASE_SERVICE_ROLE_KEY
+ *  - STRIPE_SECRET_KEY (netlify/lib/stripe)
+ *  - STRIPE_PAST_DUE_GRACE_DAYS (optional; default 7)
+ *
+ * Schedule-only (netlify.toml): Netlify doesn't expose scheduled functions by URL, so there is
+ * no manual path. stripe-webhooks re-syncs a subscription on its next event anyway.
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL as string;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+const supabase =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    : null;
+
+const H = { 'Content-Type': 'application/json' };
+const J = (o: unknown) => JSON.stringify(o);
+
+export const handler: Handler = async () => {
+  try {
+    if (!supabase) return { statusCode: 500, headers: H, body: J({ error: 'Missing Supabase env' }) };
+
+    const { data, error } = await supabase
+      .from('subscriptions')
+      .select('user_id, past_due_since')
+      .eq('status', 'past_due');
+    if (error) throw new Error(`subscriptions read failed: ${error.message}`);
+
+    const now = Date.now();
+    const lapsed = [...new Set(
+      ((data ?? []) as { user_id: string; past_due_since: string | null }[])
+        .filter(s => graceEndsAt(s.past_due_since) <= now)
+        .map(s => s.user_id)
+    )];
+
+    const failed: { user_id: string; error: string }[] = [];
+    for (const userId of lapsed) {
+      try {
+        await syncProfileTier(supabase, userId);
+      } catch (e: unknown) {
+        failed.push({ user_id: userId, error: e instanceof Error ? e.message : 'Sync failed' });
+      }
+    }
+
+    return { statusCode: 200, headers: H, body: J({ ok: !failed.length, checked: lapsed.length, failed }) };
+  } catch (e: unknown) {
+    return { statusCode: 500, headers: H, body: J({ error: e instanceof Error ? e.message : 'Server error' }) };
+  }
+};
+
+export default handler;
@@ -0,0 +1,33 @@
+// netlify/lib/auth.ts
+// Supabase JWT verification for user-triggered functions.
+import { createClient } from '@supabase/supabase-js'
+
+const SUPABASE_URL = process.env.SUPABASE_URL!
+const SUPABASE_ANON_KEY =
+  process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY || ''
+
+const supabasePublic = SUPABASE_URL && SUPABASE_ANON_KEY
+  ? createClient(SUPABASE_URL, SUPABASE_ANON_KEY, { auth: { persistSession: false } })
+  : null
+
+export type AuthResult =
+  | { ok: true; userId: string; email: string | null }
+  | { ok: false; statusCode: 401; error: string }
+
+/** Netlify lower-cases header names, but be lenient for local dev. */
+export function authHeaderOf(event: { headers: Record<string, string | undefined> }): string | undefined {
+  return event.headers['authorization'] || event.headers['Authorization']
+}
+
+/** Verify an `Authorization: Bearer <access_token>` header against Supabase Auth. */
+export async function verifyBearer(authHeader: string | undefined): Promise<AuthResult> {
+  if (!supabasePublic) throw new Error('SUPABASE_ANON_KEY missing for JWT verification')
+
+  const token = (authHeader || '').replace(/^Bearer\s+/i, '').trim()
+  if (!token) return { ok: false, statusCode: 401, error: 'Missing Authorization Bearer token' }
+
+  const { data, error } = await supabasePublic.auth.getUser(token)
+  if (error || !data?.user?.id) return { ok: false, statusCode: 401, error: 'Invalid token' }
+
+  return { ok: true, userId: data.user.id, email: data.user.email ?? null }
+}
@@ -0,0 +1,123 @@
+// netlify/lib/congress.ts
+// Congress.gov v3 members as roster entries (netlify/lib/roster.ts), keyed by Bioguide id.
+// Used by roster-sync (whole Congress) and reps-sync (one state / district on demand).
+import { directOrderName, type OfficeAddress, type RosterMember } from './roster'
+import { cdDivision, stateDivision } from '../../src/lib/ocd'
+
+export const STATE_CODES: Record<string, string> = {
+  Alabama: 'AL', Alaska: 'AK', Arizona: 'AZ', Arkansas: 'AR', California: 'CA', Colorado: 'CO',
+  Connecticut: 'CT', Delaware: 'DE', Florida: 'FL', Georgia: 'GA', Hawaii: 'HI', Idaho: 'ID',
+  Illinois: 'IL', Indiana: 'IN', Iowa: 'IA', Kansas: 'KS', Kentucky: 'KY', Louisiana: 'LA',
+  Maine: 'ME', Maryland: 'MD', Massachusetts: 'MA', Michigan: 'MI', Minnesota: 'MN',
+  Mississippi: 'MS', Missouri: 'MO', Montana: 'MT', Nebraska: 'NE', Nevada: 'NV',
+  'New Hampshire': 'NH', 'New Jersey': 'NJ', 'New Mexico': 'NM', 'New York': 'NY',
+  'North Carolina': 'NC', 'North Dakota': 'ND', Ohio: 'OH', Oklahoma: 'OK', Oregon: 'OR',
+  Pennsylvania: 'PA', 'Rhode Island': 'RI', 'South Carolina': 'SC', 'South Dakota': 'SD',
+  Tennessee: 'TN', Texas: 'TX', Utah: 'UT', Vermont: 'VT', Virginia: 'VA', Washington: 'WA',
+  'West Virginia': 'WV', Wisconsin: 'WI', Wyoming: 'WY',
+  // non-voting House delegates with a user base
+  'District of Columbia': 'DC', 'Puerto Rico': 'PR',
+}
+
+/** A member as the list endpoints (/member, /member/{state}, …) return them. */
+export type CongressMember = {
+  bioguideId?: string
+  name?: string
+  partyName?: string
+  state?: string
+  district?: number | string | null
+  depiction?: { imageUrl?: string }
+  terms?: { item?: { chamber?: string; startYear?: number; endYear?: number | null }[] }
+}
+
+type CongressMemberDetail = {
+  officialWebsiteUrl?: string
+  addressInformation?: { officeAddress?: string; city?: string; zipCode?: number | string; phoneNumber?: string }
+}
+
+function congressURL(apiKey: string, path: string, params: Record<string, string | number> = {}): string {
+  const u = new URL(`https://api.congress.gov/v3/${path}`)
+  for (const [k, v] of Object.entries(params)) u.searchParams.set(k, String(v))
+  u.searchParams.set('api_key', apiKey)
+  u.searchParams.set('format', 'json')
+  return u.toString()
+}
+
+async function congressJSON<T>(url: string): Promise<T> {
+  const r = await fetch(url, { headers: { Accept: 'application/json' } })
+  if (!r.ok) {
+    const t = await r.text().catch(() => '')
+    throw new Error(`Congress.gov HTTP ${r.status} :: ${t.slice(0, 240)}`)
+  }
+  return (await r.json()) as T
+}
+
+/** At-large seats and delegates come without a district number, or as 0. */
+export function houseDistrict(district: unknown): string {
+  const n = String(district ?? '').match(/\d+/)?.[0]
+  return n && n !== '0' ? String(parseInt(n, 10)) : 'At-Large'
+}
+
+/**
+ * Roster entry for a member; the chamber comes from their latest term unless given.
+ * Contact fields stay undefined: the list endpoints don't carry them (see withDetails).
+ */
+export function congressMember(m: CongressMember, chamber?: 'senate' | 'house'): RosterMember | null {
+  const state = STATE_CODES[m.state ?? ''] ?? (/^[A-Z]{2}$/.test(m.state ?? '') ? m.state! : null)
+  const terms = m.terms?.item ?? []
+  const termChamber = terms[terms.length - 1]?.chamber ?? ''
+  const seat = chamber ?? (/senate/i.test(termChamber) ? 'senate' : /house/i.test(termChamber) ? 'house' : null)
+  if (!m.bioguideId || !m.name || !state || !seat) return null
+
+  const base = {
+    external_id: m.bioguideId,
+    level: 'federal' as const,
+    state,
+    name: directOrderName(m.name),
+    party: m.partyName ?? null,
+    photo_url: m.depiction?.imageUrl ?? null,
+  }
+  if (seat === 'senate') {
+    return { ...base, chamber: 'senate', district: null, division_id: stateDivision(state), office_name: 'U.S. Senator' }
+  }
+  const district = houseDistrict(m.district)
+  return { ...base, chamber: 'house', district, division_id: cdDivision(state, district), office_name: 'U.S. Representative' }
+}
+
+/** Every current member of Congress. */
+export async function fetchCongressRoster(apiKey: string): Promise<RosterMember[]> {
+  const limit = 250
+  const out: RosterMember[] = []
+  for (let offset = 0; offset < 1000; offset += limit) {
+    const js = await congressJSON<{ members?: CongressMember[] }>(
+      congressURL(apiKey, 'member', { currentMember: 'true', limit, offset })
+    )
+    const rows = js.members ?? []
+    for (const m of rows) {
+      const member = congressMember(m)
+      if (member) out.push(member)
+    }
+    if (rows.length < limit) break
+  }
+  return out
+}
+
+/** Website, Washington office and phone from the member detail endpoint. */
+export async function withDetails(apiKey: string, m: RosterMember): Promise<RosterMember> {
+  const js = await congressJSON<{ member?: CongressMemberDetail }>(congressURL(apiKey, `member/${m.external_id}`))
+  const d = js.member ?? {}
+  const a = d.addressInformation
+  const phone = a?.phoneNumber || null
+  const dc: OfficeAddress | null = a?.officeAddress && a.zipCode
+    ? { line1: a.officeAddress, line2: null, city: a.city || 'Washington', state: 'DC', zip: String(a.zipCode), phone }
+    : null
+  return {
+    ...m,
+    website: d.officialWebsiteUrl || null,
+    // member sites host the office's contact form
+    contact_form_url: d.officialWebsiteUrl || null,
+    phone,
+    dc_office_address: dc,
+    details_synced_at: new Date().toISOString(),
+  }
+}
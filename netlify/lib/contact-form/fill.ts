@@ -0,0 +1,59 @@
+// netlify/lib/contact-form/fill.ts
+// Turns a mapping + template values into the name/value pairs a form submission sends.
+import { ContactFormError, type ContactFormMapping, type ContactFormValues, type FormField, type ParsedForm } from './types'
+
+/** Replace {{key}} with values[key] (unknown keys render empty); text without braces is literal. */
+export function renderFieldTemplate(template: string, values: ContactFormValues): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => values[key] ?? '').trim()
+}
+
+/** Selects only accept their option values; match loosely so "ca" or "California" both work. */
+function coerceOption(field: FormField, value: string): string {
+  if (!field.options?.length || field.options.includes(value)) return value
+  const lower = value.toLowerCase()
+  return field.options.find((o) => o.toLowerCase() === lower)
+    ?? field.options.find((o) => lower && o.toLowerCase().startsWith(lower))
+    ?? value
+}
+
+/** Pick the form a mapping targets: by form_match, else the one containing most mapped fields. */
+export function selectForm(forms: ParsedForm[], mapping: ContactFormMapping): ParsedForm | null {
+  if (mapping.form_match) {
+    const needle = mapping.form_match.toLowerCase()
+    return forms.find((f) => [f.id, f.name, f.action].some((v) => v?.toLowerCase().includes(needle))) ?? null
+  }
+  const wanted = Object.keys(mapping.fields)
+  let best: ParsedForm | null = null
+  let bestHits = 0
+  for (const form of forms) {
+    const hits = form.fields.filter((f) => wanted.includes(f.name)).length
+    if (hits > bestHits) {
+      best = form
+      bestHits = hits
+    }
+  }
+  return best
+}
+
+/**
+ * Form defaults (hidden tokens, preselected options) overlaid with the mapped values.
+ * `form` is null when submitting blind (outbox driver, or action_url without fetching the page).
+ */
+export function fillForm(form: ParsedForm | null, mapping: ContactFormMapping, values: ContactFormValues): Record<string, string> {
+  const out: Record<string, string> = {}
+  const byName = new Map((form?.fields ?? []).map((f) => [f.name, f]))
+  for (const f of form?.fields ?? []) out[f.name] = f.value
+
+  for (const [name, template] of Object.entries(mapping.fields)) {
+    const value = renderFieldTemplate(template, values)
+    const field = byName.get(name)
+    out[name] = field ? coerceOption(field, value) : value
+  }
+
+  // An empty required field means we lack the sender's data (e.g. no street address on file)
+  const missing = (form?.fields ?? []).filter((f) => f.required && !out[f.name]).map((f) => f.name)
+  if (missing.length) {
+    throw new ContactFormError('missing_value', `Contact form needs values for: ${missing.join(', ')}`)
+  }
+  return out
+}
@@ -0,0 +1,77 @@
+// netlify/lib/contact-form/http.ts
+// Real submissions: fetch the form page (for hidden tokens + session cookie), fill it, post it.
+import { fillForm, selectForm } from './fill'
+import { parseForms } from './parse'
+import { ContactFormError, type ContactFormClient, type ContactFormMapping, type ContactFormResult, type ContactFormValues } from './types'
+
+const DEFAULT_USER_AGENT = 'CyberKingdomOfChrist-Outreach/1.0 (+https://cyberkingdomofchrist.netlify.app)'
+
+/** `name=value` pairs from Set-Cookie, replayed on the submission (CSRF tokens are often session-bound). */
+function cookieHeader(res: Response): string | null {
+  const setCookies = typeof res.headers.getSetCookie === 'function' ? res.headers.getSetCookie() : []
+  const pairs = setCookies.map((c) => c.split(';')[0].trim()).filter(Boolean)
+  return pairs.length ? pairs.join('; ') : null
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const ctrl = new AbortController()
+  const timer = setTimeout(() => ctrl.abort(), timeoutMs)
+  try {
+    return await fetch(url, { ...init, signal: ctrl.signal })
+  } catch (e) {
+    if (ctrl.signal.aborted) throw new Error(`Contact form request timed out after ${timeoutMs}ms`)
+    throw e
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export function createHttpContactFormClient(env: NodeJS.ProcessEnv = process.env): ContactFormClient {
+  const userAgent = (env.CONTACT_FORM_USER_AGENT || DEFAULT_USER_AGENT).trim()
+  const timeoutMs = Number(env.CONTACT_FORM_TIMEOUT_MS || 15000)
+
+  return {
+    name: 'http',
+
+    async submit(mapping: ContactFormMapping, values: ContactFormValues): Promise<ContactFormResult> {
+      // 1) Load the page that renders the form
+      const page = await fetchWithTimeout(mapping.form_url, { headers: { 'User-Agent': userAgent } }, timeoutMs)
+      if (!page.ok) {
+        throw new ContactFormError('http', `Contact form page returned HTTP ${page.status}`, { status: page.status })
+      }
+      const html = await page.text()
+      const form = selectForm(parseForms(html, page.url || mapping.form_url), mapping)
+      if (!form && !mapping.action_url) {
+        throw new ContactFormError('form_not_found', `No matching <form> on ${mapping.form_url}`)
+      }
+
+      // 2) Fill + submit
+      const fields = fillForm(form, mapping, values)
+      const action = mapping.action_url || form!.action
+      const method = (mapping.method || form?.method || 'post').toLowerCase() === 'get' ? 'get' : 'post'
+      const body = new URLSearchParams(fields)
+      const cookie = cookieHeader(page)
+      const headers: Record<string, string> = { 'User-Agent': userAgent, Referer: mapping.form_url }
+      if (cookie) headers.Cookie = cookie
+
+      const res = method === 'get'
+        ? await fetchWithTimeout(`${action}${action.includes('?') ? '&' : '?'}${body}`, { headers }, timeoutMs)
+        : await fetchWithTimeout(
+            action,
+            { method: 'POST', headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' }, body: body.toString() },
+            timeoutMs
+          )
+      const responseText = await res.text()
+      if (!res.ok) {
+        throw new ContactFormError('http', `Contact form submission returned HTTP ${res.status}`, { status: res.status })
+      }
+
+      // 3) Many offices answer 200 with a validation error; the confirmation text is the real signal
+      if (mapping.success_pattern && !new RegExp(mapping.success_pattern, 'i').test(responseText)) {
+        throw new ContactFormError('not_confirmed', `Confirmation text /${mapping.success_pattern}/ not found after submitting`)
+      }
+
+      return { driver: 'http', action, responseUrl: res.url || action, submitted: fields }
+    },
+  }
+}
@@ -0,0 +1,40 @@
+// netlify/lib/contact-form/index.ts
+// Web contact-form delivery for the outreach `contact_form` channel.
+//
+// Env:
+//  - CONTACT_FORM_DRIVER        http (default) | outbox
+//  - CONTACT_FORM_USER_AGENT    optional User-Agent for form fetches/submissions (http)
+//  - CONTACT_FORM_TIMEOUT_MS    per-request timeout (http, default 15000)
+//  - CONTACT_FORM_OUTBOX_DIR    optional, outbox driver writes JSON files here
+//
+// Try it against a local stand-in form: `npx tsx scripts/contact-form-standin.ts`
+import { createHttpContactFormClient } from './http'
+import { createContactFormOutboxClient } from './outbox'
+import type { ContactFormClient, ContactFormDriverName } from './types'
+
+export { ContactFormError } from './types'
+export type {
+  ContactFormClient,
+  ContactFormDriverName,
+  ContactFormMapping,
+  ContactFormResult,
+  ContactFormValues,
+  ParsedForm,
+} from './types'
+export { parseForms } from './parse'
+export { fillForm, renderFieldTemplate, selectForm } from './fill'
+export { readContactFormOutbox, clearContactFormOutbox } from './outbox'
+
+const DRIVERS: Record<ContactFormDriverName, (env: NodeJS.ProcessEnv) => ContactFormClient> = {
+  http: createHttpContactFormClient,
+  outbox: createContactFormOutboxClient,
+}
+
+/** Build the client selected by env. Call once per function module, like createMailTransport. */
+export function createContactFormClient(env: NodeJS.ProcessEnv = process.env): ContactFormClient {
+  const v = (env.CONTACT_FORM_DRIVER || '').trim().toLowerCase() || 'http'
+  if (!(v in DRIVERS)) {
+    throw new Error(`Unknown contact form driver '${v}' (expected ${Object.keys(DRIVERS).join(', ')})`)
+  }
+  return DRIVERS[v as ContactFormDriverName](env)
+}
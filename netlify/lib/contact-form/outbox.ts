@@ -0,0 +1,55 @@
+// netlify/lib/contact-form/outbox.ts
+// Local "outbox" driver: nothing is fetched or posted. The filled mapping is kept in memory
+// (readable via readContactFormOutbox) and, when CONTACT_FORM_OUTBOX_DIR is set, written as JSON files.
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { fillForm } from './fill'
+import type { ContactFormClient, ContactFormMapping, ContactFormResult, ContactFormValues } from './types'
+
+export type ContactFormOutboxEntry = {
+  id: string
+  form_url: string
+  action: string
+  submitted: Record<string, string>
+  queuedAt: string
+}
+
+const memory: ContactFormOutboxEntry[] = []
+
+/** Submissions captured by the outbox driver in this process (oldest first). */
+export function readContactFormOutbox(): ContactFormOutboxEntry[] {
+  return [...memory]
+}
+
+export function clearContactFormOutbox() {
+  memory.length = 0
+}
+
+export function createContactFormOutboxClient(env: NodeJS.ProcessEnv = process.env): ContactFormClient {
+  const dir = (env.CONTACT_FORM_OUTBOX_DIR || '').trim()
+
+  return {
+    name: 'outbox',
+
+    async submit(mapping: ContactFormMapping, values: ContactFormValues): Promise<ContactFormResult> {
+      const action = mapping.action_url || mapping.form_url
+      const entry: ContactFormOutboxEntry = {
+        id: `outbox-${randomUUID()}`,
+        form_url: mapping.form_url,
+        action,
+        submitted: fillForm(null, mapping, values),
+        queuedAt: new Date().toISOString(),
+      }
+      memory.push(entry)
+
+      if (dir) {
+        await fs.mkdir(dir, { recursive: true })
+        const file = path.join(dir, `${entry.queuedAt.replace(/[:.]/g, '-')}-${entry.id}.json`)
+        await fs.writeFile(file, JSON.stringify(entry, null, 2), 'utf8')
+      }
+
+      return { driver: 'outbox', action, responseUrl: action, submitted: entry.submitted }
+    },
+  }
+}
@@ -0,0 +1,95 @@
+// netlify/lib/contact-form/parse.ts
+// Minimal <form> reader: enough to find field names, hidden tokens and select options on
+// congressional contact pages without pulling in a DOM implementation.
+import type { FormField, ParsedForm } from './types'
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decode(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, ent: string) => {
+    if (ent[0] === '#') {
+      const code = ent[1] === 'x' || ent[1] === 'X' ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m
+    }
+    return ENTITIES[ent.toLowerCase()] ?? m
+  })
+}
+
+/** Attributes of a start tag: `<input type="text" name=q required>` → { type, name, required: '' }. */
+export function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  const body = tag.replace(/^<\s*[\w-]+/, '').replace(/\/?>$/, '')
+  const re = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(body))) {
+    attrs[m[1].toLowerCase()] = decode(m[2] ?? m[3] ?? m[4] ?? '')
+  }
+  return attrs
+}
+
+function stripTags(s: string): string {
+  return decode(s.replace(/<[^>]*>/g, '')).trim()
+}
+
+function parseSelect(attrs: Record<string, string>, inner: string): FormField {
+  const options: string[] = []
+  let selected: string | null = null
+  const re = /<option\b([^>]*)>([\s\S]*?)(?=<option\b|<\/select>|$)/gi
+  let m: RegExpExecArray | null
+  while ((m = re.exec(inner))) {
+    const oa = parseAttributes(`<option ${m[1]}>`)
+    const value = 'value' in oa ? oa.value : stripTags(m[2].replace(/<\/option>[\s\S]*$/i, ''))
+    options.push(value)
+    if ('selected' in oa && selected === null) selected = value
+  }
+  return {
+    name: attrs.name,
+    type: 'select',
+    value: selected ?? options[0] ?? '',
+    required: 'required' in attrs,
+    options,
+  }
+}
+
+function parseFields(inner: string): FormField[] {
+  const fields: FormField[] = []
+  const re = /<(input|textarea|select)\b([^>]*)>(?:([\s\S]*?)<\/\1\s*>)?/gi
+  let m: RegExpExecArray | null
+  while ((m = re.exec(inner))) {
+    const tag = m[1].toLowerCase()
+    const attrs = parseAttributes(`<${tag} ${m[2]}>`)
+    if (!attrs.name || 'disabled' in attrs) continue
+
+    if (tag === 'select') {
+      fields.push(parseSelect(attrs, m[3] ?? ''))
+    } else if (tag === 'textarea') {
+      fields.push({ name: attrs.name, type: 'textarea', value: decode(m[3] ?? ''), required: 'required' in attrs })
+    } else {
+      const type = (attrs.type || 'text').toLowerCase()
+      // Unchecked boxes/radios aren't submitted by a browser either
+      if ((type === 'checkbox' || type === 'radio') && !('checked' in attrs)) continue
+      // Buttons only count when clicked; mappings list the one they need
+      if (['file', 'image', 'reset', 'submit', 'button'].includes(type)) continue
+      fields.push({ name: attrs.name, type, value: attrs.value ?? (type === 'checkbox' ? 'on' : ''), required: 'required' in attrs })
+    }
+  }
+  return fields
+}
+
+/** Every <form> on the page, with actions resolved against `pageUrl`. */
+export function parseForms(html: string, pageUrl: string): ParsedForm[] {
+  const forms: ParsedForm[] = []
+  const re = /<form\b([^>]*)>([\s\S]*?)<\/form\s*>/gi
+  let m: RegExpExecArray | null
+  while ((m = re.exec(html))) {
+    const attrs = parseAttributes(`<form ${m[1]}>`)
+    forms.push({
+      id: attrs.id || null,
+      name: attrs.name || null,
+      action: new URL(attrs.action || pageUrl, pageUrl).toString(),
+      method: (attrs.method || 'get').toLowerCase() === 'post' ? 'post' : 'get',
+      fields: parseFields(m[2]),
+    })
+  }
+  return forms
+}
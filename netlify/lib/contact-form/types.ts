@@ -0,0 +1,73 @@
+// netlify/lib/contact-form/types.ts
+
+export type ContactFormDriverName = 'http' | 'outbox'
+
+/** One row of contact_form_mappings: how to fill a representative's web form. */
+export type ContactFormMapping = {
+  /** Page that renders the form (usually the rep's contact_form_url). */
+  form_url: string
+  /** Substring of the form's id / name / action used to pick it when the page has several. */
+  form_match?: string | null
+  /** Where to submit; defaults to the form's own action. */
+  action_url?: string | null
+  method?: string | null
+  /** Form field name → template, e.g. { fname: '{{user.first_name}}', topic: 'Other' }. */
+  fields: Record<string, string>
+  /** Regex (case-insensitive) the confirmation page must match, e.g. "thank you". */
+  success_pattern?: string | null
+}
+
+/** Flat template values: 'user.first_name' → 'Ada'. */
+export type ContactFormValues = Record<string, string | null | undefined>
+
+export type FormField = {
+  name: string
+  /** input type, or 'textarea' / 'select' */
+  type: string
+  value: string
+  required: boolean
+  /** select options (values) */
+  options?: string[]
+}
+
+export type ParsedForm = {
+  id: string | null
+  name: string | null
+  action: string
+  method: 'get' | 'post'
+  fields: FormField[]
+}
+
+export type ContactFormResult = {
+  driver: ContactFormDriverName
+  /** URL the form was submitted to. */
+  action: string
+  /** Final URL after redirects (the confirmation page). */
+  responseUrl: string
+  /** Field name → submitted value. */
+  submitted: Record<string, string>
+}
+
+export interface ContactFormClient {
+  readonly name: ContactFormDriverName
+  submit(mapping: ContactFormMapping, values: ContactFormValues): Promise<ContactFormResult>
+}
+
+export type ContactFormErrorCode =
+  | 'form_not_found'   // page has no matching <form>
+  | 'missing_value'    // a required field rendered empty
+  | 'http'             // form page or submission returned non-2xx
+  | 'not_confirmed'    // submission went through but success_pattern didn't match
+
+/** Thrown by every driver so callers can classify failures without parsing messages. */
+export class ContactFormError extends Error {
+  readonly code: ContactFormErrorCode
+  readonly status: number | null   // HTTP status when code is 'http'
+
+  constructor(code: ContactFormErrorCode, message: string, opts: { status?: number | null } = {}) {
+    super(message)
+    this.name = 'ContactFormError'
+    this.code = code
+    this.status = opts.status ?? null
+  }
+}
@@ -0,0 +1,36 @@
+// netlify/lib/csv.ts
+// CSV reading for data imports (local officials, OpenStates bulk rosters).
+
+/** RFC 4180 rows: quoted fields may hold commas, doubled quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const src = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++ }
+      else if (ch === '"') quoted = false
+      else cell += ch
+    } else if (ch === '"') quoted = true
+    else if (ch === ',') { row.push(cell); cell = '' }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      row.push(cell); rows.push(row)
+      row = []; cell = ''
+    } else cell += ch
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row) }
+  return rows
+}
+
+/** Rows as objects keyed by the header row; missing cells come back as ''. */
+export function csvRecords(text: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCsv(text)
+  return rows
+    .filter(cells => cells.some(c => c.trim()))
+    .map(cells => Object.fromEntries(header.map((h, i) => [h.trim(), cells[i] ?? ''])))
+}
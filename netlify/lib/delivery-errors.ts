@@ -0,0 +1,89 @@
+// netlify/lib/delivery-errors.ts
+// Classifies outreach delivery failures (mail, social, contact forms) into retryable vs. permanent,
+// and computes the exponential backoff for retries.
+//
+// Env:
+//  - OUTREACH_MAX_ATTEMPTS        attempts per channel before dead-lettering (default 5)
+//  - OUTREACH_RETRY_BASE_SECONDS  first retry delay (default 60)
+//  - OUTREACH_RETRY_MAX_SECONDS   delay ceiling (default 21600 = 6h)
+import { MailSendError } from './mail'
+import { SocialPostError } from './social'
+import { ContactFormError } from './contact-form'
+
+export type FailureReason =
+  // transient: retried with backoff
+  | 'rate_limited'
+  | 'provider_unavailable'
+  | 'timeout'
+  | 'network'
+  | 'unknown'
+  // permanent: dead-lettered straight away
+  | 'invalid_address'
+  | 'inactive_recipient'
+  | 'rejected'
+  | 'auth'
+  | 'not_configured'
+  | 'no_contact'
+
+const TRANSIENT: ReadonlySet<FailureReason> = new Set<FailureReason>([
+  'rate_limited',
+  'provider_unavailable',
+  'timeout',
+  'network',
+  'unknown',
+])
+
+export function isTransient(reason: FailureReason): boolean {
+  return TRANSIENT.has(reason)
+}
+
+function fromHttpStatus(status: number): FailureReason {
+  if (status === 429) return 'rate_limited'
+  if (status === 408) return 'timeout'
+  if (status >= 500) return 'provider_unavailable'
+  if (status === 401 || status === 403) return 'auth'
+  return 'rejected'
+}
+
+function fromMessage(message: string): FailureReason {
+  if (/timed? ?out|timeout/i.test(message)) return 'timeout'
+  if (/ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket|connection closed|connect failed|fetch failed/i.test(message)) return 'network'
+  return 'unknown'
+}
+
+export function classifyDeliveryError(e: unknown): FailureReason {
+  if (e instanceof MailSendError) {
+    // Postmark: 300 invalid email request, 406 inactive (suppressed) recipient
+    if (e.code === 300) return 'invalid_address'
+    if (e.code === 406) return 'inactive_recipient'
+    if (e.driver === 'smtp' && e.status != null) {
+      if (e.status >= 400 && e.status < 500) return 'provider_unavailable' // 4xx replies are temporary in SMTP
+      if (e.status === 535) return 'auth'
+      if ([550, 551, 553].includes(e.status)) return 'invalid_address'
+      return 'rejected'
+    }
+    if (e.status != null) return fromHttpStatus(e.status)
+    return fromMessage(e.message)
+  }
+  if (e instanceof SocialPostError) {
+    return e.status != null ? fromHttpStatus(e.status) : fromMessage(e.message)
+  }
+  if (e instanceof ContactFormError) {
+    // A changed page (form gone, new required field) needs the mapping fixed, not a retry
+    if (e.code === 'form_not_found') return 'not_configured'
+    if (e.code === 'http' && e.status != null) return fromHttpStatus(e.status)
+    return 'rejected'
+  }
+  return fromMessage(e instanceof Error ? e.message : String(e))
+}
+
+export const MAX_ATTEMPTS = Math.max(1, Number(process.env.OUTREACH_MAX_ATTEMPTS || 5))
+const BASE_SECONDS = Number(process.env.OUTREACH_RETRY_BASE_SECONDS || 60)
+const MAX_SECONDS = Number(process.env.OUTREACH_RETRY_MAX_SECONDS || 6 * 60 * 60)
+
+/** When to try again after `attempt` failed attempts: base · 2^(attempt-1), capped, ±20% jitter. */
+export function nextAttemptAt(attempt: number, now = Date.now()): string {
+  const delay = Math.min(MAX_SECONDS, BASE_SECONDS * 2 ** Math.max(0, attempt - 1))
+  const jitter = 0.8 + Math.random() * 0.4
+  return new Date(now + delay * jitter * 1000).toISOString()
+}
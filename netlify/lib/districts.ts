@@ -0,0 +1,145 @@
+// netlify/lib/districts.ts
+// Offline district lookups against the Census tables loaded by scripts/census-import.ts
+// (see migration 2026-10-18r). Point lookups use TIGER polygons; ZIP lookups use the
+// ZCTA relationship files and may return several candidates per chamber.
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/** Districts as stored on user_addresses: cd (U.S. House), sd (state senate), hd (state house). */
+export type DistrictSet = {
+  state: string | null
+  cd: string | null
+  sd: string | null
+  hd: string | null
+  // county and city (place) names, when their polygons are loaded
+  county?: string | null
+  muni?: string | null
+}
+
+export type DistrictCandidate = {
+  state: string
+  district: string
+  /** Share of the ZIP's land area inside this district, 0–100. */
+  overlap_pct: number
+}
+
+export type ZipCandidates = {
+  zip: string
+  cd: DistrictCandidate[]
+  sd: DistrictCandidate[]
+  hd: DistrictCandidate[]
+}
+
+const FIELD = { cd: 'cd', sldu: 'sd', sldl: 'hd' } as const
+type Kind = keyof typeof FIELD
+const POINT_FIELD = { ...FIELD, county: 'county', place: 'muni' } as const
+
+/** A ZIP counts as inside one district when it holds at least this share (boundary slivers aside). */
+export const SETTLED_PCT = 99
+
+/** Districts containing the point, or null when no polygons cover it (or none are loaded). */
+export async function resolvePoint(supabase: SupabaseClient, lat: number, lng: number): Promise<DistrictSet | null> {
+  const { data, error } = await supabase.rpc('resolve_districts_at', { p_lat: lat, p_lng: lng })
+  if (error) throw new Error(`District lookup failed: ${error.message}`)
+
+  const rows = (data ?? []) as { kind: keyof typeof POINT_FIELD; state: string; district: string }[]
+  if (!rows.some(r => r.kind in FIELD)) return null // a county alone doesn't settle any district
+
+  const out: DistrictSet = { state: rows[0].state, cd: null, sd: null, hd: null, county: null, muni: null }
+  for (const r of rows) out[POINT_FIELD[r.kind]] = r.district
+  return out
+}
+
+/** Every district a ZIP touches, largest overlap first; null when the ZIP isn't a known ZCTA. */
+export async function resolveZip(supabase: SupabaseClient, zip: string): Promise<ZipCandidates | null> {
+  const zcta = zip.trim().slice(0, 5)
+  if (!/^\d{5}$/.test(zcta)) return null
+
+  const { data, error } = await supabase
+    .from('census_zcta_districts')
+    .select('kind, state, district, overlap_pct')
+    .eq('zcta', zcta)
+    .order('overlap_pct', { ascending: false })
+  if (error) throw new Error(`ZIP lookup failed: ${error.message}`)
+
+  const rows = (data ?? []) as { kind: Kind; state: string; district: string; overlap_pct: number | string }[]
+  if (!rows.length) return null
+
+  const out: ZipCandidates = { zip: zcta, cd: [], sd: [], hd: [] }
+  for (const r of rows) {
+    // numeric comes back as a string from PostgREST
+    out[FIELD[r.kind]].push({ state: r.state, district: r.district, overlap_pct: Number(r.overlap_pct) })
+  }
+  return out
+}
+
+/** The districts every part of the ZIP agrees on; a field stays null when the ZIP is split. */
+export function settledDistricts(c: ZipCandidates): DistrictSet & { ambiguous: boolean } {
+  const only = (list: DistrictCandidate[]) =>
+    list.length && list[0].overlap_pct >= SETTLED_PCT ? list[0] : null
+
+  const cd = only(c.cd)
+  const sd = only(c.sd)
+  const hd = only(c.hd)
+  const states = new Set([...c.cd, ...c.sd, ...c.hd].map(x => x.state))
+
+  return {
+    state: states.size === 1 ? [...states][0] : null,
+    cd: cd?.district ?? null,
+    sd: sd?.district ?? null,
+    hd: hd?.district ?? null,
+    ambiguous: (c.cd.length > 0 && !cd) || (c.sd.length > 0 && !sd) || (c.hd.length > 0 && !hd),
+  }
+}
+
+/** How a user's districts were determined (user_addresses.district_source). */
+export type DistrictSource = 'geocoded' | 'user_chosen' | 'zip_majority'
+
+export const DISTRICT_SOURCES: readonly DistrictSource[] = ['geocoded', 'user_chosen', 'zip_majority']
+
+/** One full set of districts a resident of the ZIP could have. */
+export type DistrictCombo = {
+  state: string
+  cd: string | null
+  sd: string | null
+  hd: string | null
+  /** Estimated share of the ZIP's land area with exactly these districts, 0–100. */
+  share_pct: number
+}
+
+/**
+ * Plausible district combinations for a ZIP, most likely first (so [0] is the ZIP-majority
+ * pick). The relationship files only pair the ZIP with one chamber at a time, so the share
+ * assumes chambers split the ZIP independently within each state; combinations under
+ * `minPct` are dropped.
+ */
+export function districtCombos(c: ZipCandidates, minPct = 1): DistrictCombo[] {
+  const states = [...new Set([...c.cd, ...c.sd, ...c.hd].map(x => x.state))]
+  const combos: DistrictCombo[] = []
+
+  for (const state of states) {
+    const inState = (list: DistrictCandidate[]) => list.filter(x => x.state === state)
+    const chambers = [inState(c.cd), inState(c.sd), inState(c.hd)]
+    const reference = chambers.find(l => l.length) ?? []
+    const stateShare = reference.reduce((sum, x) => sum + x.overlap_pct, 0)
+    if (stateShare <= 0) continue
+
+    // a chamber with no rows (e.g. Nebraska's single house) contributes null at full weight
+    const options = chambers.map(l =>
+      l.length
+        ? l.map(x => ({ district: x.district as string | null, p: Math.min(1, x.overlap_pct / stateShare) }))
+        : [{ district: null, p: 1 }]
+    )
+    for (const cd of options[0]) {
+      for (const sd of options[1]) {
+        for (const hd of options[2]) {
+          const share = Math.round(stateShare * cd.p * sd.p * hd.p * 10) / 10
+          if (share >= minPct) combos.push({ state, cd: cd.district, sd: sd.district, hd: hd.district, share_pct: share })
+        }
+      }
+    }
+  }
+
+  // a ZIP split into many small pieces still gets its single likeliest combination
+  if (!combos.length && minPct > 0) return districtCombos(c, 0).slice(0, 1)
+  return combos.sort((a, b) => b.share_pct - a.share_pct)
+}
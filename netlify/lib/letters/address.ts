@@ -0,0 +1,65 @@
+// netlify/lib/letters/address.ts
+// Picks the office a printed letter goes to and formats the address block.
+
+export type OfficeKind = 'district' | 'dc'
+
+export type PostalAddress = {
+  line1: string
+  line2?: string | null
+  city: string
+  state: string
+  zip: string
+}
+
+export type LetterRecipient = {
+  name: string
+  office: string | null
+  level?: string | null
+  chamber?: string | null
+  district_office_address?: unknown
+  dc_office_address?: unknown
+}
+
+// Capitol mail reaches every member through the chamber's central ZIP
+const CAPITOL_ADDRESSES: Record<'senate' | 'house', PostalAddress> = {
+  senate: { line1: 'United States Senate', city: 'Washington', state: 'DC', zip: '20510' },
+  house: { line1: 'U.S. House of Representatives', city: 'Washington', state: 'DC', zip: '20515' },
+}
+
+/** Accept the jsonb shape written by the sync functions; anything incomplete is treated as missing. */
+export function asPostalAddress(val: unknown): PostalAddress | null {
+  if (!val || typeof val !== 'object') return null
+  const v = val as Record<string, unknown>
+  const str = (x: unknown) => (typeof x === 'string' ? x.trim() : '')
+  const addr = { line1: str(v.line1), line2: str(v.line2) || null, city: str(v.city), state: str(v.state), zip: str(v.zip) }
+  return addr.line1 && addr.city && addr.state && addr.zip ? addr : null
+}
+
+/**
+ * The office address to mail: the preferred kind when on file, then the other one, then
+ * (federal legislators only) the chamber's Capitol address.
+ */
+export function officeAddressFor(rep: LetterRecipient, prefer: OfficeKind): { kind: OfficeKind; address: PostalAddress } | null {
+  const district = asPostalAddress(rep.district_office_address)
+  const dc = asPostalAddress(rep.dc_office_address)
+  const order: [OfficeKind, PostalAddress | null][] = prefer === 'dc'
+    ? [['dc', dc], ['district', district]]
+    : [['district', district], ['dc', dc]]
+  for (const [kind, address] of order) {
+    if (address) return { kind, address }
+  }
+
+  const chamber = (rep.chamber || '').toLowerCase()
+  if ((rep.level || '').toLowerCase() === 'federal' && (chamber === 'senate' || chamber === 'house')) {
+    return { kind: 'dc', address: CAPITOL_ADDRESSES[chamber] }
+  }
+  return null
+}
+
+/** Recipient block: "The Honorable <name>", street lines, "City, ST 12345". */
+export function formatAddressBlock(name: string, address: PostalAddress): string[] {
+  const lines = [`The Honorable ${name}`, address.line1]
+  if (address.line2) lines.push(address.line2)
+  lines.push(`${address.city}, ${address.state} ${address.zip}`)
+  return lines
+}
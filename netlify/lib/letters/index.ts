@@ -0,0 +1,20 @@
+// netlify/lib/letters/index.ts
+// Print-and-mail letters for the outreach `letter` channel.
+//
+// Env:
+//  - LETTER_PREFER_OFFICE   district (default) | dc — which office address to use when both are on file
+//  - LETTER_BUCKET          Supabase Storage bucket for the PDFs (default outreach-letters)
+export { renderLetterPdf, mergeLetterPdfs } from './render'
+export type { LetterContent } from './render'
+export { asPostalAddress, formatAddressBlock, officeAddressFor } from './address'
+export type { LetterRecipient, OfficeKind, PostalAddress } from './address'
+
+/** Storage object for a request's letter: `<user_id>/<request_id>.pdf` (the owner-read policy keys on the folder). */
+export function letterPath(userId: string, requestId: string): string {
+  return `${userId}/${requestId}.pdf`
+}
+
+/** "October 18, 2026" */
+export function letterDate(d = new Date()): string {
+  return d.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })
+}
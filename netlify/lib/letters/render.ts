@@ -0,0 +1,137 @@
+// netlify/lib/letters/render.ts
+// Letter-size PDFs for the outreach `letter` channel (pdf-lib, standard Times font).
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+
+export type LetterContent = {
+  /** Already formatted, e.g. "October 18, 2026". */
+  date: string
+  /** Constituent: name first, then whatever address lines we have (at least the ZIP). */
+  sender: string[]
+  /** From formatAddressBlock. */
+  recipient: string[]
+  greeting: string
+  body: string
+  closing: string
+  signature: string
+}
+
+const PAGE_WIDTH = 612   // 8.5in
+const PAGE_HEIGHT = 792  // 11in
+const MARGIN = 72
+const FONT_SIZE = 12
+const LEADING = 16
+const FOOTER_SIZE = 9
+
+// Standard fonts only encode WinAnsi; map the common typographic characters and drop the rest
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ')
+function toWinAnsi(text: string): string {
+  return [...text.normalize('NFC')]
+    .map((ch) => {
+      const code = ch.codePointAt(0)!
+      if (ch === '\n' || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(ch)) return ch
+      if (ch === '\t') return '    '
+      if (ch === '‐' || ch === '‑') return '-'
+      return ''
+    })
+    .join('')
+}
+
+/** Greedy word wrap; words wider than the line are split by character. */
+function wrapLine(text: string, font: PDFFont, maxWidth: number): string[] {
+  if (!text.trim()) return ['']
+  const lines: string[] = []
+  let current = ''
+  const fits = (s: string) => font.widthOfTextAtSize(s, FONT_SIZE) <= maxWidth
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word
+    if (fits(candidate)) {
+      current = candidate
+      continue
+    }
+    if (current) lines.push(current)
+    current = word
+    while (!fits(current)) {
+      let cut = current.length - 1
+      while (cut > 1 && !fits(current.slice(0, cut))) cut--
+      lines.push(current.slice(0, cut))
+      current = current.slice(cut)
+    }
+  }
+  if (current) lines.push(current)
+  return lines
+}
+
+/** Render a letter; returns the PDF bytes and how many pages it took. */
+export async function renderLetterPdf(letter: LetterContent): Promise<{ bytes: Uint8Array; pageCount: number }> {
+  const doc = await PDFDocument.create()
+  doc.setTitle(toWinAnsi(`Letter to ${letter.recipient[0] ?? 'representative'}`))
+  doc.setProducer('Cyber Kingdom of Christ')
+  const font = await doc.embedFont(StandardFonts.TimesRoman)
+  const maxWidth = PAGE_WIDTH - MARGIN * 2
+
+  const pages: PDFPage[] = []
+  let page!: PDFPage
+  let y = 0
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    pages.push(page)
+    y = PAGE_HEIGHT - MARGIN
+  }
+  const write = (text: string) => {
+    for (const line of wrapLine(toWinAnsi(text), font, maxWidth)) {
+      if (y < MARGIN + LEADING) newPage()
+      if (line) page.drawText(line, { x: MARGIN, y, size: FONT_SIZE, font, color: rgb(0, 0, 0) })
+      y -= LEADING
+    }
+  }
+  const gap = (lines = 1) => {
+    y -= LEADING * lines
+  }
+
+  newPage()
+  letter.sender.forEach(write)
+  gap()
+  write(letter.date)
+  gap()
+  letter.recipient.forEach(write)
+  gap()
+  write(letter.greeting)
+  gap()
+  // Blank lines separate paragraphs; single newlines are kept as line breaks
+  const paragraphs = letter.body.replace(/\r\n?/g, '\n').split(/\n{2,}/)
+  paragraphs.forEach((para, i) => {
+    para.split('\n').forEach(write)
+    if (i < paragraphs.length - 1) gap()
+  })
+  gap()
+  // Keep the closing and signature together
+  if (y < MARGIN + LEADING * 4) newPage()
+  write(letter.closing)
+  gap(2)
+  write(letter.signature)
+
+  pages.forEach((p, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`
+    const width = font.widthOfTextAtSize(label, FOOTER_SIZE)
+    p.drawText(label, { x: (PAGE_WIDTH - width) / 2, y: MARGIN / 2, size: FOOTER_SIZE, font, color: rgb(0.35, 0.35, 0.35) })
+  })
+
+  return { bytes: await doc.save(), pageCount: pages.length }
+}
+
+/**
+ * Concatenate letters into one print job. With `duplex`, odd-length letters get a blank
+ * back page so every letter starts on a fresh sheet.
+ */
+export async function mergeLetterPdfs(pdfs: Uint8Array[], opts: { duplex?: boolean } = {}): Promise<{ bytes: Uint8Array; pageCount: number }> {
+  const out = await PDFDocument.create()
+  out.setTitle('Outreach letters')
+  for (const bytes of pdfs) {
+    const src = await PDFDocument.load(bytes)
+    const copied = await out.copyPages(src, src.getPageIndices())
+    copied.forEach((p) => out.addPage(p))
+    if (opts.duplex && copied.length % 2 === 1) out.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  }
+  return { bytes: await out.save(), pageCount: out.getPageCount() }
+}
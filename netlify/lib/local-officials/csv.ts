@@ -0,0 +1,150 @@
+// netlify/lib/local-officials/csv.ts
+// Local officials from a CSV sheet: one row per officeholder, with a header row.
+//
+// Columns (header names are case-insensitive; only office, state, name and the county or
+// place are required):
+//   office            county_commissioner | mayor | city_council | school_board
+//                     (also "commissioner", "council member", "trustee", …)
+//   state             two-letter code
+//   county, place     Census county / city names; they pick the OCD division
+//   seat, body        "Precinct 2"; "Austin ISD" for bodies that aren't the county or city
+//   office_name       overrides the generated title
+//   ocd_division_id   narrower division for the seat (optional)
+//   name, party, email, phone, website, contact_form_url, photo_url, twitter, facebook
+//   term_end          YYYY-MM-DD
+//   address_line1, address_line2, address_city, address_state, address_zip  (mailing address)
+import {
+  LOCAL_OFFICES,
+  LocalOfficialsSourceError,
+  type LocalOffice,
+  type LocalOfficial,
+  type LocalOfficialsBatch,
+  type LocalOfficialsSource,
+} from './types'
+import { parseCsv } from '../csv'
+
+const OFFICE_ALIASES: Record<string, LocalOffice> = {
+  commissioner: 'county_commissioner',
+  county_commission: 'county_commissioner',
+  county_commissioners: 'county_commissioner',
+  council: 'city_council',
+  city_council_member: 'city_council',
+  council_member: 'city_council',
+  councilmember: 'city_council',
+  alderman: 'city_council',
+  school_board_trustee: 'school_board',
+  school_board_member: 'school_board',
+  trustee: 'school_board',
+}
+
+const key = (s: string) => s.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+
+function officeOf(value: string): LocalOffice | null {
+  const k = key(value)
+  if ((LOCAL_OFFICES as readonly string[]).includes(k)) return k as LocalOffice
+  return OFFICE_ALIASES[k] ?? null
+}
+
+function toOfficial(get: (col: string) => string | null): LocalOfficial | string {
+  const office = officeOf(get('office') || '')
+  if (!office) return `unknown office '${get('office') ?? ''}'`
+
+  const state = (get('state') || '').toUpperCase()
+  if (!/^[A-Z]{2}$/.test(state)) return 'state must be a two-letter code'
+
+  const name = get('name')
+  if (!name) return 'name is required'
+
+  const county = get('county')
+  const place = get('place')
+  if (office === 'county_commissioner' && !county) return 'county offices need a county'
+  if ((office === 'mayor' || office === 'city_council') && !place) return 'city offices need a place'
+  if (!county && !place) return 'a county or place is required'
+
+  const ocd = get('ocd_division_id')?.toLowerCase() ?? null
+  if (ocd && !ocd.startsWith(`ocd-division/country:us/state:${state.toLowerCase()}/`)) {
+    return `ocd_division_id must be inside state:${state.toLowerCase()}`
+  }
+
+  const termEnd = get('term_end')
+  if (termEnd && !/^\d{4}-\d{2}-\d{2}$/.test(termEnd)) return 'term_end must be YYYY-MM-DD'
+
+  const email = get('email')
+  if (email && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) return `invalid email '${email}'`
+
+  const line1 = get('address_line1')
+  const city = get('address_city')
+  const zip = get('address_zip')
+  const address = line1 && city && zip
+    ? { line1, line2: get('address_line2'), city, state: (get('address_state') || state).toUpperCase(), zip }
+    : null
+
+  return {
+    office,
+    state,
+    county,
+    place,
+    seat: get('seat'),
+    body: get('body'),
+    office_name: get('office_name'),
+    ocd_division_id: ocd,
+    name,
+    party: get('party'),
+    email,
+    phone: get('phone'),
+    website: get('website'),
+    contact_form_url: get('contact_form_url'),
+    photo_url: get('photo_url'),
+    twitter: get('twitter')?.replace(/^@/, '') ?? null,
+    facebook: get('facebook'),
+    term_end: termEnd,
+    address,
+  }
+}
+
+/** Parse a local-officials sheet; bad rows are reported, not thrown. */
+export function parseLocalOfficialsCsv(text: string): LocalOfficialsBatch {
+  const rows = parseCsv(text)
+  const header = (rows[0] ?? []).map(key)
+  const out: LocalOfficialsBatch = { officials: [], rejected: [] }
+
+  for (const col of ['office', 'state', 'name']) {
+    if (!header.includes(col)) {
+      out.rejected.push({ row: 1, reason: `missing column '${col}'` })
+    }
+  }
+  if (out.rejected.length) return out
+
+  rows.slice(1).forEach((cells, i) => {
+    if (cells.every(c => !c.trim())) return // blank line
+    const get = (col: string) => {
+      const idx = header.indexOf(col)
+      const v = idx >= 0 ? (cells[idx] ?? '').trim() : ''
+      return v || null
+    }
+    const result = toOfficial(get)
+    if (typeof result === 'string') out.rejected.push({ row: i + 2, reason: result })
+    else out.officials.push(result)
+  })
+  return out
+}
+
+export function createCsvSource(env: NodeJS.ProcessEnv = process.env): LocalOfficialsSource {
+  const url = (env.LOCAL_OFFICIALS_CSV_URL || '').trim()
+
+  return {
+    name: 'csv',
+
+    missingEnv() {
+      return url ? [] : ['LOCAL_OFFICIALS_CSV_URL']
+    },
+
+    async fetch() {
+      const res = await fetch(url, { headers: { Accept: 'text/csv, text/plain;q=0.9' } })
+      if (!res.ok) {
+        throw new LocalOfficialsSourceError('csv', `CSV HTTP ${res.status}`, { status: res.status })
+      }
+      return parseLocalOfficialsCsv(await res.text())
+    },
+  }
+}
@@ -0,0 +1,25 @@
+// netlify/lib/local-officials/index.ts
+// Data sources for county and city officials (local-officials-sync).
+//
+// Env:
+//  - LOCAL_OFFICIALS_SOURCE   csv (default)
+//  - LOCAL_OFFICIALS_CSV_URL  (csv) where to download the sheet, e.g. a published Google Sheet
+import { createCsvSource } from './csv'
+import type { LocalOfficialsSource, LocalOfficialsSourceName } from './types'
+
+export { LOCAL_OFFICES, LocalOfficialsSourceError } from './types'
+export type { LocalOffice, LocalOfficial, LocalOfficialsBatch, LocalOfficialsSource, LocalOfficialsSourceName } from './types'
+export { parseLocalOfficialsCsv } from './csv'
+
+const SOURCES: Record<LocalOfficialsSourceName, (env: NodeJS.ProcessEnv) => LocalOfficialsSource> = {
+  csv: createCsvSource,
+}
+
+/** Build the source selected by env. */
+export function createLocalOfficialsSource(env: NodeJS.ProcessEnv = process.env): LocalOfficialsSource {
+  const v = (env.LOCAL_OFFICIALS_SOURCE || '').trim().toLowerCase() || 'csv'
+  if (!(v in SOURCES)) {
+    throw new Error(`Unknown local officials source '${v}' (expected ${Object.keys(SOURCES).join(', ')})`)
+  }
+  return SOURCES[v as LocalOfficialsSourceName](env)
+}
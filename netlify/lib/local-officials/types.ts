@@ -0,0 +1,69 @@
+// netlify/lib/local-officials/types.ts
+
+export type LocalOfficialsSourceName = 'csv'
+
+/** Stored as representatives.chamber (level 'local'). */
+export type LocalOffice = 'county_commissioner' | 'mayor' | 'city_council' | 'school_board'
+
+export const LOCAL_OFFICES: readonly LocalOffice[] = ['county_commissioner', 'mayor', 'city_council', 'school_board']
+
+export type LocalOfficial = {
+  office: LocalOffice
+  /** Two-letter code. */
+  state: string
+  /** County name as the Census writes it ("Travis" or "Travis County"); county offices need one. */
+  county: string | null
+  /** City/town name ("Austin"); mayors and council members need one. */
+  place: string | null
+  /** Seat on the body, e.g. "Precinct 2", "District 3", "Place 8". */
+  seat: string | null
+  /** The governing body when it isn't the county or city itself, e.g. "Austin ISD". */
+  body: string | null
+  /** Overrides the generated office name. */
+  office_name: string | null
+  /** A narrower OCD division (e.g. .../school_district:austin_isd); the county/place link is kept too. */
+  ocd_division_id: string | null
+  name: string
+  party: string | null
+  email: string | null
+  phone: string | null
+  website: string | null
+  contact_form_url: string | null
+  photo_url: string | null
+  twitter: string | null
+  facebook: string | null
+  term_end: string | null
+  address: {
+    line1: string
+    line2: string | null
+    city: string
+    state: string
+    zip: string
+  } | null
+}
+
+export type LocalOfficialsBatch = {
+  officials: LocalOfficial[]
+  /** Input rows that couldn't be used; the header is row 1. */
+  rejected: { row: number; reason: string }[]
+}
+
+export interface LocalOfficialsSource {
+  readonly name: LocalOfficialsSourceName
+  /** Env vars this source needs but doesn't have (empty when ready to fetch). */
+  missingEnv(): string[]
+  fetch(): Promise<LocalOfficialsBatch>
+}
+
+/** Thrown when a source can't be read at all (as opposed to individual rejected rows). */
+export class LocalOfficialsSourceError extends Error {
+  readonly source: LocalOfficialsSourceName
+  readonly status: number | null
+
+  constructor(source: LocalOfficialsSourceName, message: string, opts: { status?: number | null } = {}) {
+    super(message)
+    this.name = 'LocalOfficialsSourceError'
+    this.source = source
+    this.status = opts.status ?? null
+  }
+}
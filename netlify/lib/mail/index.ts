@@ -0,0 +1,78 @@
+// netlify/lib/mail/index.ts
+// Shared mail transport for the Netlify functions.
+//
+// Env:
+//  - MAIL_DRIVER            postmark (default) | sendgrid | smtp | outbox
+//  - MAIL_FALLBACK_DRIVER   optional second driver, used when the primary rejects a send
+//  - POSTMARK_SERVER_TOKEN  (postmark)
+//  - SENDGRID_API_KEY       (sendgrid)
+//  - SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS  (smtp)
+//  - MAIL_OUTBOX_DIR        optional, outbox driver writes JSON files here
+import { createPostmarkTransport } from './postmark'
+import { createSendGridTransport } from './sendgrid'
+import { createSmtpTransport } from './smtp'
+import { createOutboxTransport } from './outbox'
+import { MailSendError, type MailDriverName, type MailMessage, type MailSendResult, type MailTransport } from './types'
+
+export { MailSendError, parseAddress } from './types'
+export type { MailDriverName, MailMessage, MailSendResult, MailTransport } from './types'
+export { readOutbox, clearOutbox } from './outbox'
+
+const DRIVERS: Record<MailDriverName, (env: NodeJS.ProcessEnv) => MailTransport> = {
+  postmark: createPostmarkTransport,
+  sendgrid: createSendGridTransport,
+  smtp: createSmtpTransport,
+  outbox: createOutboxTransport,
+}
+
+// Postmark ErrorCodes that describe the recipient, not the provider:
+// 300 invalid email request, 406 inactive (suppressed) recipient.
+// Re-sending these through another provider would just sidestep suppression.
+const RECIPIENT_ERROR_CODES = new Set([300, 406])
+
+function driverName(value: string | undefined, fallback: MailDriverName | null): MailDriverName | null {
+  const v = (value || '').trim().toLowerCase()
+  if (!v) return fallback
+  if (v in DRIVERS) return v as MailDriverName
+  throw new Error(`Unknown mail driver '${v}' (expected ${Object.keys(DRIVERS).join(', ')})`)
+}
+
+function withFailover(primary: MailTransport, fallback: MailTransport): MailTransport {
+  return {
+    name: primary.name,
+
+    missingEnv() {
+      return fallback.missingEnv().length ? primary.missingEnv() : []
+    },
+
+    async send(msg: MailMessage): Promise<MailSendResult> {
+      if (primary.missingEnv().length) return fallback.send(msg)
+      try {
+        return await primary.send(msg)
+      } catch (e) {
+        const err = e as MailSendError
+        if (err?.code != null && RECIPIENT_ERROR_CODES.has(err.code)) throw err
+        // A resend could deliver the message twice
+        if (err?.accepted) throw err
+        if (fallback.missingEnv().length) throw err
+        console.warn(`mail: ${primary.name} failed (${err?.message}); retrying via ${fallback.name}`)
+        return fallback.send(msg)
+      }
+    },
+  }
+}
+
+/** Build the transport selected by env. Call once per function module, like createClient. */
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const primaryName = driverName(env.MAIL_DRIVER, 'postmark')!
+  const fallbackName = driverName(env.MAIL_FALLBACK_DRIVER, null)
+
+  const primary = DRIVERS[primaryName](env)
+  if (!fallbackName || fallbackName === primaryName) return primary
+  return withFailover(primary, DRIVERS[fallbackName](env))
+}
+
+/** "Name <addr>" when a display name is configured, else the bare address. */
+export function formatFrom(email: string, name?: string | null): string {
+  return name ? `${name} <${email}>` : email
+}
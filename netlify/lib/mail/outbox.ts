@@ -0,0 +1,45 @@
+// netlify/lib/mail/outbox.ts
+// Local "outbox" driver: nothing leaves the machine. Messages are kept in memory
+// (readable via readOutbox) and, when MAIL_OUTBOX_DIR is set, written as JSON files.
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import type { MailMessage, MailSendResult, MailTransport } from './types'
+
+export type OutboxEntry = MailMessage & { messageId: string; queuedAt: string }
+
+const memory: OutboxEntry[] = []
+
+/** Messages captured by the outbox driver in this process (oldest first). */
+export function readOutbox(): OutboxEntry[] {
+  return [...memory]
+}
+
+export function clearOutbox() {
+  memory.length = 0
+}
+
+export function createOutboxTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const dir = (env.MAIL_OUTBOX_DIR || '').trim()
+
+  return {
+    name: 'outbox',
+
+    missingEnv() {
+      return []
+    },
+
+    async send(msg: MailMessage): Promise<MailSendResult> {
+      const entry: OutboxEntry = { ...msg, messageId: `outbox-${randomUUID()}`, queuedAt: new Date().toISOString() }
+      memory.push(entry)
+
+      if (dir) {
+        await fs.mkdir(dir, { recursive: true })
+        const file = path.join(dir, `${entry.queuedAt.replace(/[:.]/g, '-')}-${entry.messageId}.json`)
+        await fs.writeFile(file, JSON.stringify(entry, null, 2), 'utf8')
+      }
+
+      return { driver: 'outbox', messageId: entry.messageId }
+    },
+  }
+}
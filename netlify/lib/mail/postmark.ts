@@ -0,0 +1,68 @@
+// netlify/lib/mail/postmark.ts
+import { MailSendError, type MailMessage, type MailSendResult, type MailTransport } from './types'
+
+type PostmarkSendResponse = {
+  To?: string
+  SubmittedAt?: string
+  MessageID?: string
+  ErrorCode: number
+  Message: string
+}
+
+export function createPostmarkTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const token = (env.POSTMARK_SERVER_TOKEN || '').trim()
+
+  async function postmarkFetch(path: string, payload: Record<string, unknown>): Promise<PostmarkSendResponse> {
+    const res = await fetch(`https://api.postmarkapp.com${path}`, {
+      method: 'POST',
+      headers: {
+        'X-Postmark-Server-Token': token,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify(payload),
+    })
+
+    const json = (await res.json().catch(() => ({}))) as Partial<PostmarkSendResponse>
+    const ok = res.ok && (json?.ErrorCode ?? 0) === 0
+    if (!ok) {
+      throw new MailSendError('postmark', json?.Message || `HTTP ${res.status}`, {
+        status: res.status,
+        code: json?.ErrorCode ?? null,
+      })
+    }
+    return json as PostmarkSendResponse
+  }
+
+  return {
+    name: 'postmark',
+
+    missingEnv() {
+      return token ? [] : ['POSTMARK_SERVER_TOKEN']
+    },
+
+    async send(msg: MailMessage): Promise<MailSendResult> {
+      const common = {
+        From: msg.from,
+        To: msg.to,
+        ReplyTo: msg.replyTo || undefined,
+        MessageStream: msg.stream || undefined,
+      }
+
+      const resp = msg.template?.alias
+        ? await postmarkFetch('/email/withTemplate', {
+            ...common,
+            TemplateAlias: msg.template.alias,
+            TemplateModel: msg.template.model,
+          })
+        : await postmarkFetch('/email', {
+            ...common,
+            Subject: msg.subject,
+            HtmlBody: msg.html || undefined,
+            TextBody: msg.text || undefined,
+          })
+
+      return { driver: 'postmark', messageId: resp.MessageID ?? null }
+    },
+  }
+}
@@ -0,0 +1,50 @@
+// netlify/lib/mail/sendgrid.ts
+import sgMail from '@sendgrid/mail'
+import { MailSendError, parseAddress, type MailMessage, type MailSendResult, type MailTransport } from './types'
+
+type SendGridError = Error & {
+  code?: number
+  response?: { body?: { errors?: { message?: string }[] } | string }
+}
+
+export function createSendGridTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const apiKey = (env.SENDGRID_API_KEY || '').trim()
+  if (apiKey) sgMail.setApiKey(apiKey)
+
+  return {
+    name: 'sendgrid',
+
+    missingEnv() {
+      return apiKey ? [] : ['SENDGRID_API_KEY']
+    },
+
+    async send(msg: MailMessage): Promise<MailSendResult> {
+      const from = parseAddress(msg.from)
+      const content: { type: string; value: string }[] = []
+      if (msg.text) content.push({ type: 'text/plain', value: msg.text })
+      if (msg.html) content.push({ type: 'text/html', value: msg.html })
+      if (!content.length) content.push({ type: 'text/plain', value: ' ' })
+
+      try {
+        const [resp] = await sgMail.send({
+          to: msg.to,
+          from: from.name ? { email: from.email, name: from.name } : from.email,
+          replyTo: msg.replyTo || undefined,
+          subject: msg.subject,
+          content: content as [{ type: string; value: string }],
+          // Keeps the logical stream visible in SendGrid's activity feed
+          categories: msg.stream ? [msg.stream] : undefined,
+        })
+        const header = resp?.headers?.['x-message-id']
+        return { driver: 'sendgrid', messageId: header ? String(header) : null }
+      } catch (e) {
+        const err = e as SendGridError
+        const body = err.response?.body
+        const detail = typeof body === 'object' ? body?.errors?.[0]?.message : undefined
+        throw new MailSendError('sendgrid', detail || err.message || 'SendGrid send failed', {
+          status: typeof err.code === 'number' ? err.code : null,
+        })
+      }
+    },
+  }
+}
@@ -0,0 +1,216 @@
+// netlify/lib/mail/smtp.ts
+// Minimal SMTP client (EHLO → STARTTLS → AUTH PLAIN → MAIL/RCPT/DATA) so we can
+// relay through any mailbox provider without pulling in another dependency.
+// Credentials only go over TLS: SMTP_SECURE, or a STARTTLS upgrade that succeeded.
+import net from 'net'
+import tls from 'tls'
+import { randomUUID } from 'crypto'
+import { MailSendError, parseAddress, type MailMessage, type MailSendResult, type MailTransport } from './types'
+
+type Reply = { code: number; text: string }
+
+const CRLF = '\r\n'
+
+function b64(s: string) {
+  return Buffer.from(s, 'utf8').toString('base64')
+}
+function b64Lines(s: string) {
+  return (b64(s).match(/.{1,76}/g) || []).join(CRLF)
+}
+/** RFC 2047 encoded-word for non-ASCII header values. */
+function encodeHeader(s: string) {
+  return /^[\x20-\x7e]*$/.test(s) ? s : `=?UTF-8?B?${b64(s)}?=`
+}
+function formatAddress(value: string) {
+  const { name, email } = parseAddress(value)
+  return name ? `${encodeHeader(name)} <${email}>` : email
+}
+
+export function buildMimeMessage(msg: MailMessage, messageId: string): string {
+  const boundary = `ckoc-${randomUUID()}`
+  const headers = [
+    `From: ${formatAddress(msg.from)}`,
+    `To: ${formatAddress(msg.to)}`,
+    msg.replyTo ? `Reply-To: ${formatAddress(msg.replyTo)}` : null,
+    `Subject: ${encodeHeader(msg.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    msg.stream ? `X-Message-Stream: ${msg.stream}` : null,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ].filter(Boolean)
+
+  const parts: string[] = []
+  const text = msg.text || (msg.html ? msg.html.replace(/<[^>]+>/g, '') : '')
+  parts.push(
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    b64Lines(text),
+  )
+  if (msg.html) {
+    parts.push(
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      b64Lines(msg.html),
+    )
+  }
+  parts.push(`--${boundary}--`, '')
+
+  return [...headers, '', ...parts].join(CRLF)
+}
+
+/** Reads multi-line SMTP replies ("250-…" continuation, "250 …" final) off a socket. */
+function replyReader() {
+  let buffer = ''
+  let lines: string[] = []
+  const ready: Reply[] = []
+  let waiter: { resolve: (r: Reply) => void; reject: (e: Error) => void } | null = null
+  let failure: Error | null = null
+
+  function onData(chunk: Buffer) {
+    buffer += chunk.toString('utf8')
+    let idx: number
+    while ((idx = buffer.indexOf(CRLF)) >= 0) {
+      const line = buffer.slice(0, idx)
+      buffer = buffer.slice(idx + 2)
+      lines.push(line)
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.map(l => l.slice(4)).join('\n') }
+        lines = []
+        if (waiter) { waiter.resolve(reply); waiter = null } else ready.push(reply)
+      }
+    }
+  }
+
+  function onError(err: Error) {
+    failure = err
+    if (waiter) { waiter.reject(err); waiter = null }
+  }
+
+  return {
+    attach(socket: net.Socket) {
+      socket.on('data', onData)
+      socket.on('error', onError)
+      socket.on('close', () => onError(new Error('SMTP connection closed')))
+    },
+    detach(socket: net.Socket) {
+      socket.removeAllListeners('data')
+      socket.removeAllListeners('error')
+      socket.removeAllListeners('close')
+    },
+    next(): Promise<Reply> {
+      const queued = ready.shift()
+      if (queued) return Promise.resolve(queued)
+      if (failure) return Promise.reject(failure)
+      return new Promise((resolve, reject) => { waiter = { resolve, reject } })
+    },
+  }
+}
+
+function connect(host: string, port: number, secure: boolean, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket))
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP timeout')))
+    socket.once('error', reject)
+  })
+}
+
+function upgrade(socket: net.Socket, host: string, timeoutMs: number): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured))
+    secured.setTimeout(timeoutMs, () => secured.destroy(new Error('SMTP timeout')))
+    secured.once('error', reject)
+  })
+}
+
+export function createSmtpTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const host = (env.SMTP_HOST || '').trim()
+  const secure = String(env.SMTP_SECURE || '').toLowerCase() === 'true'
+  const port = Number(env.SMTP_PORT || (secure ? 465 : 587))
+  const user = (env.SMTP_USER || '').trim()
+  const pass = env.SMTP_PASS || ''
+  const timeoutMs = Number(env.SMTP_TIMEOUT_MS || 15000)
+  const heloName = (env.SMTP_HELO_NAME || 'localhost').trim()
+
+  return {
+    name: 'smtp',
+
+    missingEnv() {
+      return host ? [] : ['SMTP_HOST']
+    },
+
+    async send(msg: MailMessage): Promise<MailSendResult> {
+      const from = parseAddress(msg.from).email
+      const to = parseAddress(msg.to).email
+      const messageId = `<${randomUUID()}@${from.split('@')[1] || heloName}>`
+
+      let socket: net.Socket
+      try {
+        socket = await connect(host, port, secure, timeoutMs)
+      } catch (e) {
+        throw new MailSendError('smtp', `SMTP connect failed: ${(e as Error).message}`)
+      }
+      const reader = replyReader()
+      reader.attach(socket)
+
+      const expect = async (step: string, codes: number[]) => {
+        const r = await reader.next()
+        if (!codes.includes(r.code)) {
+          throw new MailSendError('smtp', `SMTP ${step} rejected: ${r.code} ${r.text}`, { status: r.code })
+        }
+        return r
+      }
+      const command = (line: string, step: string, codes: number[]) => {
+        socket.write(line + CRLF)
+        return expect(step, codes)
+      }
+
+      let encrypted = secure
+      let bodySent = false
+      try {
+        await expect('greeting', [220])
+        let ehlo = await command(`EHLO ${heloName}`, 'EHLO', [250])
+
+        if (!secure && /\bSTARTTLS\b/i.test(ehlo.text)) {
+          await command('STARTTLS', 'STARTTLS', [220])
+          reader.detach(socket)
+          socket = await upgrade(socket, host, timeoutMs)
+          reader.attach(socket)
+          encrypted = true
+          ehlo = await command(`EHLO ${heloName}`, 'EHLO', [250])
+        }
+
+        if (user) {
+          if (!encrypted) {
+            throw new MailSendError('smtp', 'SMTP server offered no STARTTLS; refusing to send credentials unencrypted')
+          }
+          await command(`AUTH PLAIN ${b64(`\u0000${user}\u0000${pass}`)}`, 'AUTH', [235])
+        }
+
+        await command(`MAIL FROM:<${from}>`, 'MAIL FROM', [250])
+        await command(`RCPT TO:<${to}>`, 'RCPT TO', [250, 251])
+        await command('DATA', 'DATA', [354])
+
+        // Dot-stuff any line that starts with "." (RFC 5321 §4.5.2)
+        const data = buildMimeMessage(msg, messageId).replace(/^\./gm, '..')
+        bodySent = true
+        await command(`${data}${CRLF}.`, 'message body', [250])
+
+        socket.write(`QUIT${CRLF}`)
+        return { driver: 'smtp', messageId }
+      } catch (e) {
+        // A reply code means the server refused; no reply after the body may still be a delivery
+        if (e instanceof MailSendError) throw e
+        throw new MailSendError('smtp', (e as Error)?.message || 'SMTP send failed', { accepted: bodySent })
+      } finally {
+        socket.end()
+      }
+    },
+  }
+}
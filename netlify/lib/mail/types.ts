@@ -0,0 +1,62 @@
+// netlify/lib/mail/types.ts
+
+export type MailDriverName = 'postmark' | 'sendgrid' | 'smtp' | 'outbox'
+
+export type MailMessage = {
+  from: string                 // "Name <addr@domain>" or bare address
+  to: string
+  subject: string
+  html?: string | null
+  text?: string | null
+  replyTo?: string | null
+  stream?: string | null       // Postmark message stream; other drivers only record it
+  /**
+   * Provider-side template. Only Postmark renders these; every other driver
+   * falls back to `html`/`text`, so callers should always fill those in too.
+   */
+  template?: {
+    alias: string
+    model: Record<string, unknown>
+  } | null
+}
+
+export type MailSendResult = {
+  driver: MailDriverName
+  messageId: string | null
+}
+
+export interface MailTransport {
+  readonly name: MailDriverName
+  /** Env vars this driver needs but doesn't have (empty when ready to send). */
+  missingEnv(): string[]
+  send(msg: MailMessage): Promise<MailSendResult>
+}
+
+/** Thrown by every driver so callers can inspect status/code without knowing the provider. */
+export class MailSendError extends Error {
+  readonly driver: MailDriverName
+  readonly status: number | null   // HTTP status (or SMTP reply code for the smtp driver)
+  readonly code: number | null     // provider error code, e.g. Postmark ErrorCode
+  readonly accepted: boolean       // the provider may already have taken the message; don't resend it
+
+  constructor(
+    driver: MailDriverName,
+    message: string,
+    opts: { status?: number | null; code?: number | null; accepted?: boolean } = {},
+  ) {
+    super(message)
+    this.name = 'MailSendError'
+    this.driver = driver
+    this.status = opts.status ?? null
+    this.code = opts.code ?? null
+    this.accepted = opts.accepted ?? false
+  }
+}
+
+/** Split "Name <addr@domain>" into its parts; bare addresses come back with a null name. */
+export function parseAddress(value: string): { name: string | null; email: string } {
+  const m = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/)
+  if (!m) return { name: null, email: value.trim() }
+  const name = m[1].replace(/^"|"$/g, '').trim()
+  return { name: name || null, email: m[2].trim() }
+}
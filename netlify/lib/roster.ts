@@ -0,0 +1,267 @@
+// netlify/lib/roster.ts
+// Applies a legislator roster (Congress.gov or OpenStates) to representatives, keyed by the
+// source's stable person id (see migration 2026-10-18u). Used by the scheduled roster-sync
+// and by the on-demand reps-sync / state-reps-sync.
+//
+// Members are upserted by external id, so outreach rows keep pointing at the same row
+// across syncs. Whoever the roster no longer lists for its scope is marked inactive, never
+// deleted. Rows seeded before external ids existed are adopted by name on first sight.
+// Every add, change and retirement is written to representative_changes.
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type RosterSource = 'congress' | 'openstates'
+
+const EXTERNAL_ID = { congress: 'bioguide_id', openstates: 'openstates_id' } as const
+
+export type OfficeAddress = {
+  line1: string
+  line2: string | null
+  city: string
+  state: string
+  zip: string
+  phone: string | null
+}
+
+/**
+ * One legislator as the source reports them. Optional fields left undefined keep what's
+ * on file (the Congress.gov member list has no contact details, for instance).
+ */
+export type RosterMember = {
+  external_id: string
+  level: 'federal' | 'state'
+  chamber: 'senate' | 'house'
+  state: string
+  district: string | null
+  division_id: string
+  name: string
+  office_name: string
+  party?: string | null
+  photo_url?: string | null
+  email?: string | null
+  contact_form_url?: string | null
+  website?: string | null
+  phone?: string | null
+  twitter?: string | null
+  facebook?: string | null
+  dc_office_address?: OfficeAddress | null
+  district_office_address?: OfficeAddress | null
+  details_synced_at?: string
+}
+
+/** The seats a roster covers; active reps in scope that it doesn't list are retired. */
+export type RosterScope = {
+  level: 'federal' | 'state'
+  chambers: ('senate' | 'house')[]
+  state?: string
+  district?: string
+}
+
+export type RosterResult = {
+  added: number
+  updated: number
+  removed: number
+  unchanged: number
+  failed: { name: string; error: string }[]
+}
+
+type FieldDiff = Record<string, { from: unknown; to: unknown }>
+
+// Columns whose changes are recorded (name, seat and contact details)
+const TRACKED = [
+  'name', 'office_name', 'state', 'district', 'division_id', 'party', 'photo_url',
+  'email', 'contact_form_url', 'website', 'phone', 'twitter', 'facebook',
+  'dc_office_address', 'district_office_address',
+] as const
+
+// civic-sync writes state chambers as 'upper' / 'lower'
+const CHAMBER_ALIASES = { senate: ['senate', 'upper'], house: ['house', 'lower'] } as const
+
+type RepRow = { id: string; active: boolean | null; bioguide_id: string | null; openstates_id: string | null } &
+  Record<(typeof TRACKED)[number], unknown>
+
+const SELECT = `id, active, bioguide_id, openstates_id, ${TRACKED.join(', ')}`
+
+/** Congress.gov lists "Last, First M., Jr."; representatives store "First M. Last Jr.". */
+export function directOrderName(name: string): string {
+  const [last, first, ...suffix] = name.split(',').map(s => s.trim()).filter(Boolean)
+  return first ? [first, last, ...suffix].join(' ') : name.trim()
+}
+
+/** "King, Angus S., Jr." and "Angus S. King Jr." both → "angus king": initials and suffixes drop out. */
+function nameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(t => t.length > 1 && !['jr', 'sr', 'ii', 'iii', 'iv'].includes(t))
+    .sort()
+    .join(' ')
+}
+
+/** JSON with sorted keys: jsonb comes back from Postgres with its keys reordered. */
+function canonical(v: unknown): string {
+  if (v === undefined || v === '') return 'null'
+  if (v && typeof v === 'object' && !Array.isArray(v)) {
+    const o = v as Record<string, unknown>
+    return `{${Object.keys(o).sort().map(k => `${JSON.stringify(k)}:${canonical(o[k])}`).join(',')}}`
+  }
+  return JSON.stringify(v)
+}
+
+function diffFields(before: Partial<RepRow> | null, after: Partial<RosterMember>): FieldDiff {
+  const out: FieldDiff = {}
+  for (const f of TRACKED) {
+    const to = after[f]
+    if (to === undefined) continue
+    const from = before?.[f] ?? null
+    if (canonical(from) !== canonical(to)) out[f] = { from, to: to ?? null }
+  }
+  return out
+}
+
+/**
+ * Upsert `members` and retire the active reps in `scope` they don't include. Every call
+ * should pass members with the same optional fields filled in: bulk upserts write the
+ * union of the rows' columns, so a field one row omits would be nulled on the others.
+ */
+export async function applyRoster(
+  supabase: SupabaseClient,
+  source: RosterSource,
+  scope: RosterScope,
+  members: RosterMember[],
+  opts: { runId?: string | null; retire?: boolean } = {}
+): Promise<RosterResult> {
+  const col = EXTERNAL_ID[source]
+  const now = new Date().toISOString()
+  const result: RosterResult = { added: 0, updated: 0, removed: 0, unchanged: 0, failed: [] }
+  const changes: Record<string, unknown>[] = []
+  const change = (rep: { id: string; external_id: unknown; name: unknown; office_name: unknown; state: unknown; district: unknown }, kind: 'added' | 'updated' | 'removed', fields: FieldDiff) =>
+    changes.push({
+      run_id: opts.runId ?? null,
+      rep_id: rep.id,
+      source,
+      change: kind,
+      external_id: rep.external_id,
+      name: rep.name,
+      office_name: rep.office_name,
+      state: rep.state,
+      district: rep.district,
+      fields,
+    })
+
+  let q = supabase
+    .from('representatives')
+    .select(SELECT)
+    .eq('level', scope.level)
+    .in('chamber', scope.chambers.flatMap(c => CHAMBER_ALIASES[c]))
+  if (scope.state) q = q.eq('state', scope.state)
+  if (scope.district) q = q.eq('district', scope.district)
+  const { data: inScope, error } = await q
+  if (error) throw new Error(`Could not load current representatives: ${error.message}`)
+  const current = (inScope ?? []) as unknown as RepRow[]
+
+  // Members may have moved in from outside the scope (a new district, the other chamber)
+  const byExternal = new Map<string, RepRow>()
+  const ids = members.map(m => m.external_id)
+  for (let i = 0; i < ids.length; i += 200) {
+    const { data, error: exErr } = await supabase.from('representatives').select(SELECT).in(col, ids.slice(i, i + 200))
+    if (exErr) throw new Error(`Could not load current representatives: ${exErr.message}`)
+    for (const r of (data ?? []) as unknown as RepRow[]) byExternal.set(r[col] as string, r)
+  }
+
+  const legacy = new Map<string, RepRow[]>()
+  for (const r of current) {
+    if (r[col]) continue
+    const k = nameKey(String(r.name ?? ''))
+    legacy.set(k, [...(legacy.get(k) ?? []), r])
+  }
+
+  // kept: rows the roster accounts for (never retired), including ones whose write failed
+  const kept = new Set<string>()
+  const unchanged: string[] = []
+  const writes: { m: RosterMember; before: RepRow | null; diff: FieldDiff; kind: 'added' | 'updated' }[] = []
+
+  for (const m of members) {
+    let before = byExternal.get(m.external_id) ?? null
+    if (!before) {
+      // Prefer an active legacy row; the rest are retired below as duplicates
+      const candidates = (legacy.get(nameKey(m.name)) ?? []).filter(r => !kept.has(r.id))
+      before = candidates.find(r => r.active !== false) ?? candidates[0] ?? null
+      if (before) {
+        kept.add(before.id)
+        const { error: adoptErr } = await supabase.from('representatives').update({ [col]: m.external_id }).eq('id', before.id)
+        if (adoptErr) {
+          result.failed.push({ name: m.name, error: adoptErr.message })
+          continue
+        }
+      }
+    }
+
+    const diff = diffFields(before, m)
+    const reactivated = before?.active === false
+    if (reactivated) diff.active = { from: false, to: true }
+
+    if (before && !reactivated && !Object.keys(diff).length) {
+      kept.add(before.id)
+      unchanged.push(before.id)
+      continue
+    }
+    if (before) kept.add(before.id)
+    writes.push({ m, before, diff, kind: !before || reactivated ? 'added' : 'updated' })
+  }
+
+  for (let i = 0; i < writes.length; i += 100) {
+    const chunk = writes.slice(i, i + 100)
+    const { data, error: upErr } = await supabase
+      .from('representatives')
+      .upsert(
+        chunk.map(({ m: { external_id, ...fields } }) => ({ ...fields, [col]: external_id, source, active: true, last_synced: now })),
+        { onConflict: col }
+      )
+      .select(`id, ${col}`)
+    if (upErr) {
+      for (const w of chunk) result.failed.push({ name: w.m.name, error: upErr.message })
+      continue
+    }
+
+    const idOf = new Map(((data ?? []) as unknown as Record<string, string>[]).map(r => [r[col], r.id]))
+    for (const w of chunk) {
+      const id = idOf.get(w.m.external_id)
+      if (!id) {
+        result.failed.push({ name: w.m.name, error: 'no row' })
+        continue
+      }
+      kept.add(id)
+      result[w.kind]++
+      change({ id, ...w.m }, w.kind, w.diff)
+    }
+  }
+
+  // Unchanged members only get their sync time (and detail check time, for detail rosters)
+  const touch = { last_synced: now, ...(members.some(m => m.details_synced_at) ? { details_synced_at: now } : {}) }
+  for (let i = 0; i < unchanged.length; i += 200) {
+    const { error: touchErr } = await supabase.from('representatives').update(touch).in('id', unchanged.slice(i, i + 200))
+    if (touchErr) throw new Error(`Could not update representatives: ${touchErr.message}`)
+  }
+  result.unchanged = unchanged.length
+
+  if (opts.retire !== false) {
+    const gone = current.filter(r => r.active !== false && !kept.has(r.id))
+    if (gone.length) {
+      const { error: retireErr } = await supabase
+        .from('representatives')
+        .update({ active: false, last_synced: now })
+        .in('id', gone.map(r => r.id))
+      if (retireErr) throw new Error(`Could not retire former representatives: ${retireErr.message}`)
+
+      result.removed = gone.length
+      for (const r of gone) change({ ...r, external_id: r[col] }, 'removed', { active: { from: true, to: false } })
+    }
+  }
+
+  for (let i = 0; i < changes.length; i += 500) {
+    const { error: logErr } = await supabase.from('representative_changes').insert(changes.slice(i, i + 500))
+    if (logErr) throw new Error(`Could not record roster changes: ${logErr.message}`)
+  }
+  return result
+}
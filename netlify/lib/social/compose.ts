@@ -0,0 +1,41 @@
+// netlify/lib/social/compose.ts
+// Turns a representative's stored social fields + a message into post text.
+
+const X_MAX = 280
+const X_LINK_LENGTH = 23 // every URL counts as a t.co link
+
+/** "@Handle", "https://x.com/Handle", "twitter.com/Handle?s=20" → "Handle" (null when unusable). */
+export function normalizeXHandle(raw: string | null | undefined): string | null {
+  const v = (raw || '').trim()
+  if (!v) return null
+  const fromUrl = v.match(/(?:twitter\.com|x\.com)\/(?:#!\/)?@?([A-Za-z0-9_]{1,15})/i)
+  const handle = fromUrl ? fromUrl[1] : v.replace(/^@/, '')
+  return /^[A-Za-z0-9_]{1,15}$/.test(handle) ? handle : null
+}
+
+/** Page URL from a full URL, "facebook.com/Page" or a bare page name/id. */
+export function normalizeFacebookPage(raw: string | null | undefined): string | null {
+  const v = (raw || '').trim()
+  if (!v) return null
+  if (/^https?:\/\//i.test(v)) return v
+  const bare = v.match(/^(?:www\.|m\.)?facebook\.com\/(.+)$/i)
+  if (bare) return `https://www.facebook.com/${bare[1]}`
+  if (/^[A-Za-z0-9.\-_]+$/.test(v)) return `https://www.facebook.com/${v}`
+  return null
+}
+
+function collapse(s: string) {
+  return s.replace(/\s+/g, ' ').trim()
+}
+
+/** "@Handle, <message>" trimmed so text + link fit in one post. */
+export function composeXText(handle: string, message: string, url?: string | null): string {
+  const budget = X_MAX - (url ? X_LINK_LENGTH + 1 : 0)
+  const full = `@${handle}, ${collapse(message)}`
+  return full.length > budget ? `${full.slice(0, budget - 1).trimEnd()}…` : full
+}
+
+/** Facebook has no practical length limit; lead with the page so readers know who it's for. */
+export function composeFacebookText(pageUrl: string, recipientName: string, message: string): string {
+  return `${recipientName} (${pageUrl}): ${collapse(message)}`
+}
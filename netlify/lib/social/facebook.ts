@@ -0,0 +1,51 @@
+// netlify/lib/social/facebook.ts
+// Posts to the ministry's Facebook Page feed via the Graph API (page access token).
+import { SocialPostError, type SocialClient, type SocialPost, type SocialPostResult } from './types'
+
+type FeedPostResponse = {
+  id?: string
+  error?: { message?: string; code?: number }
+}
+
+export function createFacebookClient(env: NodeJS.ProcessEnv = process.env): SocialClient {
+  const pageId = (env.FACEBOOK_PAGE_ID || '').trim()
+  const token = (env.FACEBOOK_PAGE_ACCESS_TOKEN || '').trim()
+  const version = (env.FACEBOOK_GRAPH_VERSION || 'v21.0').trim()
+  const apiBase = (env.FACEBOOK_GRAPH_BASE || 'https://graph.facebook.com').trim().replace(/\/+$/, '')
+
+  return {
+    name: 'api',
+    platform: 'facebook',
+
+    missingEnv() {
+      const miss: string[] = []
+      if (!pageId) miss.push('FACEBOOK_PAGE_ID')
+      if (!token) miss.push('FACEBOOK_PAGE_ACCESS_TOKEN')
+      return miss
+    },
+
+    async post(msg: SocialPost): Promise<SocialPostResult> {
+      const form = new URLSearchParams({ message: msg.text, access_token: token })
+      if (msg.url) form.set('link', msg.url)
+
+      const res = await fetch(`${apiBase}/${version}/${encodeURIComponent(pageId)}/feed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: form.toString(),
+      })
+
+      const json = (await res.json().catch(() => ({}))) as FeedPostResponse
+      if (!res.ok || !json.id) {
+        throw new SocialPostError('facebook', 'api', json.error?.message || `HTTP ${res.status}`, { status: res.status })
+      }
+
+      return {
+        driver: 'api',
+        platform: 'facebook',
+        postId: json.id,
+        postUrl: `https://www.facebook.com/${json.id}`,
+        intentUrl: null,
+      }
+    },
+  }
+}
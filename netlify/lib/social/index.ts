@@ -0,0 +1,45 @@
+// netlify/lib/social/index.ts
+// Social delivery clients for the outreach X / Facebook channels.
+//
+// Env:
+//  - SOCIAL_DRIVER              intent (default) | api | outbox
+//  - SOCIAL_DRIVER_X            optional per-platform override
+//  - SOCIAL_DRIVER_FACEBOOK     optional per-platform override
+//  - X_ACCESS_TOKEN             (api, x) OAuth 2.0 user token with tweet.write
+//  - FACEBOOK_PAGE_ID / FACEBOOK_PAGE_ACCESS_TOKEN  (api, facebook)
+//  - SOCIAL_OUTBOX_DIR          optional, outbox driver writes JSON files here
+import { createIntentClient } from './intent'
+import { createXClient } from './x'
+import { createFacebookClient } from './facebook'
+import { createSocialOutboxClient } from './outbox'
+import type { SocialClient, SocialDriverName, SocialPlatform } from './types'
+
+export { SocialPostError } from './types'
+export type { SocialClient, SocialDriverName, SocialPlatform, SocialPost, SocialPostResult } from './types'
+export { composeFacebookText, composeXText, normalizeFacebookPage, normalizeXHandle } from './compose'
+export { facebookShareUrl, xIntentUrl } from './intent'
+export { readSocialOutbox, clearSocialOutbox } from './outbox'
+
+const DRIVER_NAMES: SocialDriverName[] = ['api', 'intent', 'outbox']
+
+function driverName(value: string | undefined, fallback: SocialDriverName): SocialDriverName {
+  const v = (value || '').trim().toLowerCase()
+  if (!v) return fallback
+  if ((DRIVER_NAMES as string[]).includes(v)) return v as SocialDriverName
+  throw new Error(`Unknown social driver '${v}' (expected ${DRIVER_NAMES.join(', ')})`)
+}
+
+function createClient(platform: SocialPlatform, driver: SocialDriverName, env: NodeJS.ProcessEnv): SocialClient {
+  if (driver === 'intent') return createIntentClient(platform)
+  if (driver === 'outbox') return createSocialOutboxClient(platform, env)
+  return platform === 'x' ? createXClient(env) : createFacebookClient(env)
+}
+
+/** One client per platform, selected by env. Call once per function module, like createMailTransport. */
+export function createSocialClients(env: NodeJS.ProcessEnv = process.env): Record<SocialPlatform, SocialClient> {
+  const base = driverName(env.SOCIAL_DRIVER, 'intent')
+  return {
+    x: createClient('x', driverName(env.SOCIAL_DRIVER_X, base), env),
+    facebook: createClient('facebook', driverName(env.SOCIAL_DRIVER_FACEBOOK, base), env),
+  }
+}
@@ -0,0 +1,35 @@
+// netlify/lib/social/intent.ts
+// Default driver: nothing is posted by us. We build the X intent / Facebook share
+// URL for the user to open, which keeps the post on the user's own account.
+import type { SocialClient, SocialPlatform, SocialPost, SocialPostResult } from './types'
+
+export function xIntentUrl(text: string, url?: string | null): string {
+  const params = new URLSearchParams({ text })
+  if (url) params.set('url', url)
+  return `https://x.com/intent/tweet?${params.toString()}`
+}
+
+export function facebookShareUrl(url?: string | null, quote?: string | null): string {
+  const params = new URLSearchParams()
+  if (url) params.set('u', url)
+  if (quote && quote.trim()) params.set('quote', quote.trim())
+  return `https://www.facebook.com/sharer/sharer.php?${params.toString()}`
+}
+
+export function createIntentClient(platform: SocialPlatform): SocialClient {
+  return {
+    name: 'intent',
+    platform,
+
+    missingEnv() {
+      return []
+    },
+
+    async post(msg: SocialPost): Promise<SocialPostResult> {
+      const intentUrl = platform === 'x'
+        ? xIntentUrl(msg.text, msg.url)
+        : facebookShareUrl(msg.url, msg.text)
+      return { driver: 'intent', platform, postId: null, postUrl: null, intentUrl }
+    },
+  }
+}
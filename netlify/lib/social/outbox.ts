@@ -0,0 +1,46 @@
+// netlify/lib/social/outbox.ts
+// Offline driver: posts are captured in memory (readable via readSocialOutbox) and,
+// when SOCIAL_OUTBOX_DIR is set, written as JSON files. Nothing reaches X/Facebook.
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import type { SocialClient, SocialPlatform, SocialPost, SocialPostResult } from './types'
+
+export type SocialOutboxEntry = SocialPost & { postId: string; queuedAt: string }
+
+const memory: SocialOutboxEntry[] = []
+
+/** Posts captured by the outbox driver in this process (oldest first). */
+export function readSocialOutbox(): SocialOutboxEntry[] {
+  return [...memory]
+}
+
+export function clearSocialOutbox() {
+  memory.length = 0
+}
+
+export function createSocialOutboxClient(platform: SocialPlatform, env: NodeJS.ProcessEnv = process.env): SocialClient {
+  const dir = (env.SOCIAL_OUTBOX_DIR || '').trim()
+
+  return {
+    name: 'outbox',
+    platform,
+
+    missingEnv() {
+      return []
+    },
+
+    async post(msg: SocialPost): Promise<SocialPostResult> {
+      const entry: SocialOutboxEntry = { ...msg, postId: `outbox-${randomUUID()}`, queuedAt: new Date().toISOString() }
+      memory.push(entry)
+
+      if (dir) {
+        await fs.mkdir(dir, { recursive: true })
+        const file = path.join(dir, `${entry.queuedAt.replace(/[:.]/g, '-')}-${platform}-${entry.postId}.json`)
+        await fs.writeFile(file, JSON.stringify(entry, null, 2), 'utf8')
+      }
+
+      return { driver: 'outbox', platform, postId: entry.postId, postUrl: null, intentUrl: null }
+    },
+  }
+}
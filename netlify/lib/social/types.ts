@@ -0,0 +1,47 @@
+// netlify/lib/social/types.ts
+
+export type SocialPlatform = 'x' | 'facebook'
+export type SocialDriverName = 'api' | 'intent' | 'outbox'
+
+export type SocialPost = {
+  platform: SocialPlatform
+  /** Full post text, mention included (see compose.ts). */
+  text: string
+  /** Link attached to the post (X counts it as 23 chars). */
+  url?: string | null
+  /** Who the post is aimed at: X handle without "@", or a Facebook page URL. */
+  target?: string | null
+}
+
+export type SocialPostResult = {
+  driver: SocialDriverName
+  platform: SocialPlatform
+  /** Set when the post was published by us. */
+  postId: string | null
+  postUrl: string | null
+  /** Set when the user still has to publish it themselves (intent/share dialog). */
+  intentUrl: string | null
+}
+
+export interface SocialClient {
+  readonly name: SocialDriverName
+  readonly platform: SocialPlatform
+  /** Env vars this driver needs but doesn't have (empty when ready to post). */
+  missingEnv(): string[]
+  post(msg: SocialPost): Promise<SocialPostResult>
+}
+
+/** Thrown by every driver so callers can inspect status without knowing the platform API. */
+export class SocialPostError extends Error {
+  readonly platform: SocialPlatform
+  readonly driver: SocialDriverName
+  readonly status: number | null   // HTTP status from the platform API
+
+  constructor(platform: SocialPlatform, driver: SocialDriverName, message: string, opts: { status?: number | null } = {}) {
+    super(message)
+    this.name = 'SocialPostError'
+    this.platform = platform
+    this.driver = driver
+    this.status = opts.status ?? null
+  }
+}
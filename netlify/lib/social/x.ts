@@ -0,0 +1,48 @@
+// netlify/lib/social/x.ts
+// Posts from the ministry's X account via API v2 (OAuth 2.0 user token with tweet.write).
+import { SocialPostError, type SocialClient, type SocialPost, type SocialPostResult } from './types'
+
+type CreateTweetResponse = {
+  data?: { id: string; text: string }
+  title?: string
+  detail?: string
+}
+
+export function createXClient(env: NodeJS.ProcessEnv = process.env): SocialClient {
+  const token = (env.X_ACCESS_TOKEN || '').trim()
+  const apiBase = (env.X_API_BASE || 'https://api.x.com').trim().replace(/\/+$/, '')
+
+  return {
+    name: 'api',
+    platform: 'x',
+
+    missingEnv() {
+      return token ? [] : ['X_ACCESS_TOKEN']
+    },
+
+    async post(msg: SocialPost): Promise<SocialPostResult> {
+      const text = msg.url ? `${msg.text} ${msg.url}` : msg.text
+      const res = await fetch(`${apiBase}/2/tweets`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text }),
+      })
+
+      const json = (await res.json().catch(() => ({}))) as CreateTweetResponse
+      if (!res.ok || !json.data?.id) {
+        throw new SocialPostError('x', 'api', json.detail || json.title || `HTTP ${res.status}`, { status: res.status })
+      }
+
+      return {
+        driver: 'api',
+        platform: 'x',
+        postId: json.data.id,
+        postUrl: `https://x.com/i/web/status/${json.data.id}`,
+        intentUrl: null,
+      }
+    },
+  }
+}
@@ -0,0 +1,106 @@
+// netlify/lib/stripe.ts
+// Stripe client + price/tier mapping shared by the billing functions.
+import Stripe from 'stripe'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PLAN_RANK, normalizePlan, type PaidPlan, type Plan } from '../../src/lib/entitlements'
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-08-27.basil',
+})
+
+export type PaidTier = PaidPlan
+const PAID_TIERS: PaidTier[] = ['kingdom_builder', 'faith_warrior']
+
+/** Price ids per tier; each env var may hold several ids (monthly, yearly, …) separated by commas. */
+export function priceIdsFor(tier: PaidTier): string[] {
+  const key = `STRIPE_PRICE_${tier.toUpperCase()}`
+  const raw = process.env[key] || process.env[`VITE_${key}`] || ''
+  return raw.split(',').map((s) => s.trim()).filter(Boolean)
+}
+
+export function tierForPrice(priceId: string | null | undefined): PaidTier | null {
+  if (!priceId) return null
+  return PAID_TIERS.find((tier) => priceIdsFor(tier).includes(priceId)) ?? null
+}
+
+/**
+ * Find the Stripe customer for an app user: profiles.stripe_customer_id, else their latest
+ * subscription row (remembered on the profile for next time). Stripe's customer search is
+ * not used: it lags behind creates, so a second checkout would make a second customer.
+ */
+export async function findCustomerId(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('stripe_customer_id')
+    .eq('id', userId)
+    .maybeSingle()
+  if (error) throw new Error(`profiles read failed: ${error.message}`)
+  if (profile?.stripe_customer_id) return profile.stripe_customer_id as string
+
+  const { data } = await supabase
+    .from('subscriptions')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .not('stripe_customer_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (!data?.stripe_customer_id) return null
+
+  await rememberCustomerId(supabase, userId, data.stripe_customer_id as string)
+  return data.stripe_customer_id as string
+}
+
+/** Store the user's Stripe customer on their profile unless one is already there. */
+export async function rememberCustomerId(supabase: SupabaseClient, userId: string, customerId: string): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ stripe_customer_id: customerId })
+    .eq('id', userId)
+    .is('stripe_customer_id', null)
+  // 23505: the customer is already on another profile; leave both as they are
+  if (error && error.code !== '23505') throw new Error(`profiles customer update failed: ${error.message}`)
+}
+
+// How long a past_due subscription keeps its paid tier while Stripe retries the card
+const PAST_DUE_GRACE_DAYS = Number(process.env.STRIPE_PAST_DUE_GRACE_DAYS || 7)
+
+/** When a past_due subscription started on `pastDueSince` stops counting. */
+export function graceEndsAt(pastDueSince: string | null): number {
+  const since = pastDueSince ? new Date(pastDueSince).getTime() : Date.now()
+  return since + PAST_DUE_GRACE_DAYS * 24 * 60 * 60 * 1000
+}
+
+export function isEntitled(status: string, pastDueSince: string | null): boolean {
+  if (status === 'active' || status === 'trialing') return true
+  if (status !== 'past_due') return false
+  return Date.now() < graceEndsAt(pastDueSince)
+}
+
+/** profiles.tier = best tier among the user's entitled subscriptions (admins are never touched). */
+export async function syncProfileTier(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { data: profile } = await supabase.from('profiles').select('tier').eq('id', userId).maybeSingle()
+  if (profile?.tier === 'admin') return
+
+  const { data: subs, error } = await supabase
+    .from('subscriptions')
+    .select('tier, status, past_due_since')
+    .eq('user_id', userId)
+  if (error) throw new Error(`subscriptions read failed: ${error.message}`)
+
+  let tier: Plan = 'free'
+  for (const s of subs ?? []) {
+    if (!isEntitled(s.status, s.past_due_since)) continue
+    const subTier = normalizePlan(s.tier)
+    if (PLAN_RANK[subTier] > PLAN_RANK[tier]) tier = subTier
+  }
+
+  if (profile?.tier === tier) return
+  const { error: updErr } = await supabase.from('profiles').update({ tier }).eq('id', userId)
+  if (updErr) throw new Error(`profiles tier update failed: ${updErr.message}`)
+}
+
+/** Public site origin without a trailing slash (SITE_URL is often saved with one). */
+export function siteOrigin(): string {
+  return (process.env.SITE_URL || process.env.VITE_APP_URL || 'https://cyberkingdomofchrist.netlify.app').trim().replace(/\/+$/, '')
+}
@@ -0,0 +1,420 @@
+// scripts/census-import.ts
+// Loads Census boundary data for the offline district resolver (migration 2026-10-18r,
+// netlify/lib/districts.ts):
+//
+//   npx tsx scripts/census-import.ts relationships tab20_cd11820_zcta520_natl.txt
+//       ZCTA ↔ district relationship file (pipe- or comma-delimited, 2020 layout) →
+//       census_zcta_districts, with each district's share of the ZCTA's land area.
+//   npx tsx scripts/census-import.ts shapes tl_2024_us_cd119.shp
+//       Unzipped TIGER/Line district shapefile (.shp + .dbf side by side) →
+//       census_district_shapes. State legislative files are per state (tl_2024_48_sldu.shp).
+//       County (tl_2024_us_county.shp) and place (tl_2024_48_place.shp) files load the same
+//       way, so point lookups also find the county and city for local officials.
+//
+// The kind (cd / sldu / sldl / county / place) is read from the file's columns.
+// Options:
+//   --vintage <label>  stored on each row; defaults to the file name. After a clean import,
+//                      rows of the same kind and states from other vintages are removed
+//                      (redistricting retires old districts).
+//   --sql <file>       shapes only: write SQL for psql instead of calling the API (the
+//                      largest polygons can exceed API request limits)
+//   --dry-run          parse and report, write nothing
+import dotenv from 'dotenv';
+dotenv.config({ path: process.env.DOTENV_CONFIG_PATH || '.env.scripts' });
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+type Kind = 'cd' | 'sldu' | 'sldl';
+type ShapeKind = Kind | 'county' | 'place';
+
+const STATE_FIPS: Record<string, string> = {
+  '01': 'AL', '02': 'AK', '04': 'AZ', '05': 'AR', '06': 'CA', '08': 'CO', '09': 'CT', '10': 'DE',
+  '11': 'DC', '12': 'FL', '13': 'GA', '15': 'HI', '16': 'ID', '17': 'IL', '18': 'IN', '19': 'IA',
+  '20': 'KS', '21': 'KY', '22': 'LA', '23': 'ME', '24': 'MD', '25': 'MA', '26': 'MI', '27': 'MN',
+  '28': 'MS', '29': 'MO', '30': 'MT', '31': 'NE', '32': 'NV', '33': 'NH', '34': 'NJ', '35': 'NM',
+  '36': 'NY', '37': 'NC', '38': 'ND', '39': 'OH', '40': 'OK', '41': 'OR', '42': 'PA', '44': 'RI',
+  '45': 'SC', '46': 'SD', '47': 'TN', '48': 'TX', '49': 'UT', '50': 'VT', '51': 'VA', '53': 'WA',
+  '54': 'WV', '55': 'WI', '56': 'WY', '60': 'AS', '66': 'GU', '69': 'MP', '72': 'PR', '78': 'VI',
+};
+
+// ---------- args ----------
+
+const args = process.argv.slice(2);
+const command = args[0];
+const file = args[1];
+const flag = (name: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+const dryRun = args.includes('--dry-run');
+const sqlOut = flag('sql');
+const vintage = flag('vintage') || (file ? path.basename(file).replace(/\.[^.]+$/, '') : '');
+
+let admin: SupabaseClient | null = null;
+function db(): SupabaseClient {
+  if (admin) return admin;
+  const url = process.env.SUPABASE_URL;
+  const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRole) {
+    console.error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY. Create a local .env.scripts file.');
+    process.exit(1);
+  }
+  admin = createClient(url, serviceRole, { auth: { autoRefreshToken: false, persistSession: false } });
+  return admin;
+}
+
+// ---------- district codes ----------
+
+/** GEOID (state FIPS + district code) → { state, district } as stored on user_addresses; null for non-districts. */
+function districtOf(kind: Kind, geoid: string): { state: string; district: string } | null {
+  const state = STATE_FIPS[geoid.slice(0, 2)];
+  const code = geoid.slice(2).trim();
+  if (!state || !code || /^Z+$/i.test(code)) return null; // ZZ/ZZZ = area not in any district (water)
+
+  if (kind === 'cd') {
+    // 00 = at-large seat, 98 = non-voting delegate (DC, territories)
+    if (code === '00' || code === '98') return { state, district: 'At-Large' };
+    return { state, district: String(parseInt(code, 10)) };
+  }
+  // Most legislatures number districts; some (VT, MA, NH…) use names or letters — keep those
+  return { state, district: /^\d+$/.test(code) ? String(parseInt(code, 10)) : code };
+}
+
+/** Counties and places are keyed by name ("Travis", "Austin"), as stored on user_addresses. */
+function localityOf(attrs: Record<string, string>): { state: string; district: string } | null {
+  const state = STATE_FIPS[(attrs.GEOID || '').slice(0, 2)];
+  return state && attrs.NAME ? { state, district: attrs.NAME } : null;
+}
+
+function kindOf(column: string): Kind | null {
+  const m = column.toUpperCase().match(/^(?:GEOID_)?(CD|SLDU|SLDL)/);
+  return m ? (m[1].toLowerCase() as Kind) : null;
+}
+
+/** After a clean import, drop rows the new vintage replaced (same kind, same states). */
+async function removeOtherVintages(table: string, kind: ShapeKind, states: Set<string>) {
+  const { error, count } = await db()
+    .from(table)
+    .delete({ count: 'exact' })
+    .eq('kind', kind)
+    .in('state', [...states])
+    .neq('vintage', vintage);
+  if (error) throw error;
+  console.log(`Removed ${count ?? 0} ${kind} rows from other vintages.`);
+}
+
+// ---------- relationships ----------
+
+type ZctaRow = {
+  zcta: string;
+  kind: Kind;
+  geoid: string;
+  state: string;
+  district: string;
+  land_part: number;
+  overlap_pct: number;
+  vintage: string;
+};
+
+async function importRelationships(filePath: string) {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+
+  let header: string[] | null = null;
+  let sep = '|';
+  let col = { zcta: -1, geoid: -1, zLand: -1, zWater: -1, partLand: -1, partWater: -1 };
+  let kind: Kind | null = null;
+
+  const rows = new Map<string, ZctaRow>();
+  const states = new Set<string>();
+  let skipped = 0;
+
+  for await (const raw of lines) {
+    const line = raw.replace(/^\uFEFF/, '');
+    if (!line.trim()) continue;
+
+    if (!header) {
+      sep = line.includes('|') ? '|' : ',';
+      header = line.split(sep).map(h => h.trim().replace(/^"|"$/g, '').toUpperCase());
+      const find = (re: RegExp) => header!.findIndex(h => re.test(h));
+      col = {
+        zcta: find(/^GEOID_ZCTA5/),
+        geoid: find(/^GEOID_(CD|SLDU|SLDL)/),
+        zLand: find(/^AREALAND_ZCTA5/),
+        zWater: find(/^AREAWATER_ZCTA5/),
+        partLand: find(/^AREALAND_PART$/),
+        partWater: find(/^AREAWATER_PART$/),
+      };
+      kind = col.geoid >= 0 ? kindOf(header[col.geoid]) : null;
+      if (col.zcta < 0 || !kind || col.zLand < 0 || col.partLand < 0) {
+        throw new Error(`Not a ZCTA relationship file (columns: ${header.join(', ')})`);
+      }
+      continue;
+    }
+
+    const f = line.split(sep).map(v => v.trim().replace(/^"|"$/g, ''));
+    const zcta = f[col.zcta];
+    const geoid = f[col.geoid];
+    if (!zcta || !geoid) { skipped++; continue; } // district parts outside any ZCTA, and vice versa
+
+    const d = districtOf(kind!, geoid);
+    if (!d) { skipped++; continue; }
+
+    const num = (i: number) => (i >= 0 ? Number(f[i]) || 0 : 0);
+    const zLand = num(col.zLand);
+    const partLand = num(col.partLand);
+    // Water-only ZCTAs have no land to share; fall back to water area
+    const share = zLand > 0 ? partLand / zLand : num(col.zWater) > 0 ? num(col.partWater) / num(col.zWater) : 1;
+    const overlap_pct = Math.min(100, Math.round(share * 10000) / 100);
+    if (overlap_pct <= 0) { skipped++; continue; } // touches only along water or a boundary line
+
+    const key = `${zcta}|${geoid}`;
+    const prev = rows.get(key);
+    if (prev) {
+      // the same pair split across rows (e.g. per county) adds up
+      prev.land_part += partLand;
+      prev.overlap_pct = Math.min(100, Math.round((prev.overlap_pct + overlap_pct) * 100) / 100);
+    } else {
+      rows.set(key, { zcta, kind: kind!, geoid, ...d, land_part: partLand, overlap_pct, vintage });
+    }
+    states.add(d.state);
+  }
+
+  if (!kind) throw new Error('Empty file');
+  console.log(`${kind}: ${rows.size} ZCTA/district pairs across ${states.size} states (${skipped} lines skipped).`);
+  if (dryRun) return;
+
+  const all = [...rows.values()];
+  for (let i = 0; i < all.length; i += 1000) {
+    const { error } = await db()
+      .from('census_zcta_districts')
+      .upsert(all.slice(i, i + 1000), { onConflict: 'zcta,kind,geoid' });
+    if (error) throw new Error(`Upsert failed at row ${i}: ${error.message}`);
+    process.stdout.write(`\r  ${Math.min(i + 1000, all.length)}/${all.length}`);
+  }
+  process.stdout.write('\n');
+  await removeOtherVintages('census_zcta_districts', kind, states);
+}
+
+// ---------- shapefiles ----------
+// Minimal reader for the two parts we need: polygon records (.shp) and their attributes (.dbf).
+
+type Ring = number[][]; // [lng, lat][]
+
+function readDbf(filePath: string) {
+  const buf = fs.readFileSync(filePath);
+  // TIGER ships a .cpg naming the text encoding (UTF-8 for names like "Doña Ana")
+  const cpg = filePath.replace(/\.dbf$/i, '.cpg');
+  const encoding: BufferEncoding =
+    fs.existsSync(cpg) && /utf-?8/i.test(fs.readFileSync(cpg, 'latin1')) ? 'utf8' : 'latin1';
+  const count = buf.readUInt32LE(4);
+  const headerLength = buf.readUInt16LE(8);
+  const recordLength = buf.readUInt16LE(10);
+
+  const fields: { name: string; length: number }[] = [];
+  for (let off = 32; buf[off] !== 0x0d && off < headerLength; off += 32) {
+    const name = buf.toString('latin1', off, off + 11).replace(/\0.*$/, '').trim().toUpperCase();
+    fields.push({ name, length: buf[off + 16] });
+  }
+
+  return {
+    count,
+    fields: fields.map(f => f.name),
+    record(i: number): Record<string, string> | null {
+      let off = headerLength + i * recordLength;
+      if (buf[off] === 0x2a) return null; // '*' = deleted
+      off += 1;
+      const out: Record<string, string> = {};
+      for (const f of fields) {
+        out[f.name] = buf.toString(encoding, off, off + f.length).trim();
+        off += f.length;
+      }
+      return out;
+    },
+  };
+}
+
+/** Yields each record's rings, in file order (which matches the .dbf). */
+function* readShpRings(filePath: string): Generator<Ring[]> {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const head = Buffer.alloc(100);
+    fs.readSync(fd, head, 0, 100, 0);
+    const fileBytes = head.readInt32BE(24) * 2;
+
+    let pos = 100;
+    const recHead = Buffer.alloc(8);
+    while (pos < fileBytes) {
+      fs.readSync(fd, recHead, 0, 8, pos);
+      const contentBytes = recHead.readInt32BE(4) * 2;
+      const c = Buffer.alloc(contentBytes);
+      fs.readSync(fd, c, 0, contentBytes, pos + 8);
+      pos += 8 + contentBytes;
+
+      const type = c.readInt32LE(0);
+      if (type === 0) { yield []; continue; } // null shape
+      if (type !== 5 && type !== 15 && type !== 25) throw new Error(`Unsupported shape type ${type} (expected polygons)`);
+
+      const numParts = c.readInt32LE(36);
+      const numPoints = c.readInt32LE(40);
+      const starts: number[] = [];
+      for (let p = 0; p < numParts; p++) starts.push(c.readInt32LE(44 + p * 4));
+      const pts = 44 + numParts * 4;
+
+      const rings: Ring[] = [];
+      for (let p = 0; p < numParts; p++) {
+        const end = p + 1 < numParts ? starts[p + 1] : numPoints;
+        const ring: Ring = [];
+        for (let k = starts[p]; k < end; k++) {
+          ring.push([c.readDoubleLE(pts + k * 16), c.readDoubleLE(pts + k * 16 + 8)]);
+        }
+        rings.push(ring);
+      }
+      yield rings;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Shoelace sum; shapefiles store outer rings clockwise (positive here) and holes counter-clockwise. */
+function isOuter(ring: Ring): boolean {
+  let sum = 0;
+  for (let i = 1; i < ring.length; i++) sum += (ring[i][0] - ring[i - 1][0]) * (ring[i][1] + ring[i - 1][1]);
+  return sum > 0;
+}
+
+function ringContains(ring: Ring, [x, y]: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** Rings → EWKT MULTIPOLYGON in NAD83 (TIGER's datum), holes attached to the outer ring around them. */
+function toEwkt(rings: Ring[]): string | null {
+  const polygons: Ring[][] = [];
+  const holes: Ring[] = [];
+  for (const r of rings) {
+    if (r.length < 4) continue;
+    if (isOuter(r)) polygons.push([r]);
+    else holes.push(r);
+  }
+  if (!polygons.length) return null;
+  for (const h of holes) {
+    const owner = polygons.find(p => ringContains(p[0], h[0])) ?? polygons[0];
+    owner.push(h);
+  }
+  const ring = (r: Ring) => `(${r.map(([x, y]) => `${x} ${y}`).join(',')})`;
+  return `SRID=4269;MULTIPOLYGON(${polygons.map(p => `(${p.map(ring).join(',')})`).join(',')})`;
+}
+
+type ShapeRow = {
+  kind: ShapeKind;
+  geoid: string;
+  state: string;
+  district: string;
+  name: string | null;
+  vintage: string;
+  geom: string;
+};
+
+const sqlText = (v: string | null) => (v === null ? 'null' : `'${v.replace(/'/g, "''")}'`);
+
+async function importShapes(shpPath: string) {
+  const dbf = readDbf(shpPath.replace(/\.shp$/i, '.dbf'));
+  const kind: ShapeKind | null = dbf.fields.includes('COUNTYFP') ? 'county'
+    : dbf.fields.includes('PLACEFP') ? 'place'
+    : dbf.fields.map(kindOf).find(Boolean) ?? null;
+  if (!kind || !dbf.fields.includes('GEOID')) {
+    throw new Error(`Not a TIGER district shapefile (fields: ${dbf.fields.join(', ')})`);
+  }
+
+  const out = sqlOut && !dryRun ? fs.createWriteStream(sqlOut) : null;
+  out?.write('begin;\n');
+
+  const states = new Set<string>();
+  let batch: ShapeRow[] = [];
+  let batchBytes = 0;
+  let written = 0;
+  let skipped = 0;
+
+  const flush = async () => {
+    if (!batch.length) return;
+    const { error } = await db().from('census_district_shapes').upsert(batch, { onConflict: 'kind,geoid' });
+    if (error) throw new Error(`Upsert failed near ${batch[0].geoid}: ${error.message}`);
+    written += batch.length;
+    process.stdout.write(`\r  ${written} districts`);
+    batch = [];
+    batchBytes = 0;
+  };
+
+  let i = 0;
+  for (const rings of readShpRings(shpPath)) {
+    const attrs = dbf.record(i++);
+    const d = !attrs ? null
+      : kind === 'county' || kind === 'place' ? localityOf(attrs)
+      : districtOf(kind, attrs.GEOID);
+    const geom = d ? toEwkt(rings) : null;
+    if (!attrs || !d || !geom) { skipped++; continue; }
+
+    const row: ShapeRow = { kind, geoid: attrs.GEOID, ...d, name: attrs.NAMELSAD || null, vintage, geom };
+    states.add(d.state);
+    if (dryRun) { written++; continue; }
+
+    if (out) {
+      out.write(
+        `insert into public.census_district_shapes (kind, geoid, state, district, name, vintage, geom) values (` +
+          [row.kind, row.geoid, row.state, row.district, row.name, row.vintage].map(sqlText).join(', ') +
+          `, extensions.st_geomfromewkt(${sqlText(row.geom)}))\n` +
+          `on conflict (kind, geoid) do update set state = excluded.state, district = excluded.district, ` +
+          `name = excluded.name, vintage = excluded.vintage, geom = excluded.geom;\n`
+      );
+      written++;
+      continue;
+    }
+
+    batch.push(row);
+    batchBytes += geom.length;
+    if (batch.length >= 50 || batchBytes > 4_000_000) await flush();
+  }
+  await flush();
+  if (!dryRun && !out) process.stdout.write('\n');
+
+  console.log(`${kind}: ${written} districts across ${states.size} states (${skipped} records skipped).`);
+  if (dryRun) return;
+
+  if (out) {
+    out.write(
+      `delete from public.census_district_shapes where kind = ${sqlText(kind)} and state in (` +
+        [...states].map(sqlText).join(', ') +
+        `) and vintage <> ${sqlText(vintage)};\ncommit;\n`
+    );
+    await new Promise<void>((resolve, reject) => out.end((e?: Error | null) => (e ? reject(e) : resolve())));
+    console.log(`Wrote ${sqlOut}; load it with: psql "$DATABASE_URL" -f ${sqlOut}`);
+    return;
+  }
+  await removeOtherVintages('census_district_shapes', kind, states);
+}
+
+// ---------- main ----------
+async function main() {
+  if (!file || !['relationships', 'shapes'].includes(command)) {
+    console.error('Usage: npx tsx scripts/census-import.ts <relationships|shapes> <file> [--vintage v] [--sql out.sql] [--dry-run]');
+    process.exit(1);
+  }
+  if (!fs.existsSync(file)) throw new Error(`No such file: ${file}`);
+
+  if (command === 'relationships') await importRelationships(file);
+  else await importShapes(file);
+  console.log('✅ Import complete.');
+}
+
+main().catch((e) => {
+  console.error('Import failed:', e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+// scripts/contact-form-standin.ts
+// Local stand-in for a congressional web contact form, used to exercise the
+// contact-form worker (netlify/lib/contact-form) without touching a real office.
+//
+//   npx tsx scripts/contact-form-standin.ts           # submit once with a sample mapping, print, exit
+//   npx tsx scripts/contact-form-standin.ts --serve   # keep the form running on CONTACT_FORM_STANDIN_PORT (default 8787)
+//
+// The form mimics what real offices do: a session cookie + hidden CSRF token, required
+// fields, a state <select> and a "thank you" confirmation page.
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { createContactFormClient, type ContactFormMapping } from '../netlify/lib/contact-form';
+
+const PORT = Number(process.env.CONTACT_FORM_STANDIN_PORT || 8787);
+const serve = process.argv.includes('--serve');
+
+const sessions = new Map<string, string>(); // session id → csrf token
+const received: Record<string, string>[] = [];
+
+function formPage(): { html: string; session: string } {
+  const session = randomUUID();
+  const token = randomUUID();
+  sessions.set(session, token);
+  const html = `<!doctype html>
+<html><body>
+  <form id="search" action="/search" method="get"><input name="q"></form>
+  <form id="email-rep" action="/contact/submit" method="post">
+    <input type="hidden" name="csrf_token" value="${token}">
+    <select name="prefix"><option value="">--</option><option>Mr.</option><option>Ms.</option><option>Mx.</option></select>
+    <input name="first_name" required>
+    <input name="last_name" required>
+    <input type="email" name="email" required>
+    <input name="address1" required>
+    <input name="city" required>
+    <select name="state" required><option value="">Select</option><option value="CA">California</option><option value="TX">Texas</option></select>
+    <input name="zip" required pattern="\\d{5}">
+    <select name="topic"><option value="OTHER" selected>Other</option><option value="FAITH">Faith &amp; Religion</option></select>
+    <input name="subject">
+    <textarea name="message" required></textarea>
+    <input type="checkbox" name="newsletter" value="yes">
+    <input type="submit" name="send" value="Send">
+  </form>
+</body></html>`;
+  return { html, session };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (c) => (data += c));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'GET' && req.url === '/contact') {
+    const { html, session } = formPage();
+    res.writeHead(200, { 'Content-Type': 'text/html', 'Set-Cookie': `sid=${session}; Path=/; HttpOnly` });
+    res.end(html);
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/contact/submit') {
+    const fields = Object.fromEntries(new URLSearchParams(await readBody(req)));
+    const sid = /(?:^|;\s*)sid=([^;]+)/.exec(req.headers.cookie || '')?.[1];
+    const problems: string[] = [];
+    if (!sid || sessions.get(sid) !== fields.csrf_token) problems.push('invalid session token');
+    for (const name of ['first_name', 'last_name', 'email', 'address1', 'city', 'state', 'zip', 'message']) {
+      if (!fields[name]) problems.push(`${name} is required`);
+    }
+    if (fields.zip && !/^\d{5}$/.test(fields.zip)) problems.push('zip must be 5 digits');
+
+    // Real offices usually answer 200 either way; only the page text tells success apart
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    if (problems.length) {
+      res.end(`<p class="error">Please correct: ${problems.join(', ')}</p>`);
+      return;
+    }
+    received.push(fields);
+    res.end('<h1>Thank you for contacting our office.</h1>');
+    return;
+  }
+
+  res.writeHead(404);
+  res.end('Not found');
+});
+
+async function submitSample() {
+  const mapping: ContactFormMapping = {
+    form_url: `http://localhost:${PORT}/contact`,
+    form_match: 'email-rep',
+    fields: {
+      first_name: '{{user.first_name}}',
+      last_name: '{{user.last_name}}',
+      email: '{{user.email}}',
+      address1: '{{user.address1}}',
+      city: '{{user.city}}',
+      state: '{{user.state}}',
+      zip: '{{user.zip}}',
+      topic: 'FAITH',
+      subject: '{{message.subject}}',
+      message: '{{message.body}}',
+    },
+    success_pattern: 'thank you',
+  };
+  const client = createContactFormClient({ ...process.env, CONTACT_FORM_DRIVER: process.env.CONTACT_FORM_DRIVER || 'http' });
+  const result = await client.submit(mapping, {
+    'user.first_name': 'Ada',
+    'user.last_name': 'Lovelace',
+    'user.email': 'ada@example.com',
+    'user.address1': '1 Main St',
+    'user.city': 'Austin',
+    'user.state': 'tx',
+    'user.zip': '78701',
+    'message.subject': 'Praying for you',
+    'message.body': 'Dear Rep. Example,\n\nWe are praying for wisdom in your work.',
+  });
+  console.log('Submitted:', JSON.stringify(result, null, 2));
+  console.log('Stand-in received:', JSON.stringify(received, null, 2));
+}
+
+server.listen(PORT, async () => {
+  console.log(`Stand-in contact form on http://localhost:${PORT}/contact`);
+  if (serve) return;
+  try {
+    await submitSample();
+  } catch (e) {
+    console.error('Submission failed:', e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+});
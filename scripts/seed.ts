@@ -2,6 +2,7 @@
 import dotenv from 'dotenv';
 dotenv.config({ path: process.env.DOTENV_CONFIG_PATH || '.env.scripts' });
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
 
 type UUID = string;
 
@@ -77,24 +78,33 @@ function computeOcdDivision(opts: {
   return `ocd-division/country:us/state:${st}`;
 }
 
+// Same shape (and civic_person_id key) as netlify/functions/executive-sync.ts, so a real sync
+// later retires this placeholder instead of duplicating it.
 async function ensurePresidentRep() {
+  const name = 'President of the United States';
+  const office_name = 'President of the United States';
+  const division_id = 'ocd-division/country:us';
   const { data, error } = await admin
     .from('representatives')
     .upsert(
       {
+        civic_person_id: createHash('sha1').update(`${name}|${office_name}|${division_id}`).digest('hex'),
         level: 'federal',
         chamber: 'executive',
-        name: 'President of the United States',
+        name,
         party: null,
         state: null,
         district: null,
         email: null,
         phone: null,
-        division_id: 'ocd-division/country:us',
-        office: 'President of the United States',
-        source: 'manual',
+        division_id,
+        office_name,
+        contact_form_url: 'https://www.whitehouse.gov/contact/',
+        website: 'https://www.whitehouse.gov/',
+        active: true,
+        source: 'wikidata',
       },
-      { onConflict: 'level,chamber' }
+      { onConflict: 'civic_person_id' }
     )
     .select('id')
     .single();
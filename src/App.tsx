@@ -7,6 +7,10 @@ import AuthCallback from '@/pages/AuthCallback'
 import PublicProfile from '@/pages/PublicProfile';
 import Group from '@/pages/Group';
 import CreateGroup from '@/pages/CreateGroup';
+import Campaigns from '@/pages/Campaigns';
+import Campaign from '@/pages/Campaign';
+import CreateCampaign from '@/pages/CreateCampaign';
+import MyOutreach from '@/pages/MyOutreach';
 
 // Pages
 import Feed from '@/pages/Feed';
@@ -42,6 +46,10 @@ function App() {
             <Route path="/u/:username" element={<PublicProfile />} />
             <Route path="/g/:id" element={<Group />} />
             <Route path="/groups/new" element={<CreateGroup />} />
+            <Route path="campaigns" element={<Campaigns />} />
+            <Route path="/campaigns/new" element={<CreateCampaign />} />
+            <Route path="/c/:slug" element={<Campaign />} />
+            <Route path="outreach" element={<MyOutreach />} />
 
           </Route>
         </Routes>
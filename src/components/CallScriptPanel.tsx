@@ -0,0 +1,120 @@
+// src/components/CallScriptPanel.tsx
+import React, { useState } from 'react';
+import { outreach } from '@/lib/outreach';
+import { buildCallScript, telHref, CALL_OUTCOMES, type CallOutcome, type OfficePhone } from '@/lib/callScript';
+import { Button } from '@/components/ui/button';
+
+export type CallTarget = {
+  id: string;
+  /** "Sen. Jane Sample-TX" */
+  label: string;
+  /** "Sen. Sample" (how the script addresses them) */
+  addressee: string;
+  phone: OfficePhone | null;
+};
+
+type Props = {
+  prayerId: string;
+  targets: CallTarget[];
+  prayer: string;
+  callerName?: string | null;
+  city?: string | null;
+  zip?: string | null;
+  /** Called after each logged call (quota may have changed). */
+  onLogged?: () => void;
+};
+
+const OFFICE_LABEL: Record<NonNullable<OfficePhone['office']>, string> = {
+  district: 'District office',
+  dc: 'Washington office',
+};
+
+export default function CallScriptPanel({ prayerId, targets, prayer, callerName, city, zip, onLogged }: Props) {
+  const [logged, setLogged] = useState<Record<string, CallOutcome>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const logCall = async (target: CallTarget, outcome: CallOutcome) => {
+    setError(null);
+    setBusyId(target.id);
+    const { error: logErr } = await outreach.logCall({
+      prayerId,
+      repId: target.id,
+      outcome,
+      phone: target.phone?.number ?? null,
+      notes: notes[target.id] || null,
+    });
+    setBusyId(null);
+    if (logErr) {
+      setError(logErr.message.includes('Daily outreach cap')
+        ? 'You’ve reached your daily outreach limit. Try again tomorrow.'
+        : logErr.message || 'Could not log the call.');
+      return;
+    }
+    setLogged(prev => ({ ...prev, [target.id]: outcome }));
+    onLogged?.();
+  };
+
+  if (!targets.length) {
+    return <p className="text-xs text-gray-600">Select a representative to see their number and call script.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {targets.map(target => {
+        const script = buildCallScript({ addressee: target.addressee, prayer, callerName, city, zip });
+        const outcome = logged[target.id];
+        return (
+          <div key={target.id} className="rounded-md border p-3 text-sm">
+            <div className="flex items-start justify-between gap-2">
+              <div className="font-medium">{target.label}</div>
+              {target.phone ? (
+                <a href={telHref(target.phone.number)} className="whitespace-nowrap underline">
+                  {target.phone.number}
+                </a>
+              ) : (
+                <span className="text-xs text-gray-500">No phone on file</span>
+              )}
+            </div>
+            {target.phone?.office && (
+              <div className="text-xs text-gray-600">{OFFICE_LABEL[target.phone.office]}</div>
+            )}
+
+            <div className="mt-2 whitespace-pre-line rounded bg-gray-50 p-2 text-xs text-gray-800">{script}</div>
+
+            {target.phone && (
+              <>
+                <input
+                  value={notes[target.id] ?? ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [target.id]: e.target.value }))}
+                  className="mt-2 w-full border rounded-md px-2 py-1 text-xs"
+                  placeholder="Notes (optional), e.g. who you spoke with"
+                  maxLength={500}
+                />
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  {CALL_OUTCOMES.map(({ outcome: o, label }) => (
+                    <Button
+                      key={o}
+                      size="sm"
+                      variant={outcome === o ? 'default' : 'outline'}
+                      disabled={busyId === target.id}
+                      onClick={() => logCall(target, o)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                  {outcome && <span className="text-xs text-green-700">Logged</span>}
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <p className="text-xs text-gray-500">
+        Reaching staff or leaving a voicemail counts toward your daily outreach, just like an email.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+// src/components/DeliveryTimePicker.tsx
+import React, { useEffect, useState } from 'react';
+import { Calendar } from '@/components/ui/calendar';
+import { OFFICE_HOURS, type DeliverySchedule } from '@/lib/schedule';
+
+type Mode = DeliverySchedule['mode'];
+
+type Props = {
+  onChange: (schedule: DeliverySchedule) => void;
+};
+
+function startOfToday() {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+/** Local date + "HH:MM" → Date in the user's timezone. */
+function combine(date: Date, time: string): Date {
+  const [h, m] = time.split(':').map(Number);
+  const d = new Date(date);
+  d.setHours(h || 0, m || 0, 0, 0);
+  return d;
+}
+
+export default function DeliveryTimePicker({ onChange }: Props) {
+  const [mode, setMode] = useState<Mode>('now');
+  const [date, setDate] = useState<Date | undefined>(undefined);
+  const [time, setTime] = useState('09:00');
+
+  useEffect(() => {
+    if (mode === 'now' || !date) return onChange({ mode: 'now' });
+    if (mode === 'at') return onChange({ mode: 'at', at: combine(date, time) });
+    onChange({ mode: 'office_hours', from: date });
+  }, [mode, date, time, onChange]);
+
+  const label = (m: Mode, text: string) => (
+    <label className="flex items-center gap-1">
+      <input type="radio" name="delivery-mode" checked={mode === m} onChange={() => setMode(m)} />
+      {text}
+    </label>
+  );
+
+  return (
+    <div className="mb-3 text-sm">
+      <div className="font-medium mb-2">Delivery</div>
+      <div className="flex flex-wrap gap-3">
+        {label('now', 'Send now')}
+        {label('at', 'At a set time')}
+        {label('office_hours', 'During office hours')}
+      </div>
+
+      {mode !== 'now' && (
+        <div className="mt-2 rounded-md border">
+          <Calendar
+            mode="single"
+            selected={date}
+            onSelect={setDate}
+            disabled={{ before: startOfToday() }}
+          />
+          <div className="flex items-center gap-2 border-t px-3 py-2">
+            {mode === 'at' ? (
+              <>
+                <span className="text-xs text-gray-600">Time (your timezone)</span>
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="border rounded-md px-2 py-1"
+                />
+              </>
+            ) : (
+              <span className="text-xs text-gray-600">
+                Each office gets it on the first weekday from this date, between {OFFICE_HOURS.startHour}:00 and{' '}
+                {OFFICE_HOURS.endHour}:00 in the representative's timezone.
+              </span>
+            )}
+          </div>
+          {!date && <p className="px-3 pb-2 text-xs text-gray-500">Pick a day, or it sends now.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
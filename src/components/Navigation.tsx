@@ -1,7 +1,7 @@
 // src/components/Navigation.tsx
 import React, { useEffect, useRef, useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { Home, Users, Settings, DollarSign, Circle, Menu } from 'lucide-react';
+import { Home, Users, Settings, DollarSign, Circle, Menu, Megaphone, Send } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/useAuth';
@@ -59,6 +59,8 @@ export default function Navigation() {
     { href: '/feed', label: 'Feed', icon: Home },
     { href: '/groups', label: 'Groups', icon: Users },
     { href: '/circles', label: 'Circles', icon: Circle },
+    { href: '/campaigns', label: 'Campaigns', icon: Megaphone },
+    { href: '/outreach', label: 'My Outreach', icon: Send },
     { href: '/pricing', label: 'Pricing', icon: DollarSign },
     { href: '/settings', label: 'Profile', icon: Settings },
   ];
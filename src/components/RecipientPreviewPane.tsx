@@ -0,0 +1,123 @@
+// src/components/RecipientPreviewPane.tsx
+import React, { useEffect, useState } from 'react';
+import { renderEmailHTML } from '@/lib/emailTemplate';
+import type { RecipientOverride } from '@/lib/outreach';
+import { Button } from '@/components/ui/button';
+
+export type RecipientPreview = {
+  id: string;
+  /** "Sen. Jane Sample-TX" */
+  label: string;
+  /** "Dear Sen. Sample," (the processor prepends it) */
+  greeting: string;
+  /** What this rep receives: their override if any, else the shared draft; variables resolved. */
+  subject: string;
+  body: string;
+  /** The shared draft rendered for this rep (starting point for an override). */
+  sharedSubject: string;
+  sharedBody: string;
+  override: RecipientOverride | null;
+  problems: string[];
+};
+
+type Props = {
+  previews: RecipientPreview[];
+  onOverride: (repId: string, override: RecipientOverride | null) => void;
+};
+
+export default function RecipientPreviewPane({ previews, onOverride }: Props) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [view, setView] = useState<'text' | 'html'>('text');
+  const [editing, setEditing] = useState(false);
+  const [draftSubject, setDraftSubject] = useState('');
+  const [draftBody, setDraftBody] = useState('');
+
+  const active = previews.find(p => p.id === activeId) ?? previews[0] ?? null;
+
+  // Leave edit mode when switching recipients
+  useEffect(() => { setEditing(false); }, [active?.id]);
+
+  if (!active) return null;
+
+  const startEditing = () => {
+    setDraftSubject(active.override?.subject ?? active.sharedSubject);
+    setDraftBody(active.override?.body ?? active.sharedBody);
+    setEditing(true);
+  };
+
+  const saveOverride = () => {
+    onOverride(active.id, {
+      subject: draftSubject !== active.sharedSubject ? draftSubject : null,
+      body: draftBody !== active.sharedBody ? draftBody : null,
+    });
+    setEditing(false);
+  };
+
+  const tab = (on: boolean) => `px-2 py-1 rounded text-xs ${on ? 'bg-blue-600 text-white' : 'bg-gray-200'}`;
+
+  return (
+    <div className="rounded-md border p-3 text-xs text-gray-700">
+      <div className="font-semibold mb-2">Preview (per recipient)</div>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {previews.map(p => (
+          <button key={p.id} type="button" onClick={() => setActiveId(p.id)} className={tab(p.id === active.id)}>
+            {p.label}
+            {p.override && ' ✎'}
+            {p.problems.length > 0 && ' ⚠'}
+          </button>
+        ))}
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <input
+            value={draftSubject}
+            onChange={(e) => setDraftSubject(e.target.value)}
+            className="w-full border rounded-md px-2 py-1"
+            maxLength={180}
+          />
+          <div className="text-gray-600">{active.greeting}</div>
+          <textarea
+            value={draftBody}
+            onChange={(e) => setDraftBody(e.target.value)}
+            className="w-full border rounded-md px-2 py-1 min-h-[160px]"
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={saveOverride}>Use for {active.label}</Button>
+            <Button size="sm" variant="outline" onClick={() => setEditing(false)}>Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 mb-2">
+            <button type="button" onClick={() => setView('text')} className={tab(view === 'text')}>Text</button>
+            <button type="button" onClick={() => setView('html')} className={tab(view === 'html')}>HTML</button>
+            <span className="flex-1" />
+            <Button size="sm" variant="outline" onClick={startEditing}>Edit for this rep</Button>
+            {active.override && (
+              <Button size="sm" variant="outline" onClick={() => onOverride(active.id, null)}>Reset</Button>
+            )}
+          </div>
+
+          <div className="mb-1"><span className="font-medium">Subject:</span> {active.subject}</div>
+          {view === 'text' ? (
+            <div className="whitespace-pre-line rounded bg-gray-50 p-2 max-h-64 overflow-y-auto">
+              {`${active.greeting}\n\n${active.body}`}
+            </div>
+          ) : (
+            <iframe
+              title={`Email preview for ${active.label}`}
+              srcDoc={renderEmailHTML({ subject: active.subject, greeting: active.greeting, body: active.body })}
+              sandbox=""
+              className="w-full h-72 rounded border"
+            />
+          )}
+          {active.override && <div className="mt-1 text-gray-500">Edited for this recipient only.</div>}
+        </>
+      )}
+
+      {active.problems.length > 0 && <div className="mt-2 text-red-600">{active.problems.join('; ')}</div>}
+    </div>
+  );
+}
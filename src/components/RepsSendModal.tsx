@@ -2,8 +2,25 @@
 import React, { useEffect, useMemo, useState, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
 import { assignRepsForCurrentUser } from '@/lib/reps';
-import { outreach, deliverSingleByPrayerId } from '@/lib/outreach';
+import { outreach, deliverSingleByPrayerId, type OutreachChannel, type OutreachQuota, type RecipientOverride } from '@/lib/outreach';
+import { PLANS, normalizePlan, type Plan } from '@/lib/entitlements';
+import { officePhoneFor, type OfficePhone } from '@/lib/callScript';
+import { deliverAfterFor, type DeliverySchedule } from '@/lib/schedule';
+import {
+  lastNameFrom,
+  renderMessageTemplate,
+  repTemplateValues,
+  templateProblems,
+  titleForRep,
+  type TemplateValues,
+  type TemplateVariable,
+} from '@/lib/messageTemplates';
+import type { OutreachTemplate } from '@/types/dbTypes';
 import { Button } from '@/components/ui/button';
+import CallScriptPanel from '@/components/CallScriptPanel';
+import TemplatePicker from '@/components/TemplatePicker';
+import RecipientPreviewPane, { type RecipientPreview } from '@/components/RecipientPreviewPane';
+import DeliveryTimePicker from '@/components/DeliveryTimePicker';
 
 /** Share targets */
 const FEED_URL = 'https://cyberkingdomofchrist.netlify.app/feed';
@@ -23,6 +40,15 @@ function buildFacebookShareUrl(url?: string, quote?: string) {
   return `https://www.facebook.com/sharer/sharer.php?${params.toString()}`;
 }
 
+const CHANNEL_OPTIONS: { channel: OutreachChannel; label: string }[] = [
+  { channel: 'email', label: 'Email' },
+  { channel: 'contact_form', label: 'Contact form' },
+  { channel: 'x', label: 'X (Twitter)' },
+  { channel: 'facebook', label: 'Facebook' },
+  { channel: 'letter', label: 'Printed letter' },
+  { channel: 'call', label: 'Phone call' },
+];
+
 // ──────────────────────────────────────────────────────────────────────────────
 // Types
 // ──────────────────────────────────────────────────────────────────────────────
@@ -35,6 +61,9 @@ type RepRowDB = {
   state: string | null;
   district: string | null;
   level: 'federal' | 'state' | 'local' | null;
+  phone: string | null;
+  district_office_address: unknown;
+  dc_office_address: unknown;
 };
 
 // Local shape used by the UI (what the JSX renders)
@@ -45,9 +74,9 @@ type Rep = {
   state: string | null;
   district: string | null; // "21" etc. (label formatter will add "TX-21")
   level: 'federal' | 'state' | 'local';
+  phone: OfficePhone | null; // number to call (see src/lib/callScript)
 };
 
-type Tier = 'free' | 'supporter' | 'patron' | 'admin';
 type Props = { prayerId: string; onClose: () => void };
 
 // Primary address snapshot for prompts
@@ -85,20 +114,6 @@ function inferLevel(office: string | null): Rep['level'] {
   ) return 'state';
   return 'local';
 }
-function titleForRep(office: string | null): 'Sen.' | 'Rep.' | 'President' | 'Hon.' {
-  const o = normalizeOffice(office);
-  if (o.includes('president')) return 'President';
-  if (o.includes('senate') || o.includes('senator')) return 'Sen.';
-  if (o.includes('house') || o.includes('representative') || o.includes('congress')) return 'Rep.';
-  return 'Hon.';
-}
-function lastNameFrom(name: string): string {
-  const raw = name.replace(/[.,]/g, ' ').trim();
-  const parts = raw.split(/\s+/);
-  const suffixes = new Set(['jr','jr.','sr','sr.','ii','iii','iv','phd','m.d.','md','esq','esq.']);
-  while (parts.length && suffixes.has(parts[parts.length-1].toLowerCase())) parts.pop();
-  return parts.length ? parts[parts.length - 1] : name.trim();
-}
 function greetingForRep(rep: Pick<Rep, 'name' | 'office'>): string {
   const t = titleForRep(rep.office);
   const last = lastNameFrom(rep.name);
@@ -119,14 +134,6 @@ function displayNameForRep(rep: Rep): string {
   }
   return `${t} ${name}${st ? `, ${st}` : ''}`;
 }
-function capForTier(tier: Tier | null): number {
-  switch (tier) {
-    case 'supporter': return 10;
-    case 'patron': return 20;
-    case 'admin': return 1000;
-    default: return 5; // free
-  }
-}
 
 // ──────────────────────────────────────────────────────────────────────────────
 // Component
@@ -137,14 +144,40 @@ export default function RepsSendModal({ prayerId, onClose }: Props) {
   const [selected, setSelected] = useState<Record<string, boolean>>({});
   const [subject, setSubject] = useState<string>('');
   const [body, setBody] = useState<string>(''); // server will prepend greeting per recipient
+  const [signature, setSignature] = useState<string>('');
+  // Per-recipient edits from the preview pane, by rep id (stored on each request row)
+  const [overrides, setOverrides] = useState<Record<string, RecipientOverride>>({});
+  const [prayerText, setPrayerText] = useState<string>(''); // call scripts summarize the prayer itself
+  const [senderName, setSenderName] = useState<string>('');
+  const [userId, setUserId] = useState<string | null>(null);
+  // Template library (see src/lib/messageTemplates): variables resolve per rep on the server
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [defaultDraft, setDefaultDraft] = useState<{ subject: string; body: string }>({ subject: '', body: '' });
+  const [userName, setUserName] = useState<string>(''); // {{user.name}}, same rule as the processor
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // X / Facebook share links from the immediate send; the user still has to open them to post
+  const [shareLinks, setShareLinks] = useState<{ channel: string; url: string }[]>([]);
   const draftRef = useRef<HTMLTextAreaElement | null>(null);
 
   // Tier & quota UI
-  const [tier, setTier] = useState<Tier>('free');
-  const [dailyCap, setDailyCap] = useState<number>(5);
+  const [tier, setTier] = useState<Plan>('free');
+  const [dailyCap, setDailyCap] = useState<number>(PLANS.free.dailyOutreachCap);
   const [usedToday, setUsedToday] = useState<number>(0);
+  const [capIsOverride, setCapIsOverride] = useState(false);
+
+  // Delivery channels (X/Facebook unlock with paid plans, see src/lib/entitlements)
+  const [channels, setChannels] = useState<OutreachChannel[]>(['email']);
+  const [schedule, setSchedule] = useState<DeliverySchedule>({ mode: 'now' });
+  const allowedChannels = PLANS[tier].channels;
+  const toggleChannel = (ch: OutreachChannel) =>
+    setChannels(prev => (prev.includes(ch) ? prev.filter(c => c !== ch) : [...prev, ch]));
+
+  const applyQuota = (q: OutreachQuota) => {
+    setDailyCap(q.cap);
+    setUsedToday(q.used);
+    setCapIsOverride(q.source === 'override');
+  };
 
   // Level filter UI
   const [levelFilter, setLevelFilter] = useState<'all' | 'federal' | 'state'>('all');
@@ -203,7 +236,7 @@ export default function RepsSendModal({ prayerId, onClose }: Props) {
     if (ids.length) {
       const { data: repsRows, error: repsErr } = await (supabase as any)
         .from('representatives')
-        .select('id, name, office_name, state, district, level')
+        .select('id, name, office_name, state, district, level, phone, district_office_address, dc_office_address')
         .in('id', ids);
       if (repsErr) throw new Error(repsErr.message);
 
@@ -216,6 +249,7 @@ export default function RepsSendModal({ prayerId, onClose }: Props) {
         level: (r.level === 'federal' || r.level === 'state' || r.level === 'local')
           ? r.level
           : inferLevel(r.office_name),
+        phone: officePhoneFor(r),
       }));
     }
 
@@ -230,34 +264,24 @@ export default function RepsSendModal({ prayerId, onClose }: Props) {
     // Profile (for sender + tier)
     const { data: prof, error: profErr } = await supabase
       .from('profiles')
-      .select('display_name, username, tier')
+      .select('first_name, last_name, display_name, username, tier')
       .eq('id', userId)
       .maybeSingle();
     if (profErr) throw new Error(profErr.message);
 
     const sender = String(prof?.display_name || prof?.username || 'CKoC Member');
 
-    // profiles.tier is a string in your types; narrow to our Tier union safely
-    const rawTier = (prof?.tier ?? 'free') as string;
-    const normalizedTier = (['free', 'supporter', 'patron', 'admin'] as const).includes(rawTier as Tier)
-      ? (rawTier as Tier)
-      : 'free';
-    const cap = capForTier(normalizedTier);
-
-    // Used today (server counts by send_date, which is UTC)
-    const today = new Date().toISOString().slice(0, 10); // YYYY-MM-DD (UTC)
-    const { count: usedCnt, error: countErr } = await supabase
-      .from('outreach_requests')
-      .select('id', { count: 'exact', head: true })
-      .eq('user_id', userId)
-      .eq('send_date', today);
-    if (countErr) throw new Error(countErr.message);
+    // profiles.tier may still hold a legacy spelling; entitlements normalizes it
+    const normalizedTier = normalizePlan(prof?.tier);
+
+    // Cap/used come from the server (honors per-user overrides; counts by UTC send_date)
+    const { data: quota, error: quotaErr } = await outreach.getQuota();
+    if (quotaErr || !quota) throw new Error(quotaErr?.message || 'Could not load your daily outreach quota.');
 
     const defaultSubject = `Message from a Cyber Kingdom of Christ user: ${sender}`;
-    const defaultBody =
-`${prayerRow?.content || '(prayer content)'}
-    
-Sincerely,
+    const defaultBody = prayerRow?.content || '(prayer content)';
+    const defaultSignature =
+`Sincerely,
 ${sender}
 CyberKingdomOfChrist.org`;
 
@@ -268,9 +292,14 @@ CyberKingdomOfChrist.org`;
     setSelected(defSel);
     setSubject(defaultSubject);
     setBody(defaultBody);
+    setSignature(defaultSignature);
+    setPrayerText(prayerRow?.content || '');
+    setSenderName(sender);
+    setUserId(userId);
+    setUserName([prof?.first_name, prof?.last_name].filter(Boolean).join(' ') || prof?.display_name || '');
+    setDefaultDraft({ subject: defaultSubject, body: defaultBody });
     setTier(normalizedTier);
-    setDailyCap(cap);
-    setUsedToday(usedCnt ?? 0);
+    applyQuota(quota);
   };
 
   useEffect(() => {
@@ -302,7 +331,74 @@ CyberKingdomOfChrist.org`;
   }, [displayReps]);
 
   const selectedReps = useMemo(() => reps.filter(r => selected[r.id]), [reps, selected]);
-  const greetingPreview = useMemo(() => selectedReps.slice(0, 3).map(r => greetingForRep(r)), [selectedReps]);
+  const callTargets = useMemo(() => selectedReps.map(r => ({
+    id: r.id,
+    label: displayNameForRep(r),
+    addressee: `${titleForRep(r.office)} ${lastNameFrom(r.name)}`,
+    phone: r.phone,
+  })), [selectedReps]);
+
+  // What each selected rep will receive, rendered exactly as the processor will:
+  // their override (if any) or the shared draft, with template variables resolved
+  const composedBody = signature.trim() ? `${body.trimEnd()}\n\n${signature.trim()}` : body;
+  const previews = useMemo<(RecipientPreview & { rep: Rep })[]>(() => {
+    const shared: TemplateValues = {
+      'prayer.content': prayerText,
+      'user.name': userName,
+      'user.zip': addr?.postal_code ?? null,
+    };
+    return selectedReps.map(r => {
+      const values = { ...repTemplateValues(r), ...shared };
+      const override = overrides[r.id] ?? null;
+      const sharedSubject = renderMessageTemplate(subject, values);
+      const sharedBody = renderMessageTemplate(composedBody, values);
+      const finalSubject = override?.subject != null ? renderMessageTemplate(override.subject, values) : sharedSubject;
+      const finalBody = override?.body != null ? renderMessageTemplate(override.body, values) : sharedBody;
+      return {
+        rep: r,
+        id: r.id,
+        label: displayNameForRep(r),
+        greeting: greetingForRep(r),
+        subject: finalSubject.text || 'Message from a Cyber Kingdom of Christ user',
+        body: finalBody.text,
+        sharedSubject: sharedSubject.text,
+        sharedBody: sharedBody.text,
+        override,
+        problems: templateProblems([finalSubject, finalBody]),
+      };
+    });
+  }, [selectedReps, subject, composedBody, overrides, prayerText, userName, addr]);
+
+  const setOverride = (repId: string, o: RecipientOverride | null) =>
+    setOverrides(prev => {
+      const next = { ...prev };
+      if (o && (o.subject != null || o.body != null)) next[repId] = o;
+      else delete next[repId];
+      return next;
+    });
+
+  const applyTemplate = (tpl: OutreachTemplate | null) => {
+    setTemplateId(tpl?.id ?? null);
+    setSubject(tpl ? tpl.subject : defaultDraft.subject);
+    setBody(tpl ? tpl.body : defaultDraft.body);
+  };
+
+  const insertVariable = (key: TemplateVariable) => {
+    const token = `{{${key}}}`;
+    const el = draftRef.current;
+    const start = el?.selectionStart ?? body.length;
+    const end = el?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + token + body.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const refreshQuota = async () => {
+    const { data: q } = await outreach.getQuota();
+    if (q) applyQuota(q);
+  };
 
   const remaining = Math.max(0, dailyCap - usedToday);
   const selectedCount = selectedReps.length;
@@ -381,9 +477,23 @@ CyberKingdomOfChrist.org`;
   const handleSend = async () => {
     setError(null);
     if (!selectedCount) return setError('Select at least one representative.');
+    // Calls aren't queued: each one is logged from the call panel once it's made
+    const sendChannels = channels.filter(ch => ch !== 'call' && allowedChannels.includes(ch));
+    if (!sendChannels.length) {
+      return setError(channels.includes('call')
+        ? 'Log each call with its outcome in the call panel; choose another channel to send a message.'
+        : 'Choose at least one delivery channel.');
+    }
     if (overCap) {
       return setError(`You can send to ${remaining} more recipient(s) today (daily cap ${dailyCap}). Deselect some recipients.`);
     }
+    if (schedule.mode === 'at' && schedule.at <= new Date()) {
+      return setError('Pick a delivery time in the future.');
+    }
+    const unresolved = previews.filter(p => p.problems.length);
+    if (unresolved.length) {
+      return setError(`Fix the template before sending: ${unresolved.map(p => `${p.label} (${p.problems.join('; ')})`).join(', ')}.`);
+    }
 
     try {
       setBusy(true);
@@ -391,18 +501,22 @@ CyberKingdomOfChrist.org`;
       const userId = ures.user!.id;
 
       const repIds = selectedReps.map(r => r.id);
+      const deliverAfter = Object.fromEntries(selectedReps.map(r => [r.id, deliverAfterFor(schedule, r)]));
+      const scheduledCount = Object.values(deliverAfter).filter(Boolean).length;
       const res = await outreach.enqueueOutreachToSelected({
         userId,
         prayerId,
         repIds,
-        channels: ['email'], // server-side email channel; Channels UI removed
+        channels: sendChannels,
         subject,
-        body,
+        body: composedBody,
+        templateId,
+        overrides: Object.fromEntries(repIds.filter(id => overrides[id]).map(id => [id, overrides[id]])),
+        deliverAfter,
       });
-      await deliverSingleByPrayerId(prayerId);
-
-      setBusy(false);
+      if (res.quota) applyQuota(res.quota);
       if (res.error) {
+        setBusy(false);
         const msg = String(res.error.message || '');
         if (msg.includes('Daily outreach limit')) {
           setError('You’ve reached your daily outreach limit. Try again tomorrow.');
@@ -411,12 +525,31 @@ CyberKingdomOfChrist.org`;
         }
         return;
       }
+      // Scheduled requests wait for the processor's drain
+      const single = scheduledCount < repIds.length ? await deliverSingleByPrayerId(prayerId) : null;
+
+      setBusy(false);
+      const links = Object.entries(single?.detail.channels ?? {})
+        .filter(([, c]) => c.status === 'intent' && c.intent_url)
+        .map(([channel, c]) => ({ channel, url: c.intent_url as string }));
+      if (links.length) {
+        setShareLinks(links);
+        return;
+      }
       if (!res.data || res.data.length === 0) {
         alert('Already queued for all selected recipients today.');
         onClose();
         return;
       }
-      alert(`Queued ${res.data.length} recipient(s).`);
+      const throttled = res.data.filter(r => r.status === 'throttled').length;
+      if (throttled) {
+        alert(`Queued ${res.data.length - throttled} recipient(s). ${throttled} held back by your daily cap.`);
+        onClose();
+        return;
+      }
+      alert(scheduledCount
+        ? `Scheduled ${res.data.length} recipient(s). Track them under My Outreach.`
+        : `Queued ${res.data.length} recipient(s).`);
       onClose();
     } catch (e: any) {
       setBusy(false);
@@ -437,7 +570,7 @@ CyberKingdomOfChrist.org`;
 
         {/* Tier banner */}
         <div className="mb-4 rounded-md border bg-gray-50 p-3 text-sm">
-          <div><span className="font-semibold capitalize">{tier}</span> tier • Daily cap: <span className="font-semibold">{dailyCap}</span></div>
+          <div><span className="font-semibold">{PLANS[tier].label}</span> plan • Daily cap: <span className="font-semibold">{dailyCap}</span>{capIsOverride && ' (custom)'}</div>
           <div>Used today: <span className="font-semibold">{usedToday}</span> • Remaining: <span className="font-semibold">{Math.max(0, dailyCap - usedToday)}</span></div>
         </div>
 
@@ -575,7 +708,58 @@ CyberKingdomOfChrist.org`;
 
             {/* Right: draft/review */}
             <div>
+              <div className="mb-3">
+                <div className="text-sm font-medium mb-2">Channels</div>
+                <div className="flex flex-wrap gap-3 text-sm">
+                  {CHANNEL_OPTIONS.map(({ channel, label }) => {
+                    const unlocked = allowedChannels.includes(channel);
+                    return (
+                      <label key={channel} className={`flex items-center gap-1 ${unlocked ? '' : 'text-gray-400'}`}>
+                        <input
+                          type="checkbox"
+                          checked={unlocked && channels.includes(channel)}
+                          onChange={() => toggleChannel(channel)}
+                          disabled={!unlocked}
+                        />
+                        {label}
+                        {!unlocked && <a href="/pricing" className="underline text-xs ml-1">upgrade</a>}
+                      </label>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  X and Facebook posts tag each representative’s account when we have it on file. Offices without a public
+                  email get your message through their web contact form.
+                </p>
+              </div>
+
+              <DeliveryTimePicker onChange={setSchedule} />
+
+              {channels.includes('call') && allowedChannels.includes('call') && (
+                <div className="mb-4">
+                  <div className="text-sm font-medium mb-2">Call script</div>
+                  <CallScriptPanel
+                    prayerId={prayerId}
+                    targets={callTargets}
+                    prayer={prayerText}
+                    callerName={senderName}
+                    city={addr?.city}
+                    zip={addr?.postal_code}
+                    onLogged={refreshQuota}
+                  />
+                </div>
+              )}
+
               <div className="text-sm font-medium mb-2">Draft (Email)</div>
+              <TemplatePicker
+                userId={userId}
+                canShare={tier === 'admin'}
+                templateId={templateId}
+                subject={subject}
+                body={body}
+                onSelect={applyTemplate}
+                onInsertVariable={insertVariable}
+              />
               <div className="space-y-2">
                 <input
                   value={subject}
@@ -584,16 +768,6 @@ CyberKingdomOfChrist.org`;
                   placeholder="Subject"
                   maxLength={180}
                 />
-                {selectedReps.length > 0 && (
-                  <div className="rounded-md border p-3 bg-gray-50 text-xs text-gray-700">
-                    <div className="font-semibold mb-1">Greeting preview (per recipient):</div>
-                    <ul className="list-disc ml-5 space-y-0.5">
-                      {greetingPreview.map((g, i) => (<li key={i}>{g}</li>))}
-                      {selectedReps.length > greetingPreview.length && (<li>…and {selectedReps.length - greetingPreview.length} more</li>)}
-                    </ul>
-                    <div className="mt-2">The server will prepend the correct greeting for each recipient.</div>
-                  </div>
-                )}
                 <textarea
                   value={body}
                   onChange={(e) => setBody(e.target.value)}
@@ -601,22 +775,52 @@ CyberKingdomOfChrist.org`;
                   placeholder="Body (greeting added per recipient on send)"
                   ref={draftRef}
                 />
+                <textarea
+                  value={signature}
+                  onChange={(e) => setSignature(e.target.value)}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                  placeholder="Signature"
+                  rows={3}
+                />
+                {previews.length > 0 && <RecipientPreviewPane previews={previews} onOverride={setOverride} />}
                 <p className="text-xs text-gray-500">Delivery happens server-side.</p>
               </div>
             </div>
           </div>
         )}
 
+        {shareLinks.length > 0 && (
+          <div className="mt-4 rounded-md border bg-blue-50 p-3 text-sm">
+            <div className="font-medium">Your posts are ready — open each link to post it from your account:</div>
+            <ul className="mt-2 space-y-1">
+              {shareLinks.map(l => (
+                <li key={l.channel}>
+                  <a href={l.url} target="_blank" rel="noopener noreferrer" className="underline">
+                    {l.channel === 'x' ? 'Post on X' : 'Share on Facebook'}
+                  </a>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-gray-600 mt-2">Links for your other recipients show up under My Outreach once they're prepared.</p>
+          </div>
+        )}
+
         {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
 
         <div
           className="mt-6 sticky bottom-0 bg-white pt-4 flex justify-end gap-2"
           style={{ paddingBottom: 'env(safe-area-inset-bottom)' }}
         >
-          <Button variant="outline" onClick={onClose}>Cancel</Button>
-          <Button onClick={handleSend} disabled={busy || loading || reps.length === 0 || overCap || enrichBusy}>
-            {busy ? 'Queuing…' : 'Send'}
-          </Button>
+          {shareLinks.length > 0 ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button onClick={handleSend} disabled={busy || loading || reps.length === 0 || overCap || enrichBusy}>
+                {busy ? 'Queuing…' : 'Send'}
+              </Button>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -1,23 +1,49 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useAuth } from '@/hooks/useAuth';
-import { outreach } from '@/lib/outreach';
+import { outreach, type PresidentRow } from '@/lib/outreach';
 import { supabase } from '@/lib/supabase';
 
 type Props = {
   prayerId: string;
 };
 
+type Step =
+  | { kind: 'confirm' }
+  | { kind: 'done'; message: string }
+  | { kind: 'error'; message: string };
+
 export default function SendToPresidentButton({ prayerId }: Props) {
   const { user } = useAuth();
+  const [open, setOpen] = useState(false);
   const [busy, setBusy] = useState(false);
+  const [president, setPresident] = useState<PresidentRow | null>(null);
+  const [step, setStep] = useState<Step>({ kind: 'confirm' });
 
-  const onClick = async () => {
-    if (!user) {
-      alert('Please sign in to send to the President.');
-      return;
-    }
+  const onOpen = async () => {
+    setStep(user ? { kind: 'confirm' } : { kind: 'error', message: 'Please sign in to send to the President.' });
+    setOpen(true);
+    if (!user) return;
+
+    const { data, error } = await outreach.getPresident();
+    if (error) console.error(error);
+    setPresident(data);
+    // No contact form URL means the White House form isn't mapped for delivery yet
+    if (!data?.contact_form_url) setStep({ kind: 'error', message: 'The President is not available for outreach yet. Please try again later.' });
+  };
 
+  const onSend = async () => {
+    if (!user) return;
     setBusy(true);
     try {
       // Owner check (defense-in-depth)
@@ -29,44 +55,87 @@ export default function SendToPresidentButton({ prayerId }: Props) {
 
       if (error || !p) {
         console.error('Ownership check failed:', error);
-        alert('Unable to verify ownership. Please try again.');
+        setStep({ kind: 'error', message: 'Unable to verify ownership. Please try again.' });
         return;
       }
       if (p.author_id !== user.id) {
-        alert('Only the prayer owner can send this prayer.');
+        setStep({ kind: 'error', message: 'Only the prayer owner can send this prayer.' });
         return;
       }
 
       const res = await outreach.enqueueToPresident({
         userId: user.id,
         prayerId,
-        channels: ['email'], // can extend later
+        channels: ['contact_form'],
       });
 
       if (res.error) {
         console.error(res.error);
-        alert('Could not enqueue outreach to President. Please try again.');
+        setStep({ kind: 'error', message: res.error.message || 'Could not queue your prayer for the President. Please try again.' });
         return;
       }
 
-      alert('Prayer queued for delivery to the President.');
+      setStep({
+        kind: 'done',
+        message: res.data?.length
+          ? 'Your prayer is queued for the White House contact form.'
+          : 'This prayer is already on its way to the President today.',
+      });
     } catch (e) {
       console.error(e);
-      alert('Something went wrong. Please try again.');
+      setStep({ kind: 'error', message: 'Something went wrong. Please try again.' });
     } finally {
       setBusy(false);
     }
   };
 
   return (
-    <Button
-      onClick={onClick}
-      disabled={busy}
-      variant="secondary"
-      size="sm"
-      className="self-start w-auto h-9 px-3 rounded-2xl"
-    >
-      {busy ? 'Sending…' : 'Send to President'}
-    </Button>
+    <>
+      <Button
+        onClick={onOpen}
+        disabled={busy}
+        variant="secondary"
+        size="sm"
+        className="self-start w-auto h-9 px-3 rounded-2xl"
+      >
+        {busy ? 'Sending…' : 'Send to President'}
+      </Button>
+
+      <AlertDialog open={open} onOpenChange={(next) => !busy && setOpen(next)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {step.kind === 'done' ? 'Sent to the White House' : 'Send this prayer to the President?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {step.kind === 'confirm' &&
+                (president
+                  ? `It will be delivered to ${president.name} through the White House contact form and counts toward today's outreach limit.`
+                  : 'Looking up the White House contact…')}
+              {step.kind !== 'confirm' && step.message}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            {step.kind === 'done' ? (
+              <>
+                <Button asChild variant="outline">
+                  <Link to="/outreach" onClick={() => setOpen(false)}>View in My Outreach</Link>
+                </Button>
+                <Button onClick={() => setOpen(false)}>Done</Button>
+              </>
+            ) : (
+              <>
+                <AlertDialogCancel disabled={busy}>{step.kind === 'error' ? 'Close' : 'Cancel'}</AlertDialogCancel>
+                {step.kind === 'confirm' && (
+                  <Button onClick={onSend} disabled={busy || !president}>
+                    {busy ? 'Sending…' : 'Send'}
+                  </Button>
+                )}
+              </>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
   );
 }
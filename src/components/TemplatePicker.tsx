@@ -0,0 +1,125 @@
+// src/components/TemplatePicker.tsx
+import React, { useEffect, useState } from 'react';
+import { outreach } from '@/lib/outreach';
+import { TEMPLATE_VARIABLES, type TemplateVariable } from '@/lib/messageTemplates';
+import type { OutreachTemplate } from '@/types/dbTypes';
+import { Button } from '@/components/ui/button';
+
+type Props = {
+  userId: string | null;
+  /** Admins may share templates with every user. */
+  canShare: boolean;
+  templateId: string | null;
+  subject: string;
+  body: string;
+  /** Load a template into the draft (null = back to the default message). */
+  onSelect: (tpl: OutreachTemplate | null) => void;
+  /** Insert {{variable}} into the body at the cursor. */
+  onInsertVariable: (key: TemplateVariable) => void;
+};
+
+export default function TemplatePicker({ userId, canShare, templateId, subject, body, onSelect, onInsertVariable }: Props) {
+  const [templates, setTemplates] = useState<OutreachTemplate[]>([]);
+  const [name, setName] = useState('');
+  const [share, setShare] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    outreach.listTemplates().then(({ data }) => {
+      if (alive) setTemplates(data ?? []);
+    });
+    return () => { alive = false; };
+  }, []);
+
+  const current = templates.find(t => t.id === templateId) ?? null;
+  const ownsCurrent = !!current && current.owner_id === userId;
+
+  const save = async (asNew: boolean) => {
+    const tplName = asNew ? name.trim() : current?.name ?? '';
+    if (!tplName) return setMsg('Give the template a name.');
+    setBusy(true);
+    setMsg(null);
+    const { data, error } = await outreach.saveTemplate({
+      id: asNew ? undefined : current?.id,
+      name: tplName,
+      subject,
+      body,
+      is_shared: canShare && (asNew ? share : current?.is_shared),
+    });
+    setBusy(false);
+    if (error || !data) return setMsg(error?.message || 'Could not save the template.');
+    setTemplates(prev => [...prev.filter(t => t.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name)));
+    setName('');
+    setMsg(asNew ? 'Template saved.' : 'Template updated.');
+    onSelect(data);
+  };
+
+  const remove = async () => {
+    if (!current || !ownsCurrent) return;
+    setBusy(true);
+    const { error } = await outreach.deleteTemplate(current.id);
+    setBusy(false);
+    if (error) return setMsg(error.message);
+    setTemplates(prev => prev.filter(t => t.id !== current.id));
+    onSelect(null);
+  };
+
+  return (
+    <div className="mb-3 space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">Template:</span>
+        <select
+          value={templateId ?? ''}
+          onChange={(e) => onSelect(templates.find(t => t.id === e.target.value) ?? null)}
+          className="flex-1 border rounded-md px-2 py-1"
+        >
+          <option value="">Default message</option>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{t.name}{t.is_shared ? ' (shared)' : ''}</option>
+          ))}
+        </select>
+        {ownsCurrent && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => save(false)} disabled={busy}>Update</Button>
+            <Button size="sm" variant="outline" onClick={remove} disabled={busy}>Delete</Button>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-gray-600 mr-1">Insert:</span>
+        {TEMPLATE_VARIABLES.map(v => (
+          <button
+            key={v.key}
+            type="button"
+            onClick={() => onInsertVariable(v.key)}
+            className="rounded border px-1.5 py-0.5 text-xs"
+            title={`{{${v.key}}}, e.g. ${v.example}`}
+          >
+            {v.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 border rounded-md px-2 py-1"
+          placeholder="New template name"
+          maxLength={80}
+        />
+        {canShare && (
+          <label className="flex items-center gap-1 text-xs">
+            <input type="checkbox" checked={share} onChange={(e) => setShare(e.target.checked)} />
+            Share with everyone
+          </label>
+        )}
+        <Button size="sm" variant="outline" onClick={() => save(true)} disabled={busy || !userId}>Save as template</Button>
+      </div>
+      {msg && <p className="text-xs text-gray-600">{msg}</p>}
+    </div>
+  );
+}
@@ -1,38 +1,28 @@
 import React from 'react';
-import { Crown, Star, Shield } from 'lucide-react';
+import { Crown, Star, Shield, ShieldCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { PLANS, type Plan } from '@/lib/entitlements';
 
 interface TierPillProps {
-  tier: 'basic' | 'premium' | 'leader';
+  tier: Plan;
   className?: string;
 }
 
-export default function TierPill({ tier, className }: TierPillProps) {
-  const configs = {
-    basic: {
-      label: 'Believer',
-      icon: Star,
-      className: 'bg-gray-100 text-gray-700',
-    },
-    premium: {
-      label: 'Disciple',
-      icon: Crown,
-      className: 'bg-america-red text-white',
-    },
-    leader: {
-      label: 'Shepherd',
-      icon: Shield,
-      className: 'bg-america-navy text-white',
-    },
-  };
+const styles: Record<Plan, { icon: typeof Star; className: string }> = {
+  free: { icon: Star, className: 'bg-gray-100 text-gray-700' },
+  faith_warrior: { icon: Crown, className: 'bg-america-red text-white' },
+  kingdom_builder: { icon: Shield, className: 'bg-america-navy text-white' },
+  admin: { icon: ShieldCheck, className: 'bg-america-navy text-white' },
+};
 
-  const config = configs[tier];
+export default function TierPill({ tier, className }: TierPillProps) {
+  const config = styles[tier];
   const Icon = config.icon;
 
   return (
     <div className={cn('tier-pill', config.className, className)}>
       <Icon className="h-3 w-3 mr-1" />
-      {config.label}
+      {PLANS[tier].label}
     </div>
   );
-}
\ No newline at end of file
+}
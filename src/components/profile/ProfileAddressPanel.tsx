@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { assignRepsForCurrentUser } from '@/lib/reps'
+import type { DistrictSource } from '@/types/dbTypes'
 
 type AddressInfo = {
   postal_code: string | null
@@ -15,6 +16,16 @@ type AddressInfo = {
   cd: string | null // congressional district
   sd: string | null // state senate (upper) district
   hd: string | null // state house/assembly (lower) district
+  district_source: DistrictSource | null
+}
+
+// One full set of districts for a ZIP that spans several (see netlify/lib/districts.ts)
+type DistrictCombo = {
+  state: string
+  cd: string | null
+  sd: string | null
+  hd: string | null
+  share_pct: number // estimated share of the ZIP's area
 }
 
 type GeoResult = {
@@ -22,9 +33,22 @@ type GeoResult = {
   cd: string | null
   sd: string | null
   hd: string | null
+  county?: string | null // county and city, when the address resolved to a point
+  muni?: string | null
   note?: string | null
+  combos?: DistrictCombo[] // likeliest (ZIP-majority) first
+  district_source?: DistrictSource | null
 }
 
+const SOURCE_LABEL: Record<DistrictSource, string> = {
+  geocoded: 'from your street address',
+  user_chosen: 'chosen by you',
+  zip_majority: 'most of your ZIP',
+}
+
+const comboLabel = (c: DistrictCombo) =>
+  `CD ${c.cd || '—'} • SD ${c.sd || '—'} • HD ${c.hd || '—'}`
+
 // Server-side proxy (avoids Census CORS issues)
 async function geocodeAddressViaServer(payload: {
   line1?: string | null
@@ -50,7 +74,7 @@ export default function ProfileAddressPanel() {
 
   // Stored/current address (for display/prefill)
   const [addr, setAddr] = useState<AddressInfo>({
-    postal_code: null, state: null, city: null, line1: null, cd: null, sd: null, hd: null
+    postal_code: null, state: null, city: null, line1: null, cd: null, sd: null, hd: null, district_source: null
   })
 
   // Form fields (user input)
@@ -64,6 +88,10 @@ export default function ProfileAddressPanel() {
   const [detBusy, setDetBusy] = useState(false)
   const [detMsg, setDetMsg] = useState<string | null>(null) // always shown below buttons
   const [det, setDet] = useState<GeoResult>({ state: null, cd: null, sd: null, hd: null, note: null })
+  // Split ZIP: the candidate combinations and which one is selected
+  const [combos, setCombos] = useState<DistrictCombo[]>([])
+  const [chosen, setChosen] = useState<number | null>(null)
+  const [source, setSource] = useState<DistrictSource | null>(null)
 
   const needsDistricts = useMemo(() => !addr.cd || !addr.sd || !addr.hd, [addr])
   const hasDetections = !!(det.state || det.cd || det.sd || det.hd)
@@ -80,7 +108,7 @@ export default function ProfileAddressPanel() {
 
         const { data: a, error: aerr } = await (supabase as any)
           .from('user_addresses')
-          .select('postal_code, state, city, line1, cd, sd, hd')
+          .select('postal_code, state, city, line1, cd, sd, hd, district_source')
           .eq('user_id', userId)
           .eq('is_primary', true)
           .maybeSingle()
@@ -94,7 +122,8 @@ export default function ProfileAddressPanel() {
           line1: a?.line1 ?? null,
           cd: a?.cd ?? null,
           sd: a?.sd ?? null,
-          hd: a?.hd ?? null
+          hd: a?.hd ?? null,
+          district_source: a?.district_source ?? null,
         }
         setAddr(next)
 
@@ -121,15 +150,6 @@ export default function ProfileAddressPanel() {
       return
     }
 
-    // Client-side ZIP-only guard: encourage user to add state or city/street
-    const zipOnly = !!postal.trim() && !st.trim() && !city.trim() && !line1.trim()
-    if (zipOnly) {
-      const msg = 'ZIP-only is ambiguous. Add your state or city/street for accurate district detection.'
-      setDet({ state: null, cd: null, sd: null, hd: null, note: msg })
-      setDetMsg(msg)
-      return
-    }
-
     try {
       setDetBusy(true)
       setDetMsg('Detecting your districts…')
@@ -141,7 +161,21 @@ export default function ProfileAddressPanel() {
         postal_code: postal || null,
       })
 
+      const split = r.combos ?? []
+      setCombos(split)
+      if (split.length) {
+        // Preselect the ZIP-majority combination; picking one below marks it user-chosen
+        const top = split[0]
+        setDet({ ...r, state: top.state, cd: top.cd, sd: top.sd, hd: top.hd })
+        setChosen(0)
+        setSource('zip_majority')
+        setDetMsg(r.note || null)
+        return
+      }
+
       setDet(r)
+      setChosen(null)
+      setSource(r.district_source ?? null)
       setDetMsg(
         (r.note ? `${r.note} ` : '') +
         `Found: ${r.state || st || '??'} • CD: ${r.cd || '—'} • SD: ${r.sd || '—'} • HD: ${r.hd || '—'}`
@@ -153,6 +187,13 @@ export default function ProfileAddressPanel() {
     }
   }
 
+  const pickCombo = (i: number) => {
+    const c = combos[i]
+    setChosen(i)
+    setDet(d => ({ ...d, state: c.state, cd: c.cd, sd: c.sd, hd: c.hd }))
+    setSource('user_chosen')
+  }
+
   const handleSave = async () => {
     setError(null)
     setOkMsg(null)
@@ -173,7 +214,10 @@ export default function ProfileAddressPanel() {
         cd: det.cd ?? null,
         sd: det.sd ?? null,
         hd: det.hd ?? null,
+        county: det.county ?? null,
+        muni: det.muni ?? null,
         postal_code: postal.trim(),
+        district_source: source,
         persist_address: !!persistStreet
       }
       if (persistStreet) {
@@ -194,6 +238,7 @@ export default function ProfileAddressPanel() {
 
       setOkMsg('Saved. Your representatives list has been updated.')
       setDetMsg(null)
+      setCombos([])
       // refresh visible snapshot
       setAddr(a => ({
         postal_code: postal || a.postal_code,
@@ -203,6 +248,7 @@ export default function ProfileAddressPanel() {
         cd: det.cd ?? a.cd,
         sd: det.sd ?? a.sd,
         hd: det.hd ?? a.hd,
+        district_source: det.cd || det.sd || det.hd ? source : a.district_source,
       }))
     } catch (e: any) {
       setError(e?.message || 'Save failed.')
@@ -228,6 +274,9 @@ export default function ProfileAddressPanel() {
             <div className="font-medium mb-1">Current on file</div>
             <div>ZIP: <span className="font-mono">{addr.postal_code || '—'}</span> • State: <span className="font-mono">{addr.state || '—'}</span></div>
             <div>CD: <span className="font-mono">{addr.cd || '—'}</span> • SD: <span className="font-mono">{addr.sd || '—'}</span> • HD: <span className="font-mono">{addr.hd || '—'}</span></div>
+            {addr.district_source && (
+              <div className="text-xs text-gray-600 mt-1">Districts {SOURCE_LABEL[addr.district_source]}.</div>
+            )}
             {(addr.line1 || addr.city) && (
               <div className="text-xs text-gray-600 mt-1">Street on file: {addr.line1 || ''}{addr.city ? `, ${addr.city}` : ''}</div>
             )}
@@ -281,6 +330,25 @@ export default function ProfileAddressPanel() {
           )}
         </div>
 
+        {/* Split ZIP: pick the combination that matches, or add a street and detect again */}
+        {combos.length > 0 && (
+          <fieldset className="rounded-md border p-3 text-sm space-y-2">
+            <legend className="px-1 font-medium">Which districts are yours?</legend>
+            <p className="text-xs text-gray-600">
+              ZIP {postal.trim()} spans more than one district. Pick the combination that matches where you live,
+              or add your street above and detect again to settle it. If you don't pick, we use the one covering most of the ZIP.
+            </p>
+            {combos.map((c, i) => (
+              <label key={`${c.state}-${c.cd}-${c.sd}-${c.hd}`} className="flex items-center gap-2">
+                <input type="radio" name="district-combo" checked={chosen === i} onChange={() => pickCombo(i)} />
+                <span className="font-mono">{c.state} • {comboLabel(c)}</span>
+                <span className="text-xs text-gray-500">~{c.share_pct}% of ZIP</span>
+                {i === 0 && <span className="text-xs text-amber-700">most of ZIP</span>}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
         {/* Live status + guidance (always visible when present) */}
         {(detMsg || det.note) && (
           <p className="text-xs mt-1" aria-live="polite">
@@ -295,7 +363,7 @@ export default function ProfileAddressPanel() {
         {okMsg && <p className="text-sm text-green-700">{okMsg}</p>}
 
         <p className="text-xs text-gray-500">
-          We detect districts through a secure server proxy to the U.S. Census Geocoder. By default, only ZIP, state, and districts are stored.
+          We detect districts from U.S. Census boundary files, using the Census Geocoder through a secure server proxy for street addresses. By default, only ZIP, state, and districts are stored.
           You can remove your street/city later — your districts will remain so the feature still works.
         </p>
       </CardContent>
@@ -0,0 +1,97 @@
+// src/lib/callScript.ts
+// Phone-call outreach: which office number to dial and a short script to read.
+
+export type CallOutcome = 'reached_staff' | 'voicemail' | 'busy';
+
+export const CALL_OUTCOMES: { outcome: CallOutcome; label: string }[] = [
+  { outcome: 'reached_staff', label: 'Reached staff' },
+  { outcome: 'voicemail', label: 'Left voicemail' },
+  { outcome: 'busy', label: 'Busy / no answer' },
+];
+
+type CallableRep = {
+  phone?: string | null;
+  level?: string | null;
+  district_office_address?: unknown;
+  dc_office_address?: unknown;
+};
+
+export type OfficePhone = {
+  /** As stored, e.g. "(202) 224-3121" */
+  number: string;
+  /** Which office picks up; null when we don't know */
+  office: 'district' | 'dc' | null;
+};
+
+function phoneIn(addr: unknown): string | null {
+  if (!addr || typeof addr !== 'object') return null;
+  const phone = (addr as Record<string, unknown>).phone;
+  return typeof phone === 'string' && phone.trim() ? phone.trim() : null;
+}
+
+/**
+ * The number constituents should call: the district office when we have its number
+ * (constituent calls are logged there), then the Washington office. Sync functions store
+ * the office's phone inside its address; representatives.phone is the number from the
+ * same source as the office address on file (Washington for federal officials).
+ */
+export function officePhoneFor(rep: CallableRep): OfficePhone | null {
+  const district = phoneIn(rep.district_office_address);
+  if (district) return { number: district, office: 'district' };
+  const dc = phoneIn(rep.dc_office_address);
+  if (dc) return { number: dc, office: 'dc' };
+  const main = rep.phone?.trim();
+  if (!main) return null;
+  if (rep.level === 'federal') return { number: main, office: 'dc' };
+  return { number: main, office: rep.district_office_address ? 'district' : null };
+}
+
+/** tel: link; US numbers get a +1 prefix, extensions are dropped. */
+export function telHref(number: string): string {
+  const digits = number.replace(/(?:ext\.?|x)\s*\d+\s*$/i, '').replace(/\D/g, '');
+  if (digits.length === 10) return `tel:+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `tel:+${digits}`;
+  return `tel:${digits}`;
+}
+
+/** First sentences of the prayer, at most `max` characters (cut at a word boundary otherwise). */
+export function summarizeForCall(text: string, max = 280): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= max) return clean;
+
+  const sentences = clean.match(/[^.!?]+[.!?]+["')\]]*\s*/g) ?? [];
+  let out = '';
+  for (const s of sentences) {
+    if ((out + s).trim().length > max) break;
+    out += s;
+  }
+  if (out.trim()) return out.trim();
+
+  const cut = clean.slice(0, max - 1);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), 1))}…`;
+}
+
+/** A script short enough to read to a staffer or a voicemail box in under a minute. */
+export function buildCallScript(opts: {
+  /** "Sen. Smith" */
+  addressee: string;
+  prayer: string;
+  callerName?: string | null;
+  city?: string | null;
+  zip?: string | null;
+}): string {
+  const from = [opts.city, opts.zip].filter(Boolean).join(', ');
+  const intro = [
+    'Hello, my name is',
+    opts.callerName?.trim() || '[your name]',
+    from ? `and I'm a constituent from ${from}.` : `and I'm a constituent.`,
+  ].join(' ');
+  const summary = summarizeForCall(opts.prayer);
+
+  return [
+    intro,
+    `I'm calling to share a prayer concern with ${opts.addressee}:`,
+    summary ? `"${summary}"` : '',
+    `I'm praying for ${opts.addressee} and the whole office. Could you please pass this along? Thank you for your time.`,
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,249 @@
+// src/lib/campaigns.ts
+// Coordinated outreach campaigns: an organizer's prayer + message template that every
+// participant sends to their own mapped representatives of the targeted office kinds.
+
+import { supabase } from '@/lib/supabase';
+import { outreach, type OutreachChannel, type OutreachQuota } from '@/lib/outreach';
+import { assignRepsForCurrentUser } from '@/lib/reps';
+import { renderMessageTemplate, repTemplateValues, templateProblems } from '@/lib/messageTemplates';
+import type { Database } from '@/types/database';
+import type { OutreachCampaign } from '@/types/dbTypes';
+
+type PrayerCategory = Database['public']['Enums']['prayer_category'];
+
+export type CampaignOffice = 'us_senate' | 'us_house' | 'state_upper' | 'state_lower' | 'executive' | 'local';
+
+// Mirrors campaign_office_key() in the campaigns migration
+export const CAMPAIGN_OFFICES: { key: CampaignOffice; label: string }[] = [
+  { key: 'us_senate', label: 'U.S. Senators' },
+  { key: 'us_house', label: 'U.S. Representatives' },
+  { key: 'state_upper', label: 'State Senators' },
+  { key: 'state_lower', label: 'State Representatives' },
+  { key: 'executive', label: 'Executive offices' },
+  { key: 'local', label: 'Local officials' },
+];
+
+export function campaignOfficeKey(level: string | null, chamber: string | null): CampaignOffice | null {
+  if (level === 'federal' && chamber === 'senate') return 'us_senate';
+  if (level === 'federal' && chamber === 'house') return 'us_house';
+  if (level === 'state' && (chamber === 'upper' || chamber === 'senate')) return 'state_upper';
+  if (level === 'state' && (chamber === 'lower' || chamber === 'house')) return 'state_lower';
+  if (chamber === 'executive') return 'executive';
+  if (level === 'local') return 'local';
+  return null;
+}
+
+/** Per-office aggregates from the `campaign_stats()` DB function (no user ids). */
+export type CampaignOfficeStats = {
+  rep_id: string;
+  name: string;
+  office_name: string;
+  state: string | null;
+  district: string | null;
+  office_key: CampaignOffice | null;
+  participants: number;
+  sent: number;
+  queued: number;
+  failed: number;
+};
+
+export type CampaignStats = {
+  participants: number;
+  senders: number;
+  sent: number;
+  queued: number;
+  failed: number;
+  offices: CampaignOfficeStats[];
+};
+
+type TargetRep = {
+  id: string;
+  name: string;
+  office_name: string;
+  level: string | null;
+  chamber: string | null;
+  state: string | null;
+  district: string | null;
+};
+
+export function campaignIsOpen(c: Pick<OutreachCampaign, 'published' | 'starts_at' | 'ends_at'>, now = new Date()): boolean {
+  return c.published && new Date(c.starts_at) <= now && now < new Date(c.ends_at);
+}
+
+/** URL slug from a title: "Pray for the Senate vote!" → "pray-for-the-senate-vote" */
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+}
+
+export const campaigns = {
+  /** Published campaigns that haven't ended, soonest-ending first. */
+  listOpen: async () => {
+    const { data, error } = await supabase
+      .from('outreach_campaigns')
+      .select('*')
+      .eq('published', true)
+      .gt('ends_at', new Date().toISOString())
+      .order('ends_at', { ascending: true });
+    return { data, error };
+  },
+
+  getBySlug: async (slug: string) => {
+    const { data, error } = await supabase
+      .from('outreach_campaigns')
+      .select('*, prayers:prayer_id ( content )')
+      .eq('slug', slug)
+      .maybeSingle();
+    return { data, error };
+  },
+
+  /** Organizer flow: post the campaign prayer (public) and the campaign that points at it. */
+  create: async (input: {
+    organizerId: string;
+    slug: string;
+    title: string;
+    description?: string | null;
+    prayer: string;
+    category: PrayerCategory;
+    subject: string;
+    body: string;
+    targetOffices: CampaignOffice[];
+    startsAt: string;
+    endsAt: string;
+    published: boolean;
+  }): Promise<{ data: OutreachCampaign | null; error: { message: string } | null }> => {
+    const { data: prayer, error: prayerErr } = await supabase
+      .from('prayers')
+      .insert({
+        author_id: input.organizerId,
+        category: input.category,
+        content: input.prayer.trim(),
+        visibility: 'public',
+        group_id: null,
+        circle_id: null,
+        is_featured: false,
+      })
+      .select('id')
+      .single();
+    if (prayerErr) return { data: null, error: prayerErr };
+
+    const { data, error } = await supabase
+      .from('outreach_campaigns')
+      .insert({
+        slug: input.slug,
+        title: input.title.trim(),
+        description: input.description?.trim() || null,
+        prayer_id: prayer.id,
+        subject: input.subject,
+        body: input.body,
+        target_offices: input.targetOffices,
+        starts_at: input.startsAt,
+        ends_at: input.endsAt,
+        published: input.published,
+      })
+      .select('*')
+      .single();
+    if (error) {
+      // Don't leave an orphaned campaign prayer in the feed
+      await supabase.from('prayers').delete().eq('id', prayer.id);
+      return { data: null, error: error.code === '23505' ? { message: 'That link is already taken; pick another.' } : error };
+    }
+    return { data, error: null };
+  },
+
+  isParticipant: async (campaignId: string, userId: string): Promise<boolean> => {
+    const { data } = await supabase
+      .from('outreach_campaign_participants')
+      .select('campaign_id')
+      .eq('campaign_id', campaignId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    return !!data;
+  },
+
+  join: async (campaignId: string) => {
+    const { error } = await supabase.from('outreach_campaign_participants').insert({ campaign_id: campaignId });
+    // 23505: already joined
+    return { error: error && error.code !== '23505' ? error : null };
+  },
+
+  leave: async (campaignId: string, userId: string) => {
+    const { error } = await supabase
+      .from('outreach_campaign_participants')
+      .delete()
+      .eq('campaign_id', campaignId)
+      .eq('user_id', userId);
+    return { error };
+  },
+
+  getStats: async (campaignId: string): Promise<{ data: CampaignStats | null; error: { message: string } | null }> => {
+    const { data, error } = await supabase.rpc('campaign_stats', { p_campaign: campaignId });
+    if (error) return { data: null, error };
+    return { data: data as unknown as CampaignStats, error: null };
+  },
+
+  /**
+   * Participant flow: queue the campaign message to the user's own mapped reps of the
+   * targeted office kinds. The template must resolve for every one of them first.
+   */
+  send: async (opts: {
+    campaign: OutreachCampaign;
+    userId: string;
+    channels?: OutreachChannel[];
+  }): Promise<{ queued: number; error: { message: string } | null; quota: OutreachQuota | null }> => {
+    const { campaign, userId } = opts;
+    try { await assignRepsForCurrentUser(); } catch { /* non-fatal */ }
+
+    const [repsRes, profileRes, addressRes, prayerRes] = await Promise.all([
+      supabase
+        .from('user_representatives')
+        .select('rep_id, representatives!inner(id, name, office_name, level, chamber, state, district)')
+        .eq('user_id', userId),
+      supabase.from('profiles').select('first_name, last_name, display_name').eq('id', userId).maybeSingle(),
+      supabase.from('user_addresses').select('postal_code').eq('user_id', userId).eq('is_primary', true).maybeSingle(),
+      supabase.from('prayers').select('content').eq('id', campaign.prayer_id).maybeSingle(),
+    ]);
+    if (repsRes.error) return { queued: 0, error: repsRes.error, quota: null };
+
+    const targets = ((repsRes.data ?? []) as unknown as { representatives: TargetRep }[])
+      .map(r => r.representatives)
+      .filter(rep => {
+        const key = campaignOfficeKey(rep.level, rep.chamber);
+        return !!key && campaign.target_offices.includes(key);
+      });
+    if (!targets.length) {
+      return { queued: 0, error: { message: 'None of your representatives are targets of this campaign.' }, quota: null };
+    }
+
+    // Same values the processor resolves per rep (src/lib/messageTemplates)
+    const p = profileRes.data;
+    const shared = {
+      'prayer.content': prayerRes.data?.content ?? '',
+      'user.name': [p?.first_name, p?.last_name].filter(Boolean).join(' ') || p?.display_name || '',
+      'user.zip': addressRes.data?.postal_code ?? null,
+    };
+    for (const rep of targets) {
+      const values = { ...repTemplateValues({ name: rep.name, office: rep.office_name, state: rep.state, district: rep.district }), ...shared };
+      const problems = templateProblems([
+        renderMessageTemplate(campaign.subject, values),
+        renderMessageTemplate(campaign.body, values),
+      ]);
+      if (problems.length) return { queued: 0, error: { message: `Can't send to ${rep.name}: ${problems.join('; ')}.` }, quota: null };
+    }
+
+    const res = await outreach.enqueueOutreachToSelected({
+      userId,
+      prayerId: campaign.prayer_id,
+      repIds: targets.map(rep => rep.id),
+      channels: opts.channels ?? ['email'],
+      subject: campaign.subject,
+      body: campaign.body,
+      campaignId: campaign.id,
+    });
+    return { queued: res.data?.length ?? 0, error: res.error, quota: res.quota };
+  },
+};
@@ -0,0 +1,26 @@
+// src/lib/csv.ts
+// Minimal RFC 4180 CSV writer for client-side exports.
+
+type Cell = string | number | boolean | null | undefined;
+
+function escapeCell(v: Cell): string {
+  if (v == null) return '';
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(header: string[], rows: Cell[][]): string {
+  return [header, ...rows].map(r => r.map(escapeCell).join(',')).join('\r\n');
+}
+
+/** Save CSV text as a file via a temporary object URL. */
+export function downloadCsv(filename: string, csv: string) {
+  // BOM so Excel opens UTF-8 (prayer text, names) correctly
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
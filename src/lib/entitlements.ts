@@ -0,0 +1,88 @@
+// src/lib/entitlements.ts
+// Single source of truth for what each plan unlocks.
+//
+// Shared by the app and the Netlify functions (imported there via a relative
+// path), so keep this file dependency-free: no `@/` aliases, no import.meta.
+
+/** Plan keys. Paid plans match the DB `subscription_tier` enum; `admin` only exists on profiles.tier. */
+export type Plan = 'free' | 'faith_warrior' | 'kingdom_builder' | 'admin';
+export type PaidPlan = Extract<Plan, 'faith_warrior' | 'kingdom_builder'>;
+
+export type OutreachChannel = 'email' | 'x' | 'facebook' | 'contact_form' | 'letter' | 'call';
+
+export type FeatureFlag =
+  | 'prayerGroups'
+  | 'advancedAnalytics'
+  | 'prioritySupport'
+  | 'ministryDashboard';
+
+export type Entitlements = {
+  /** Display name used on Pricing, TierPill and the outreach modal. */
+  label: string;
+  /** Representatives a user may contact per UTC day. */
+  dailyOutreachCap: number;
+  /** Outreach channels the processor will deliver for this plan. */
+  channels: readonly OutreachChannel[];
+  canCreateGroups: boolean;
+  features: Record<FeatureFlag, boolean>;
+};
+
+export const PLANS: Record<Plan, Entitlements> = {
+  free: {
+    label: 'Believer',
+    dailyOutreachCap: 5,
+    // contact_form is email's stand-in for offices that only take web forms;
+    // calls are placed by the user, so every plan can log them
+    channels: ['email', 'contact_form', 'call'],
+    canCreateGroups: false,
+    features: { prayerGroups: false, advancedAnalytics: false, prioritySupport: false, ministryDashboard: false },
+  },
+  faith_warrior: {
+    label: 'Disciple',
+    dailyOutreachCap: 10,
+    channels: ['email', 'contact_form', 'x', 'facebook', 'letter', 'call'],
+    canCreateGroups: false,
+    features: { prayerGroups: true, advancedAnalytics: true, prioritySupport: true, ministryDashboard: false },
+  },
+  kingdom_builder: {
+    label: 'Shepherd',
+    dailyOutreachCap: 20,
+    channels: ['email', 'contact_form', 'x', 'facebook', 'letter', 'call'],
+    canCreateGroups: true,
+    features: { prayerGroups: true, advancedAnalytics: true, prioritySupport: true, ministryDashboard: true },
+  },
+  admin: {
+    label: 'Admin',
+    dailyOutreachCap: 1000,
+    channels: ['email', 'contact_form', 'x', 'facebook', 'letter', 'call'],
+    canCreateGroups: true,
+    features: { prayerGroups: true, advancedAnalytics: true, prioritySupport: true, ministryDashboard: true },
+  },
+};
+
+/** Cheapest first; used to pick the best plan among several subscriptions. */
+export const PLAN_RANK: Record<Plan, number> = { free: 0, faith_warrior: 1, kingdom_builder: 2, admin: 3 };
+
+// Older spellings still found in profiles.tier and client code
+const LEGACY_ALIASES: Record<string, Plan> = {
+  basic: 'free',
+  supporter: 'faith_warrior',
+  premium: 'faith_warrior',
+  patron: 'kingdom_builder',
+  leader: 'kingdom_builder',
+};
+
+/** Map any stored tier string (current or legacy) to a Plan; unknown values fall back to free. */
+export function normalizePlan(raw: string | null | undefined): Plan {
+  const v = (raw || '').trim().toLowerCase();
+  if (v in PLANS) return v as Plan;
+  return LEGACY_ALIASES[v] ?? 'free';
+}
+
+export function entitlementsFor(plan: string | null | undefined): Entitlements {
+  return PLANS[normalizePlan(plan)];
+}
+
+export function hasFeature(plan: string | null | undefined, flag: FeatureFlag): boolean {
+  return entitlementsFor(plan).features[flag];
+}
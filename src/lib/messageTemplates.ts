@@ -0,0 +1,118 @@
+// src/lib/messageTemplates.ts
+// Outreach message templates: {{variables}} resolved per representative.
+//
+// Shared by the app (preview + validation before enqueue) and the outreach processor
+// (renders each queued row), so keep this file dependency-free like entitlements.ts.
+
+export const TEMPLATE_VARIABLES = [
+  { key: 'rep.title', label: 'Title', example: 'Sen.' },
+  { key: 'rep.last_name', label: 'Last name', example: 'Sample' },
+  { key: 'rep.name', label: 'Full name', example: 'Jane Sample' },
+  { key: 'rep.office', label: 'Office', example: 'U.S. Senator' },
+  { key: 'district', label: 'District', example: 'TX-21' },
+  { key: 'prayer.content', label: 'Prayer', example: 'Lord, grant our leaders wisdom…' },
+  { key: 'user.name', label: 'Your name', example: 'John Doe' },
+  { key: 'user.zip', label: 'Your ZIP', example: '78701' },
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number]['key'];
+export type TemplateValues = Partial<Record<TemplateVariable, string | null>>;
+
+export type RenderedTemplate = {
+  text: string;
+  /** Known variables with no value for this recipient (rendered empty). */
+  missing: TemplateVariable[];
+  /** {{names}} that aren't template variables (left as written). */
+  unknown: string[];
+};
+
+const VARIABLE_RE = /\{\{\s*([\w.]+)\s*\}\}/g;
+const KNOWN = new Set<string>(TEMPLATE_VARIABLES.map((v) => v.key));
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Representative naming (also used for greetings)
+// ──────────────────────────────────────────────────────────────────────────────
+function normalizeOffice(office: string | null): string {
+  return (office || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().replace(/\s+/g, ' ');
+}
+
+export function titleForRep(office: string | null): 'Sen.' | 'Rep.' | 'President' | 'Mayor' | 'Hon.' {
+  const o = normalizeOffice(office);
+  if (o.includes('president')) return 'President';
+  if (o.startsWith('mayor of')) return 'Mayor';
+  if (o.includes('senate') || o.includes('senator')) return 'Sen.';
+  if (o.includes('house') || o.includes('representative') || o.includes('congress')) return 'Rep.';
+  return 'Hon.';
+}
+
+export function lastNameFrom(name: string): string {
+  const raw = (name || '').replace(/[.,]/g, ' ').trim();
+  const parts = raw.split(/\s+/);
+  const suffixes = new Set(['jr', 'jr.', 'sr', 'sr.', 'ii', 'iii', 'iv', 'phd', 'm.d.', 'md', 'esq', 'esq.']);
+  while (parts.length && suffixes.has(parts[parts.length - 1].toLowerCase())) parts.pop();
+  return parts.length ? parts[parts.length - 1] : (name || '').trim();
+}
+
+/**
+ * "TX-21" for district seats, "TX" for statewide offices (U.S. Senate, governor);
+ * null when the district number isn't on file.
+ */
+export function districtLabel(rep: { office: string | null; state?: string | null; district?: string | null }): string | null {
+  const st = (rep.state || '').toUpperCase();
+  const num = rep.district?.match(/\d+/)?.[0];
+  if (num) return st ? `${st}-${num}` : num;
+  if (/at[- ]?large/i.test(rep.district || '')) return st ? `${st}-AL` : 'At-Large';
+  const o = normalizeOffice(rep.office);
+  const statewide = (o.includes('senat') && (o.includes('united states') || o.includes('u s') || o.includes('us '))) || o.includes('governor');
+  return statewide && st ? st : null;
+}
+
+/** Per-recipient values from the rep row; pair with the sender/prayer values via `...`. */
+export function repTemplateValues(rep: { name: string; office: string | null; state?: string | null; district?: string | null }): TemplateValues {
+  return {
+    'rep.title': titleForRep(rep.office),
+    'rep.last_name': lastNameFrom(rep.name),
+    'rep.name': rep.name,
+    'rep.office': rep.office,
+    district: districtLabel(rep),
+  };
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Rendering
+// ──────────────────────────────────────────────────────────────────────────────
+/** Distinct {{names}} in `text`, in order of first use. */
+export function templateVariablesIn(text: string): string[] {
+  const seen = new Set<string>();
+  for (const m of (text || '').matchAll(VARIABLE_RE)) seen.add(m[1]);
+  return [...seen];
+}
+
+export function isTemplateVariable(key: string): key is TemplateVariable {
+  return KNOWN.has(key);
+}
+
+export function renderMessageTemplate(text: string, values: TemplateValues): RenderedTemplate {
+  const missing = new Set<TemplateVariable>();
+  const unknown = new Set<string>();
+  const out = (text || '').replace(VARIABLE_RE, (whole, key: string) => {
+    if (!isTemplateVariable(key)) {
+      unknown.add(key);
+      return whole;
+    }
+    const value = values[key]?.trim();
+    if (!value) missing.add(key);
+    return value || '';
+  });
+  return { text: out, missing: [...missing], unknown: [...unknown] };
+}
+
+/** Human-readable problems for one recipient, or [] when subject and body fully resolve. */
+export function templateProblems(rendered: RenderedTemplate[]): string[] {
+  const missing = new Set(rendered.flatMap((r) => r.missing));
+  const unknown = new Set(rendered.flatMap((r) => r.unknown));
+  const problems: string[] = [];
+  if (unknown.size) problems.push(`unknown variable(s): ${[...unknown].map((k) => `{{${k}}}`).join(', ')}`);
+  if (missing.size) problems.push(`no value for ${[...missing].map((k) => `{{${k}}}`).join(', ')}`);
+  return problems;
+}
@@ -0,0 +1,82 @@
+// src/lib/ocd.ts
+// Open Civic Data division IDs for U.S. geographies, e.g.
+//   ocd-division/country:us/state:tx/cd:7
+//   ocd-division/country:us/state:tx/county:travis
+// Representatives are linked to divisions through representative_divisions; a user's
+// address resolves to the set of divisions they live in. No imports: the Netlify
+// functions share this file.
+
+export const OCD_COUNTRY = 'ocd-division/country:us';
+
+/** OCD identifiers are lowercase; spaces become underscores and only [a-z0-9._~-] remain. */
+export function ocdSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '_')
+    .replace(/[^a-z0-9._~-]/g, '');
+}
+
+export function stateDivision(state: string): string {
+  return `${OCD_COUNTRY}/state:${state.trim().toLowerCase()}`;
+}
+
+/** At-large seats use cd:1, matching reps-sync. */
+export function cdDivision(state: string, cd: string): string {
+  const n = String(cd).match(/\d+/)?.[0];
+  return `${stateDivision(state)}/cd:${n && n !== '0' ? String(parseInt(n, 10)) : '1'}`;
+}
+
+export function slduDivision(state: string, sd: string): string {
+  return `${stateDivision(state)}/sldu:${ocdSlug(sd)}`;
+}
+
+export function sldlDivision(state: string, hd: string): string {
+  return `${stateDivision(state)}/sldl:${ocdSlug(hd)}`;
+}
+
+/** "Travis County" → county:travis; Louisiana parishes and Alaska boroughs use their own types. */
+export function countyDivision(state: string, county: string): string {
+  const st = state.trim().toUpperCase();
+  const type = st === 'LA' ? 'parish' : st === 'AK' ? 'borough' : 'county';
+  const name = county.replace(/\s+(county|parish|borough|census area|city and borough|municipality)$/i, '');
+  return `${stateDivision(state)}/${type}:${ocdSlug(name)}`;
+}
+
+/** "Austin" or "Austin city" → place:austin */
+export function placeDivision(state: string, place: string): string {
+  const name = place.replace(/\s+(city|town|village|borough|municipality|CDP)$/i, '');
+  return `${stateDivision(state)}/place:${ocdSlug(name)}`;
+}
+
+/** Division types below the state that are local government (county and city officials). */
+export const LOCAL_DIVISION_TYPES = ['county', 'parish', 'borough', 'place'] as const;
+
+/** The OCD type of a division's last segment, e.g. 'cd' or 'county'. */
+export function divisionType(id: string): string | null {
+  return id.split('/').pop()?.split(':')[0] ?? null;
+}
+
+export type DivisionAddress = {
+  state: string | null;
+  cd?: string | null;
+  sd?: string | null;
+  hd?: string | null;
+  county?: string | null;
+  muni?: string | null;
+};
+
+/** Every division the address lies in: country, state, U.S. House, state senate and house, county, place. */
+export function divisionsForAddress(addr: DivisionAddress): string[] {
+  const out = [OCD_COUNTRY];
+  const st = (addr.state || '').trim();
+  if (!/^[A-Za-z]{2}$/.test(st)) return out;
+
+  out.push(stateDivision(st));
+  if (addr.cd) out.push(cdDivision(st, addr.cd));
+  if (addr.sd) out.push(slduDivision(st, addr.sd));
+  if (addr.hd) out.push(sldlDivision(st, addr.hd));
+  if (addr.county) out.push(countyDivision(st, addr.county));
+  if (addr.muni) out.push(placeDivision(st, addr.muni));
+  return out;
+}
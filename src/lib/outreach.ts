@@ -3,10 +3,100 @@
 import { supabase } from '@/lib/supabase';
 import type { Database } from '@/types/database';
 import { assignRepsForCurrentUser } from '@/lib/reps';
+import type { OutreachChannel } from '@/lib/entitlements';
+import type { CallOutcome } from '@/lib/callScript';
+import type { DeliveryStatus } from '@/types/dbTypes';
 
 type Tables = Database['public']['Tables'];
 type OutreachRequestRow = Tables['outreach_requests']['Row'];
-export type OutreachChannel = 'email' | 'x' | 'facebook';
+type OutreachTemplateRow = Tables['outreach_templates']['Row'];
+export type { OutreachChannel };
+
+/** Per-channel delivery outcomes (counts of outreach_deliveries rows by status). */
+export type ChannelOutcomes = Record<DeliveryStatus, number> & {
+  requested: number;
+  attempts: number;
+};
+
+/** Daily quota as computed by the `outreach_quota()` DB function (UTC day). */
+export type OutreachQuota = {
+  cap: number;
+  used: number;
+  remaining: number;
+  source: 'plan' | 'override'; // 'override' = row in user_daily_limits
+  day: string;
+};
+
+async function fetchQuota(): Promise<{ data: OutreachQuota | null; error: { message: string } | null }> {
+  const { data, error } = await supabase.rpc('outreach_quota');
+  if (error) return { data: null, error };
+  return { data: data as unknown as OutreachQuota, error: null };
+}
+
+type RepContact = {
+  email?: string | null;
+  contact_email?: string | null;
+  contact_form_url?: string | null;
+  level?: string | null;
+  district_office_address?: unknown;
+  dc_office_address?: unknown;
+  twitter?: string | null;
+  twitter_handle?: string | null;
+  facebook?: string | null;
+  facebook_page_url?: string | null;
+};
+
+/** Whether a representative can be reached on at least one of the requested channels. */
+function repReachable(rep: RepContact | null | undefined, channels: OutreachChannel[]): boolean {
+  if (!rep) return false;
+  return channels.some((ch) => {
+    // email falls back to the office's web form when no address is on file
+    if (ch === 'email') return !!(rep.email ?? rep.contact_email ?? rep.contact_form_url);
+    if (ch === 'contact_form') return !!rep.contact_form_url;
+    // federal legislators always have the Capitol address to fall back on
+    if (ch === 'letter') return !!(rep.district_office_address || rep.dc_office_address || rep.level === 'federal');
+    if (ch === 'x') return !!(rep.twitter_handle || rep.twitter);
+    if (ch === 'facebook') return !!(rep.facebook_page_url || rep.facebook);
+    // 'call' is never queued; the user places the call and logs it with outreach.logCall
+    return false;
+  });
+}
+
+// Must match executive-sync, which seeds the President's row
+const NATIONAL_DIVISION = 'ocd-division/country:us';
+const PRESIDENT_OFFICE = 'President of the United States';
+
+/** The President as shown in the send confirmation. */
+export type PresidentRow = { id: string; name: string; office_name: string; contact_form_url: string | null };
+
+// Must match LETTER_BUCKET in the outreach processor (default bucket from the letters migration)
+const LETTER_BUCKET = 'outreach-letters';
+
+/** A request as listed on the My Outreach page (rep, prayer and per-channel deliveries joined). */
+export type OutreachHistoryRow = OutreachRequestRow & {
+  representatives: { name: string; office_name: string; state: string | null; district: string | null } | null;
+  prayers: { content: string } | null;
+  /** intent_url: share link the user still has to open (status 'intent'). */
+  outreach_deliveries: { channel: string; status: DeliveryStatus; error: string | null; sent_at: string | null; intent_url: string | null }[];
+};
+
+export type OutreachHistoryFilters = {
+  status?: OutreachRequestRow['status'] | null;
+  repId?: string | null;
+  /** Inclusive YYYY-MM-DD bounds on when the request was created. */
+  from?: string | null;
+  to?: string | null;
+};
+
+/** Result of the retry/cancel DB functions; `skipped` rows were not eligible. */
+export type OutreachBulkResult = { queued?: number; throttled?: number; cancelled?: number; skipped: number };
+
+/** A message the user edited for one recipient (replaces the shared subject/body for that rep). */
+export type RecipientOverride = { subject?: string | null; body?: string | null };
+
+function overrideColumns(o: RecipientOverride | undefined) {
+  return { subject_override: o?.subject ?? null, body_override: o?.body ?? null };
+}
 
 function todayYMD() {
   return new Date().toISOString().slice(0, 10); // YYYY-MM-DD
@@ -18,9 +108,13 @@ async function requeueFailedForToday(params: {
   repIds: string[];
   subject?: string | null;
   body?: string | null;
+  templateId?: string | null;
+  overrides?: Record<string, RecipientOverride>;
+  campaignId?: string | null;
+  deliverAfter?: Record<string, string | null>;
   channels: OutreachChannel[];
 }) {
-  if (!params.repIds.length) return { requeuedIds: [] as string[] };
+  if (!params.repIds.length) return { requeuedIds: [] as string[], error: null };
 
   const { data: existing, error: existErr } = await supabase
     .from('outreach_requests')
@@ -30,25 +124,64 @@ async function requeueFailedForToday(params: {
     .eq('send_date', todayYMD())
     .in('target_rep_id', params.repIds);
 
-  if (existErr) return { requeuedIds: [] as string[] };
+  if (existErr) return { requeuedIds: [] as string[], error: existErr };
 
-  const toRequeue = (existing ?? []).filter(r => r.status === 'failed' || r.status === 'throttled');
-  const toRequeueIds = toRequeue.map(r => r.id);
+  const toRequeue = (existing ?? []).filter(r => r.status === 'failed' || r.status === 'throttled' || r.status === 'cancelled');
+  if (!toRequeue.length) return { requeuedIds: [] as string[], error: null };
 
-  if (toRequeueIds.length) {
-    await supabase
+  // 1) The new message goes on the rows first, so the drain can't pick one up with the old text
+  const message = {
+    subject: params.subject ?? null,
+    body: params.body ?? null,
+    template_id: params.templateId ?? null,
+    ...(params.campaignId ? { campaign_id: params.campaignId } : {}),
+    channels: params.channels,
+    deliver_after: null as string | null,
+    ...overrideColumns(undefined),
+  };
+
+  // Per-recipient edits and delivery times differ row by row, so those rows get their own update
+  const custom = (r: { target_rep_id: string }) =>
+    !!(params.overrides?.[r.target_rep_id] || params.deliverAfter?.[r.target_rep_id]);
+
+  const plainIds = toRequeue.filter(r => !custom(r)).map(r => r.id);
+  if (plainIds.length) {
+    const { error } = await supabase.from('outreach_requests').update(message).in('id', plainIds);
+    if (error) return { requeuedIds: [] as string[], error };
+  }
+  for (const r of toRequeue.filter(custom)) {
+    const o = params.overrides?.[r.target_rep_id];
+    const { error } = await supabase
       .from('outreach_requests')
       .update({
-        status: 'queued',
-        error: null,
-        subject: params.subject ?? null,
-        body: params.body ?? null,
-        channels: params.channels,
+        ...message,
+        ...(o ? overrideColumns(o) : {}),
+        deliver_after: params.deliverAfter?.[r.target_rep_id] ?? null,
       })
-      .in('id', toRequeueIds);
+      .eq('id', r.id);
+    if (error) return { requeuedIds: [] as string[], error };
   }
 
-  return { requeuedIds: toRequeueIds };
+  // 2) Re-queue through the DB (today's date, cap check, delivery reset); owners can't set status directly
+  const ids = toRequeue.map(r => r.id);
+  const { data: retried, error: retryErr } = await supabase.rpc('retry_outreach_requests', { p_ids: ids });
+  if (retryErr) return { requeuedIds: [] as string[], error: retryErr };
+
+  // Only rows the retry actually moved count (over-cap ones come back throttled)
+  const { data: after, error: readErr } = await supabase
+    .from('outreach_requests')
+    .select('id, status')
+    .in('id', ids);
+  if (readErr) return { requeuedIds: [] as string[], error: readErr };
+  const requeuedIds = (after ?? [])
+    .filter(r => r.status === 'queued' || r.status === 'throttled')
+    .map(r => r.id);
+
+  const skipped = Number((retried as { skipped?: number } | null)?.skipped ?? 0);
+  const error = skipped
+    ? { message: `${skipped} earlier request(s) could not be re-queued.` }
+    : null;
+  return { requeuedIds, error };
 }
 
 async function findAlreadyHandledToday(params: {
@@ -65,16 +198,16 @@ async function findAlreadyHandledToday(params: {
     .eq('send_date', todayYMD())
     .in('target_rep_id', params.repIds);
 
-  // Treat queued/sent as already handled; failed/throttled may get requeued by caller.
+  // Treat queued/sent/pending_user as already handled; failed/throttled/cancelled may get requeued by caller.
   const skip = new Set<string>();
   for (const r of data ?? []) {
-    if (r.status === 'queued' || r.status === 'sent') skip.add(r.target_rep_id as string);
+    if (r.status === 'queued' || r.status === 'sent' || r.status === 'pending_user') skip.add(r.target_rep_id as string);
   }
   return skip;
 }
 
 export const outreach = {
-  /** Queue outreach for ALL mapped reps (only reps that have an email). Also requeues today's failed/throttled. */
+  /** Queue outreach for ALL mapped reps (only reps reachable on one of `channels`). Also requeues today's failed/throttled. */
   enqueueOutreach: async (opts: {
     userId: string;
     prayerId: string;
@@ -84,21 +217,21 @@ export const outreach = {
   }): Promise<{ data: OutreachRequestRow[] | null; error: any }> => {
     try { await assignRepsForCurrentUser(); } catch { /* non-fatal */ }
 
-    // Pull ONLY mapped reps that actually have an email
+    // Pull ONLY mapped reps reachable on a requested channel
     const { data: reps, error: repsErr } = await supabase
       .from('user_representatives')
-.select('rep_id, representatives!inner(id,email,contact_email)')
-.eq('user_id', opts.userId);
+      .select('rep_id, representatives!inner(id,email,contact_email,contact_form_url,twitter,twitter_handle,facebook,facebook_page_url,level,district_office_address,dc_office_address)')
+      .eq('user_id', opts.userId);
 
     if (repsErr) return { data: null, error: repsErr };
 
     const repIdsWithEmail = (reps ?? [])
-  .filter((r: any) => (r.representatives?.email ?? r.representatives?.contact_email))
-  .map((r: any) => r.rep_id as string);
+      .filter((r: any) => repReachable(r.representatives, opts.channels))
+      .map((r: any) => r.rep_id as string);
 
 
     // Requeue failed/throttled for today
-    const { requeuedIds } = await requeueFailedForToday({
+    const { requeuedIds, error: requeueErr } = await requeueFailedForToday({
       userId: opts.userId,
       prayerId: opts.prayerId,
       repIds: repIdsWithEmail,
@@ -150,10 +283,19 @@ export const outreach = {
       requeuedRows = (data ?? []) as OutreachRequestRow[];
     }
 
-    return { data: [...requeuedRows, ...inserted], error: null };
+    return { data: [...requeuedRows, ...inserted], error: requeueErr };
   },
 
-  /** Queue outreach for a SELECTED subset (only those that have an email). Also requeues today's failed/throttled. */
+  /**
+   * Queue outreach for a SELECTED subset (only reps reachable on one of `channels`). Also requeues today's failed/throttled.
+   * Only as many reps as today's remaining quota are queued; the DB trigger throttles anything past the cap
+   * regardless, so `quota` (read back after the insert) is the authoritative remaining/used/cap.
+   * `subject`/`body` may contain template variables; the processor resolves them per rep.
+   * `overrides` (by rep id) replace them for individual recipients; `campaignId` tags the
+   * requests for a campaign (the DB checks the user joined and the reps are campaign targets).
+   * `deliverAfter` (by rep id, ISO time) holds a recipient's request until then (src/lib/schedule);
+   * scheduled requests still count toward today's cap.
+   */
   enqueueOutreachToSelected: async (opts: {
     userId: string;
     prayerId: string;
@@ -161,42 +303,62 @@ export const outreach = {
     channels: OutreachChannel[];
     subject?: string;
     body?: string;
-  }): Promise<{ data: OutreachRequestRow[] | null; error: any }> => {
-    if (!opts.repIds.length) return { data: [], error: null };
-
-    // Constrain to reps that are mapped to this user AND have an email
+    templateId?: string | null;
+    overrides?: Record<string, RecipientOverride>;
+    campaignId?: string | null;
+    deliverAfter?: Record<string, string | null>;
+  }): Promise<{ data: OutreachRequestRow[] | null; error: any; quota: OutreachQuota | null }> => {
+    if (!opts.repIds.length) return { data: [], error: null, quota: null };
+
+    // Constrain to reps that are mapped to this user AND reachable on a requested channel
     const { data: reps, error: repsErr } = await supabase
       .from('user_representatives')
-      .select('rep_id, representatives!inner(id,contact_email)')
+      .select('rep_id, representatives!inner(id,email,contact_email,contact_form_url,twitter,twitter_handle,facebook,facebook_page_url,level,district_office_address,dc_office_address)')
       .eq('user_id', opts.userId)
       .in('rep_id', opts.repIds);
 
-    if (repsErr) return { data: null, error: repsErr };
+    if (repsErr) return { data: null, error: repsErr, quota: null };
 
-    const repIdsWithEmail = (reps ?? [])
-      .filter((r: any) => r.representatives?.contact_email)
+    const reachableRepIds = (reps ?? [])
+      .filter((r: any) => repReachable(r.representatives, opts.channels))
       .map((r: any) => r.rep_id as string);
 
-    // Requeue failed/throttled for today
-    const { requeuedIds } = await requeueFailedForToday({
+    // Skip reps that already have queued/sent today (they don't need more quota)
+    const skip = await findAlreadyHandledToday({
       userId: opts.userId,
       prayerId: opts.prayerId,
-      repIds: repIdsWithEmail,
-      subject: opts.subject ?? null,
-      body: opts.body ?? null,
-      channels: opts.channels,
+      repIds: reachableRepIds,
     });
 
-    // Skip reps that already have queued/sent today
-    const skip = await findAlreadyHandledToday({
+    const { data: before, error: quotaErr } = await fetchQuota();
+    if (quotaErr) return { data: null, error: quotaErr, quota: null };
+
+    const wanted = reachableRepIds.filter(id => !skip.has(id));
+    const fitting = wanted.slice(0, before?.remaining ?? 0);
+    if (wanted.length && !fitting.length) {
+      return {
+        data: null,
+        error: { message: `Daily outreach limit reached (${before?.cap ?? 0} per day).` },
+        quota: before,
+      };
+    }
+
+    // Requeue failed/throttled for today
+    const { requeuedIds, error: requeueErr } = await requeueFailedForToday({
       userId: opts.userId,
       prayerId: opts.prayerId,
-      repIds: repIdsWithEmail,
+      repIds: fitting,
+      subject: opts.subject ?? null,
+      body: opts.body ?? null,
+      templateId: opts.templateId,
+      overrides: opts.overrides,
+      campaignId: opts.campaignId,
+      deliverAfter: opts.deliverAfter,
+      channels: opts.channels,
     });
 
-    const toInsertRepIds = repIdsWithEmail.filter(id => !skip.has(id));
-
-    const rows: any[] = toInsertRepIds.map((repId) => ({
+    // Requeued reps already have today's row; the upsert ignores those duplicates
+    const rows: any[] = fitting.map((repId) => ({
       user_id: opts.userId,
       prayer_id: opts.prayerId,
       target_rep_id: repId,
@@ -204,6 +366,10 @@ export const outreach = {
       status: 'queued',
       subject: opts.subject ?? null,
       body: opts.body ?? null,
+      template_id: opts.templateId ?? null,
+      campaign_id: opts.campaignId ?? null,
+      deliver_after: opts.deliverAfter?.[repId] ?? null,
+      ...overrideColumns(opts.overrides?.[repId]),
     }));
 
     let inserted: OutreachRequestRow[] = [];
@@ -215,7 +381,7 @@ export const outreach = {
           ignoreDuplicates: true,
         })
         .select('*');
-      if (error) return { data: null, error };
+      if (error) return { data: null, error, quota: before };
       inserted = (data ?? []) as OutreachRequestRow[];
     }
 
@@ -228,82 +394,134 @@ export const outreach = {
       requeuedRows = (data ?? []) as OutreachRequestRow[];
     }
 
-    return { data: [...requeuedRows, ...inserted], error: null };
+    const { data: after } = await fetchQuota();
+    return { data: [...requeuedRows, ...inserted], error: requeueErr, quota: after ?? before };
   },
 
-  /** Queue outreach to the President (only if email exists). Also requeues today's failed/throttled. */
+  /** The sitting President's record (seeded by the executive-sync function), or null before the first sync. */
+  getPresident: async (): Promise<{ data: PresidentRow | null; error: { message: string } | null }> => {
+    const { data, error } = await supabase
+      .from('representatives')
+      .select('id,name,office_name,contact_form_url')
+      .eq('chamber', 'executive')
+      .eq('division_id', NATIONAL_DIVISION)
+      .eq('office_name', PRESIDENT_OFFICE)
+      .eq('active', true)
+      .order('last_synced', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    return { data: (data as unknown as PresidentRow | null) ?? null, error };
+  },
+
+  /**
+   * Queue outreach to the President through the White House contact form. Unlike reps, the
+   * President isn't mapped per user, so this skips user_representatives but otherwise follows
+   * enqueueOutreachToSelected: requeues today's failed/throttled/cancelled row, counts toward
+   * the daily cap, and shows up on the My Outreach page.
+   */
   enqueueToPresident: async (opts: {
     userId: string;
     prayerId: string;
     channels: OutreachChannel[];
     subject?: string;
     body?: string;
-  }): Promise<{ data: OutreachRequestRow[] | null; error: any }> => {
-    const { data: presRows, error: presErr } = await supabase
-      .from('representatives')
-.select('id,email,contact_email,name,office_name')
-.or('office_name.ilike.%president%,name.ilike.%president%')
-.limit(3);
-
-    if (presErr) return { data: null, error: presErr };
-
-    const repIdsWithEmail = (presRows ?? [])
-  .filter((p: any) => (p.email ?? p.contact_email))
-  .map((p: any) => p.id as string);
-
+  }): Promise<{ data: OutreachRequestRow[] | null; error: any; quota: OutreachQuota | null }> => {
+    const { data: president, error: presErr } = await outreach.getPresident();
+    if (presErr) return { data: null, error: presErr, quota: null };
+    if (!president || !repReachable(president, opts.channels)) {
+      return { data: null, error: { message: 'The President is not available for outreach yet.' }, quota: null };
+    }
+    const repIds = [president.id];
 
-    // Requeue failed/throttled for today
-    const { requeuedIds } = await requeueFailedForToday({
+    const skip = await findAlreadyHandledToday({
       userId: opts.userId,
       prayerId: opts.prayerId,
-      repIds: repIdsWithEmail,
-      subject: opts.subject ?? null,
-      body: opts.body ?? null,
-      channels: opts.channels,
+      repIds,
     });
+    if (skip.has(president.id)) return { data: [], error: null, quota: null };
+
+    const { data: before, error: quotaErr } = await fetchQuota();
+    if (quotaErr) return { data: null, error: quotaErr, quota: null };
+    if ((before?.remaining ?? 0) < 1) {
+      return {
+        data: null,
+        error: { message: `Daily outreach limit reached (${before?.cap ?? 0} per day).` },
+        quota: before,
+      };
+    }
 
-    // Skip reps that already have queued/sent today
-    const skip = await findAlreadyHandledToday({
+    const { requeuedIds } = await requeueFailedForToday({
       userId: opts.userId,
       prayerId: opts.prayerId,
-      repIds: repIdsWithEmail,
-    });
-
-    const toInsertRepIds = repIdsWithEmail.filter(id => !skip.has(id));
-
-    const rows: any[] = toInsertRepIds.map((repId) => ({
-      user_id: opts.userId,
-      prayer_id: opts.prayerId,
-      target_rep_id: repId,
-      channels: opts.channels,
-      status: 'queued',
+      repIds,
       subject: opts.subject ?? null,
       body: opts.body ?? null,
-    }));
-
-    let inserted: OutreachRequestRow[] = [];
-    if (rows.length) {
-      const { data, error } = await supabase
-        .from('outreach_requests')
-        .upsert(rows, {
-          onConflict: 'user_id, target_rep_id, prayer_id, send_date',
-          ignoreDuplicates: true,
-        })
-        .select('*');
-      if (error) return { data: null, error };
-      inserted = (data ?? []) as OutreachRequestRow[];
-    }
+      channels: opts.channels,
+    });
 
-    let requeuedRows: OutreachRequestRow[] = [];
+    let rows: OutreachRequestRow[] = [];
     if (requeuedIds.length) {
       const { data } = await supabase
         .from('outreach_requests')
         .select('*')
         .in('id', requeuedIds);
-      requeuedRows = (data ?? []) as OutreachRequestRow[];
+      rows = (data ?? []) as OutreachRequestRow[];
+    } else {
+      const { data, error } = await supabase
+        .from('outreach_requests')
+        .upsert(
+          {
+            user_id: opts.userId,
+            prayer_id: opts.prayerId,
+            target_rep_id: president.id,
+            channels: opts.channels,
+            status: 'queued',
+            subject: opts.subject ?? null,
+            body: opts.body ?? null,
+          },
+          { onConflict: 'user_id, target_rep_id, prayer_id, send_date', ignoreDuplicates: true }
+        )
+        .select('*');
+      if (error) return { data: null, error, quota: before };
+      rows = (data ?? []) as OutreachRequestRow[];
     }
 
-    return { data: [...requeuedRows, ...inserted], error: null };
+    const { data: after } = await fetchQuota();
+    return { data: rows, error: null, quota: after ?? before };
+  },
+
+  /** Today's outreach quota for the signed-in user (cap honors user_daily_limits overrides). */
+  getQuota: fetchQuota,
+
+  /** The user's own message templates plus the shared ones admins publish (RLS decides which). */
+  listTemplates: async (): Promise<{ data: OutreachTemplateRow[] | null; error: { message: string } | null }> => {
+    const { data, error } = await supabase
+      .from('outreach_templates')
+      .select('*')
+      .order('is_shared', { ascending: false })
+      .order('name', { ascending: true });
+    return { data, error };
+  },
+
+  /** Create (no `id`) or update a template owned by the signed-in user. Only admins may set `is_shared`. */
+  saveTemplate: async (tpl: {
+    id?: string;
+    name: string;
+    subject: string;
+    body: string;
+    is_shared?: boolean;
+  }): Promise<{ data: OutreachTemplateRow | null; error: { message: string } | null }> => {
+    const fields = { name: tpl.name.trim(), subject: tpl.subject, body: tpl.body, is_shared: tpl.is_shared ?? false };
+    const query = tpl.id
+      ? supabase.from('outreach_templates').update(fields).eq('id', tpl.id)
+      : supabase.from('outreach_templates').insert(fields);
+    const { data, error } = await query.select('*').single();
+    return { data, error };
+  },
+
+  deleteTemplate: async (id: string) => {
+    const { error } = await supabase.from('outreach_templates').delete().eq('id', id);
+    return { error };
   },
 
   /** List a user’s queued/sent outreach requests (most recent first). */
@@ -317,37 +535,160 @@ export const outreach = {
     return { data: data as OutreachRequestRow[] | null, error };
   },
 
-  /** Simple analytics for a single prayer’s outreach requests. */
+  /** Outreach history for the My Outreach page, newest first (up to 500 rows). */
+  getUserOutreachHistory: async (userId: string, filters: OutreachHistoryFilters = {}) => {
+    let query = supabase
+      .from('outreach_requests')
+      .select(`
+        *,
+        representatives:target_rep_id ( name, office_name, state, district ),
+        prayers:prayer_id ( content ),
+        outreach_deliveries ( channel, status, error, sent_at, intent_url )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(500);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.repId) query = query.eq('target_rep_id', filters.repId);
+    if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00Z`);
+    if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59.999Z`);
+
+    const { data, error } = await query;
+    return { data: data as unknown as OutreachHistoryRow[] | null, error };
+  },
+
+  /**
+   * Re-queue the user's failed/throttled/cancelled requests for today (calls and rows that already
+   * have a request today are skipped). The daily cap applies; over-cap rows come back throttled.
+   */
+  retryRequests: async (ids: string[]): Promise<{ data: OutreachBulkResult | null; error: { message: string } | null }> => {
+    const { data, error } = await supabase.rpc('retry_outreach_requests', { p_ids: ids });
+    if (error) return { data: null, error };
+    return { data: data as unknown as OutreachBulkResult, error: null };
+  },
+
+  /**
+   * Edit the message of one of the user's queued requests before it goes out. Stored as the
+   * per-recipient override; RLS refuses rows that are being sent or already delivered.
+   */
+  updateQueuedRequest: async (id: string, message: RecipientOverride) => {
+    const { data, error } = await supabase
+      .from('outreach_requests')
+      .update(overrideColumns(message))
+      .eq('id', id)
+      .eq('status', 'queued')
+      .select('id');
+    if (error) return { error };
+    if (!data?.length) return { error: { message: 'This request is no longer queued.' } };
+    return { error: null };
+  },
+
+  /** Cancel the user's queued requests that nothing has been sent for yet (status → cancelled). */
+  cancelRequests: async (ids: string[]): Promise<{ data: OutreachBulkResult | null; error: { message: string } | null }> => {
+    const { data, error } = await supabase.rpc('cancel_outreach_requests', { p_ids: ids });
+    if (error) return { data: null, error };
+    return { data: data as unknown as OutreachBulkResult, error: null };
+  },
+
+  /**
+   * Analytics for a single prayer’s outreach: request-level roll-up plus per-channel
+   * outcomes from outreach_deliveries (a request can be "email sent, X failed").
+   */
   getPrayerOutreachAnalytics: async (prayerId: string) => {
     const { data, error } = await supabase
       .from('outreach_requests')
-      .select('status, channels')
+      .select('status, channels, outreach_deliveries ( channel, status, attempt_count, call_outcome )')
       .eq('prayer_id', prayerId);
 
     if (error) return { data: null, error };
 
+    const emptyChannel = (): ChannelOutcomes => ({ requested: 0, pending: 0, sent: 0, intent: 0, failed: 0, skipped: 0, attempts: 0 });
     const stats = {
       total: 0,
       queued: 0,
       sent: 0,
+      /** Only share links were produced; the user hasn't posted them through us. */
+      pending_user: 0,
       failed: 0,
       throttled: 0,
-      channels: { email: 0, x: 0, facebook: 0 } as Record<OutreachChannel, number>,
+      cancelled: 0,
+      channels: { email: 0, x: 0, facebook: 0, contact_form: 0, letter: 0, call: 0 } as Record<OutreachChannel, number>,
+      byChannel: {
+        email: emptyChannel(),
+        x: emptyChannel(),
+        facebook: emptyChannel(),
+        contact_form: emptyChannel(),
+        letter: emptyChannel(),
+        call: emptyChannel(),
+      } as Record<OutreachChannel, ChannelOutcomes>,
+      /** Logged phone calls by outcome (a repeat call replaces the earlier outcome). */
+      calls: { reached_staff: 0, voicemail: 0, busy: 0 } as Record<CallOutcome, number>,
     };
 
     for (const row of data ?? []) {
       stats.total += 1;
       if (row.status === 'queued') stats.queued += 1;
       if (row.status === 'sent') stats.sent += 1;
+      if (row.status === 'pending_user') stats.pending_user += 1;
       if (row.status === 'failed') stats.failed += 1;
       if (row.status === 'throttled') stats.throttled += 1;
+      if (row.status === 'cancelled') stats.cancelled += 1;
       for (const ch of row.channels as OutreachChannel[]) {
         if (ch in stats.channels) stats.channels[ch] += 1;
       }
+      for (const d of row.outreach_deliveries ?? []) {
+        const bucket = stats.byChannel[d.channel as OutreachChannel];
+        if (!bucket) continue;
+        bucket.requested += 1;
+        bucket.attempts += d.attempt_count;
+        const status = d.status as DeliveryStatus;
+        if (status in bucket) bucket[status] += 1;
+        const outcome = d.call_outcome as CallOutcome | null;
+        if (d.channel === 'call' && outcome && outcome in stats.calls) stats.calls[outcome] += 1;
+      }
     }
     return { data: stats, error: null };
   },
 
+  /**
+   * Record a phone call the user placed (see src/lib/callScript). Reaching staff or voicemail
+   * counts as a delivered contact and uses daily quota like any send; busy is logged as failed.
+   */
+  logCall: async (opts: {
+    prayerId: string;
+    repId: string;
+    outcome: CallOutcome;
+    phone?: string | null;
+    notes?: string | null;
+  }): Promise<{ data: { request_id: string; status: OutreachRequestRow['status'] } | null; error: { message: string } | null }> => {
+    const { data, error } = await supabase.rpc('log_outreach_call', {
+      p_prayer_id: opts.prayerId,
+      p_rep_id: opts.repId,
+      p_outcome: opts.outcome,
+      p_phone: opts.phone ?? null,
+      p_notes: opts.notes ?? null,
+    });
+    if (error) return { data: null, error };
+    return { data: data as unknown as { request_id: string; status: OutreachRequestRow['status'] }, error: null };
+  },
+
+  /** Signed download link (1h) for a request's printed letter; storage RLS limits it to the owner. */
+  getLetterUrl: async (requestId: string): Promise<{ data: string | null; error: { message: string } | null }> => {
+    const { data: letter, error } = await supabase
+      .from('outreach_letters')
+      .select('storage_path')
+      .eq('request_id', requestId)
+      .maybeSingle();
+    if (error) return { data: null, error };
+    if (!letter) return { data: null, error: { message: 'No letter for this request yet' } };
+
+    const { data, error: urlErr } = await supabase.storage
+      .from(LETTER_BUCKET)
+      .createSignedUrl(letter.storage_path, 60 * 60);
+    if (urlErr) return { data: null, error: urlErr };
+    return { data: data.signedUrl, error: null };
+  },
+
   /** Server hook to mark requests as sent (Netlify function). */
   markOutreachSent: async (ids: string[]) => {
     const res = await fetch('/.netlify/functions/outreach-processor', {
@@ -402,7 +743,13 @@ export async function deliverSingleByPrayerId(prayerId: string) {
     ok: true;
     used_stream: string;
     used_template_alias: string | null;
-    detail: { request_id: string; status: 'sent' | 'failed'; message_id?: string; error?: string };
+    detail: {
+      request_id: string;
+      status: 'sent' | 'pending_user' | 'failed' | 'retrying';
+      message_id?: string;
+      error?: string;
+      channels?: Record<string, { status: DeliveryStatus; intent_url?: string }>;
+    };
   };
 }
 
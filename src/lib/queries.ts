@@ -2,11 +2,11 @@
 // Ready-to-use Supabase query helpers for CyberKingdomOfChrist.org
 
 import { supabase } from '@/lib/supabaseClient';
+import { normalizePlan, type Plan } from '@/lib/entitlements';
 import type {
   Profile,
   Subscription,
   SubscriptionStatus,
-  SubscriptionTier,
   Prayer,
   PrayerInsert,
   PrayerComment,
@@ -59,11 +59,18 @@ export async function getActiveSubscription(
   return data ?? null;
 }
 
-export async function getUserTier(
-  userId: string
-): Promise<SubscriptionTier | 'free'> {
+/** The user's plan. profiles.tier is kept in sync with Stripe by the webhook (and carries admin). */
+export async function getUserTier(userId: string): Promise<Plan> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('tier')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (data?.tier) return normalizePlan(data.tier);
+
   const sub = await getActiveSubscription(userId);
-  return (sub?.tier as SubscriptionTier) ?? 'free';
+  return normalizePlan(sub?.tier);
 }
 
 // ----------------------
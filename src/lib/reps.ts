@@ -1,20 +1,17 @@
 // src/lib/reps.ts
 import { supabase } from '@/lib/supabase';
 import type { Database } from '@/types/database';
+import {
+  divisionsForAddress,
+  divisionType,
+  LOCAL_DIVISION_TYPES,
+  stateDivision,
+  type DivisionAddress,
+} from '@/lib/ocd';
 
 type Tables = Database['public']['Tables'];
 type UserRepInsert = Tables['user_representatives']['Insert'];
 
-/** Minimal DB row shape we read. Keep this decoupled from generated types. */
-type RepRowDB = {
-  id: string;
-  state: string | null;
-  office_name: string | null;
-  level: string | null;     // 'federal' | 'state' | 'local' | null
-  chamber: string | null;   // federal: 'senate' | 'house'; state: 'upper' | 'senate' | 'lower' | 'house'
-  district?: string | null; // numeric string like "10"
-};
-
 /** Local view for inference fallback */
 type RepLite = { id: string; state: string | null; office: string | null; level: string | null };
 
@@ -45,13 +42,14 @@ async function ensureRepsSeeded(
   hd?: string | null
 ): Promise<void> {
   try {
-    // Minimal presence checks
+    // Minimal presence checks (former members stay on file, inactive)
     const { data: sens } = await (supabase as any)
       .from('representatives')
       .select('id')
       .eq('state', state)
       .eq('level', 'federal')
-      .eq('chamber', 'senate');
+      .eq('chamber', 'senate')
+      .eq('active', true);
 
     const needFederal = !sens || sens.length < 2;
 
@@ -63,7 +61,8 @@ async function ensureRepsSeeded(
         .eq('state', state)
         .eq('level', 'federal')
         .eq('chamber', 'house')
-        .eq('district', String(cd));
+        .eq('district', String(cd))
+        .eq('active', true);
       needHouse = !house || house.length === 0;
     }
 
@@ -73,13 +72,13 @@ async function ensureRepsSeeded(
       if (sd) {
         checks.push(
           (supabase as any).from('representatives').select('id')
-            .eq('state', state).eq('level', 'state').in('chamber', ['upper', 'senate']).eq('district', String(sd))
+            .eq('state', state).eq('level', 'state').in('chamber', ['upper', 'senate']).eq('district', String(sd)).eq('active', true)
         );
       }
       if (hd) {
         checks.push(
           (supabase as any).from('representatives').select('id')
-            .eq('state', state).eq('level', 'state').in('chamber', ['lower', 'house']).eq('district', String(hd))
+            .eq('state', state).eq('level', 'state').in('chamber', ['lower', 'house']).eq('district', String(hd)).eq('active', true)
         );
       }
       const results = await Promise.all(checks);
@@ -141,9 +140,37 @@ function inferLevelFromOffice(office: string | null): UserRepInsert['level'] {
   return 'local';
 }
 
+/**
+ * The OCD divisions the user lives in: country, state, U.S. House, state senate and house
+ * from their saved districts, plus county and place. County/place come from the address
+ * when known, otherwise from the Civic divisions cached for their ZIP (same state only).
+ */
+async function resolveUserDivisions(addr: DivisionAddress & { postal_code?: string | null }): Promise<string[]> {
+  const divisions = divisionsForAddress(addr);
+  const zip5 = (addr.postal_code || '').trim().slice(0, 5);
+  if ((addr.county && addr.muni) || !addr.state || !/^\d{5}$/.test(zip5)) return divisions;
+
+  const { data: cached } = await supabase
+    .from('civic_zip_divisions_cache')
+    .select('ocd_division_ids')
+    .eq('zip5', zip5)
+    .maybeSingle();
+
+  // The saved districts win over the ZIP's; only fill in the local government the address lacks
+  const inState = `${stateDivision(addr.state)}/`;
+  for (const id of cached?.ocd_division_ids ?? []) {
+    const type = divisionType(id) ?? '';
+    if (!id.startsWith(inState) || !(LOCAL_DIVISION_TYPES as readonly string[]).includes(type)) continue;
+    if (type === 'place' ? !addr.muni : !addr.county) divisions.push(id);
+  }
+  return Array.from(new Set(divisions));
+}
+
 /**
  * Ensure the current user has user_representatives rows based on their stored address.
- * Uses: Federal (2 senators + house by CD) and State (upper SD + lower HD) where available.
+ * Resolves the user's OCD divisions (country, state, cd, sldu, sldl, county, place) and maps
+ * every active representative linked to one of them through representative_divisions —
+ * senators, House member, state legislators, executives and local officials alike.
  * Removes any previously mapped sample/legacy reps before inserting fresh ones.
  */
 export async function assignRepsForCurrentUser(): Promise<{ assigned: number; state: string | null; message?: string }> {
@@ -152,10 +179,10 @@ export async function assignRepsForCurrentUser(): Promise<{ assigned: number; st
   if (uerr || !ures.user) return { assigned: 0, state: null, message: 'Not signed in.' };
   const userId = ures.user.id;
 
-  // fetch user's primary address (include state/cd/sd/hd)
+  // fetch user's primary address (districts plus county/city for local officials)
   const { data: addr, error: aerr } = await supabase
     .from('user_addresses')
-    .select('state, cd, sd, hd')
+    .select('state, cd, sd, hd, county, muni, postal_code')
     .eq('user_id', userId)
     .eq('is_primary', true)
     .maybeSingle();
@@ -168,66 +195,19 @@ export async function assignRepsForCurrentUser(): Promise<{ assigned: number; st
   // Ensure DB has real rows for this user's geographies before mapping
   await ensureRepsSeeded(state, addr?.cd ?? null, addr?.sd ?? null, addr?.hd ?? null);
 
-  const cd = addr?.cd ? String(addr.cd) : null; // U.S. House district
-  const sd = addr?.sd ? String(addr.sd) : null; // State senate (upper)
-  const hd = addr?.hd ? String(addr.hd) : null; // State house (lower)
+  // 1) Every division the user lives in, then every rep linked to one of them
+  const divisions = await resolveUserDivisions({ ...addr, state });
 
-  const repIds: string[] = [];
+  const { data: linked, error: linkErr } = await supabase
+    .from('representative_divisions')
+    .select('rep_id, representatives!inner(id, active)')
+    .in('ocd_division_id', divisions);
+  if (linkErr) return { assigned: 0, state, message: linkErr.message || 'Representative fetch failed.' };
 
-  // 1) U.S. Senators (federal senate) — always by state
-  {
-    const { data, error } = await (supabase as any)
-      .from('representatives')
-      .select('id, state, office_name, level, chamber, district')
-      .eq('state', state)
-      .eq('level', 'federal')
-      .eq('chamber', 'senate')
-      .limit(5);
-    if (error) return { assigned: 0, state, message: error.message || 'Representative fetch failed (federal senate).' };
-    if (data?.length) repIds.push(...data.map((r: RepRowDB) => r.id));
-  }
-
-  // 2) U.S. House (federal house) — by CD
-  if (cd) {
-    const { data, error } = await (supabase as any)
-      .from('representatives')
-      .select('id, state, office_name, level, chamber, district')
-      .eq('state', state)
-      .eq('level', 'federal')
-      .eq('chamber', 'house')
-      .eq('district', cd)
-      .limit(5);
-    if (error) return { assigned: 0, state, message: error.message || 'Representative fetch failed (federal house).' };
-    if (data?.length) repIds.push(...data.map((r: RepRowDB) => r.id));
-  }
-
-  // 3) State Senator by SD (upper) — STRICT chamber filter, no office-name fallback
-  if (sd) {
-    const { data, error } = await (supabase as any)
-      .from('representatives')
-      .select('id, state, office_name, level, chamber, district')
-      .eq('state', state)
-      .eq('level', 'state')
-      .in('chamber', ['upper', 'senate'])
-      .eq('district', sd)
-      .limit(1);
-    if (error) return { assigned: 0, state, message: error.message || 'Representative fetch failed (state senate).' };
-    if (data?.length) repIds.push(...data.map((r: RepRowDB) => r.id)); // <-- map to IDs (fixes [object Object])
-  }
-
-  // 4) State Representative by HD (lower) — STRICT chamber filter, no office-name fallback
-  if (hd) {
-    const { data, error } = await (supabase as any)
-      .from('representatives')
-      .select('id, state, office_name, level, chamber, district')
-      .eq('state', state)
-      .eq('level', 'state')
-      .in('chamber', ['lower', 'house'])
-      .eq('district', hd)
-      .limit(1);
-    if (error) return { assigned: 0, state, message: error.message || 'Representative fetch failed (state house).' };
-    if (data?.length) repIds.push(...data.map((r: RepRowDB) => r.id)); // <-- map to IDs (fixes [object Object])
-  }
+  // Former officeholders stay linked (outreach history points at them) but are inactive
+  const repIds = ((linked ?? []) as unknown as { rep_id: string; representatives: { active: boolean | null } | null }[])
+    .filter((r) => r.representatives?.active !== false)
+    .map((r) => r.rep_id);
 
   // Require at least one match; DO NOT fall back to "all state reps" (avoids showing sample/irrelevant officials)
   const uniqueIds = Array.from(new Set(repIds));
@@ -235,7 +215,7 @@ export async function assignRepsForCurrentUser(): Promise<{ assigned: number; st
     return { assigned: 0, state, message: 'No matching representatives found for your districts. Re-run district detection.' };
   }
 
-  // 5) Replace any previous mappings for this user (clears old/sample rows)
+  // 2) Replace any previous mappings for this user (clears old/sample rows)
   const { error: delErr } = await supabase
     .from('user_representatives')
     .delete()
@@ -245,7 +225,7 @@ export async function assignRepsForCurrentUser(): Promise<{ assigned: number; st
     console.warn('user_representatives delete failed:', delErr.message);
   }
 
-  // 6) Fetch minimal metadata so every row can include a required 'level'
+  // 3) Fetch minimal metadata so every row can include a required 'level'
   const { data: levelRows, error: lrErr } = await (supabase as any)
     .from('representatives')
     .select('id, office_name, level')
@@ -259,14 +239,14 @@ export async function assignRepsForCurrentUser(): Promise<{ assigned: number; st
     byId.set(r.id, { office_name: r.office_name ?? null, level: r.level ?? null });
   }
 
-  // 7) Build rows with a concrete 'level' (type requires it)
+  // 4) Build rows with a concrete 'level' (type requires it)
   const rows: UserRepInsert[] = uniqueIds.map((id) => {
     const meta = byId.get(id);
     const lvl = ((meta?.level as UserRepInsert['level']) || inferLevelFromOffice(meta?.office_name ?? null)) as UserRepInsert['level'];
     return { user_id: userId, rep_id: id, level: lvl };
   });
 
-  // 8) Bulk upsert
+  // 5) Bulk upsert
   const { error: upErr } = await supabase
     .from('user_representatives')
     .upsert(rows, { onConflict: 'user_id,rep_id' });
@@ -0,0 +1,97 @@
+// src/lib/schedule.ts
+// Delivery times for scheduled outreach (outreach_requests.deliver_after).
+// Office hours are computed in the representative's timezone, taken from their state.
+
+/** Primary IANA timezone per state/territory (split states use the zone most of the state is in). */
+export const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DE: 'America/New_York',
+  DC: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver',
+  PR: 'America/Puerto_Rico', VI: 'America/St_Thomas', GU: 'Pacific/Guam', AS: 'Pacific/Pago_Pago',
+  MP: 'Pacific/Saipan',
+};
+
+/** Federal offices (and reps without a state) keep Washington hours. */
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+export const OFFICE_HOURS = { startHour: 9, endHour: 17 } as const;
+
+export function timezoneForState(state: string | null | undefined): string {
+  return STATE_TIMEZONES[(state || '').toUpperCase()] ?? DEFAULT_TIMEZONE;
+}
+
+type ZonedParts = { year: number; month: number; day: number; hour: number; minute: number; weekday: number };
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+function zonedParts(at: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: WEEKDAYS[get('weekday')] ?? 0,
+  };
+}
+
+/** The instant when the wall clock in `timeZone` reads y-m-d h:00 (second pass settles DST edges). */
+function zonedTime(year: number, month: number, day: number, hour: number, timeZone: string): Date {
+  const wall = Date.UTC(year, month - 1, day, hour);
+  let guess = wall;
+  for (let i = 0; i < 2; i++) {
+    const p = zonedParts(new Date(guess), timeZone);
+    const seen = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+    guess += wall - seen;
+  }
+  return new Date(guess);
+}
+
+/** Earliest instant at or after `from` that falls in weekday office hours in `timeZone`. */
+export function nextOfficeHours(from: Date, timeZone: string): Date {
+  const { startHour, endHour } = OFFICE_HOURS;
+  const now = zonedParts(from, timeZone);
+  const weekday = (d: number) => d >= 1 && d <= 5;
+  if (weekday(now.weekday) && now.hour >= startHour && now.hour < endHour) return from;
+
+  for (let k = 0; k <= 7; k++) {
+    const open = zonedTime(now.year, now.month, now.day + k, startHour, timeZone);
+    if (open.getTime() >= from.getTime() && weekday(zonedParts(open, timeZone).weekday)) return open;
+  }
+  return from;
+}
+
+export type DeliverySchedule =
+  | { mode: 'now' }
+  | { mode: 'at'; at: Date }
+  | { mode: 'office_hours'; from: Date };
+
+/** deliver_after for one recipient; null = as soon as possible. */
+export function deliverAfterFor(schedule: DeliverySchedule, rep: { state?: string | null }, now = new Date()): string | null {
+  if (schedule.mode === 'now') return null;
+  if (schedule.mode === 'at') return schedule.at > now ? schedule.at.toISOString() : null;
+  const from = schedule.from > now ? schedule.from : now;
+  const at = nextOfficeHours(from, timezoneForState(rep.state));
+  return at > now ? at.toISOString() : null;
+}
@@ -1,50 +1,57 @@
 import { loadStripe } from '@stripe/stripe-js';
+import { supabase } from '@/lib/supabase';
 
 const stripePublishableKey = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY;
 
 if (!stripePublishableKey) {
-  throw new Error('Missing Stripe publishable key');
+  // Checkout/portal are hosted by Stripe, so a missing key only disables Stripe.js itself
+  console.warn('Missing Stripe publishable key');
 }
 
-export const stripe = loadStripe(stripePublishableKey);
+export const stripe = stripePublishableKey ? loadStripe(stripePublishableKey) : Promise.resolve(null);
+
+/** Price ids sold on the Pricing page (the first id when the env var lists several). */
+export const stripePrices = {
+  faith_warrior: firstPriceId(import.meta.env.VITE_STRIPE_PRICE_FAITH_WARRIOR),
+  kingdom_builder: firstPriceId(import.meta.env.VITE_STRIPE_PRICE_KINGDOM_BUILDER),
+};
+
+function firstPriceId(raw: string | undefined): string | null {
+  return (raw || '').split(',').map((s) => s.trim()).find(Boolean) ?? null;
+}
+
+async function postWithSession<T>(fn: string, body: Record<string, unknown>, fallbackError: string): Promise<T> {
+  // The functions resolve the user (and their Stripe customer) from the JWT
+  const { data: { session } } = await supabase.auth.getSession();
+  const token = session?.access_token;
+  if (!token) throw new Error('Not signed in');
+
+  const response = await fetch(`/.netlify/functions/${fn}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok || json?.error) {
+    throw new Error(json?.error || fallbackError);
+  }
+  return json as T;
+}
 
 // Stripe helpers
 export const stripeHelpers = {
-  createCheckoutSession: async (priceId: string, userId: string) => {
-    // This will call your Netlify function
-    const response = await fetch('/.netlify/functions/create-checkout-session', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        priceId,
-        userId,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to create checkout session');
-    }
-
-    return response.json();
-  },
-
-  createPortalSession: async (customerId: string) => {
-    const response = await fetch('/.netlify/functions/create-portal-session', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        customerId,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to create portal session');
-    }
-
-    return response.json();
-  },
-};
\ No newline at end of file
+  createCheckoutSession: (priceId: string) =>
+    // `portal`: the user already subscribes, so `url` is the billing portal instead
+    postWithSession<{ id?: string; url: string; portal?: boolean }>(
+      'create-checkout-session',
+      { priceId },
+      'Failed to create checkout session'
+    ),
+
+  createPortalSession: () =>
+    postWithSession<{ url: string }>('create-portal-session', {}, 'Failed to create portal session'),
+};
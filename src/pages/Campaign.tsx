@@ -0,0 +1,202 @@
+// src/pages/Campaign.tsx
+// Public campaign landing page (/c/:slug): the shared prayer and message, join/leave,
+// "send to my representatives", and per-office totals from campaign_stats().
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { deliverSingleByPrayerId } from '@/lib/outreach';
+import { campaigns, campaignIsOpen, CAMPAIGN_OFFICES, type CampaignStats } from '@/lib/campaigns';
+import type { OutreachCampaign } from '@/types/dbTypes';
+
+type CampaignWithPrayer = OutreachCampaign & { prayers: { content: string } | null };
+
+const officeLabel = (key: string | null) => CAMPAIGN_OFFICES.find(o => o.key === key)?.label ?? '';
+
+export default function CampaignPage() {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const { user } = useAuth();
+
+  const [campaign, setCampaign] = useState<CampaignWithPrayer | null>(null);
+  const [stats, setStats] = useState<CampaignStats | null>(null);
+  const [joined, setJoined] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = useCallback(async (id: string) => {
+    const { data } = await campaigns.getStats(id);
+    setStats(data);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      setLoading(true);
+      const { data, error } = await campaigns.getBySlug(slug);
+      if (!mounted) return;
+      if (error) setError(error.message);
+      const row = (data as CampaignWithPrayer | null) ?? null;
+      setCampaign(row);
+      setLoading(false);
+      if (row) loadStats(row.id);
+    })();
+    return () => { mounted = false; };
+  }, [slug, loadStats]);
+
+  useEffect(() => {
+    if (!user || !campaign) return setJoined(false);
+    campaigns.isParticipant(campaign.id, user.id).then(setJoined);
+  }, [user, campaign]);
+
+  const toggleJoin = async () => {
+    if (!user || !campaign) return;
+    setBusy(true);
+    setMsg(null);
+    const { error } = joined ? await campaigns.leave(campaign.id, user.id) : await campaigns.join(campaign.id);
+    setBusy(false);
+    if (error) return setMsg(error.message);
+    setJoined(!joined);
+    loadStats(campaign.id);
+  };
+
+  const send = async () => {
+    if (!user || !campaign) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const { queued, error, quota } = await campaigns.send({ campaign, userId: user.id });
+      if (error) return setMsg(error.message);
+      await deliverSingleByPrayerId(campaign.prayer_id);
+      const left = quota ? ` ${quota.remaining} of ${quota.cap} sends left today.` : '';
+      setMsg(`Queued ${queued} message${queued === 1 ? '' : 's'} to your representatives.${left}`);
+      loadStats(campaign.id);
+    } catch (e) {
+      setMsg(e instanceof Error ? e.message : 'Could not send.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="min-h-screen pt-24 text-center text-sm text-gray-600">Loading…</div>;
+  }
+  if (!campaign) {
+    return (
+      <div className="min-h-screen pt-24">
+        <div className="max-w-lg mx-auto px-4">
+          <Card className="p-6 space-y-2">
+            <h1 className="text-xl font-semibold">Campaign not found</h1>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Link to="/campaigns" className="text-sm underline">All campaigns</Link>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const open = campaignIsOpen(campaign);
+  const ended = new Date(campaign.ends_at) <= new Date();
+
+  return (
+    <div className="min-h-screen pt-24">
+      <div className="max-w-3xl mx-auto px-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CardTitle>{campaign.title}</CardTitle>
+              {!campaign.published && <Badge variant="secondary">Draft</Badge>}
+              <Badge variant={open ? 'default' : 'secondary'}>{open ? 'Open' : ended ? 'Ended' : 'Not started'}</Badge>
+            </div>
+            <CardDescription>
+              {new Date(campaign.starts_at).toLocaleString()} – {new Date(campaign.ends_at).toLocaleString()}
+              {' · '}
+              {campaign.target_offices.map(officeLabel).join(', ')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {campaign.description && <p className="whitespace-pre-line">{campaign.description}</p>}
+
+            {campaign.prayers?.content && (
+              <blockquote className="border-l-4 pl-3 italic text-gray-700 whitespace-pre-line">
+                {campaign.prayers.content}
+              </blockquote>
+            )}
+
+            <div className="rounded-md border p-3 bg-gray-50">
+              <div className="font-medium mb-1">{campaign.subject}</div>
+              <div className="whitespace-pre-line text-gray-700">{campaign.body}</div>
+              <div className="text-xs text-gray-500 mt-2">
+                Placeholders like {'{{rep.name}}'} are filled in for each of your representatives.
+              </div>
+            </div>
+
+            {user ? (
+              <div className="flex flex-wrap items-center gap-2">
+                {!ended && (
+                  <Button variant={joined ? 'outline' : 'default'} onClick={toggleJoin} disabled={busy}>
+                    {joined ? 'Leave campaign' : 'Join campaign'}
+                  </Button>
+                )}
+                {joined && open && (
+                  <Button onClick={send} disabled={busy}>
+                    {busy ? 'Sending…' : 'Send to my representatives'}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Link to="/login" className="underline">Sign in to join this campaign</Link>
+            )}
+            {msg && <p className="text-gray-700">{msg}</p>}
+          </CardContent>
+        </Card>
+
+        {stats && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Progress</CardTitle>
+              <CardDescription>
+                {stats.participants} joined · {stats.senders} sent · {stats.sent} delivered · {stats.queued} queued
+                {stats.failed > 0 && ` · ${stats.failed} failed`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {stats.offices.length === 0 ? (
+                <p className="text-sm text-gray-600">No messages yet. Be the first!</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1">Office</th>
+                      <th className="py-1 text-right">Participants</th>
+                      <th className="py-1 text-right">Delivered</th>
+                      <th className="py-1 text-right">Queued</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.offices.map(o => (
+                      <tr key={o.rep_id} className="border-t">
+                        <td className="py-1">
+                          {o.name}
+                          <div className="text-xs text-gray-500">
+                            {o.office_name}{o.state ? ` · ${o.state}` : ''}{o.district ? `-${o.district}` : ''}
+                          </div>
+                        </td>
+                        <td className="py-1 text-right">{o.participants}</td>
+                        <td className="py-1 text-right">{o.sent}</td>
+                        <td className="py-1 text-right">{o.queued}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
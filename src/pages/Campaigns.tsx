@@ -0,0 +1,86 @@
+// src/pages/Campaigns.tsx
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Megaphone } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/hooks/useAuth';
+import { getUserTier } from '@/lib/queries';
+import { PLANS } from '@/lib/entitlements';
+import { campaigns, campaignIsOpen } from '@/lib/campaigns';
+import type { OutreachCampaign } from '@/types/dbTypes';
+
+export default function CampaignsPage() {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<OutreachCampaign[]>([]);
+  const [canOrganize, setCanOrganize] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data, error } = await campaigns.listOpen();
+      if (!mounted) return;
+      if (error) setError(error.message || 'Could not load campaigns.');
+      setRows(data ?? []);
+      setLoading(false);
+    })();
+    return () => { mounted = false; };
+  }, []);
+
+  useEffect(() => {
+    if (!user) return setCanOrganize(false);
+    getUserTier(user.id)
+      .then(tier => setCanOrganize(PLANS[tier].features.ministryDashboard))
+      .catch(() => setCanOrganize(false));
+  }, [user]);
+
+  return (
+    <div className="min-h-screen pt-24">
+      <div className="max-w-4xl mx-auto px-4">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold">Campaigns</h1>
+            <p className="text-sm text-gray-600">Pray together, then write your own representatives with one voice.</p>
+          </div>
+          {canOrganize && (
+            <Link to="/campaigns/new">
+              <Button>Start a campaign</Button>
+            </Link>
+          )}
+        </div>
+
+        {error && <div className="text-sm text-red-600 mb-3">{error}</div>}
+        {loading ? (
+          <div className="text-sm text-gray-600">Loading…</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-gray-600">No campaigns are running right now.</div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {rows.map(c => (
+              <Link key={c.id} to={`/c/${c.slug}`}>
+                <Card className="h-full hover:shadow-md transition-shadow">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Megaphone className="h-4 w-4" />
+                      {c.title}
+                    </CardTitle>
+                    {c.description && <CardDescription className="line-clamp-2">{c.description}</CardDescription>}
+                  </CardHeader>
+                  <CardContent className="flex items-center gap-2 text-xs text-gray-600">
+                    <Badge variant={campaignIsOpen(c) ? 'default' : 'secondary'}>
+                      {campaignIsOpen(c) ? 'Open' : 'Starts soon'}
+                    </Badge>
+                    Until {new Date(c.ends_at).toLocaleDateString()}
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
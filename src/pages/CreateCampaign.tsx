@@ -0,0 +1,252 @@
+// src/pages/CreateCampaign.tsx
+import React, { useEffect, useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { getUserTier } from '@/lib/queries';
+import { PLANS } from '@/lib/entitlements';
+import { campaigns, slugify, CAMPAIGN_OFFICES, type CampaignOffice } from '@/lib/campaigns';
+import { TEMPLATE_VARIABLES, isTemplateVariable, templateVariablesIn } from '@/lib/messageTemplates';
+import type { Database } from '@/types/database';
+
+type Category = Database['public']['Enums']['prayer_category'];
+
+const DEFAULT_BODY = 'I am praying for you and for our nation:\n\n{{prayer.content}}\n\nRespectfully,\n{{user.name}}\n{{user.zip}}';
+
+// <input type="datetime-local"> wants local time without a zone
+function toLocalInput(d: Date): string {
+  const off = d.getTimezoneOffset() * 60_000;
+  return new Date(d.getTime() - off).toISOString().slice(0, 16);
+}
+
+export default function CreateCampaign() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const [allowed, setAllowed] = useState<boolean | null>(null);
+  const [title, setTitle] = useState('');
+  const [slug, setSlug] = useState('');
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [description, setDescription] = useState('');
+  const [prayer, setPrayer] = useState('');
+  const [category, setCategory] = useState<Category>('national');
+  const [subject, setSubject] = useState('A prayer for {{rep.office}} {{rep.name}}');
+  const [body, setBody] = useState(DEFAULT_BODY);
+  const [offices, setOffices] = useState<CampaignOffice[]>(['us_senate', 'us_house']);
+  const [startsAt, setStartsAt] = useState(() => toLocalInput(new Date()));
+  const [endsAt, setEndsAt] = useState(() => toLocalInput(new Date(Date.now() + 7 * 86_400_000)));
+  const [publish, setPublish] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    getUserTier(user.id)
+      .then(tier => setAllowed(PLANS[tier].features.ministryDashboard))
+      .catch(() => setAllowed(false));
+  }, [user]);
+
+  useEffect(() => {
+    if (!slugTouched) setSlug(slugify(title));
+  }, [title, slugTouched]);
+
+  const toggleOffice = (key: CampaignOffice) =>
+    setOffices(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return navigate('/login');
+    setError(null);
+
+    if (!title.trim()) return setError('Title is required.');
+    if (!/^[a-z0-9][a-z0-9-]{2,63}$/.test(slug)) {
+      return setError('Link must be 3–64 lowercase letters, numbers or dashes.');
+    }
+    if (!prayer.trim()) return setError('Write the prayer participants will share.');
+    if (!body.trim()) return setError('The message body is required.');
+    const unknown = templateVariablesIn(`${subject}\n${body}`).filter(k => !isTemplateVariable(k));
+    if (unknown.length) return setError(`Unknown variables: ${unknown.map(k => `{{${k}}}`).join(', ')}`);
+    if (!offices.length) return setError('Pick at least one kind of office to target.');
+    const start = new Date(startsAt);
+    const end = new Date(endsAt);
+    if (!(end > start)) return setError('The campaign must end after it starts.');
+
+    setSubmitting(true);
+    const { data, error } = await campaigns.create({
+      organizerId: user.id,
+      slug,
+      title,
+      description,
+      prayer,
+      category,
+      subject,
+      body,
+      targetOffices: offices,
+      startsAt: start.toISOString(),
+      endsAt: end.toISOString(),
+      published: publish,
+    });
+    setSubmitting(false);
+    if (error || !data) return setError(error?.message || 'Could not create the campaign.');
+    navigate(`/c/${data.slug}`);
+  };
+
+  if (!user || allowed === false) {
+    return (
+      <div className="min-h-screen pt-24">
+        <div className="max-w-lg mx-auto px-4">
+          <Card className="p-6 space-y-3">
+            <h1 className="text-xl font-semibold">Start a campaign</h1>
+            <p className="text-sm text-gray-600">
+              {user ? `Organizing campaigns is part of the ${PLANS.kingdom_builder.label} plan.` : 'Sign in to organize a campaign.'}
+            </p>
+            <Link to={user ? '/pricing' : '/login'} className="text-sm underline">
+              {user ? 'See plans' : 'Sign in'}
+            </Link>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-24">
+      <div className="max-w-2xl mx-auto px-4">
+        <Card className="p-6">
+          <h1 className="text-xl font-semibold mb-4">Start a campaign</h1>
+
+          {error && <div className="text-sm text-red-600 mb-3">{error}</div>}
+
+          <form onSubmit={onSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Title</label>
+              <input
+                className="w-full rounded-md border px-3 py-2 text-sm"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={120}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Link</label>
+              <div className="flex items-center gap-1 text-sm">
+                <span className="text-gray-500">/c/</span>
+                <input
+                  className="flex-1 rounded-md border px-3 py-2 text-sm"
+                  value={slug}
+                  onChange={(e) => { setSlugTouched(true); setSlug(e.target.value.toLowerCase()); }}
+                  maxLength={64}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Description (optional)</label>
+              <textarea
+                className="w-full rounded-md border px-3 py-2 text-sm"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={2000}
+                rows={3}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Prayer</label>
+              <div className="flex gap-2 mb-2">
+                <select
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value as Category)}
+                  className="border rounded-md px-3 py-2 text-sm"
+                >
+                  <option value="national">National</option>
+                  <option value="family">Family</option>
+                  <option value="health">Health</option>
+                  <option value="business">Business</option>
+                  <option value="trump_politics">President Trump/Politics</option>
+                  <option value="custom">Custom</option>
+                </select>
+              </div>
+              <textarea
+                className="w-full rounded-md border px-3 py-2 text-sm"
+                value={prayer}
+                onChange={(e) => setPrayer(e.target.value)}
+                placeholder="Posted publicly to the feed when you create the campaign."
+                rows={4}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Message</label>
+              <input
+                className="w-full rounded-md border px-3 py-2 text-sm mb-2"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                maxLength={180}
+              />
+              <textarea
+                className="w-full rounded-md border px-3 py-2 text-sm"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={8}
+              />
+              <div className="text-xs text-gray-500 mt-1">
+                Each participant's copy fills in{' '}
+                {TEMPLATE_VARIABLES.map(v => `{{${v.key}}}`).join(', ')}.
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Who participants write</label>
+              <div className="grid grid-cols-2 gap-1 text-sm">
+                {CAMPAIGN_OFFICES.map(o => (
+                  <label key={o.key} className="flex items-center gap-2">
+                    <input type="checkbox" checked={offices.includes(o.key)} onChange={() => toggleOffice(o.key)} />
+                    {o.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium mb-1">Starts</label>
+                <input
+                  type="datetime-local"
+                  className="w-full rounded-md border px-3 py-2 text-sm"
+                  value={startsAt}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Ends</label>
+                <input
+                  type="datetime-local"
+                  className="w-full rounded-md border px-3 py-2 text-sm"
+                  value={endsAt}
+                  onChange={(e) => setEndsAt(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={publish} onChange={(e) => setPublish(e.target.checked)} />
+              Publish now (otherwise only you can see it)
+            </label>
+
+            <div className="flex items-center gap-3">
+              <Button type="submit" disabled={submitting || allowed !== true}>
+                {submitting ? 'Creating…' : 'Create campaign'}
+              </Button>
+              <Link to="/campaigns" className="text-sm underline">Cancel</Link>
+            </div>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+// src/pages/MyOutreach.tsx
+// The signed-in user's outreach history: every request with its rep, prayer, channels and
+// outcome; filters by status/date/rep; retry failed, edit or cancel queued; CSV export.
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { outreach, type OutreachHistoryFilters, type OutreachHistoryRow } from '@/lib/outreach';
+import { toCsv, downloadCsv } from '@/lib/csv';
+
+type Status = OutreachHistoryRow['status'];
+
+const STATUSES: Status[] = ['queued', 'sent', 'pending_user', 'failed', 'throttled', 'cancelled'];
+
+const STATUS_LABEL: Record<string, string> = {
+  pending_user: 'ready to post',
+};
+
+const STATUS_VARIANT: Record<Status, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'secondary',
+  sent: 'default',
+  pending_user: 'secondary',
+  failed: 'destructive',
+  throttled: 'outline',
+  cancelled: 'outline',
+};
+
+const CHANNEL_LABEL: Record<string, string> = {
+  email: 'Email',
+  contact_form: 'Web form',
+  x: 'X',
+  facebook: 'Facebook',
+  letter: 'Letter',
+  call: 'Call',
+};
+
+const canRetry = (r: OutreachHistoryRow) => r.status === 'failed' || r.status === 'throttled' || r.status === 'cancelled';
+// Once a channel has gone out the request can no longer be edited or cancelled
+const untouched = (r: OutreachHistoryRow) => !r.outreach_deliveries?.some(d => d.status === 'sent' || d.status === 'intent');
+const canCancel = (r: OutreachHistoryRow) => r.status === 'queued' && untouched(r);
+
+function excerpt(text: string | null | undefined, n = 80) {
+  const t = (text ?? '').replace(/\s+/g, ' ').trim();
+  return t.length > n ? `${t.slice(0, n - 1)}…` : t;
+}
+
+function repLabel(r: OutreachHistoryRow) {
+  const rep = r.representatives;
+  if (!rep) return 'Unknown representative';
+  const where = [rep.state, rep.district].filter(Boolean).join('-');
+  return where ? `${rep.name} (${where})` : rep.name;
+}
+
+function fmt(ts: string | null | undefined) {
+  return ts ? new Date(ts).toLocaleString() : '';
+}
+
+export default function MyOutreach() {
+  const { user } = useAuth();
+
+  const [rows, setRows] = useState<OutreachHistoryRow[]>([]);
+  const [reps, setReps] = useState<Record<string, string>>({});
+  const [filters, setFilters] = useState<OutreachHistoryFilters>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<OutreachHistoryRow | null>(null);
+  const [draftSubject, setDraftSubject] = useState('');
+  const [draftBody, setDraftBody] = useState('');
+
+  const load = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    setError(null);
+    const { data, error } = await outreach.getUserOutreachHistory(user.id, filters);
+    setLoading(false);
+    if (error) return setError(error.message || 'Could not load your outreach.');
+    const list = data ?? [];
+    setRows(list);
+    setSelected(new Set());
+    // Keep every rep seen so far in the filter, even when the current filter hides them
+    setReps(prev => {
+      const next = { ...prev };
+      for (const r of list) next[r.target_rep_id] = repLabel(r);
+      return next;
+    });
+  }, [user, filters]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const selectedRows = useMemo(() => rows.filter(r => selected.has(r.id)), [rows, selected]);
+  const retryIds = selectedRows.filter(canRetry).map(r => r.id);
+  const cancelIds = selectedRows.filter(canCancel).map(r => r.id);
+
+  const toggle = (id: string) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+
+  const toggleAll = () =>
+    setSelected(prev => (prev.size === rows.length ? new Set() : new Set(rows.map(r => r.id))));
+
+  const retry = async (ids: string[]) => {
+    if (!ids.length) return;
+    setBusy(true);
+    setMsg(null);
+    const { data, error } = await outreach.retryRequests(ids);
+    setBusy(false);
+    if (error || !data) return setMsg(error?.message || 'Could not retry.');
+    const parts = [`${data.queued ?? 0} queued again`];
+    if (data.throttled) parts.push(`${data.throttled} over today's limit`);
+    if (data.skipped) parts.push(`${data.skipped} skipped`);
+    setMsg(`${parts.join(', ')}. Queued messages go out within a few minutes.`);
+    load();
+  };
+
+  const cancel = async (ids: string[]) => {
+    if (!ids.length) return;
+    if (!window.confirm(`Cancel ${ids.length} queued request${ids.length === 1 ? '' : 's'}?`)) return;
+    setBusy(true);
+    setMsg(null);
+    const { data, error } = await outreach.cancelRequests(ids);
+    setBusy(false);
+    if (error || !data) return setMsg(error?.message || 'Could not cancel.');
+    setMsg(
+      `${data.cancelled ?? 0} cancelled` +
+        (data.skipped ? `, ${data.skipped} already sending or partly sent` : '') +
+        '.',
+    );
+    load();
+  };
+
+  const startEdit = (r: OutreachHistoryRow) => {
+    setDraftSubject(r.subject_override ?? r.subject ?? '');
+    setDraftBody(r.body_override ?? r.body ?? '');
+    setEditing(r);
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    if (!draftBody.trim()) return setMsg('The message body is required.');
+    setBusy(true);
+    setMsg(null);
+    const { error } = await outreach.updateQueuedRequest(editing.id, { subject: draftSubject, body: draftBody });
+    setBusy(false);
+    if (error) return setMsg(error.message);
+    setEditing(null);
+    setMsg('Message updated.');
+    load();
+  };
+
+  const exportCsv = () => {
+    const csv = toCsv(
+      ['created_at', 'representative', 'office', 'prayer', 'channels', 'status', 'error', 'deliver_after', 'sent_at'],
+      rows.map(r => [
+        r.created_at,
+        r.representatives?.name,
+        r.representatives?.office_name,
+        r.prayers?.content,
+        (r.channels ?? []).join(' '),
+        r.status,
+        r.error,
+        r.deliver_after,
+        r.sent_at,
+      ]),
+    );
+    downloadCsv(`outreach-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+  };
+
+  const setFilter = (patch: OutreachHistoryFilters) => setFilters(prev => ({ ...prev, ...patch }));
+
+  if (!user) {
+    return (
+      <div className="min-h-screen pt-24">
+        <div className="max-w-lg mx-auto px-4">
+          <Card className="p-6 space-y-2">
+            <h1 className="text-xl font-semibold">My Outreach</h1>
+            <p className="text-sm text-gray-600">Sign in to see the messages you've sent.</p>
+            <Link to="/login" className="text-sm underline">Sign in</Link>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-24">
+      <div className="max-w-6xl mx-auto px-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">My Outreach</h1>
+          <Button variant="outline" onClick={exportCsv} disabled={!rows.length}>Export CSV</Button>
+        </div>
+
+        <Card className="p-4">
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Status</span>
+              <select
+                value={filters.status ?? ''}
+                onChange={(e) => setFilter({ status: (e.target.value || null) as Status | null })}
+                className="border rounded-md px-2 py-1"
+              >
+                <option value="">All</option>
+                {STATUSES.map(s => <option key={s} value={s}>{STATUS_LABEL[s] ?? s}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">Representative</span>
+              <select
+                value={filters.repId ?? ''}
+                onChange={(e) => setFilter({ repId: e.target.value || null })}
+                className="border rounded-md px-2 py-1 max-w-[16rem]"
+              >
+                <option value="">All</option>
+                {Object.entries(reps)
+                  .sort((a, b) => a[1].localeCompare(b[1]))
+                  .map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">From</span>
+              <input
+                type="date"
+                value={filters.from ?? ''}
+                onChange={(e) => setFilter({ from: e.target.value || null })}
+                className="border rounded-md px-2 py-1"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs text-gray-600">To</span>
+              <input
+                type="date"
+                value={filters.to ?? ''}
+                onChange={(e) => setFilter({ to: e.target.value || null })}
+                className="border rounded-md px-2 py-1"
+              />
+            </label>
+            <Button variant="outline" size="sm" onClick={() => setFilters({})}>Clear</Button>
+            <span className="flex-1" />
+            <Button size="sm" onClick={() => retry(retryIds)} disabled={busy || !retryIds.length}>
+              Retry selected ({retryIds.length})
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => cancel(cancelIds)} disabled={busy || !cancelIds.length}>
+              Cancel selected ({cancelIds.length})
+            </Button>
+          </div>
+          {msg && <p className="mt-3 text-sm text-gray-700">{msg}</p>}
+        </Card>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <Card className="overflow-x-auto">
+          {loading ? (
+            <div className="p-4 text-sm text-gray-600">Loading…</div>
+          ) : rows.length === 0 ? (
+            <div className="p-4 text-sm text-gray-600">No outreach matches these filters.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="p-2">
+                    <input type="checkbox" checked={selected.size === rows.length} onChange={toggleAll} aria-label="Select all" />
+                  </th>
+                  <th className="p-2">Representative</th>
+                  <th className="p-2">Prayer</th>
+                  <th className="p-2">Channels</th>
+                  <th className="p-2">Status</th>
+                  <th className="p-2">Sent</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr key={r.id} className="border-b align-top">
+                    <td className="p-2">
+                      <input type="checkbox" checked={selected.has(r.id)} onChange={() => toggle(r.id)} aria-label="Select" />
+                    </td>
+                    <td className="p-2">
+                      {repLabel(r)}
+                      <div className="text-xs text-gray-500">{r.representatives?.office_name}</div>
+                    </td>
+                    <td className="p-2 max-w-xs" title={r.prayers?.content ?? ''}>{excerpt(r.prayers?.content)}</td>
+                    <td className="p-2">
+                      {(r.channels ?? []).map(ch => {
+                        const d = r.outreach_deliveries?.find(x => x.channel === ch);
+                        return (
+                          <div key={ch} className="text-xs" title={d?.error ?? ''}>
+                            {CHANNEL_LABEL[ch] ?? ch}
+                            {d && <span className="text-gray-500"> · {d.status}</span>}
+                            {d?.status === 'intent' && d.intent_url && (
+                              <>
+                                {' '}
+                                <a href={d.intent_url} target="_blank" rel="noopener noreferrer" className="underline">
+                                  {ch === 'x' ? 'Post on X' : 'Share on Facebook'}
+                                </a>
+                              </>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </td>
+                    <td className="p-2">
+                      <Badge variant={STATUS_VARIANT[r.status]}>{STATUS_LABEL[r.status] ?? r.status}</Badge>
+                      {r.error && <div className="text-xs text-red-600 mt-1 max-w-xs">{r.error}</div>}
+                    </td>
+                    <td className="p-2 text-xs text-gray-600 whitespace-nowrap">
+                      {r.sent_at
+                        ? fmt(r.sent_at)
+                        : r.status === 'queued' && r.deliver_after
+                          ? <span>Scheduled {fmt(r.deliver_after)}</span>
+                          : <span>Created {fmt(r.created_at)}</span>}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {canRetry(r) && (
+                        <Button size="sm" variant="outline" onClick={() => retry([r.id])} disabled={busy}>Retry</Button>
+                      )}
+                      {canCancel(r) && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => startEdit(r)} disabled={busy}>Edit</Button>
+                          <Button size="sm" variant="outline" onClick={() => cancel([r.id])} disabled={busy}>Cancel</Button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Card>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit message{editing ? ` to ${repLabel(editing)}` : ''}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 text-sm">
+            <input
+              value={draftSubject}
+              onChange={(e) => setDraftSubject(e.target.value)}
+              className="w-full border rounded-md px-2 py-1"
+              maxLength={180}
+              placeholder="Subject"
+            />
+            <textarea
+              value={draftBody}
+              onChange={(e) => setDraftBody(e.target.value)}
+              className="w-full border rounded-md px-2 py-1 min-h-[200px]"
+            />
+            <p className="text-xs text-gray-500">Variables like {'{{rep.name}}'} are still filled in when it is sent.</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Close</Button>
+            <Button onClick={saveEdit} disabled={busy}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
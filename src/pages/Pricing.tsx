@@ -1,34 +1,88 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Check } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import TierPill from '@/components/TierPill';
+import { useAuth } from '@/hooks/useAuth';
+import { stripeHelpers, stripePrices } from '@/lib/stripe';
+import { PLANS, type FeatureFlag, type Plan } from '@/lib/entitlements';
+
+const FEATURE_COPY: Record<FeatureFlag, string> = {
+  prayerGroups: 'Prayer groups',
+  advancedAnalytics: 'Advanced analytics',
+  prioritySupport: 'Priority support',
+  ministryDashboard: 'Ministry dashboard',
+};
+
+/** Bullets generated from entitlements: the outreach cap plus whatever `plan` adds over `previous`. */
+function planHighlights(plan: Plan, previous?: Plan): string[] {
+  const e = PLANS[plan];
+  const before = previous ? PLANS[previous] : null;
+  const bullets = [`Contact up to ${e.dailyOutreachCap} representatives a day`];
+  if (e.channels.includes('call') && !before?.channels.includes('call')) bullets.push('Call scripts with office phone numbers');
+  if (e.channels.includes('x') && !before?.channels.includes('x')) bullets.push('Tag representatives on X and Facebook');
+  if (e.channels.includes('letter') && !before?.channels.includes('letter')) bullets.push('Printed letters mailed to their offices');
+  if (e.canCreateGroups && !before?.canCreateGroups) bullets.push('Create groups');
+  for (const flag of Object.keys(FEATURE_COPY) as FeatureFlag[]) {
+    if (e.features[flag] && !before?.features[flag]) bullets.push(FEATURE_COPY[flag]);
+  }
+  return bullets;
+}
 
 export default function PricingPage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const checkoutCancelled = searchParams.get('checkout') === 'cancel';
+  const [pendingPlan, setPendingPlan] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
   const plans = [
     {
-      name: 'Believer',
+      plan: 'free' as const,
       price: 'Free',
       description: 'Start your faith journey',
-      features: ['Basic prayer sharing', 'Community access', 'Mobile app'],
-      tier: 'basic' as const,
+      features: ['Basic prayer sharing', 'Community access', 'Mobile app', ...planHighlights('free')],
+      priceId: null,
     },
     {
-      name: 'Disciple',
+      plan: 'faith_warrior' as const,
       price: '$9.99/month',
       description: 'Deepen your spiritual practice',
-      features: ['Everything in Believer', 'Prayer groups', 'Advanced analytics', 'Priority support'],
-      tier: 'premium' as const,
+      features: [`Everything in ${PLANS.free.label}`, ...planHighlights('faith_warrior', 'free')],
+      priceId: stripePrices.faith_warrior,
       popular: true,
     },
     {
-      name: 'Shepherd',
+      plan: 'kingdom_builder' as const,
       price: '$29.99/month',
       description: 'Lead and inspire others',
-      features: ['Everything in Disciple', 'Create groups', 'Outreach tools', 'Ministry dashboard'],
-      tier: 'leader' as const,
+      features: [`Everything in ${PLANS.faith_warrior.label}`, ...planHighlights('kingdom_builder', 'faith_warrior')],
+      priceId: stripePrices.kingdom_builder,
     },
-  ];
+  ].map((p) => ({ ...p, name: PLANS[p.plan].label }));
+
+  async function choosePlan(plan: (typeof plans)[number]) {
+    setError(null);
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    if (!plan.priceId) {
+      navigate('/feed');
+      return;
+    }
+
+    setPendingPlan(plan.name);
+    try {
+      const { url } = await stripeHelpers.createCheckoutSession(plan.priceId);
+      window.location.href = url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start checkout');
+      setPendingPlan(null);
+    }
+  }
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-16">
@@ -39,6 +93,12 @@ export default function PricingPage() {
         <p className="text-xl text-america-gray-dark max-w-2xl mx-auto">
           Join thousands of believers in strengthening faith through community and prayer
         </p>
+        {checkoutCancelled && (
+          <p className="mt-4 text-sm text-america-gray-dark">
+            Checkout was cancelled — you have not been charged.
+          </p>
+        )}
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
       </div>
 
       <div className="grid md:grid-cols-3 gap-8">
@@ -46,7 +106,7 @@ export default function PricingPage() {
           <Card key={plan.name} className={`relative ${plan.popular ? 'ring-2 ring-america-red' : ''}`}>
             {plan.popular && (
               <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
-                <TierPill tier="premium" />
+                <TierPill tier={plan.plan} />
               </div>
             )}
             <CardHeader>
@@ -63,8 +123,15 @@ export default function PricingPage() {
                   </li>
                 ))}
               </ul>
-              <Button className={`w-full ${plan.popular ? 'america-button' : ''}`} variant={plan.popular ? 'default' : 'outline'}>
-                {plan.price === 'Free' ? 'Get Started' : 'Subscribe'}
+              <Button
+                className={`w-full ${plan.popular ? 'america-button' : ''}`}
+                variant={plan.popular ? 'default' : 'outline'}
+                onClick={() => choosePlan(plan)}
+                disabled={pendingPlan !== null || (plan.price !== 'Free' && !plan.priceId)}
+              >
+                {pendingPlan === plan.name
+                  ? 'Redirecting…'
+                  : plan.price === 'Free' ? 'Get Started' : 'Subscribe'}
               </Button>
             </CardContent>
           </Card>
@@ -7,8 +7,9 @@ import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
 import { Separator } from '@/components/ui/separator'
-import { Link } from 'react-router-dom'
+import { Link, useSearchParams } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
+import { stripeHelpers } from '@/lib/stripe'
 import { useAuth } from '@/hooks/useAuth';
 import ProfileAddressPanel from '@/components/profile/ProfileAddressPanel'
 
@@ -57,6 +58,12 @@ export default function SettingsPage() {
     description: string | null
   }
 
+  // Billing (Stripe portal)
+  const [searchParams] = useSearchParams()
+  const checkoutSucceeded = searchParams.get('checkout') === 'success'
+  const [billingBusy, setBillingBusy] = useState(false)
+  const [billingError, setBillingError] = useState<string | null>(null)
+
   const [joinedGroups, setJoinedGroups] = useState<JoinedGroup[]>([])
   const [groupsLoading, setGroupsLoading] = useState(false)
   const [groupsError, setGroupsError] = useState<string | null>(null)
@@ -271,6 +278,18 @@ export default function SettingsPage() {
     }
   }
 
+  async function openBillingPortal() {
+    setBillingError(null)
+    setBillingBusy(true)
+    try {
+      const { url } = await stripeHelpers.createPortalSession()
+      window.location.href = url
+    } catch (err) {
+      setBillingError(err instanceof Error ? err.message : 'Could not open billing portal')
+      setBillingBusy(false)
+    }
+  }
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
       <div className="mb-8">
@@ -518,6 +537,28 @@ export default function SettingsPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Billing */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Billing</CardTitle>
+            <CardDescription>Manage your subscription, payment method and invoices</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {checkoutSucceeded && (
+              <div className="text-sm text-green-700">
+                Thank you! Your subscription is being activated and will appear here shortly.
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <Button type="button" variant="outline" onClick={openBillingPortal} disabled={billingBusy}>
+                {billingBusy ? 'Opening…' : 'Manage billing'}
+              </Button>
+              <Link to="/pricing" className="underline text-sm">View plans</Link>
+            </div>
+            {billingError && <div className="text-sm text-red-600">{billingError}</div>}
+          </CardContent>
+        </Card>
       </form>
     </div>
   )
@@ -59,6 +59,69 @@ export type Database = {
         }
         Relationships: []
       }
+      census_district_shapes: {
+        Row: {
+          district: string
+          geoid: string
+          geom: unknown
+          kind: string
+          name: string | null
+          state: string
+          vintage: string
+        }
+        Insert: {
+          district: string
+          geoid: string
+          geom: unknown
+          kind: string
+          name?: string | null
+          state: string
+          vintage: string
+        }
+        Update: {
+          district?: string
+          geoid?: string
+          geom?: unknown
+          kind?: string
+          name?: string | null
+          state?: string
+          vintage?: string
+        }
+        Relationships: []
+      }
+      census_zcta_districts: {
+        Row: {
+          district: string
+          geoid: string
+          kind: string
+          land_part: number
+          overlap_pct: number
+          state: string
+          vintage: string
+          zcta: string
+        }
+        Insert: {
+          district: string
+          geoid: string
+          kind: string
+          land_part?: number
+          overlap_pct: number
+          state: string
+          vintage: string
+          zcta: string
+        }
+        Update: {
+          district?: string
+          geoid?: string
+          kind?: string
+          land_part?: number
+          overlap_pct?: number
+          state?: string
+          vintage?: string
+          zcta?: string
+        }
+        Relationships: []
+      }
       circle_members: {
         Row: {
           circle_id: string
@@ -95,6 +158,24 @@ export type Database = {
           },
         ]
       }
+      civic_zip_divisions_cache: {
+        Row: {
+          ocd_division_ids: string[]
+          updated_at: string
+          zip5: string
+        }
+        Insert: {
+          ocd_division_ids: string[]
+          updated_at?: string
+          zip5: string
+        }
+        Update: {
+          ocd_division_ids?: string[]
+          updated_at?: string
+          zip5?: string
+        }
+        Relationships: []
+      }
       comment_likes: {
         Row: {
           comment_id: string
@@ -128,6 +209,98 @@ export type Database = {
           },
         ]
       }
+      contact_form_mappings: {
+        Row: {
+          action_url: string | null
+          created_at: string
+          enabled: boolean
+          fields: Json
+          form_match: string | null
+          form_url: string
+          id: string
+          method: string
+          notes: string | null
+          representative_id: string | null
+          success_pattern: string | null
+          updated_at: string
+        }
+        Insert: {
+          action_url?: string | null
+          created_at?: string
+          enabled?: boolean
+          fields?: Json
+          form_match?: string | null
+          form_url: string
+          id?: string
+          method?: string
+          notes?: string | null
+          representative_id?: string | null
+          success_pattern?: string | null
+          updated_at?: string
+        }
+        Update: {
+          action_url?: string | null
+          created_at?: string
+          enabled?: boolean
+          fields?: Json
+          form_match?: string | null
+          form_url?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          representative_id?: string | null
+          success_pattern?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_form_mappings_representative_id_fkey"
+            columns: ["representative_id"]
+            isOneToOne: false
+            referencedRelation: "representatives"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_address_health: {
+        Row: {
+          bad_reason: string | null
+          bad_since: string | null
+          complaints: number
+          email: string
+          hard_bounces: number
+          last_description: string | null
+          last_event_at: string | null
+          last_event_type: string | null
+          soft_bounces: number
+          updated_at: string
+        }
+        Insert: {
+          bad_reason?: string | null
+          bad_since?: string | null
+          complaints?: number
+          email: string
+          hard_bounces?: number
+          last_description?: string | null
+          last_event_at?: string | null
+          last_event_type?: string | null
+          soft_bounces?: number
+          updated_at?: string
+        }
+        Update: {
+          bad_reason?: string | null
+          bad_since?: string | null
+          complaints?: number
+          email?: string
+          hard_bounces?: number
+          last_description?: string | null
+          last_event_at?: string | null
+          last_event_type?: string | null
+          soft_bounces?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       group_members: {
         Row: {
           created_at: string
@@ -232,50 +405,390 @@ export type Database = {
         }
         Relationships: []
       }
+      outreach_campaign_participants: {
+        Row: {
+          campaign_id: string
+          joined_at: string
+          user_id: string
+        }
+        Insert: {
+          campaign_id: string
+          joined_at?: string
+          user_id?: string
+        }
+        Update: {
+          campaign_id?: string
+          joined_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outreach_campaign_participants_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outreach_campaign_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outreach_campaigns: {
+        Row: {
+          body: string
+          created_at: string
+          description: string | null
+          ends_at: string
+          id: string
+          organizer_id: string
+          prayer_id: string
+          published: boolean
+          slug: string
+          starts_at: string
+          subject: string
+          target_offices: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          description?: string | null
+          ends_at: string
+          id?: string
+          organizer_id?: string
+          prayer_id: string
+          published?: boolean
+          slug: string
+          starts_at?: string
+          subject?: string
+          target_offices: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          description?: string | null
+          ends_at?: string
+          id?: string
+          organizer_id?: string
+          prayer_id?: string
+          published?: boolean
+          slug?: string
+          starts_at?: string
+          subject?: string
+          target_offices?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outreach_campaigns_organizer_id_fkey"
+            columns: ["organizer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outreach_campaigns_prayer_id_fkey"
+            columns: ["prayer_id"]
+            isOneToOne: false
+            referencedRelation: "prayer_feed"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outreach_campaigns_prayer_id_fkey"
+            columns: ["prayer_id"]
+            isOneToOne: false
+            referencedRelation: "prayers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outreach_dead_letters: {
+        Row: {
+          attempt_count: number
+          channel: string
+          created_at: string
+          error: string | null
+          id: string
+          reason: string
+          replayed_at: string | null
+          request_id: string
+        }
+        Insert: {
+          attempt_count?: number
+          channel: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          reason: string
+          replayed_at?: string | null
+          request_id: string
+        }
+        Update: {
+          attempt_count?: number
+          channel?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          reason?: string
+          replayed_at?: string | null
+          request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outreach_dead_letters_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outreach_deliveries: {
+        Row: {
+          attempt_count: number
+          bounce_type: string | null
+          bounced_at: string | null
+          call_outcome: string | null
+          channel: string
+          complained_at: string | null
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          failure_reason: string | null
+          id: string
+          intent_url: string | null
+          last_attempt_at: string | null
+          next_attempt_at: string | null
+          notes: string | null
+          post_url: string | null
+          provider: string | null
+          provider_message_id: string | null
+          request_id: string
+          sent_at: string | null
+          status: string
+          target: string | null
+          updated_at: string
+        }
+        Insert: {
+          attempt_count?: number
+          bounce_type?: string | null
+          bounced_at?: string | null
+          call_outcome?: string | null
+          channel: string
+          complained_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          failure_reason?: string | null
+          id?: string
+          intent_url?: string | null
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
+          notes?: string | null
+          post_url?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          request_id: string
+          sent_at?: string | null
+          status?: string
+          target?: string | null
+          updated_at?: string
+        }
+        Update: {
+          attempt_count?: number
+          bounce_type?: string | null
+          bounced_at?: string | null
+          call_outcome?: string | null
+          channel?: string
+          complained_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          failure_reason?: string | null
+          id?: string
+          intent_url?: string | null
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
+          notes?: string | null
+          post_url?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          request_id?: string
+          sent_at?: string | null
+          status?: string
+          target?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outreach_deliveries_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outreach_letters: {
+        Row: {
+          batch_path: string | null
+          created_at: string
+          id: string
+          mailed_at: string | null
+          mailing_address: Json
+          office_kind: string
+          page_count: number
+          printed_at: string | null
+          representative_id: string | null
+          request_id: string
+          status: string
+          storage_path: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          batch_path?: string | null
+          created_at?: string
+          id?: string
+          mailed_at?: string | null
+          mailing_address: Json
+          office_kind: string
+          page_count?: number
+          printed_at?: string | null
+          representative_id?: string | null
+          request_id: string
+          status?: string
+          storage_path: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          batch_path?: string | null
+          created_at?: string
+          id?: string
+          mailed_at?: string | null
+          mailing_address?: Json
+          office_kind?: string
+          page_count?: number
+          printed_at?: string | null
+          representative_id?: string | null
+          request_id?: string
+          status?: string
+          storage_path?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outreach_letters_representative_id_fkey"
+            columns: ["representative_id"]
+            isOneToOne: false
+            referencedRelation: "representatives"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outreach_letters_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: true
+            referencedRelation: "outreach_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outreach_letters_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       outreach_requests: {
         Row: {
           body: string | null
+          body_override: string | null
+          campaign_id: string | null
+          channel_status: Json
           channels: string[]
           created_at: string
+          deliver_after: string | null
           error: string | null
           id: string
+          locked_by: string | null
+          locked_until: string | null
+          next_attempt_at: string | null
           prayer_id: string
           send_date: string | null
           sent_at: string | null
           status: string
           subject: string | null
+          subject_override: string | null
           target_rep_id: string
+          template_id: string | null
           user_id: string
         }
         Insert: {
           body?: string | null
+          body_override?: string | null
+          campaign_id?: string | null
+          channel_status?: Json
           channels: string[]
           created_at?: string
+          deliver_after?: string | null
           error?: string | null
           id?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          next_attempt_at?: string | null
           prayer_id: string
           send_date?: string | null
           sent_at?: string | null
           status?: string
           subject?: string | null
+          subject_override?: string | null
           target_rep_id: string
+          template_id?: string | null
           user_id: string
         }
         Update: {
           body?: string | null
+          body_override?: string | null
+          campaign_id?: string | null
+          channel_status?: Json
           channels?: string[]
           created_at?: string
+          deliver_after?: string | null
           error?: string | null
           id?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          next_attempt_at?: string | null
           prayer_id?: string
           send_date?: string | null
           sent_at?: string | null
           status?: string
           subject?: string | null
+          subject_override?: string | null
           target_rep_id?: string
+          template_id?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "outreach_requests_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_campaigns"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "outreach_requests_prayer_id_fkey"
             columns: ["prayer_id"]
@@ -297,6 +810,13 @@ export type Database = {
             referencedRelation: "representatives"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "outreach_requests_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "outreach_requests_user_id_fkey"
             columns: ["user_id"]
@@ -306,6 +826,91 @@ export type Database = {
           },
         ]
       }
+      outreach_templates: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          is_shared: boolean
+          name: string
+          owner_id: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name: string
+          owner_id?: string
+          subject?: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name?: string
+          owner_id?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outreach_templates_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      postmark_events: {
+        Row: {
+          counted_at: string | null
+          error: string | null
+          id: string
+          message_id: string | null
+          payload: Json
+          processed_at: string | null
+          received_at: string
+          record_type: string
+          request_id: string | null
+        }
+        Insert: {
+          counted_at?: string | null
+          error?: string | null
+          id: string
+          message_id?: string | null
+          payload: Json
+          processed_at?: string | null
+          received_at?: string
+          record_type: string
+          request_id?: string | null
+        }
+        Update: {
+          counted_at?: string | null
+          error?: string | null
+          id?: string
+          message_id?: string | null
+          payload?: Json
+          processed_at?: string | null
+          received_at?: string
+          record_type?: string
+          request_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "postmark_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "outreach_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       prayer_circles: {
         Row: {
           created_at: string
@@ -563,6 +1168,7 @@ export type Database = {
           is_public: boolean
           last_name: string | null
           phone: string | null
+          stripe_customer_id: string | null
           tier: string
           updated_at: string
           username: string
@@ -577,6 +1183,7 @@ export type Database = {
           is_public?: boolean
           last_name?: string | null
           phone?: string | null
+          stripe_customer_id?: string | null
           tier?: string
           updated_at?: string
           username: string
@@ -591,17 +1198,43 @@ export type Database = {
           is_public?: boolean
           last_name?: string | null
           phone?: string | null
+          stripe_customer_id?: string | null
           tier?: string
           updated_at?: string
           username?: string
         }
         Relationships: []
       }
+      representative_divisions: {
+        Row: {
+          ocd_division_id: string
+          rep_id: string
+        }
+        Insert: {
+          ocd_division_id: string
+          rep_id: string
+        }
+        Update: {
+          ocd_division_id?: string
+          rep_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "representative_divisions_rep_id_fkey"
+            columns: ["rep_id"]
+            isOneToOne: false
+            referencedRelation: "representatives"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       representatives: {
         Row: {
           chamber: string | null
           created_at: string | null
+          dc_office_address: Json | null
           district: string | null
+          district_office_address: Json | null
           division_id: string
           email: string | null
           facebook: string | null
@@ -621,7 +1254,9 @@ export type Database = {
         Insert: {
           chamber?: string | null
           created_at?: string | null
+          dc_office_address?: Json | null
           district?: string | null
+          district_office_address?: Json | null
           division_id: string
           email?: string | null
           facebook?: string | null
@@ -641,7 +1276,9 @@ export type Database = {
         Update: {
           chamber?: string | null
           created_at?: string | null
+          dc_office_address?: Json | null
           district?: string | null
+          district_office_address?: Json | null
           division_id?: string
           email?: string | null
           facebook?: string | null
@@ -663,19 +1300,25 @@ export type Database = {
       stripe_events: {
         Row: {
           data: Json
+          error: string | null
           id: string
+          processed_at: string | null
           received_at: string
           type: string
         }
         Insert: {
           data: Json
+          error?: string | null
           id: string
+          processed_at?: string | null
           received_at?: string
           type: string
         }
         Update: {
           data?: Json
+          error?: string | null
           id?: string
+          processed_at?: string | null
           received_at?: string
           type?: string
         }
@@ -683,33 +1326,45 @@ export type Database = {
       }
       subscriptions: {
         Row: {
+          cancel_at_period_end: boolean
           created_at: string
           id: string
+          past_due_since: string | null
           renewal_at: string | null
           status: string
           stripe_customer_id: string | null
+          stripe_price_id: string | null
           stripe_subscription_id: string | null
           tier: Database["public"]["Enums"]["subscription_tier"]
+          updated_at: string
           user_id: string
         }
         Insert: {
+          cancel_at_period_end?: boolean
           created_at?: string
           id?: string
+          past_due_since?: string | null
           renewal_at?: string | null
           status: string
           stripe_customer_id?: string | null
+          stripe_price_id?: string | null
           stripe_subscription_id?: string | null
           tier: Database["public"]["Enums"]["subscription_tier"]
+          updated_at?: string
           user_id: string
         }
         Update: {
+          cancel_at_period_end?: boolean
           created_at?: string
           id?: string
+          past_due_since?: string | null
           renewal_at?: string | null
           status?: string
           stripe_customer_id?: string | null
+          stripe_price_id?: string | null
           stripe_subscription_id?: string | null
           tier?: Database["public"]["Enums"]["subscription_tier"]
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
@@ -729,6 +1384,7 @@ export type Database = {
           country: string | null
           county: string | null
           created_at: string
+          district_source: string | null
           hd: string | null
           id: string
           is_primary: boolean
@@ -748,6 +1404,7 @@ export type Database = {
           country?: string | null
           county?: string | null
           created_at?: string
+          district_source?: string | null
           hd?: string | null
           id?: string
           is_primary?: boolean
@@ -767,6 +1424,7 @@ export type Database = {
           country?: string | null
           county?: string | null
           created_at?: string
+          district_source?: string | null
           hd?: string | null
           id?: string
           is_primary?: boolean
@@ -872,6 +1530,28 @@ export type Database = {
       }
     }
     Functions: {
+      campaign_office_key: {
+        Args: { p_chamber: string; p_level: string }
+        Returns: string
+      }
+      campaign_stats: {
+        Args: { p_campaign: string }
+        Returns: Json
+      }
+      cancel_outreach_requests: {
+        Args: { p_ids: string[] }
+        Returns: Json
+      }
+      claim_outreach_requests: {
+        Args: {
+          p_channels: string[]
+          p_ids?: string[] | null
+          p_lease_seconds: number
+          p_limit: number
+          p_worker: string
+        }
+        Returns: string[]
+      }
       contains_banned: {
         Args: { t: string }
         Returns: boolean
@@ -884,9 +1564,63 @@ export type Database = {
         Args: { p_prayer_id: string }
         Returns: number
       }
+      log_outreach_call: {
+        Args: {
+          p_notes?: string | null
+          p_outcome: string
+          p_phone?: string | null
+          p_prayer_id: string
+          p_rep_id: string
+        }
+        Returns: Json
+      }
+      note_email_event: {
+        Args: {
+          p_description: string | null
+          p_email: string
+          p_event_id: string
+          p_hard_bounce_threshold: number
+          p_kind: string
+          p_type: string | null
+        }
+        Returns: boolean
+      }
+      outreach_daily_cap: {
+        Args: { p_user: string }
+        Returns: {
+          cap: number
+          source: string
+        }[]
+      }
+      outreach_plan_cap: {
+        Args: { p_tier: string }
+        Returns: number
+      }
+      outreach_quota: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      release_outreach_requests: {
+        Args: { p_ids: string[]; p_worker: string }
+        Returns: undefined
+      }
+      resolve_districts_at: {
+        Args: { p_lat: number; p_lng: number }
+        Returns: {
+          district: string
+          geoid: string
+          kind: string
+          name: string | null
+          state: string
+        }[]
+      }
+      retry_outreach_requests: {
+        Args: { p_ids: string[] }
+        Returns: Json
+      }
     }
     Enums: {
-      outreach_status: "queued" | "sent" | "failed"
+      outreach_status: "queued" | "sent" | "pending_user" | "failed" | "cancelled"
       prayer_category:
         | "trump_politics"
         | "health"
@@ -1022,7 +1756,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      outreach_status: ["queued", "sent", "failed"],
+      outreach_status: ["queued", "sent", "pending_user", "failed", "cancelled"],
       prayer_category: [
         "trump_politics",
         "health",
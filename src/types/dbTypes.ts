@@ -16,6 +16,11 @@ export type CircleMember = Database['public']['Tables']['circle_members']['Row']
 export type Representative = Database['public']['Tables']['representatives']['Row'];
 export type UserRepresentative = Database['public']['Tables']['user_representatives']['Row'];
 export type OutreachRequest = Database['public']['Tables']['outreach_requests']['Row'];
+export type OutreachDelivery = Database['public']['Tables']['outreach_deliveries']['Row'];
+export type OutreachDeadLetter = Database['public']['Tables']['outreach_dead_letters']['Row'];
+export type OutreachTemplate = Database['public']['Tables']['outreach_templates']['Row'];
+export type OutreachCampaign = Database['public']['Tables']['outreach_campaigns']['Row'];
+export type OutreachCampaignParticipant = Database['public']['Tables']['outreach_campaign_participants']['Row'];
 export type ModerationFlag = Database['public']['Tables']['moderation_flags']['Row'];
 export type AuditLog = Database['public']['Tables']['audit_logs']['Row'];
 export type PrivacyConsent = Database['public']['Tables']['privacy_consents']['Row'];
@@ -36,6 +41,11 @@ export type CircleMemberInsert = Database['public']['Tables']['circle_members'][
 export type RepresentativeInsert = Database['public']['Tables']['representatives']['Insert'];
 export type UserRepresentativeInsert = Database['public']['Tables']['user_representatives']['Insert'];
 export type OutreachRequestInsert = Database['public']['Tables']['outreach_requests']['Insert'];
+export type OutreachDeliveryInsert = Database['public']['Tables']['outreach_deliveries']['Insert'];
+export type OutreachDeadLetterInsert = Database['public']['Tables']['outreach_dead_letters']['Insert'];
+export type OutreachTemplateInsert = Database['public']['Tables']['outreach_templates']['Insert'];
+export type OutreachCampaignInsert = Database['public']['Tables']['outreach_campaigns']['Insert'];
+export type OutreachCampaignParticipantInsert = Database['public']['Tables']['outreach_campaign_participants']['Insert'];
 export type ModerationFlagInsert = Database['public']['Tables']['moderation_flags']['Insert'];
 export type AuditLogInsert = Database['public']['Tables']['audit_logs']['Insert'];
 export type PrivacyConsentInsert = Database['public']['Tables']['privacy_consents']['Insert'];
@@ -56,6 +66,11 @@ export type CircleMemberUpdate = Database['public']['Tables']['circle_members'][
 export type RepresentativeUpdate = Database['public']['Tables']['representatives']['Update'];
 export type UserRepresentativeUpdate = Database['public']['Tables']['user_representatives']['Update'];
 export type OutreachRequestUpdate = Database['public']['Tables']['outreach_requests']['Update'];
+export type OutreachDeliveryUpdate = Database['public']['Tables']['outreach_deliveries']['Update'];
+export type OutreachDeadLetterUpdate = Database['public']['Tables']['outreach_dead_letters']['Update'];
+export type OutreachTemplateUpdate = Database['public']['Tables']['outreach_templates']['Update'];
+export type OutreachCampaignUpdate = Database['public']['Tables']['outreach_campaigns']['Update'];
+export type OutreachCampaignParticipantUpdate = Database['public']['Tables']['outreach_campaign_participants']['Update'];
 export type ModerationFlagUpdate = Database['public']['Tables']['moderation_flags']['Update'];
 export type AuditLogUpdate = Database['public']['Tables']['audit_logs']['Update'];
 export type PrivacyConsentUpdate = Database['public']['Tables']['privacy_consents']['Update'];
@@ -71,7 +86,13 @@ export type SubscriptionStatus =
   | 'trialing'
   | 'past_due'
   | 'canceled'
-  | 'incomplete';
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'unpaid'
+  | 'paused';
+export type DeliveryStatus = 'pending' | 'sent' | 'intent' | 'failed' | 'skipped';
+/** user_addresses.district_source */
+export type DistrictSource = 'geocoded' | 'user_chosen' | 'zip_majority';
 export type SharePlatform =
   | 'facebook'
   | 'x'
@@ -92,3 +113,6 @@ export type StrictSubscription = Omit<Subscription, 'status'> & {
 export type StrictPrayerShare = Omit<PrayerShare, 'platform'> & {
   platform: SharePlatform;
 };
+export type StrictOutreachDelivery = Omit<OutreachDelivery, 'status'> & {
+  status: DeliveryStatus;
+};
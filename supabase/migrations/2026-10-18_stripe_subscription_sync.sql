@@ -0,0 +1,30 @@
+-- 2026-10-18 Stripe webhook sync: subscription upsert key, grace tracking, event ledger state
+-- Additive + idempotent.
+
+alter table public.subscriptions
+  add column if not exists stripe_price_id      text,
+  add column if not exists cancel_at_period_end boolean not null default false,
+  add column if not exists past_due_since       timestamptz, -- start of the past_due grace window
+  add column if not exists updated_at           timestamptz not null default now();
+
+-- Webhooks upsert by Stripe subscription id (NULLs stay allowed for legacy rows)
+create unique index if not exists uq_subscriptions_stripe_subscription_id
+  on public.subscriptions(stripe_subscription_id);
+create index if not exists idx_subscriptions_stripe_customer
+  on public.subscriptions(stripe_customer_id);
+
+-- Accept Stripe's full status vocabulary
+alter table public.subscriptions drop constraint if exists subscriptions_status_check;
+alter table public.subscriptions
+  add constraint subscriptions_status_check
+  check (status in ('active','trialing','past_due','canceled','incomplete','incomplete_expired','unpaid','paused'));
+
+drop trigger if exists trg_subscriptions_updated_at on public.subscriptions;
+create trigger trg_subscriptions_updated_at
+before update on public.subscriptions
+for each row execute function public.set_updated_at();
+
+-- stripe_events: a row is only "done" once its handler succeeded
+alter table public.stripe_events
+  add column if not exists processed_at timestamptz,
+  add column if not exists error        text;
@@ -0,0 +1,21 @@
+-- 2026-10-18b One tier vocabulary: profiles.tier uses the plan keys from src/lib/entitlements.ts
+-- (free | faith_warrior | kingdom_builder | admin). Idempotent.
+
+alter table public.profiles
+  add column if not exists tier text not null default 'free';
+
+-- Legacy spellings from the outreach modal / pricing page
+update public.profiles
+set tier = case tier
+  when 'supporter' then 'faith_warrior'
+  when 'premium'   then 'faith_warrior'
+  when 'patron'    then 'kingdom_builder'
+  when 'leader'    then 'kingdom_builder'
+  else 'free'
+end
+where tier not in ('free','faith_warrior','kingdom_builder','admin');
+
+alter table public.profiles drop constraint if exists profiles_tier_check;
+alter table public.profiles
+  add constraint profiles_tier_check
+  check (tier in ('free','faith_warrior','kingdom_builder','admin'));
@@ -0,0 +1,145 @@
+-- 2026-10-18c Server-side daily outreach cap
+-- Plan caps mirror PLANS[*].dailyOutreachCap in src/lib/entitlements.ts;
+-- a row in user_daily_limits overrides the plan cap for that user.
+-- Idempotent.
+
+create table if not exists public.user_daily_limits (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  daily_limit integer not null check (daily_limit >= 0)
+);
+
+alter table public.user_daily_limits enable row level security;
+
+-- Users may see their own override; only the service role / SQL editor writes them.
+-- Earlier owner INSERT/UPDATE policies (2025-09-10_linter_fixes) would let users raise their own cap.
+do $$
+declare p record;
+begin
+  for p in
+    select policyname from pg_policies
+    where schemaname = 'public' and tablename = 'user_daily_limits'
+      and cmd in ('INSERT','UPDATE','DELETE','ALL')
+  loop
+    execute format('drop policy %I on public.user_daily_limits', p.policyname);
+  end loop;
+end $$;
+
+drop policy if exists "user_daily_limits_self_read" on public.user_daily_limits;
+create policy "user_daily_limits_self_read"
+on public.user_daily_limits
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- The cap (and every plan entitlement) follows profiles.tier, so clients may not set it:
+-- profiles_self_write / profiles_self_update cover whole rows. Stripe webhooks and admins
+-- write it with the service role or from the SQL editor.
+create or replace function public.profiles_guard_tier()
+returns trigger language plpgsql set search_path = public as $$
+begin
+  if current_user in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' and new.tier is distinct from 'free' then
+      raise exception 'tier is managed by billing' using errcode = '42501';
+    elsif tg_op = 'UPDATE' and new.tier is distinct from old.tier then
+      raise exception 'tier is managed by billing' using errcode = '42501';
+    end if;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_profiles_guard_tier on public.profiles;
+create trigger trg_profiles_guard_tier
+before insert or update on public.profiles
+for each row execute function public.profiles_guard_tier();
+
+create or replace function public.outreach_plan_cap(p_tier text)
+returns integer language sql immutable as $$
+  select case p_tier
+    when 'admin'           then 1000
+    when 'kingdom_builder' then 20
+    when 'faith_warrior'   then 10
+    else 5
+  end
+$$;
+
+-- Effective cap + where it came from ('override' | 'plan')
+create or replace function public.outreach_daily_cap(p_user uuid)
+returns table (cap integer, source text)
+language sql stable security definer set search_path = public as $$
+  select coalesce(l.daily_limit, outreach_plan_cap(p.tier)),
+         case when l.daily_limit is not null then 'override' else 'plan' end
+  from (select p_user as id) u
+  left join public.profiles p on p.id = u.id
+  left join public.user_daily_limits l on l.user_id = u.id
+$$;
+
+-- Quota for the signed-in user: { cap, used, remaining, source, day }.
+-- "used" = today's (UTC) queued + sent rows; failed/throttled rows don't consume quota.
+create or replace function public.outreach_quota()
+returns jsonb language plpgsql stable security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_day date := timezone('utc', now())::date;
+  v_cap integer;
+  v_source text;
+  v_used integer;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  select c.cap, c.source into v_cap, v_source from outreach_daily_cap(v_user) c;
+
+  select count(*)::int into v_used
+  from public.outreach_requests
+  where user_id = v_user and send_date = v_day and status in ('queued','sent');
+
+  return jsonb_build_object(
+    'cap', v_cap,
+    'used', v_used,
+    'remaining', greatest(v_cap - v_used, 0),
+    'source', v_source,
+    'day', v_day
+  );
+end $$;
+
+revoke all on function public.outreach_quota() from public;
+grant execute on function public.outreach_quota() to authenticated;
+
+-- Enforce at enqueue: a row becoming 'queued' once the cap is used up is stored as 'throttled'.
+-- Covers direct inserts, upserts and requeues (failed/throttled → queued) alike.
+create or replace function public.outreach_enforce_daily_cap()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v_day date;
+  v_cap integer;
+  v_used integer;
+begin
+  if new.status <> 'queued' then return new; end if;
+  if tg_op = 'UPDATE' and old.status = 'queued' then return new; end if;
+
+  v_day := coalesce(new.send_date, timezone('utc', now())::date);
+
+  -- Serialize enqueues per user/day so concurrent requests can't both see spare quota
+  perform pg_advisory_xact_lock(hashtext('outreach_cap:' || new.user_id || ':' || v_day));
+
+  select c.cap into v_cap from outreach_daily_cap(new.user_id) c;
+
+  -- Inline count (volatile context) so earlier rows of the same multi-row insert are seen
+  select count(*)::int into v_used
+  from public.outreach_requests
+  where user_id = new.user_id and send_date = v_day and status in ('queued','sent')
+    and id <> new.id;
+
+  if v_used >= v_cap then
+    new.status := 'throttled';
+    new.error := format('Daily outreach cap reached (%s per day)', v_cap);
+  end if;
+
+  return new;
+end $$;
+
+drop trigger if exists trg_outreach_daily_cap on public.outreach_requests;
+create trigger trg_outreach_daily_cap
+before insert or update of status on public.outreach_requests
+for each row execute function public.outreach_enforce_daily_cap();
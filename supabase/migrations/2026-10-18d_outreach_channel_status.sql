@@ -0,0 +1,10 @@
+-- 2026-10-18d Per-channel delivery status on outreach requests (email / x / facebook)
+-- channel_status = { "<channel>": { status: sent|intent|failed|skipped, at, to?, driver?,
+--                                    message_id?, post_url?, intent_url?, error? } }
+-- Idempotent.
+
+alter table public.outreach_requests
+  add column if not exists channel_status jsonb not null default '{}'::jsonb;
+
+-- Let the processor find social-only requests as cheaply as email ones
+create index if not exists idx_outreach_channels on public.outreach_requests using gin (channels);
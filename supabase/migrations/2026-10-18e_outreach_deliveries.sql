@@ -0,0 +1,73 @@
+-- 2026-10-18e One delivery record per (outreach request, channel)
+-- outreach_requests.status stays the roll-up ("sent" once any channel delivered);
+-- outreach_deliveries says what happened on each channel, e.g. email sent / x failed.
+-- Idempotent.
+
+create table if not exists public.outreach_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.outreach_requests(id) on delete cascade,
+  channel text not null,
+  status text not null default 'pending'
+    check (status in ('pending','sent','intent','failed','skipped')),
+  provider text,               -- mail driver / social driver that handled the last attempt
+  provider_message_id text,    -- Postmark MessageID, tweet id, Facebook post id, …
+  target text,                 -- email address, X handle or Facebook page
+  post_url text,
+  intent_url text,             -- share/intent link when the user publishes it themselves
+  error text,
+  attempt_count integer not null default 0,
+  last_attempt_at timestamptz,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (request_id, channel)
+);
+
+create index if not exists idx_outreach_deliveries_status on public.outreach_deliveries(status);
+create index if not exists idx_outreach_deliveries_provider_msg on public.outreach_deliveries(provider_message_id);
+
+drop trigger if exists trg_outreach_deliveries_updated_at on public.outreach_deliveries;
+create trigger trg_outreach_deliveries_updated_at
+before update on public.outreach_deliveries
+for each row execute function public.set_updated_at();
+
+alter table public.outreach_deliveries enable row level security;
+
+-- Owners read their own delivery records; only the processor (service role) writes
+drop policy if exists "outreach_deliveries_owner_read" on public.outreach_deliveries;
+create policy "outreach_deliveries_owner_read"
+on public.outreach_deliveries
+for select
+to authenticated
+using (
+  exists (
+    select 1 from public.outreach_requests r
+    where r.id = outreach_deliveries.request_id and r.user_id = auth.uid()
+  )
+);
+
+-- A pending record per requested channel, so analytics see queued work too
+create or replace function public.outreach_seed_deliveries()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  insert into public.outreach_deliveries(request_id, channel)
+  select new.id, ch from unnest(new.channels) as ch
+  on conflict (request_id, channel) do nothing;
+  return new;
+end $$;
+
+drop trigger if exists trg_outreach_seed_deliveries on public.outreach_requests;
+create trigger trg_outreach_seed_deliveries
+after insert or update of channels on public.outreach_requests
+for each row execute function public.outreach_seed_deliveries();
+
+-- Backfill existing requests from their roll-up status
+insert into public.outreach_deliveries(request_id, channel, status, error, attempt_count, last_attempt_at, sent_at)
+select r.id, ch,
+       case r.status when 'sent' then 'sent' when 'failed' then 'failed' else 'pending' end,
+       case when r.status = 'failed' then r.error end,
+       case when r.status in ('sent','failed') then 1 else 0 end,
+       case when r.status in ('sent','failed') then coalesce(r.sent_at, r.created_at) end,
+       case when r.status = 'sent' then r.sent_at end
+from public.outreach_requests r, unnest(r.channels) as ch
+on conflict (request_id, channel) do nothing;
@@ -0,0 +1,76 @@
+-- 2026-10-18f Outreach retries with backoff + dead letters
+-- Transient failures keep the request 'queued' with next_attempt_at in the future;
+-- permanent failures (or exhausted retries) land in outreach_dead_letters for admin replay.
+-- Idempotent.
+
+alter table public.outreach_requests
+  add column if not exists next_attempt_at timestamptz;
+
+create index if not exists idx_outreach_queue_due
+  on public.outreach_requests(next_attempt_at)
+  where status = 'queued';
+
+alter table public.outreach_deliveries
+  add column if not exists failure_reason text,
+  add column if not exists next_attempt_at timestamptz;
+
+create table if not exists public.outreach_dead_letters (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null references public.outreach_requests(id) on delete cascade,
+  channel text not null,
+  reason text not null,        -- FailureReason from netlify/lib/delivery-errors.ts
+  error text,
+  attempt_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  replayed_at timestamptz
+);
+
+-- At most one open dead letter per request/channel
+create unique index if not exists uq_outreach_dead_letters_open
+  on public.outreach_dead_letters(request_id, channel)
+  where replayed_at is null;
+create index if not exists idx_outreach_dead_letters_reason on public.outreach_dead_letters(reason);
+
+-- Admin-only (service role bypasses RLS)
+alter table public.outreach_dead_letters enable row level security;
+drop policy if exists "outreach_dead_letters_admin_only" on public.outreach_dead_letters;
+create policy "outreach_dead_letters_admin_only"
+on public.outreach_dead_letters
+for all
+to authenticated
+using (false)
+with check (false);
+
+-- The daily cap limits what users enqueue; processor retries and admin replays
+-- (service role) re-queue rows that already counted, so they skip the check.
+create or replace function public.outreach_enforce_daily_cap()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v_day date;
+  v_cap integer;
+  v_used integer;
+begin
+  if new.status <> 'queued' then return new; end if;
+  if tg_op = 'UPDATE' and old.status = 'queued' then return new; end if;
+  if coalesce(auth.role(), '') = 'service_role' then return new; end if;
+
+  v_day := coalesce(new.send_date, timezone('utc', now())::date);
+
+  -- Serialize enqueues per user/day so concurrent requests can't both see spare quota
+  perform pg_advisory_xact_lock(hashtext('outreach_cap:' || new.user_id || ':' || v_day));
+
+  select c.cap into v_cap from outreach_daily_cap(new.user_id) c;
+
+  -- Inline count (volatile context) so earlier rows of the same multi-row insert are seen
+  select count(*)::int into v_used
+  from public.outreach_requests
+  where user_id = new.user_id and send_date = v_day and status in ('queued','sent')
+    and id <> new.id;
+
+  if v_used >= v_cap then
+    new.status := 'throttled';
+    new.error := format('Daily outreach cap reached (%s per day)', v_cap);
+  end if;
+
+  return new;
+end $$;
@@ -0,0 +1,57 @@
+-- 2026-10-18g Scheduled outreach drain: per-row leases
+-- A run claims due rows by stamping locked_by/locked_until; overlapping runs (the
+-- schedule, an admin deliver_queued, a user's deliver_single) skip leased rows, so
+-- a request is never sent twice. An expired lease (crashed run) frees the row again.
+-- Idempotent.
+
+alter table public.outreach_requests
+  add column if not exists locked_by text,
+  add column if not exists locked_until timestamptz;
+
+create index if not exists idx_outreach_queue_created
+  on public.outreach_requests(created_at)
+  where status = 'queued';
+
+-- Claim up to p_limit due, unleased queued rows (optionally only p_ids) for p_lease_seconds.
+-- FOR UPDATE SKIP LOCKED keeps two concurrent claims from picking the same row.
+create or replace function public.claim_outreach_requests(
+  p_worker text,
+  p_limit integer,
+  p_lease_seconds integer,
+  p_channels text[],
+  p_ids uuid[] default null
+)
+returns setof uuid
+language sql volatile security definer set search_path = public as $$
+  update public.outreach_requests r
+  set locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds)
+  where r.id in (
+    select q.id
+    from public.outreach_requests q
+    where q.status = 'queued'
+      and q.channels && p_channels
+      and (q.next_attempt_at is null or q.next_attempt_at <= now())
+      and (q.locked_until is null or q.locked_until < now())
+      and (p_ids is null or q.id = any(p_ids))
+    order by q.created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning r.id
+$$;
+
+-- Drop the lease early (row finished, or the run ran out of budget before reaching it)
+create or replace function public.release_outreach_requests(p_worker text, p_ids uuid[])
+returns void
+language sql volatile security definer set search_path = public as $$
+  update public.outreach_requests
+  set locked_by = null, locked_until = null
+  where id = any(p_ids) and locked_by = p_worker
+$$;
+
+-- Processor only (service role)
+revoke all on function public.claim_outreach_requests(text, integer, integer, text[], uuid[]) from public, anon, authenticated;
+revoke all on function public.release_outreach_requests(text, uuid[]) from public, anon, authenticated;
+grant execute on function public.claim_outreach_requests(text, integer, integer, text[], uuid[]) to service_role;
+grant execute on function public.release_outreach_requests(text, uuid[]) to service_role;
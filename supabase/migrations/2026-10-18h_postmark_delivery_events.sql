@@ -0,0 +1,112 @@
+-- 2026-10-18h Postmark delivery / bounce / spam-complaint webhooks
+-- postmark-webhook correlates events to outreach_deliveries by provider_message_id,
+-- keeps per-address health, and marks an address bad after repeated hard bounces
+-- (the outreach processor skips bad addresses when picking a recipient).
+-- Idempotent.
+
+alter table public.outreach_deliveries
+  add column if not exists delivered_at timestamptz,
+  add column if not exists bounced_at timestamptz,
+  add column if not exists bounce_type text,        -- Postmark bounce Type, e.g. HardBounce
+  add column if not exists complained_at timestamptz;
+
+-- Ledger: Postmark retries webhooks, so each event is applied once
+create table if not exists public.postmark_events (
+  id text primary key,           -- "<RecordType>:<ID or MessageID>"
+  record_type text not null,
+  message_id text,
+  request_id uuid references public.outreach_requests(id) on delete set null,
+  payload jsonb not null,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz,
+  error text
+);
+
+create index if not exists idx_postmark_events_message on public.postmark_events(message_id);
+
+-- One row per recipient address (lowercased)
+create table if not exists public.email_address_health (
+  email text primary key check (email = lower(email)),
+  hard_bounces integer not null default 0,
+  soft_bounces integer not null default 0,
+  complaints integer not null default 0,
+  last_event_type text,
+  last_event_at timestamptz,
+  last_description text,
+  bad_since timestamptz,         -- set once hard_bounces reaches the threshold
+  bad_reason text,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_email_address_health_bad
+  on public.email_address_health(email)
+  where bad_since is not null;
+
+drop trigger if exists trg_email_address_health_updated_at on public.email_address_health;
+create trigger trg_email_address_health_updated_at
+before update on public.email_address_health
+for each row execute function public.set_updated_at();
+
+-- Admin-only (service role bypasses RLS)
+alter table public.postmark_events enable row level security;
+drop policy if exists "postmark_events_admin_only" on public.postmark_events;
+create policy "postmark_events_admin_only"
+on public.postmark_events
+for all
+to authenticated
+using (false)
+with check (false);
+
+alter table public.email_address_health enable row level security;
+drop policy if exists "email_address_health_admin_only" on public.email_address_health;
+create policy "email_address_health_admin_only"
+on public.email_address_health
+for all
+to authenticated
+using (false)
+with check (false);
+
+-- Atomically count one event for an address; returns true when the address is (now) bad.
+-- p_kind: 'hard' | 'soft' | 'complaint'
+create or replace function public.note_email_event(
+  p_email text,
+  p_kind text,
+  p_type text,
+  p_description text,
+  p_hard_bounce_threshold integer
+)
+returns boolean
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_row public.email_address_health;
+begin
+  insert into public.email_address_health as h (email, hard_bounces, soft_bounces, complaints, last_event_type, last_event_at, last_description)
+  values (
+    lower(trim(p_email)),
+    (p_kind = 'hard')::int,
+    (p_kind = 'soft')::int,
+    (p_kind = 'complaint')::int,
+    p_type, now(), p_description
+  )
+  on conflict (email) do update
+    set hard_bounces = h.hard_bounces + (p_kind = 'hard')::int,
+        soft_bounces = h.soft_bounces + (p_kind = 'soft')::int,
+        complaints = h.complaints + (p_kind = 'complaint')::int,
+        last_event_type = excluded.last_event_type,
+        last_event_at = excluded.last_event_at,
+        last_description = excluded.last_description
+  returning * into v_row;
+
+  if v_row.bad_since is null and v_row.hard_bounces >= p_hard_bounce_threshold then
+    update public.email_address_health
+    set bad_since = now(),
+        bad_reason = format('%s hard bounce(s); last: %s', v_row.hard_bounces, coalesce(p_type, 'HardBounce'))
+    where email = v_row.email;
+    return true;
+  end if;
+
+  return v_row.bad_since is not null;
+end $$;
+
+revoke all on function public.note_email_event(text, text, text, text, integer) from public, anon, authenticated;
+grant execute on function public.note_email_event(text, text, text, text, integer) to service_role;
@@ -0,0 +1,51 @@
+-- 2026-10-18i Contact-form outreach channel
+-- Per-office field mappings for representatives' web contact forms. The processor fills
+-- `fields` (form field name → template such as '{{user.first_name}}') and posts the form;
+-- email to a rep without a usable address falls back to this channel automatically.
+-- Idempotent.
+
+create table if not exists public.contact_form_mappings (
+  id uuid primary key default gen_random_uuid(),
+  representative_id uuid references public.representatives(id) on delete cascade,
+  form_url text not null,             -- page that renders the form (matches representatives.contact_form_url)
+  form_match text,                    -- substring of the <form> id/name/action when the page has several
+  action_url text,                    -- submit target override; default is the form's action
+  method text check (method in ('get','post')),  -- null: use the form's own method
+  fields jsonb not null default '{}'::jsonb,
+  success_pattern text,               -- regex the confirmation page must match
+  enabled boolean not null default true,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Earlier versions of this table defaulted method to 'post', which overrode GET forms
+alter table public.contact_form_mappings
+  alter column method drop not null,
+  alter column method drop default;
+
+-- One mapping per rep, and one office-wide mapping per form URL
+create unique index if not exists uq_contact_form_mappings_rep
+  on public.contact_form_mappings(representative_id)
+  where representative_id is not null;
+create unique index if not exists uq_contact_form_mappings_url
+  on public.contact_form_mappings(form_url)
+  where representative_id is null;
+
+drop trigger if exists trg_contact_form_mappings_updated_at on public.contact_form_mappings;
+create trigger trg_contact_form_mappings_updated_at
+before update on public.contact_form_mappings
+for each row execute function public.set_updated_at();
+
+-- Admin-only (service role bypasses RLS)
+alter table public.contact_form_mappings enable row level security;
+drop policy if exists "contact_form_mappings_admin_only" on public.contact_form_mappings;
+create policy "contact_form_mappings_admin_only"
+on public.contact_form_mappings
+for all
+to authenticated
+using (false)
+with check (false);
+
+comment on column public.outreach_requests.channels is
+  'subset of {email, x, facebook, contact_form}';
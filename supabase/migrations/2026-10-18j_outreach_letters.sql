@@ -0,0 +1,59 @@
+-- 2026-10-18j Print-and-mail letter channel
+-- The processor renders a PDF per letter request into the private `outreach-letters`
+-- bucket (<user_id>/<request_id>.pdf) and tracks it in outreach_letters until it is
+-- printed (batch) and mailed.
+-- Idempotent.
+
+-- Office mailing addresses: {line1, line2, city, state, zip}
+alter table public.representatives
+  add column if not exists district_office_address jsonb,
+  add column if not exists dc_office_address jsonb;
+
+create table if not exists public.outreach_letters (
+  id uuid primary key default gen_random_uuid(),
+  request_id uuid not null unique references public.outreach_requests(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  representative_id uuid references public.representatives(id) on delete set null,
+  storage_path text not null,
+  page_count integer not null default 1,
+  office_kind text not null check (office_kind in ('district','dc')),
+  mailing_address jsonb not null,
+  status text not null default 'ready' check (status in ('ready','printed','mailed')),
+  batch_path text,                 -- merged print job this letter went out in
+  printed_at timestamptz,
+  mailed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_outreach_letters_status on public.outreach_letters(status, created_at);
+create index if not exists idx_outreach_letters_user on public.outreach_letters(user_id);
+
+drop trigger if exists trg_outreach_letters_updated_at on public.outreach_letters;
+create trigger trg_outreach_letters_updated_at
+before update on public.outreach_letters
+for each row execute function public.set_updated_at();
+
+-- Owners read their own letters; only the processor (service role) writes
+alter table public.outreach_letters enable row level security;
+drop policy if exists "outreach_letters_owner_read" on public.outreach_letters;
+create policy "outreach_letters_owner_read"
+on public.outreach_letters
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- Private bucket; owners can download files under their own folder
+insert into storage.buckets (id, name, public)
+values ('outreach-letters', 'outreach-letters', false)
+on conflict (id) do nothing;
+
+drop policy if exists "outreach_letters_owner_download" on storage.objects;
+create policy "outreach_letters_owner_download"
+on storage.objects
+for select
+to authenticated
+using (bucket_id = 'outreach-letters' and (storage.foldername(name))[1] = auth.uid()::text);
+
+comment on column public.outreach_requests.channels is
+  'subset of {email, x, facebook, contact_form, letter}';
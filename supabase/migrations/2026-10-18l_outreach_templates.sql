@@ -0,0 +1,52 @@
+-- 2026-10-18l Outreach message templates
+-- Subject/body templates with {{variables}} (see src/lib/messageTemplates.ts) that the
+-- outreach processor resolves per representative. Users keep their own templates; admins
+-- can publish shared ones (is_shared) that every user sees in the outreach modal.
+-- Idempotent.
+
+create table if not exists public.outreach_templates (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  name text not null check (length(btrim(name)) between 1 and 80),
+  subject text not null default '',
+  body text not null check (length(body) <= 10000),
+  is_shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_outreach_templates_owner on public.outreach_templates(owner_id);
+create index if not exists idx_outreach_templates_shared on public.outreach_templates(is_shared) where is_shared;
+
+drop trigger if exists trg_outreach_templates_updated_at on public.outreach_templates;
+create trigger trg_outreach_templates_updated_at
+before update on public.outreach_templates
+for each row execute function public.set_updated_at();
+
+-- Which template a request was written from (kept when the template is deleted later)
+alter table public.outreach_requests
+  add column if not exists template_id uuid references public.outreach_templates(id) on delete set null;
+
+alter table public.outreach_templates enable row level security;
+
+drop policy if exists "outreach_templates_read" on public.outreach_templates;
+create policy "outreach_templates_read"
+on public.outreach_templates
+for select
+to authenticated
+using (is_shared or auth.uid() = owner_id);
+
+-- Owners manage their own templates; only admins may share one with everybody
+drop policy if exists "outreach_templates_owner_write" on public.outreach_templates;
+create policy "outreach_templates_owner_write"
+on public.outreach_templates
+for all
+to authenticated
+using (auth.uid() = owner_id)
+with check (
+  auth.uid() = owner_id
+  and (
+    not is_shared
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.tier = 'admin')
+  )
+);
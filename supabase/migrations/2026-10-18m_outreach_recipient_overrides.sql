@@ -0,0 +1,14 @@
+-- 2026-10-18m Per-recipient message overrides
+-- subject/body hold the message (or template) the user wrote for all selected reps;
+-- the override columns hold the version the user edited for this one recipient, and
+-- the processor sends those instead. Template variables in overrides are still resolved.
+-- Idempotent.
+
+alter table public.outreach_requests
+  add column if not exists subject_override text,
+  add column if not exists body_override text;
+
+comment on column public.outreach_requests.subject_override is
+  'per-recipient subject edited in the outreach preview; replaces subject when set';
+comment on column public.outreach_requests.body_override is
+  'per-recipient body edited in the outreach preview; replaces body when set';
@@ -0,0 +1,207 @@
+-- 2026-10-18n Coordinated outreach campaigns
+-- An organizer publishes a prayer + message template for a date window and a set of office
+-- kinds; each participant sends it to *their own* mapped representatives of those kinds.
+-- Requests carry campaign_id so the public landing page can show per-office totals.
+-- Idempotent.
+
+-- Office kinds a campaign can target (mirrored by CAMPAIGN_OFFICES in src/lib/campaigns.ts)
+create or replace function public.campaign_office_key(p_level text, p_chamber text)
+returns text language sql immutable as $$
+  select case
+    when p_level = 'federal' and p_chamber = 'senate' then 'us_senate'
+    when p_level = 'federal' and p_chamber = 'house' then 'us_house'
+    when p_level = 'state' and p_chamber in ('upper','senate') then 'state_upper'
+    when p_level = 'state' and p_chamber in ('lower','house') then 'state_lower'
+    when p_chamber = 'executive' then 'executive'
+    when p_level = 'local' then 'local'
+  end
+$$;
+
+create table if not exists public.outreach_campaigns (
+  id uuid primary key default gen_random_uuid(),
+  organizer_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  slug text not null unique check (slug ~ '^[a-z0-9][a-z0-9-]{2,63}$'),
+  title text not null check (length(btrim(title)) between 1 and 120),
+  description text check (description is null or length(description) <= 2000),
+  prayer_id uuid not null references public.prayers(id) on delete restrict,
+  subject text not null default '',
+  body text not null check (length(body) <= 10000),   -- template; see src/lib/messageTemplates.ts
+  target_offices text[] not null
+    check (cardinality(target_offices) > 0
+           and target_offices <@ array['us_senate','us_house','state_upper','state_lower','executive','local']),
+  starts_at timestamptz not null default now(),
+  ends_at timestamptz not null,
+  published boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+create index if not exists idx_outreach_campaigns_window on public.outreach_campaigns(starts_at, ends_at) where published;
+
+drop trigger if exists trg_outreach_campaigns_updated_at on public.outreach_campaigns;
+create trigger trg_outreach_campaigns_updated_at
+before update on public.outreach_campaigns
+for each row execute function public.set_updated_at();
+
+create table if not exists public.outreach_campaign_participants (
+  campaign_id uuid not null references public.outreach_campaigns(id) on delete cascade,
+  user_id uuid not null default auth.uid() references public.profiles(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (campaign_id, user_id)
+);
+
+create index if not exists idx_outreach_campaign_participants_user on public.outreach_campaign_participants(user_id);
+
+alter table public.outreach_requests
+  add column if not exists campaign_id uuid references public.outreach_campaigns(id) on delete set null;
+
+create index if not exists idx_outreach_requests_campaign on public.outreach_requests(campaign_id) where campaign_id is not null;
+
+-- ── RLS ────────────────────────────────────────────────────────────────────
+alter table public.outreach_campaigns enable row level security;
+
+-- Published campaigns are public (landing page); organizers also see their drafts
+drop policy if exists "outreach_campaigns_read" on public.outreach_campaigns;
+create policy "outreach_campaigns_read"
+on public.outreach_campaigns
+for select
+to anon, authenticated
+using (published or auth.uid() = organizer_id);
+
+-- Organizing is a Shepherd/admin feature (PLANS[*].features.ministryDashboard)
+drop policy if exists "outreach_campaigns_organizer_write" on public.outreach_campaigns;
+create policy "outreach_campaigns_organizer_write"
+on public.outreach_campaigns
+for all
+to authenticated
+using (auth.uid() = organizer_id)
+with check (
+  auth.uid() = organizer_id
+  and exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.tier in ('kingdom_builder','admin')
+  )
+);
+
+alter table public.outreach_campaign_participants enable row level security;
+
+drop policy if exists "outreach_campaign_participants_self_read" on public.outreach_campaign_participants;
+create policy "outreach_campaign_participants_self_read"
+on public.outreach_campaign_participants
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- Join only published campaigns that haven't ended; leave any time
+drop policy if exists "outreach_campaign_participants_self_join" on public.outreach_campaign_participants;
+create policy "outreach_campaign_participants_self_join"
+on public.outreach_campaign_participants
+for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.outreach_campaigns c
+    where c.id = campaign_id and c.published and c.ends_at > now()
+  )
+);
+
+drop policy if exists "outreach_campaign_participants_self_leave" on public.outreach_campaign_participants;
+create policy "outreach_campaign_participants_self_leave"
+on public.outreach_campaign_participants
+for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- ── Integrity: campaign requests ───────────────────────────────────────────
+-- A request tagged with a campaign must come from a participant, inside the window,
+-- for the campaign's prayer and one of its target office kinds.
+create or replace function public.outreach_check_campaign()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v_campaign public.outreach_campaigns%rowtype;
+  v_office text;
+begin
+  if new.campaign_id is null then return new; end if;
+  if tg_op = 'UPDATE' and new.campaign_id is not distinct from old.campaign_id then return new; end if;
+  if coalesce(auth.role(), '') = 'service_role' then return new; end if;
+
+  select * into v_campaign from public.outreach_campaigns where id = new.campaign_id;
+  if not found or not v_campaign.published then
+    raise exception 'campaign not found' using errcode = 'P0002';
+  end if;
+  if now() < v_campaign.starts_at or now() >= v_campaign.ends_at then
+    raise exception 'campaign "%" is not open for sending', v_campaign.title using errcode = 'P0001';
+  end if;
+  if new.prayer_id <> v_campaign.prayer_id then
+    raise exception 'campaign requests must use the campaign prayer' using errcode = '23514';
+  end if;
+  if not exists (
+    select 1 from public.outreach_campaign_participants
+    where campaign_id = new.campaign_id and user_id = new.user_id
+  ) then
+    raise exception 'join the campaign before sending' using errcode = '42501';
+  end if;
+
+  select campaign_office_key(r.level, r.chamber) into v_office
+  from public.representatives r where r.id = new.target_rep_id;
+  if v_office is null or not (v_office = any(v_campaign.target_offices)) then
+    raise exception 'representative is not a target of this campaign' using errcode = '23514';
+  end if;
+
+  return new;
+end $$;
+
+drop trigger if exists trg_outreach_check_campaign on public.outreach_requests;
+create trigger trg_outreach_check_campaign
+before insert or update of campaign_id on public.outreach_requests
+for each row execute function public.outreach_check_campaign();
+
+-- ── Public stats ───────────────────────────────────────────────────────────
+-- Aggregates only (no user ids): participants, request totals, and per representative
+-- office how many participants wrote and how many messages went out.
+create or replace function public.campaign_stats(p_campaign uuid)
+returns jsonb language plpgsql stable security definer set search_path = public as $$
+declare
+  v_campaign public.outreach_campaigns%rowtype;
+  v_result jsonb;
+begin
+  select * into v_campaign from public.outreach_campaigns where id = p_campaign;
+  if not found or not (v_campaign.published or v_campaign.organizer_id = auth.uid()) then
+    raise exception 'campaign not found' using errcode = 'P0002';
+  end if;
+
+  with reqs as (
+    select r.user_id, r.status, r.target_rep_id
+    from public.outreach_requests r
+    where r.campaign_id = p_campaign
+  ),
+  offices as (
+    select rep.id as rep_id, rep.name, rep.office_name, rep.state, rep.district,
+           campaign_office_key(rep.level, rep.chamber) as office_key,
+           count(distinct q.user_id)::int as participants,
+           count(*) filter (where q.status = 'sent')::int as sent,
+           count(*) filter (where q.status = 'queued')::int as queued,
+           count(*) filter (where q.status in ('failed','throttled'))::int as failed
+    from reqs q
+    join public.representatives rep on rep.id = q.target_rep_id
+    group by rep.id
+  )
+  select jsonb_build_object(
+    'participants', (select count(*)::int from public.outreach_campaign_participants where campaign_id = p_campaign),
+    'senders', (select count(distinct user_id)::int from reqs),
+    'sent', (select count(*)::int from reqs where status = 'sent'),
+    'queued', (select count(*)::int from reqs where status = 'queued'),
+    'failed', (select count(*)::int from reqs where status in ('failed','throttled')),
+    'offices', coalesce((
+      select jsonb_agg(to_jsonb(o) order by o.sent desc, o.participants desc, o.name)
+      from offices o
+    ), '[]'::jsonb)
+  ) into v_result;
+
+  return v_result;
+end $$;
+
+revoke all on function public.campaign_stats(uuid) from public;
+grant execute on function public.campaign_stats(uuid) to anon, authenticated;
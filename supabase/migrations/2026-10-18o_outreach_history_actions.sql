@@ -0,0 +1,102 @@
+-- 2026-10-18o Outreach history actions (My Outreach page)
+-- Users can retry their own failed/throttled requests and cancel their own queued ones.
+-- Requests have no user update/delete policy, so both go through security definer
+-- functions that only touch the caller's rows.
+-- Idempotent.
+
+-- Retry: failed/throttled → queued for today (so the retry counts against today's cap, not
+-- the day it first failed). Failed deliveries go back to pending and their open dead letters
+-- are closed, like the admin replay. Phone calls can't be retried here (the user places them),
+-- and a request is skipped when the same rep/prayer already has a request today.
+create or replace function public.retry_outreach_requests(p_ids uuid[])
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_day date := timezone('utc', now())::date;
+  v_req public.outreach_requests%rowtype;
+  v_queued int := 0;
+  v_throttled int := 0;
+  v_skipped int := 0;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  for v_req in
+    select * from public.outreach_requests
+    where id = any(p_ids) and user_id = v_user
+    order by created_at
+    for update
+  loop
+    if v_req.status not in ('failed','throttled')
+       or not exists (select 1 from unnest(v_req.channels) ch where ch <> 'call')
+       or exists (
+         select 1 from public.outreach_requests o
+         where o.user_id = v_user and o.prayer_id = v_req.prayer_id
+           and o.target_rep_id = v_req.target_rep_id and o.send_date = v_day and o.id <> v_req.id
+       ) then
+      v_skipped := v_skipped + 1;
+      continue;
+    end if;
+
+    update public.outreach_deliveries
+    set status = 'pending', attempt_count = 0, next_attempt_at = null, failure_reason = null, error = null
+    where request_id = v_req.id and channel <> 'call' and status = 'failed';
+
+    update public.outreach_dead_letters
+    set replayed_at = now()
+    where request_id = v_req.id and channel <> 'call' and replayed_at is null;
+
+    -- The daily-cap trigger may store it as throttled again
+    update public.outreach_requests
+    set status = 'queued', error = null, next_attempt_at = null, send_date = v_day
+    where id = v_req.id
+    returning * into v_req;
+
+    if v_req.status = 'queued' then
+      v_queued := v_queued + 1;
+    else
+      v_throttled := v_throttled + 1;
+    end if;
+  end loop;
+
+  return jsonb_build_object('queued', v_queued, 'throttled', v_throttled, 'skipped', v_skipped);
+end $$;
+
+revoke all on function public.retry_outreach_requests(uuid[]) from public, anon;
+grant execute on function public.retry_outreach_requests(uuid[]) to authenticated;
+
+-- Cancel: removes queued requests that nothing has gone out for yet. Rows the processor
+-- currently holds a lease on, or with a channel already sent, are left alone (skipped).
+create or replace function public.cancel_outreach_requests(p_ids uuid[])
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_cancelled int;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  with gone as (
+    delete from public.outreach_requests r
+    where r.id = any(p_ids)
+      and r.user_id = v_user
+      and r.status = 'queued'
+      and (r.locked_until is null or r.locked_until < now())
+      and not exists (
+        select 1 from public.outreach_deliveries d
+        where d.request_id = r.id and d.status in ('sent','intent')
+      )
+    returning 1
+  )
+  select count(*)::int into v_cancelled from gone;
+
+  return jsonb_build_object(
+    'cancelled', v_cancelled,
+    'skipped', coalesce(cardinality(p_ids), 0) - v_cancelled
+  );
+end $$;
+
+revoke all on function public.cancel_outreach_requests(uuid[]) from public, anon;
+grant execute on function public.cancel_outreach_requests(uuid[]) to authenticated;
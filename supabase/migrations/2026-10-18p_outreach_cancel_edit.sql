@@ -0,0 +1,176 @@
+-- 2026-10-18p Cancel and edit queued outreach
+-- Adds the 'cancelled' request status and lets owners edit or cancel their own requests
+-- until something has gone out. Cancelled rows keep their history (the old
+-- cancel_outreach_requests deleted them) and are never claimed by the processor
+-- (claim_outreach_requests only takes 'queued').
+-- Idempotent.
+
+alter table public.outreach_requests drop constraint if exists outreach_requests_status_check;
+alter table public.outreach_requests
+  add constraint outreach_requests_status_check
+  check (status in ('queued','sent','failed','throttled','cancelled'));
+
+do $$
+begin
+  if exists (select 1 from pg_type t join pg_namespace n on n.oid = t.typnamespace
+             where n.nspname = 'public' and t.typname = 'outreach_status') then
+    alter type public.outreach_status add value if not exists 'cancelled';
+  end if;
+end $$;
+
+-- ── Owner updates (RLS + column privileges) ────────────────────────────────
+-- Until this migration requests had no update policy, so client-side requeues and edits
+-- were silently dropped. Owners may now update a row while nothing has been delivered
+-- and the processor isn't holding it, and only move it between queued and cancelled
+-- (the daily-cap trigger may still turn queued into throttled).
+drop policy if exists "outreach_requests_owner_update_unsent" on public.outreach_requests;
+create policy "outreach_requests_owner_update_unsent"
+on public.outreach_requests
+for update
+to authenticated
+using (
+  auth.uid() = user_id
+  and status in ('queued','failed','throttled','cancelled')
+  and (locked_until is null or locked_until < now())
+  and not exists (
+    select 1 from public.outreach_deliveries d
+    where d.request_id = outreach_requests.id and d.status in ('sent','intent')
+  )
+)
+with check (
+  auth.uid() = user_id
+  and status in ('queued','throttled','cancelled')
+);
+
+-- Message and routing fields only; ownership, target, day, leases and delivery results
+-- stay with the processor (service role) and the security definer functions.
+revoke update on public.outreach_requests from anon, authenticated;
+grant update (status, error, subject, body, subject_override, body_override, template_id, campaign_id, channels)
+  on public.outreach_requests to authenticated;
+
+-- ── Cancellation ───────────────────────────────────────────────────────────
+-- Only queued requests can be cancelled, and only before any channel went out; their
+-- pending deliveries are marked skipped so analytics don't count them as waiting.
+create or replace function public.outreach_on_cancel()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  if new.status <> 'cancelled' or old.status = 'cancelled' then return new; end if;
+
+  if old.status <> 'queued' then
+    raise exception 'only queued requests can be cancelled (status=%)', old.status using errcode = '23514';
+  end if;
+  if exists (
+    select 1 from public.outreach_deliveries
+    where request_id = new.id and status in ('sent','intent')
+  ) then
+    raise exception 'request was already partly delivered' using errcode = '23514';
+  end if;
+
+  update public.outreach_deliveries
+  set status = 'skipped', error = 'Cancelled by user', next_attempt_at = null
+  where request_id = new.id and status = 'pending';
+
+  new.error := null;
+  new.next_attempt_at := null;
+  return new;
+end $$;
+
+drop trigger if exists trg_outreach_on_cancel on public.outreach_requests;
+create trigger trg_outreach_on_cancel
+before update of status on public.outreach_requests
+for each row execute function public.outreach_on_cancel();
+
+-- Same contract as before (ids in, counts out) but rows are marked cancelled, not deleted
+create or replace function public.cancel_outreach_requests(p_ids uuid[])
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_cancelled int;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  with done as (
+    update public.outreach_requests r
+    set status = 'cancelled'
+    where r.id = any(p_ids)
+      and r.user_id = v_user
+      and r.status = 'queued'
+      and (r.locked_until is null or r.locked_until < now())
+      and not exists (
+        select 1 from public.outreach_deliveries d
+        where d.request_id = r.id and d.status in ('sent','intent')
+      )
+    returning 1
+  )
+  select count(*)::int into v_cancelled from done;
+
+  return jsonb_build_object(
+    'cancelled', v_cancelled,
+    'skipped', coalesce(cardinality(p_ids), 0) - v_cancelled
+  );
+end $$;
+
+revoke all on function public.cancel_outreach_requests(uuid[]) from public, anon;
+grant execute on function public.cancel_outreach_requests(uuid[]) to authenticated;
+
+-- Retry now also re-queues cancelled requests; their skipped deliveries go back to pending
+create or replace function public.retry_outreach_requests(p_ids uuid[])
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_day date := timezone('utc', now())::date;
+  v_req public.outreach_requests%rowtype;
+  v_queued int := 0;
+  v_throttled int := 0;
+  v_skipped int := 0;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  for v_req in
+    select * from public.outreach_requests
+    where id = any(p_ids) and user_id = v_user
+    order by created_at
+    for update
+  loop
+    if v_req.status not in ('failed','throttled','cancelled')
+       or not exists (select 1 from unnest(v_req.channels) ch where ch <> 'call')
+       or exists (
+         select 1 from public.outreach_requests o
+         where o.user_id = v_user and o.prayer_id = v_req.prayer_id
+           and o.target_rep_id = v_req.target_rep_id and o.send_date = v_day and o.id <> v_req.id
+       ) then
+      v_skipped := v_skipped + 1;
+      continue;
+    end if;
+
+    update public.outreach_deliveries
+    set status = 'pending', attempt_count = 0, next_attempt_at = null, failure_reason = null, error = null
+    where request_id = v_req.id and channel <> 'call'
+      and (status = 'failed' or (status = 'skipped' and v_req.status = 'cancelled'));
+
+    update public.outreach_dead_letters
+    set replayed_at = now()
+    where request_id = v_req.id and channel <> 'call' and replayed_at is null;
+
+    -- The daily-cap trigger may store it as throttled again
+    update public.outreach_requests
+    set status = 'queued', error = null, next_attempt_at = null, send_date = v_day
+    where id = v_req.id
+    returning * into v_req;
+
+    if v_req.status = 'queued' then
+      v_queued := v_queued + 1;
+    else
+      v_throttled := v_throttled + 1;
+    end if;
+  end loop;
+
+  return jsonb_build_object('queued', v_queued, 'throttled', v_throttled, 'skipped', v_skipped);
+end $$;
+
+revoke all on function public.retry_outreach_requests(uuid[]) from public, anon;
+grant execute on function public.retry_outreach_requests(uuid[]) to authenticated;
@@ -0,0 +1,47 @@
+-- 2026-10-18q Scheduled outreach sends
+-- deliver_after holds a queued request until the chosen time (e.g. the morning of a vote,
+-- or office hours in the rep's timezone). The request counts toward the cap of the day it
+-- was queued, like any other send.
+-- Idempotent.
+
+alter table public.outreach_requests
+  add column if not exists deliver_after timestamptz;
+
+create index if not exists idx_outreach_queue_scheduled
+  on public.outreach_requests(deliver_after)
+  where status = 'queued' and deliver_after is not null;
+
+-- Owners may reschedule their own unsent requests (policy from 2026-10-18p)
+grant update (deliver_after) on public.outreach_requests to authenticated;
+
+-- Same as 2026-10-18g, plus: not before deliver_after
+create or replace function public.claim_outreach_requests(
+  p_worker text,
+  p_limit integer,
+  p_lease_seconds integer,
+  p_channels text[],
+  p_ids uuid[] default null
+)
+returns setof uuid
+language sql volatile security definer set search_path = public as $$
+  update public.outreach_requests r
+  set locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_lease_seconds)
+  where r.id in (
+    select q.id
+    from public.outreach_requests q
+    where q.status = 'queued'
+      and q.channels && p_channels
+      and (q.next_attempt_at is null or q.next_attempt_at <= now())
+      and (q.deliver_after is null or q.deliver_after <= now())
+      and (q.locked_until is null or q.locked_until < now())
+      and (p_ids is null or q.id = any(p_ids))
+    order by coalesce(q.deliver_after, q.created_at)
+    limit p_limit
+    for update skip locked
+  )
+  returning r.id
+$$;
+
+revoke all on function public.claim_outreach_requests(text, integer, integer, text[], uuid[]) from public, anon, authenticated;
+grant execute on function public.claim_outreach_requests(text, integer, integer, text[], uuid[]) to service_role;
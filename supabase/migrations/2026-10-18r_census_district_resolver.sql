@@ -0,0 +1,65 @@
+-- 2026-10-18r Offline district resolver
+-- Census reference data loaded by scripts/census-import.ts, so districts resolve without
+-- the live Census geocoder:
+--   census_zcta_districts   ZCTA → congressional / state-legislative district relationships,
+--                           with the share of the ZCTA's land area inside each district
+--   census_district_shapes  TIGER/Line district polygons (NAD83) for point-in-polygon lookups
+-- kind: 'cd' (U.S. House), 'sldu' (state senate), 'sldl' (state house/assembly).
+-- district follows user_addresses: '7', 'At-Large', or the state's own code (e.g. 'CHI-1').
+-- Idempotent.
+
+create extension if not exists postgis with schema extensions;
+
+create table if not exists public.census_zcta_districts (
+  zcta text not null,
+  kind text not null check (kind in ('cd','sldu','sldl')),
+  geoid text not null,
+  state text not null,
+  district text not null,
+  land_part bigint not null default 0,
+  overlap_pct numeric(5,2) not null check (overlap_pct between 0 and 100),
+  vintage text not null,
+  primary key (zcta, kind, geoid)
+);
+
+create index if not exists idx_census_zcta_districts_state
+  on public.census_zcta_districts(kind, state);
+
+create table if not exists public.census_district_shapes (
+  kind text not null check (kind in ('cd','sldu','sldl')),
+  geoid text not null,
+  state text not null,
+  district text not null,
+  name text,
+  vintage text not null,
+  geom extensions.geometry(MultiPolygon, 4269) not null,
+  primary key (kind, geoid)
+);
+
+create index if not exists idx_census_district_shapes_geom
+  on public.census_district_shapes using gist (geom);
+
+-- Public reference data: readable by everyone, written only by the importer (service role)
+alter table public.census_zcta_districts enable row level security;
+alter table public.census_district_shapes enable row level security;
+
+drop policy if exists "census_zcta_districts_read" on public.census_zcta_districts;
+create policy "census_zcta_districts_read"
+on public.census_zcta_districts for select to anon, authenticated using (true);
+
+drop policy if exists "census_district_shapes_read" on public.census_district_shapes;
+create policy "census_district_shapes_read"
+on public.census_district_shapes for select to anon, authenticated using (true);
+
+-- Districts containing a point. WGS84 coordinates are used as NAD83 as-is (the datums
+-- differ by about a meter in the lower 48, well inside TIGER's own accuracy).
+create or replace function public.resolve_districts_at(p_lat double precision, p_lng double precision)
+returns table (kind text, geoid text, state text, district text, name text)
+language sql stable set search_path = public, extensions as $$
+  select s.kind, s.geoid, s.state, s.district, s.name
+  from public.census_district_shapes s
+  where st_covers(s.geom, st_setsrid(st_makepoint(p_lng, p_lat), 4269))
+  order by s.kind, s.geoid
+$$;
+
+grant execute on function public.resolve_districts_at(double precision, double precision) to anon, authenticated;
@@ -0,0 +1,15 @@
+-- 2026-10-18s How a user's districts were determined
+-- district_source on the primary address:
+--   geocoded      a street address (or coordinates) resolved to exactly these districts
+--   user_chosen   the ZIP spans several districts and the user picked this combination
+--   zip_majority  only the ZIP was known; these are the districts holding most of it
+-- null when no districts are on file (or they predate this column).
+-- Idempotent.
+
+alter table public.user_addresses
+  add column if not exists district_source text;
+
+alter table public.user_addresses drop constraint if exists user_addresses_district_source_check;
+alter table public.user_addresses
+  add constraint user_addresses_district_source_check
+  check (district_source in ('geocoded','user_chosen','zip_majority'));
@@ -0,0 +1,38 @@
+-- 2026-10-18t Rep matching by OCD division
+-- Rep assignment (src/lib/reps.ts) now joins a user's divisions through
+-- representative_divisions, so every representative must be linked to its own division.
+-- Only civic-sync wrote links so far; reps-sync, state-reps-sync and seeds only set
+-- representatives.division_id. A trigger now keeps that link, and existing rows are backfilled.
+-- Also lets the Census importer load county and place polygons for point lookups.
+-- Idempotent.
+
+create or replace function public.representatives_link_division()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  if tg_op = 'UPDATE' and old.division_id is distinct from new.division_id and old.division_id is not null then
+    delete from public.representative_divisions
+    where rep_id = new.id and ocd_division_id = old.division_id;
+  end if;
+
+  if new.division_id is not null then
+    insert into public.representative_divisions (rep_id, ocd_division_id)
+    values (new.id, new.division_id)
+    on conflict (rep_id, ocd_division_id) do nothing;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_representatives_link_division on public.representatives;
+create trigger trg_representatives_link_division
+after insert or update of division_id on public.representatives
+for each row execute function public.representatives_link_division();
+
+insert into public.representative_divisions (rep_id, ocd_division_id)
+select id, division_id from public.representatives where division_id is not null
+on conflict (rep_id, ocd_division_id) do nothing;
+
+-- ── Census county and place polygons (district = county / place name) ──────
+alter table public.census_district_shapes drop constraint if exists census_district_shapes_kind_check;
+alter table public.census_district_shapes
+  add constraint census_district_shapes_kind_check
+  check (kind in ('cd','sldu','sldl','county','place'));
@@ -0,0 +1,93 @@
+-- 2026-10-18u Nationwide roster sync
+-- roster-sync keeps every member of Congress and every state legislator current, keyed by
+-- stable external ids instead of replacing rows per district:
+--   representatives.bioguide_id    Congress.gov / Bioguide id (federal legislators)
+--   representatives.openstates_id  OpenStates person id, e.g. 'ocd-person/…' (state legislators)
+-- Members who leave are marked inactive, never deleted. Each run is logged in
+-- representative_sync_runs, and what it changed in representative_changes.
+-- Idempotent.
+
+alter table public.representatives
+  add column if not exists bioguide_id text,
+  add column if not exists openstates_id text,
+  add column if not exists details_synced_at timestamptz;  -- Congress.gov member detail (website, office, phone)
+
+create unique index if not exists representatives_bioguide_id_key
+  on public.representatives(bioguide_id);
+create unique index if not exists representatives_openstates_id_key
+  on public.representatives(openstates_id);
+
+create table if not exists public.representative_sync_runs (
+  id uuid primary key default gen_random_uuid(),
+  scope text not null,           -- 'us' (Congress) or a state code (its legislature)
+  source text not null check (source in ('congress','openstates')),
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  members integer,               -- roster size the source returned
+  added integer not null default 0,
+  updated integer not null default 0,
+  removed integer not null default 0,
+  error text
+);
+
+create index if not exists idx_representative_sync_runs_scope
+  on public.representative_sync_runs(scope, started_at desc);
+
+-- One row per representative a sync added, changed or retired.
+-- fields: { "<column>": { "from": …, "to": … } } for each column that changed.
+create table if not exists public.representative_changes (
+  id bigserial primary key,
+  run_id uuid references public.representative_sync_runs(id) on delete set null,  -- null for on-demand seeding
+  rep_id uuid references public.representatives(id) on delete set null,
+  source text not null check (source in ('congress','openstates')),
+  change text not null check (change in ('added','updated','removed')),
+  external_id text,
+  name text not null,
+  office_name text,
+  state text,
+  district text,
+  fields jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_representative_changes_rep
+  on public.representative_changes(rep_id, created_at desc);
+create index if not exists idx_representative_changes_created
+  on public.representative_changes(created_at desc);
+
+-- Admin-only (service role bypasses RLS)
+alter table public.representative_sync_runs enable row level security;
+drop policy if exists "representative_sync_runs_admin_only" on public.representative_sync_runs;
+create policy "representative_sync_runs_admin_only"
+on public.representative_sync_runs
+for all
+to authenticated
+using (false)
+with check (false);
+
+alter table public.representative_changes enable row level security;
+drop policy if exists "representative_changes_admin_only" on public.representative_changes;
+create policy "representative_changes_admin_only"
+on public.representative_changes
+for all
+to authenticated
+using (false)
+with check (false);
+
+-- Outreach history must keep its representative: refuse to delete one it references
+-- (outreach_requests.target_rep_id is NOT NULL, and letters would lose their addressee).
+create or replace function public.representatives_guard_delete()
+returns trigger language plpgsql set search_path = public as $$
+begin
+  if exists (select 1 from public.outreach_requests where target_rep_id = old.id)
+     or exists (select 1 from public.outreach_letters where representative_id = old.id) then
+    raise exception 'representative % is referenced by outreach history; mark it inactive instead', old.id
+      using errcode = '23503';
+  end if;
+  return old;
+end $$;
+
+drop trigger if exists trg_representatives_guard_delete on public.representatives;
+create trigger trg_representatives_guard_delete
+before delete on public.representatives
+for each row execute function public.representatives_guard_delete();
@@ -0,0 +1,84 @@
+-- 2026-10-18v Share links waiting on the user
+-- The default social driver posts nothing: it builds an X intent / Facebook share URL that
+-- the user still has to open (outreach_deliveries.status = 'intent', link in intent_url).
+-- A request whose only outcome is such a link is now 'pending_user' instead of 'sent', so
+-- history and analytics don't report posts that never happened. It still uses the day's
+-- quota like a send.
+-- Idempotent.
+
+alter table public.outreach_requests drop constraint if exists outreach_requests_status_check;
+alter table public.outreach_requests
+  add constraint outreach_requests_status_check
+  check (status in ('queued','sent','pending_user','failed','throttled','cancelled'));
+
+do $$
+begin
+  if exists (select 1 from pg_type t join pg_namespace n on n.oid = t.typnamespace
+             where n.nspname = 'public' and t.typname = 'outreach_status') then
+    alter type public.outreach_status add value if not exists 'pending_user';
+  end if;
+end $$;
+
+-- "used" = today's (UTC) queued, sent and pending_user rows
+create or replace function public.outreach_quota()
+returns jsonb language plpgsql stable security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_day date := timezone('utc', now())::date;
+  v_cap integer;
+  v_source text;
+  v_used integer;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  select c.cap, c.source into v_cap, v_source from outreach_daily_cap(v_user) c;
+
+  select count(*)::int into v_used
+  from public.outreach_requests
+  where user_id = v_user and send_date = v_day and status in ('queued','sent','pending_user');
+
+  return jsonb_build_object(
+    'cap', v_cap,
+    'used', v_used,
+    'remaining', greatest(v_cap - v_used, 0),
+    'source', v_source,
+    'day', v_day
+  );
+end $$;
+
+revoke all on function public.outreach_quota() from public;
+grant execute on function public.outreach_quota() to authenticated;
+
+create or replace function public.outreach_enforce_daily_cap()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v_day date;
+  v_cap integer;
+  v_used integer;
+begin
+  if new.status <> 'queued' then return new; end if;
+  if tg_op = 'UPDATE' and old.status = 'queued' then return new; end if;
+  if coalesce(auth.role(), '') = 'service_role' then return new; end if;
+
+  v_day := coalesce(new.send_date, timezone('utc', now())::date);
+
+  -- Serialize enqueues per user/day so concurrent requests can't both see spare quota
+  perform pg_advisory_xact_lock(hashtext('outreach_cap:' || new.user_id || ':' || v_day));
+
+  select c.cap into v_cap from outreach_daily_cap(new.user_id) c;
+
+  -- Inline count (volatile context) so earlier rows of the same multi-row insert are seen
+  select count(*)::int into v_used
+  from public.outreach_requests
+  where user_id = new.user_id and send_date = v_day and status in ('queued','sent','pending_user')
+    and id <> new.id;
+
+  if v_used >= v_cap then
+    new.status := 'throttled';
+    new.error := format('Daily outreach cap reached (%s per day)', v_cap);
+  end if;
+
+  return new;
+end $$;
@@ -0,0 +1,40 @@
+-- 2026-10-18w The daily cap counts requests under today's date
+-- outreach_enforce_daily_cap counted a row under whatever send_date it carried, so a client
+-- could insert (or requeue) rows dated another day and get past the cap. Rows that users
+-- queue are now always dated today (UTC); the service role (processor retries, admin
+-- replays) keeps the date the row already counted under. send_date is not in the
+-- authenticated column grants (2026-10-18p / q), so it can't be changed afterwards.
+-- Idempotent.
+
+create or replace function public.outreach_enforce_daily_cap()
+returns trigger language plpgsql security definer set search_path = public as $$
+declare
+  v_day date;
+  v_cap integer;
+  v_used integer;
+begin
+  if new.status <> 'queued' then return new; end if;
+  if tg_op = 'UPDATE' and old.status = 'queued' then return new; end if;
+  if coalesce(auth.role(), '') = 'service_role' then return new; end if;
+
+  v_day := timezone('utc', now())::date;
+  new.send_date := v_day;
+
+  -- Serialize enqueues per user/day so concurrent requests can't both see spare quota
+  perform pg_advisory_xact_lock(hashtext('outreach_cap:' || new.user_id || ':' || v_day));
+
+  select c.cap into v_cap from outreach_daily_cap(new.user_id) c;
+
+  -- Inline count (volatile context) so earlier rows of the same multi-row insert are seen
+  select count(*)::int into v_used
+  from public.outreach_requests
+  where user_id = new.user_id and send_date = v_day and status in ('queued','sent','pending_user')
+    and id <> new.id;
+
+  if v_used >= v_cap then
+    new.status := 'throttled';
+    new.error := format('Daily outreach cap reached (%s per day)', v_cap);
+  end if;
+
+  return new;
+end $$;
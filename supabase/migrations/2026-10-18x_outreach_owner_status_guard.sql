@@ -0,0 +1,43 @@
+-- 2026-10-18x Owners can't re-queue requests with a plain UPDATE
+-- outreach_requests_owner_update_unsent (2026-10-18p) let owners set status back to
+-- 'queued' on a failed or cancelled row, which kept the row's old send_date and skipped
+-- retry_outreach_requests (today's date, cap check, delivery reset). Owners may still edit
+-- a request's message and routing fields until something goes out, but the only status
+-- change they can make directly is to 'cancelled' (checked by outreach_on_cancel). Re-queues
+-- go through retry_outreach_requests, whose updates run as the function owner.
+-- Idempotent.
+
+drop policy if exists "outreach_requests_owner_update_unsent" on public.outreach_requests;
+create policy "outreach_requests_owner_update_unsent"
+on public.outreach_requests
+for update
+to authenticated
+using (
+  auth.uid() = user_id
+  and status in ('queued','failed','throttled','cancelled')
+  and (locked_until is null or locked_until < now())
+  and not exists (
+    select 1 from public.outreach_deliveries d
+    where d.request_id = outreach_requests.id and d.status in ('sent','intent')
+  )
+)
+with check (
+  auth.uid() = user_id
+  and status in ('queued','failed','throttled','cancelled')
+);
+
+create or replace function public.outreach_requests_owner_status_guard()
+returns trigger language plpgsql set search_path = public as $$
+begin
+  if current_user in ('authenticated', 'anon')
+     and new.status is distinct from old.status
+     and new.status <> 'cancelled' then
+    raise exception 'use retry_outreach_requests to re-queue a request' using errcode = '42501';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_outreach_requests_owner_status_guard on public.outreach_requests;
+create trigger trg_outreach_requests_owner_status_guard
+before update of status on public.outreach_requests
+for each row execute function public.outreach_requests_owner_status_guard();
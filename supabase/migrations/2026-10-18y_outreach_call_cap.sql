@@ -0,0 +1,110 @@
+-- 2026-10-18y Only calls that got through are held to the daily cap
+-- log_outreach_call (2026-10-18k) raised the cap error for any call on a throttled request,
+-- so a busy line on a request already over the cap couldn't be logged. The cap now applies
+-- only when the outcome moves the request to queued or sent (reached_staff / voicemail). A
+-- busy call leaves a throttled, cancelled or pending_user request in its status; a connected
+-- call on a cancelled request counts again like one on a failed or throttled request.
+-- Idempotent.
+
+create or replace function public.log_outreach_call(
+  p_prayer_id uuid,
+  p_rep_id uuid,
+  p_outcome text,
+  p_phone text default null,
+  p_notes text default null
+)
+returns jsonb language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_day date := timezone('utc', now())::date;
+  v_connected boolean := p_outcome in ('reached_staff','voicemail');
+  v_req public.outreach_requests%rowtype;
+  v_prior text;      -- status of today's request before this call (null = new request)
+  v_status text;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  if p_outcome is null or p_outcome not in ('reached_staff','voicemail','busy') then
+    raise exception 'unknown call outcome: %', p_outcome using errcode = '22023';
+  end if;
+  if not exists (select 1 from public.prayers where id = p_prayer_id) then
+    raise exception 'prayer not found' using errcode = 'P0002';
+  end if;
+  if not exists (select 1 from public.representatives where id = p_rep_id) then
+    raise exception 'representative not found' using errcode = 'P0002';
+  end if;
+
+  select * into v_req
+  from public.outreach_requests
+  where user_id = v_user and prayer_id = p_prayer_id and target_rep_id = p_rep_id and send_date = v_day
+  for update;
+
+  if not found then
+    -- Enter as 'queued' so the daily-cap trigger decides, exactly as for an enqueue
+    insert into public.outreach_requests (user_id, prayer_id, target_rep_id, channels, status, send_date)
+    values (v_user, p_prayer_id, p_rep_id, array['call'],
+            case when v_connected then 'queued' else 'failed' end, v_day)
+    returning * into v_req;
+  else
+    v_prior := v_req.status;
+    if not ('call' = any(v_req.channels)) then
+      update public.outreach_requests
+      set channels = array_append(channels, 'call')
+      where id = v_req.id;
+    end if;
+    -- A failed/throttled/cancelled request the user now got through on counts again
+    if v_connected and v_req.status in ('failed','throttled','cancelled') then
+      update public.outreach_requests
+      set status = 'queued', error = null
+      where id = v_req.id
+      returning * into v_req;
+    end if;
+  end if;
+
+  -- Only a call that got through uses quota; a busy line is logged whatever the cap says
+  if v_connected and v_req.status = 'throttled' then
+    raise exception '%', coalesce(v_req.error, 'Daily outreach cap reached') using errcode = 'P0001';
+  end if;
+
+  -- The 'call' delivery was seeded by outreach_seed_deliveries; repeat calls update it
+  update public.outreach_deliveries
+  set status = case when v_connected then 'sent' else 'failed' end,
+      call_outcome = p_outcome,
+      provider = 'phone',
+      target = nullif(btrim(p_phone), ''),
+      notes = nullif(btrim(p_notes), ''),
+      error = case when v_connected then null else 'Line busy' end,
+      attempt_count = attempt_count + 1,
+      last_attempt_at = now(),
+      sent_at = case when v_connected then now() else sent_at end
+  where request_id = v_req.id and channel = 'call';
+
+  -- Roll-up: a request still queued for its other channels stays with the processor;
+  -- otherwise it is sent once anything (this call included) got through
+  v_status := case
+    when v_prior = 'queued' then 'queued'
+    when v_connected or v_prior = 'sent' then 'sent'
+    when v_prior in ('throttled','cancelled','pending_user') then v_prior
+    else 'failed'
+  end;
+
+  update public.outreach_requests
+  set status = v_status,
+      sent_at = case when v_status = 'sent' then coalesce(sent_at, now()) else sent_at end,
+      error = case when v_status = 'failed' then coalesce(error, 'call: Line busy') else error end,
+      channel_status = coalesce(channel_status, '{}'::jsonb) || jsonb_build_object(
+        'call', jsonb_build_object(
+          'status', case when v_connected then 'sent' else 'failed' end,
+          'at', now(),
+          'to', nullif(btrim(p_phone), ''),
+          'outcome', p_outcome
+        )
+      )
+  where id = v_req.id;
+
+  return jsonb_build_object('request_id', v_req.id, 'status', v_status, 'outcome', p_outcome);
+end $$;
+
+revoke all on function public.log_outreach_call(uuid, uuid, text, text, text) from public, anon;
+grant execute on function public.log_outreach_call(uuid, uuid, text, text, text) to authenticated;
@@ -0,0 +1,70 @@
+-- 2026-10-18z Count each Postmark event against an address once
+-- postmark-webhook records every event in postmark_events before handling it, but a retry
+-- of an event whose handling failed after note_email_event (or one Postmark redelivers)
+-- bumped the address's bounce/complaint counters again, and could mark it bad early.
+-- note_email_event now takes the ledger id and counts only while that row has no
+-- counted_at; the claim and the counters commit together.
+-- Idempotent.
+
+alter table public.postmark_events
+  add column if not exists counted_at timestamptz;   -- set when the event was counted in email_address_health
+
+drop function if exists public.note_email_event(text, text, text, text, integer);
+
+-- Atomically count ledger event p_event_id for an address, once; returns true when the
+-- address is (now) bad. p_kind: 'hard' | 'soft' | 'complaint'
+create or replace function public.note_email_event(
+  p_event_id text,
+  p_email text,
+  p_kind text,
+  p_type text,
+  p_description text,
+  p_hard_bounce_threshold integer
+)
+returns boolean
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_row public.email_address_health;
+begin
+  update public.postmark_events
+  set counted_at = now()
+  where id = p_event_id and counted_at is null;
+
+  -- Unknown or already counted: report the address as it stands
+  if not found then
+    return exists (
+      select 1 from public.email_address_health
+      where email = lower(trim(p_email)) and bad_since is not null
+    );
+  end if;
+
+  insert into public.email_address_health as h (email, hard_bounces, soft_bounces, complaints, last_event_type, last_event_at, last_description)
+  values (
+    lower(trim(p_email)),
+    (p_kind = 'hard')::int,
+    (p_kind = 'soft')::int,
+    (p_kind = 'complaint')::int,
+    p_type, now(), p_description
+  )
+  on conflict (email) do update
+    set hard_bounces = h.hard_bounces + (p_kind = 'hard')::int,
+        soft_bounces = h.soft_bounces + (p_kind = 'soft')::int,
+        complaints = h.complaints + (p_kind = 'complaint')::int,
+        last_event_type = excluded.last_event_type,
+        last_event_at = excluded.last_event_at,
+        last_description = excluded.last_description
+  returning * into v_row;
+
+  if v_row.bad_since is null and v_row.hard_bounces >= p_hard_bounce_threshold then
+    update public.email_address_health
+    set bad_since = now(),
+        bad_reason = format('%s hard bounce(s); last: %s', v_row.hard_bounces, coalesce(p_type, 'HardBounce'))
+    where email = v_row.email;
+    return true;
+  end if;
+
+  return v_row.bad_since is not null;
+end $$;
+
+revoke all on function public.note_email_event(text, text, text, text, text, integer) from public, anon, authenticated;
+grant execute on function public.note_email_event(text, text, text, text, text, integer) to service_role;
@@ -0,0 +1,41 @@
+-- 2026-10-19 The user's Stripe customer on their profile
+-- create-checkout-session stores the customer it creates here, and checkout, the billing
+-- portal and the webhooks reuse it. Stripe's customer search lags behind creates, so two
+-- checkouts in a row could each create a customer.
+-- Idempotent.
+
+alter table public.profiles
+  add column if not exists stripe_customer_id text;
+
+create unique index if not exists uq_profiles_stripe_customer_id
+  on public.profiles(stripe_customer_id)
+  where stripe_customer_id is not null;
+
+-- Backfill from each user's most recent subscription
+update public.profiles p
+set stripe_customer_id = s.stripe_customer_id
+from (
+  select distinct on (user_id) user_id, stripe_customer_id
+  from public.subscriptions
+  where stripe_customer_id is not null
+  order by user_id, created_at desc
+) s
+where p.id = s.user_id
+  and p.stripe_customer_id is null
+  and not exists (select 1 from public.profiles o where o.stripe_customer_id = s.stripe_customer_id);
+
+-- Billing fields are written with the service role only: tier (2026-10-18c) and now the
+-- Stripe customer, which decides whose billing portal a user is sent to.
+create or replace function public.profiles_guard_tier()
+returns trigger language plpgsql set search_path = public as $$
+begin
+  if current_user in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' and (new.tier is distinct from 'free' or new.stripe_customer_id is not null) then
+      raise exception 'billing fields are managed by billing' using errcode = '42501';
+    elsif tg_op = 'UPDATE' and (new.tier is distinct from old.tier
+                                or new.stripe_customer_id is distinct from old.stripe_customer_id) then
+      raise exception 'billing fields are managed by billing' using errcode = '42501';
+    end if;
+  end if;
+  return new;
+end $$;